@@ -0,0 +1,5 @@
+-- Drop users table
+DROP TABLE IF EXISTS users CASCADE;
+
+-- Drop the updated_at trigger function shared by later tables
+DROP FUNCTION IF EXISTS update_updated_at_column() CASCADE;
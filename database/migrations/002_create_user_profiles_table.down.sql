@@ -0,0 +1,2 @@
+-- Drop user_profiles table
+DROP TABLE IF EXISTS user_profiles CASCADE;
@@ -0,0 +1,2 @@
+-- Drop user_reports table
+DROP TABLE IF EXISTS user_reports CASCADE;
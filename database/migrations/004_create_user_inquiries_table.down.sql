@@ -0,0 +1,2 @@
+-- Drop user_inquiries table
+DROP TABLE IF EXISTS user_inquiries CASCADE;
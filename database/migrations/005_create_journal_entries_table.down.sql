@@ -0,0 +1,2 @@
+-- Drop journal_entries table
+DROP TABLE IF EXISTS journal_entries CASCADE;
@@ -0,0 +1,25 @@
+-- Create journal_entries table
+CREATE TABLE IF NOT EXISTS journal_entries (
+    entry_id SERIAL PRIMARY KEY,
+    user_id VARCHAR(255) NOT NULL,
+    content TEXT NOT NULL CHECK (LENGTH(content) BETWEEN 1 AND 2000),
+    entry_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT fk_journal_entries_user_id FOREIGN KEY (user_id)
+        REFERENCES users(user_id) ON DELETE CASCADE
+);
+
+-- Create indexes for query optimization
+CREATE INDEX IF NOT EXISTS idx_journal_entries_user_id ON journal_entries(user_id);
+CREATE INDEX IF NOT EXISTS idx_journal_entries_user_date ON journal_entries(user_id, entry_date);
+
+-- Create trigger to automatically update updated_at timestamp
+CREATE TRIGGER update_journal_entries_updated_at BEFORE UPDATE ON journal_entries
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comments for documentation
+COMMENT ON TABLE journal_entries IS 'Individual records written in the journal (기록실)';
+COMMENT ON COLUMN journal_entries.user_id IS 'Foreign key to users table';
+COMMENT ON COLUMN journal_entries.content IS 'Entry text (1-2000 characters)';
+COMMENT ON COLUMN journal_entries.entry_date IS 'Calendar day the entry belongs to, as seen by the writer';
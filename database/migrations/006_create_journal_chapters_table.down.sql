@@ -0,0 +1,2 @@
+-- Drop journal_chapters table
+DROP TABLE IF EXISTS journal_chapters CASCADE;
@@ -0,0 +1,31 @@
+-- Create journal_chapters table
+CREATE TABLE IF NOT EXISTS journal_chapters (
+    chapter_id SERIAL PRIMARY KEY,
+    user_id VARCHAR(255) NOT NULL,
+    chapter_date DATE NOT NULL,
+    title VARCHAR(100) NOT NULL,
+    preview TEXT,
+    summary TEXT,
+    entry_count INTEGER NOT NULL DEFAULT 0 CHECK (entry_count >= 0),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT fk_journal_chapters_user_id FOREIGN KEY (user_id)
+        REFERENCES users(user_id) ON DELETE CASCADE,
+    CONSTRAINT uq_journal_chapters_user_date UNIQUE (user_id, chapter_date)
+);
+
+-- Create indexes for query optimization
+CREATE INDEX IF NOT EXISTS idx_journal_chapters_user_date ON journal_chapters(user_id, chapter_date DESC);
+
+-- Create trigger to automatically update updated_at timestamp
+CREATE TRIGGER update_journal_chapters_updated_at BEFORE UPDATE ON journal_chapters
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comments for documentation
+COMMENT ON TABLE journal_chapters IS 'A day of journal entries registered to the history (히스토리)';
+COMMENT ON COLUMN journal_chapters.chapter_date IS 'Day whose journal_entries make up this chapter';
+COMMENT ON COLUMN journal_chapters.title IS 'Chapter title (max 100 characters)';
+COMMENT ON COLUMN journal_chapters.preview IS 'Short excerpt shown in the history list';
+COMMENT ON COLUMN journal_chapters.summary IS 'Summary of the day''s entries';
+COMMENT ON COLUMN journal_chapters.entry_count IS 'Number of entries when the chapter was last registered';
+COMMENT ON CONSTRAINT uq_journal_chapters_user_date ON journal_chapters IS 'One chapter per user per day';
@@ -0,0 +1,5 @@
+-- Remove summary tracking columns from journal_chapters
+ALTER TABLE journal_chapters
+    DROP COLUMN IF EXISTS summary_provider,
+    DROP COLUMN IF EXISTS summary_source_hash,
+    DROP COLUMN IF EXISTS summarized_at;
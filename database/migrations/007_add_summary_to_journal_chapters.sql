@@ -0,0 +1,10 @@
+-- Track how and from what each chapter summary was generated
+ALTER TABLE journal_chapters
+    ADD COLUMN IF NOT EXISTS summary_provider VARCHAR(50),
+    ADD COLUMN IF NOT EXISTS summary_source_hash VARCHAR(64),
+    ADD COLUMN IF NOT EXISTS summarized_at TIMESTAMP NULL;
+
+-- Add comments for documentation
+COMMENT ON COLUMN journal_chapters.summary_provider IS 'Name of the summary provider that produced summary (e.g. extractive)';
+COMMENT ON COLUMN journal_chapters.summary_source_hash IS 'SHA-256 of the entries the summary was generated from; a mismatch means the summary is stale';
+COMMENT ON COLUMN journal_chapters.summarized_at IS 'Timestamp when summary was last generated';
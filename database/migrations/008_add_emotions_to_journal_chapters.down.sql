@@ -0,0 +1,3 @@
+-- Remove emotions from journal_chapters
+ALTER TABLE journal_chapters
+    DROP COLUMN IF EXISTS emotions;
@@ -0,0 +1,6 @@
+-- Store the emotions detected in each chapter's entries
+ALTER TABLE journal_chapters
+    ADD COLUMN IF NOT EXISTS emotions JSONB NULL;
+
+-- Add comments for documentation
+COMMENT ON COLUMN journal_chapters.emotions IS 'Detected emotions as [{type, label, percentage}], strongest first; percentages add up to 100';
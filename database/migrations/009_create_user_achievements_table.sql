@@ -0,0 +1,19 @@
+-- Create user_achievements table
+CREATE TABLE IF NOT EXISTS user_achievements (
+    achievement_id SERIAL PRIMARY KEY,
+    user_id VARCHAR(255) NOT NULL,
+    achievement_key VARCHAR(50) NOT NULL,
+    unlocked_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT fk_user_achievements_user_id FOREIGN KEY (user_id)
+        REFERENCES users(user_id) ON DELETE CASCADE,
+    CONSTRAINT uq_user_achievements_user_key UNIQUE (user_id, achievement_key)
+);
+
+-- Create indexes for query optimization
+CREATE INDEX IF NOT EXISTS idx_user_achievements_user_id ON user_achievements(user_id);
+
+-- Add comments for documentation
+COMMENT ON TABLE user_achievements IS 'Achievements (업적) unlocked by each user';
+COMMENT ON COLUMN user_achievements.achievement_key IS 'Key of the achievement rule (e.g. streak_7, photos_100)';
+COMMENT ON COLUMN user_achievements.unlocked_at IS 'Timestamp when the achievement was first unlocked';
+COMMENT ON CONSTRAINT uq_user_achievements_user_key ON user_achievements IS 'Each achievement is unlocked at most once per user';
@@ -0,0 +1,6 @@
+-- Remove timezone columns
+ALTER TABLE journal_entries
+    DROP COLUMN IF EXISTS timezone;
+
+ALTER TABLE user_profiles
+    DROP COLUMN IF EXISTS timezone;
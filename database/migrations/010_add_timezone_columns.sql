@@ -0,0 +1,10 @@
+-- Store the user's timezone and the timezone each entry was written in
+ALTER TABLE user_profiles
+    ADD COLUMN IF NOT EXISTS timezone VARCHAR(64) NOT NULL DEFAULT 'Asia/Seoul';
+
+ALTER TABLE journal_entries
+    ADD COLUMN IF NOT EXISTS timezone VARCHAR(64) NULL;
+
+-- Add comments for documentation
+COMMENT ON COLUMN user_profiles.timezone IS 'IANA timezone (e.g. Asia/Seoul) that defines the user''s day boundaries';
+COMMENT ON COLUMN journal_entries.timezone IS 'IANA timezone the entry was written in; NULL falls back to the profile timezone';
@@ -0,0 +1,2 @@
+-- Drop library_items table
+DROP TABLE IF EXISTS library_items CASCADE;
@@ -0,0 +1,34 @@
+-- Create library_items table
+CREATE TABLE IF NOT EXISTS library_items (
+    item_id UUID PRIMARY KEY,
+    user_id VARCHAR(255) NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    type VARCHAR(20) NOT NULL CHECK (type IN ('image', 'document', 'file', 'video')),
+    visibility VARCHAR(10) NOT NULL DEFAULT 'private' CHECK (visibility IN ('public', 'private')),
+    mime_type VARCHAR(255) NOT NULL,
+    size BIGINT NOT NULL CHECK (size >= 0),
+    storage_driver VARCHAR(20) NOT NULL,
+    storage_key VARCHAR(512) NOT NULL,
+    thumbnail TEXT,
+    preview TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT fk_library_items_user_id FOREIGN KEY (user_id)
+        REFERENCES users(user_id) ON DELETE CASCADE
+);
+
+-- Create indexes for query optimization
+CREATE INDEX IF NOT EXISTS idx_library_items_user_type ON library_items(user_id, type, created_at DESC);
+
+-- Create trigger to automatically update updated_at timestamp
+CREATE TRIGGER update_library_items_updated_at BEFORE UPDATE ON library_items
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comments for documentation
+COMMENT ON TABLE library_items IS 'Files uploaded to the library (라이브러리)';
+COMMENT ON COLUMN library_items.type IS 'Library category: image, document, file, or video';
+COMMENT ON COLUMN library_items.visibility IS 'public or private';
+COMMENT ON COLUMN library_items.storage_driver IS 'Storage driver holding the file content (e.g. local)';
+COMMENT ON COLUMN library_items.storage_key IS 'Key of the file content within the storage driver';
+COMMENT ON COLUMN library_items.thumbnail IS 'Thumbnail URL, if one has been generated';
+COMMENT ON COLUMN library_items.preview IS 'Text preview for documents';
@@ -0,0 +1,29 @@
+-- Create jobs table (background job queue)
+CREATE TABLE IF NOT EXISTS jobs (
+    job_id BIGSERIAL PRIMARY KEY,
+    type VARCHAR(100) NOT NULL,
+    payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 3,
+    run_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    locked_at TIMESTAMP,
+    last_error TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create indexes for query optimization
+CREATE INDEX IF NOT EXISTS idx_jobs_pending ON jobs(run_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_jobs_running ON jobs(locked_at) WHERE status = 'running';
+
+-- Create trigger to automatically update updated_at timestamp
+CREATE TRIGGER update_jobs_updated_at BEFORE UPDATE ON jobs
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comments for documentation
+COMMENT ON TABLE jobs IS 'Background jobs, claimed by workers with FOR UPDATE SKIP LOCKED';
+COMMENT ON COLUMN jobs.type IS 'Job handler name (e.g. library.process)';
+COMMENT ON COLUMN jobs.status IS 'pending, running, completed, or failed (after max_attempts)';
+COMMENT ON COLUMN jobs.run_at IS 'Earliest time the job may run; pushed back on retry';
+COMMENT ON COLUMN jobs.locked_at IS 'When a worker claimed the job; stale running jobs are reclaimed';
@@ -0,0 +1,12 @@
+-- Remove media processing columns from library_items and restore the thumbnail URL column
+ALTER TABLE library_items
+    ADD COLUMN IF NOT EXISTS thumbnail TEXT;
+
+ALTER TABLE library_items
+    DROP COLUMN IF EXISTS width,
+    DROP COLUMN IF EXISTS height,
+    DROP COLUMN IF EXISTS thumbnail_key,
+    DROP COLUMN IF EXISTS preview_key,
+    DROP COLUMN IF EXISTS processing_status;
+
+COMMENT ON COLUMN library_items.thumbnail IS 'Thumbnail URL, if one has been generated';
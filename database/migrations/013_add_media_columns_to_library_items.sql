@@ -0,0 +1,20 @@
+-- Store generated thumbnails and previews, and media metadata, on library items
+ALTER TABLE library_items
+    ADD COLUMN IF NOT EXISTS width INTEGER,
+    ADD COLUMN IF NOT EXISTS height INTEGER,
+    ADD COLUMN IF NOT EXISTS thumbnail_key VARCHAR(512),
+    ADD COLUMN IF NOT EXISTS preview_key VARCHAR(512),
+    ADD COLUMN IF NOT EXISTS processing_status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (processing_status IN ('pending', 'ready', 'failed'));
+
+-- Thumbnails are now generated artifacts in storage rather than URLs
+ALTER TABLE library_items
+    DROP COLUMN IF EXISTS thumbnail;
+
+-- Add comments for documentation
+COMMENT ON COLUMN library_items.width IS 'Width in pixels of an image, video, or rendered first page';
+COMMENT ON COLUMN library_items.height IS 'Height in pixels of an image, video, or rendered first page';
+COMMENT ON COLUMN library_items.thumbnail_key IS 'Storage key of the generated WebP thumbnail';
+COMMENT ON COLUMN library_items.preview_key IS 'Storage key of the generated JPEG preview (images)';
+COMMENT ON COLUMN library_items.preview IS 'Text snippet for documents';
+COMMENT ON COLUMN library_items.processing_status IS 'Thumbnail/preview generation status: pending, ready, or failed';
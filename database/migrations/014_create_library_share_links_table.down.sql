@@ -0,0 +1,2 @@
+-- Drop library_share_links table
+DROP TABLE IF EXISTS library_share_links CASCADE;
@@ -0,0 +1,23 @@
+-- Create library_share_links table
+CREATE TABLE IF NOT EXISTS library_share_links (
+    link_id SERIAL PRIMARY KEY,
+    item_id UUID NOT NULL,
+    user_id VARCHAR(255) NOT NULL,
+    token VARCHAR(64) NOT NULL UNIQUE,
+    expires_at TIMESTAMP,
+    revoked_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT fk_library_share_links_item_id FOREIGN KEY (item_id)
+        REFERENCES library_items(item_id) ON DELETE CASCADE,
+    CONSTRAINT fk_library_share_links_user_id FOREIGN KEY (user_id)
+        REFERENCES users(user_id) ON DELETE CASCADE
+);
+
+-- Create indexes for query optimization
+CREATE INDEX IF NOT EXISTS idx_library_share_links_item_id ON library_share_links(item_id);
+
+-- Add comments for documentation
+COMMENT ON TABLE library_share_links IS 'Public share links for library items';
+COMMENT ON COLUMN library_share_links.token IS 'Unguessable random token used in the share URL (/s/:token)';
+COMMENT ON COLUMN library_share_links.expires_at IS 'Time after which the link stops working; NULL never expires';
+COMMENT ON COLUMN library_share_links.revoked_at IS 'Time the link was revoked, by the owner or by the item becoming private';
@@ -0,0 +1,5 @@
+-- Remove the reviewing moderator from user_reports
+DROP INDEX IF EXISTS idx_user_reports_status_created_at;
+
+ALTER TABLE user_reports
+    DROP COLUMN IF EXISTS reviewed_by;
@@ -0,0 +1,10 @@
+-- Record which moderator handled each report
+ALTER TABLE user_reports
+    ADD COLUMN IF NOT EXISTS reviewed_by VARCHAR(255) NULL
+        REFERENCES users(user_id) ON DELETE SET NULL;
+
+-- Create index for filtering reports by status and date on the admin console
+CREATE INDEX IF NOT EXISTS idx_user_reports_status_created_at ON user_reports(status, created_at DESC);
+
+-- Add comments for documentation
+COMMENT ON COLUMN user_reports.reviewed_by IS 'User ID of the moderator who last changed the report status';
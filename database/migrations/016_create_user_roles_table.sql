@@ -0,0 +1,17 @@
+-- Create user_roles table
+CREATE TABLE IF NOT EXISTS user_roles (
+    user_id VARCHAR(255) NOT NULL,
+    role VARCHAR(20) NOT NULL CHECK (role IN ('user', 'moderator', 'admin')),
+    granted_by VARCHAR(255) NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (user_id, role),
+    CONSTRAINT fk_user_roles_user_id FOREIGN KEY (user_id)
+        REFERENCES users(user_id) ON DELETE CASCADE,
+    CONSTRAINT fk_user_roles_granted_by FOREIGN KEY (granted_by)
+        REFERENCES users(user_id) ON DELETE SET NULL
+);
+
+-- Add comments for documentation
+COMMENT ON TABLE user_roles IS 'Roles granted to users in addition to their Cognito groups';
+COMMENT ON COLUMN user_roles.role IS 'Granted role: user, moderator, or admin (admin implies moderator)';
+COMMENT ON COLUMN user_roles.granted_by IS 'User ID of the admin who granted the role; NULL when granted directly in the database';
@@ -0,0 +1,2 @@
+-- Drop inquiry_messages table
+DROP TABLE IF EXISTS inquiry_messages CASCADE;
@@ -0,0 +1,29 @@
+-- Record which staff member answered each inquiry
+ALTER TABLE user_inquiries
+    ADD COLUMN IF NOT EXISTS answered_by VARCHAR(255) NULL
+        REFERENCES users(user_id) ON DELETE SET NULL;
+
+-- Create inquiry_messages table
+CREATE TABLE IF NOT EXISTS inquiry_messages (
+    message_id SERIAL PRIMARY KEY,
+    inquiry_id INTEGER NOT NULL,
+    author_id VARCHAR(255) NULL,
+    author_role VARCHAR(20) NOT NULL CHECK (author_role IN ('user', 'staff')),
+    body TEXT NOT NULL CHECK (LENGTH(body) <= 2000),
+    is_internal BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT fk_inquiry_messages_inquiry_id FOREIGN KEY (inquiry_id)
+        REFERENCES user_inquiries(inquiry_id) ON DELETE CASCADE,
+    CONSTRAINT fk_inquiry_messages_author_id FOREIGN KEY (author_id)
+        REFERENCES users(user_id) ON DELETE SET NULL,
+    CONSTRAINT internal_notes_by_staff CHECK (NOT is_internal OR author_role = 'staff')
+);
+
+-- Create indexes for query optimization
+CREATE INDEX IF NOT EXISTS idx_inquiry_messages_inquiry_id ON inquiry_messages(inquiry_id, created_at);
+
+-- Add comments for documentation
+COMMENT ON TABLE inquiry_messages IS 'Follow-up messages, staff responses and internal notes on user inquiries';
+COMMENT ON COLUMN inquiry_messages.author_role IS 'Who wrote the message: user (the inquirer) or staff';
+COMMENT ON COLUMN inquiry_messages.is_internal IS 'Internal staff note, never shown to the user';
+COMMENT ON COLUMN user_inquiries.answered_by IS 'User ID of the staff member who wrote the latest response';
@@ -0,0 +1,2 @@
+-- Drop user_sanctions table
+DROP TABLE IF EXISTS user_sanctions CASCADE;
@@ -0,0 +1,33 @@
+-- Create user_sanctions table
+CREATE TABLE IF NOT EXISTS user_sanctions (
+    sanction_id SERIAL PRIMARY KEY,
+    user_id VARCHAR(255) NOT NULL,
+    action VARCHAR(20) NOT NULL CHECK (action IN ('flag', 'suspend', 'escalate')),
+    reason TEXT NOT NULL,
+    report_count INTEGER NULL,
+    ends_at TIMESTAMP NULL,
+    created_by VARCHAR(255) NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    lifted_at TIMESTAMP NULL,
+    lifted_by VARCHAR(255) NULL,
+    CONSTRAINT fk_user_sanctions_user_id FOREIGN KEY (user_id)
+        REFERENCES users(user_id) ON DELETE CASCADE,
+    CONSTRAINT fk_user_sanctions_created_by FOREIGN KEY (created_by)
+        REFERENCES users(user_id) ON DELETE SET NULL,
+    CONSTRAINT fk_user_sanctions_lifted_by FOREIGN KEY (lifted_by)
+        REFERENCES users(user_id) ON DELETE SET NULL
+);
+
+-- Create indexes for query optimization
+CREATE INDEX IF NOT EXISTS idx_user_sanctions_user_id ON user_sanctions(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_user_sanctions_active_suspensions
+    ON user_sanctions(user_id, ends_at)
+    WHERE action = 'suspend' AND lifted_at IS NULL;
+
+-- Add comments for documentation
+COMMENT ON TABLE user_sanctions IS 'Sanction history: flags, suspensions and escalations to moderators';
+COMMENT ON COLUMN user_sanctions.action IS 'flag (marked for attention), suspend (users.status = inactive until ends_at), or escalate (needs moderator review)';
+COMMENT ON COLUMN user_sanctions.report_count IS 'Reports within the threshold window when the sanction was applied automatically';
+COMMENT ON COLUMN user_sanctions.ends_at IS 'End of a suspension; NULL for other actions';
+COMMENT ON COLUMN user_sanctions.created_by IS 'Moderator who applied the sanction; NULL when applied automatically';
+COMMENT ON COLUMN user_sanctions.lifted_at IS 'Time the sanction was lifted, by a moderator or when a suspension ended';
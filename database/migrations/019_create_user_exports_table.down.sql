@@ -0,0 +1,2 @@
+-- Drop user_exports table
+DROP TABLE IF EXISTS user_exports CASCADE;
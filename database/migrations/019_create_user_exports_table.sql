@@ -0,0 +1,25 @@
+-- Create user_exports table
+CREATE TABLE IF NOT EXISTS user_exports (
+    export_id UUID PRIMARY KEY,
+    user_id VARCHAR(255) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'expired')),
+    storage_driver VARCHAR(50) NULL,
+    storage_key VARCHAR(1024) NULL,
+    size BIGINT NULL,
+    error TEXT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    completed_at TIMESTAMP NULL,
+    expires_at TIMESTAMP NULL,
+    CONSTRAINT fk_user_exports_user_id FOREIGN KEY (user_id)
+        REFERENCES users(user_id) ON DELETE CASCADE
+);
+
+-- Create indexes for query optimization
+CREATE INDEX IF NOT EXISTS idx_user_exports_user_id ON user_exports(user_id, created_at DESC);
+
+-- Add comments for documentation
+COMMENT ON TABLE user_exports IS 'Personal data exports: ZIP archives of a user''s data built by the exports.build job';
+COMMENT ON COLUMN user_exports.status IS 'pending (queued), processing, completed (archive ready), failed, or expired (archive deleted)';
+COMMENT ON COLUMN user_exports.storage_key IS 'Key of the archive in the storage driver; set once completed';
+COMMENT ON COLUMN user_exports.expires_at IS 'Time the archive is deleted; set once completed';
@@ -0,0 +1,21 @@
+-- Create user_settings table
+CREATE TABLE IF NOT EXISTS user_settings (
+    user_id VARCHAR(255) PRIMARY KEY,
+    theme VARCHAR(10) NOT NULL DEFAULT 'night' CHECK (theme IN ('night', 'day')),
+    language VARCHAR(5) NOT NULL DEFAULT 'ko' CHECK (language IN ('ko', 'en', 'ja')),
+    notifications_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT fk_user_settings_user_id FOREIGN KEY (user_id)
+        REFERENCES users(user_id) ON DELETE CASCADE
+);
+
+-- Create trigger to automatically update updated_at timestamp
+CREATE TRIGGER update_user_settings_updated_at BEFORE UPDATE ON user_settings
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comments for documentation
+COMMENT ON TABLE user_settings IS 'Per-user preferences applied by the frontend on every device';
+COMMENT ON COLUMN user_settings.theme IS 'Library theme: night (night-library) or day (day-library)';
+COMMENT ON COLUMN user_settings.language IS 'Display language: ko, en or ja';
+COMMENT ON COLUMN user_settings.notifications_enabled IS 'Whether the user receives notifications';
@@ -0,0 +1,24 @@
+-- Create notifications table
+CREATE TABLE IF NOT EXISTS notifications (
+    notification_id UUID PRIMARY KEY,
+    user_id VARCHAR(255) NOT NULL,
+    type VARCHAR(30) NOT NULL
+        CHECK (type IN ('inquiry_answered', 'report_resolved', 'writing_reminder', 'achievement_unlocked')),
+    title VARCHAR(200) NOT NULL,
+    body TEXT NOT NULL,
+    link VARCHAR(500) NULL,
+    read_at TIMESTAMP NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT fk_notifications_user_id FOREIGN KEY (user_id)
+        REFERENCES users(user_id) ON DELETE CASCADE
+);
+
+-- Create indexes for query optimization
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON notifications(user_id) WHERE read_at IS NULL;
+
+-- Add comments for documentation
+COMMENT ON TABLE notifications IS 'In-app notifications shown in the notification center; email and push deliveries are sent from the same rows';
+COMMENT ON COLUMN notifications.type IS 'inquiry_answered, report_resolved, writing_reminder or achievement_unlocked';
+COMMENT ON COLUMN notifications.link IS 'Frontend path opened when the notification is clicked';
+COMMENT ON COLUMN notifications.read_at IS 'Time the user read the notification; NULL while unread';
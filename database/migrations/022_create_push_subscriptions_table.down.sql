@@ -0,0 +1,2 @@
+-- Drop push_subscriptions table
+DROP TABLE IF EXISTS push_subscriptions CASCADE;
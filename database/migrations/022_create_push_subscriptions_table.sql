@@ -0,0 +1,20 @@
+-- Create push_subscriptions table
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+    subscription_id SERIAL PRIMARY KEY,
+    user_id VARCHAR(255) NOT NULL,
+    endpoint VARCHAR(1000) NOT NULL UNIQUE,
+    p256dh VARCHAR(255) NOT NULL,
+    auth VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT fk_push_subscriptions_user_id FOREIGN KEY (user_id)
+        REFERENCES users(user_id) ON DELETE CASCADE
+);
+
+-- Create indexes for query optimization
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user_id ON push_subscriptions(user_id);
+
+-- Add comments for documentation
+COMMENT ON TABLE push_subscriptions IS 'Web Push subscriptions of the browsers a user enabled notifications on';
+COMMENT ON COLUMN push_subscriptions.endpoint IS 'Push service URL; removed when the push service reports it expired';
+COMMENT ON COLUMN push_subscriptions.p256dh IS 'Browser public key used to encrypt push messages';
+COMMENT ON COLUMN push_subscriptions.auth IS 'Browser authentication secret used to encrypt push messages';
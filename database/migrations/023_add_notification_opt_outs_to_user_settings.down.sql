@@ -0,0 +1,3 @@
+-- Remove notification opt-outs from user_settings
+ALTER TABLE user_settings
+    DROP COLUMN IF EXISTS notification_opt_outs;
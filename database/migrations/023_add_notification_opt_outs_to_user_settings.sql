@@ -0,0 +1,6 @@
+-- Store the notification types each user turned off
+ALTER TABLE user_settings
+    ADD COLUMN IF NOT EXISTS notification_opt_outs VARCHAR(30)[] NOT NULL DEFAULT '{}';
+
+-- Add comments for documentation
+COMMENT ON COLUMN user_settings.notification_opt_outs IS 'Notification types the user doesn''t want (e.g. writing_reminder)';
@@ -0,0 +1,2 @@
+-- Drop reminder_schedules table
+DROP TABLE IF EXISTS reminder_schedules CASCADE;
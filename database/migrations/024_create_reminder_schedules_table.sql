@@ -0,0 +1,27 @@
+-- Create reminder_schedules table
+CREATE TABLE IF NOT EXISTS reminder_schedules (
+    user_id VARCHAR(255) PRIMARY KEY,
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    remind_at TIME NOT NULL,
+    weekdays SMALLINT[] NOT NULL DEFAULT '{0,1,2,3,4,5,6}',
+    timezone VARCHAR(64) NOT NULL DEFAULT 'Asia/Seoul',
+    last_sent_on DATE NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT fk_reminder_schedules_user_id FOREIGN KEY (user_id)
+        REFERENCES users(user_id) ON DELETE CASCADE
+);
+
+-- Create indexes for query optimization
+CREATE INDEX IF NOT EXISTS idx_reminder_schedules_enabled ON reminder_schedules(remind_at) WHERE enabled;
+
+-- Create trigger to automatically update updated_at timestamp
+CREATE TRIGGER update_reminder_schedules_updated_at BEFORE UPDATE ON reminder_schedules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comments for documentation
+COMMENT ON TABLE reminder_schedules IS 'Daily writing reminder schedule of each user, sent by the reminder scheduler';
+COMMENT ON COLUMN reminder_schedules.remind_at IS 'Local time of day the reminder is sent';
+COMMENT ON COLUMN reminder_schedules.weekdays IS 'Days the reminder is sent on, 0 (Sunday) to 6 (Saturday)';
+COMMENT ON COLUMN reminder_schedules.timezone IS 'IANA timezone remind_at and weekdays are interpreted in';
+COMMENT ON COLUMN reminder_schedules.last_sent_on IS 'Local date of the last reminder; claimed atomically so each day is sent at most once';
@@ -0,0 +1,16 @@
+-- Create rate_limit_buckets table
+-- UNLOGGED: counters are short-lived and may be lost on a crash
+CREATE UNLOGGED TABLE IF NOT EXISTS rate_limit_buckets (
+    bucket_key VARCHAR(255) PRIMARY KEY,
+    hits INTEGER NOT NULL DEFAULT 0,
+    reset_at TIMESTAMPTZ NOT NULL
+);
+
+-- Create indexes for query optimization
+CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_reset_at ON rate_limit_buckets(reset_at);
+
+-- Add comments for documentation
+COMMENT ON TABLE rate_limit_buckets IS 'Request counters of the API rate limits, used when RATE_LIMIT_STORE=postgres';
+COMMENT ON COLUMN rate_limit_buckets.bucket_key IS 'Policy name, scope (ip or user) and a SHA-256 hash of the client identifier';
+COMMENT ON COLUMN rate_limit_buckets.hits IS 'Requests counted in the current window';
+COMMENT ON COLUMN rate_limit_buckets.reset_at IS 'End of the current window; the next request after it starts a new one';
@@ -0,0 +1,342 @@
+/**
+ * Database Migrator
+ *
+ * Applies the SQL files in database/migrations and records them in the
+ * schema_migrations table with a checksum of their content.
+ *
+ * - A migration is a file named NNN_description.sql; an optional
+ *   NNN_description.down.sql next to it reverts it
+ * - Files are discovered automatically and applied in version order
+ * - Each migration runs in its own transaction together with its
+ *   schema_migrations row, so a failed migration leaves no trace
+ * - Every command holds a Postgres advisory lock, so two deploys can't
+ *   migrate the same database at once
+ * - Applied migrations must not be edited: `up` refuses to run while an
+ *   applied file's checksum differs from the recorded one
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { Client } from 'pg';
+import { createDatabaseConfig } from '../src/services/database';
+
+/**
+ * Advisory lock key held while migrating
+ */
+const MIGRATION_LOCK_KEY = 73_200;
+
+/**
+ * Migration file name: version, then a lowercase description
+ */
+const MIGRATION_FILE_PATTERN = /^(\d+)_([a-z0-9_]+)\.sql$/;
+
+/**
+ * Migration file found in the migrations directory
+ */
+export interface MigrationFile {
+  version: string;
+  name: string;
+  upPath: string;
+  downPath: string | null;
+  checksum: string;
+}
+
+/**
+ * Row of the schema_migrations table
+ */
+export interface AppliedMigration {
+  version: string;
+  name: string;
+  checksum: string;
+  appliedAt: Date;
+}
+
+/**
+ * State of one migration as reported by `status`
+ */
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  state: 'applied' | 'pending' | 'modified' | 'missing';
+  appliedAt: Date | null;
+}
+
+/**
+ * Migration Error Types
+ */
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+/**
+ * Migrator Class
+ */
+export class Migrator {
+  constructor(private directory: string) {}
+
+  /**
+   * Discover migration files, ordered by version
+   *
+   * @throws MigrationError if two files share a version
+   */
+  discover(): MigrationFile[] {
+    const migrations = readdirSync(this.directory)
+      .filter(file => !file.endsWith('.down.sql'))
+      .map(file => ({ file, match: MIGRATION_FILE_PATTERN.exec(file) }))
+      .filter((entry): entry is { file: string; match: RegExpExecArray } => entry.match !== null)
+      .map(({ file, match }) => {
+        const downPath = join(this.directory, file.replace(/\.sql$/, '.down.sql'));
+        const upPath = join(this.directory, file);
+        return {
+          version: match[1],
+          name: match[2],
+          upPath,
+          downPath: existsSync(downPath) ? downPath : null,
+          checksum: this.checksum(readFileSync(upPath, 'utf-8')),
+        };
+      })
+      .sort((a, b) => Number(a.version) - Number(b.version));
+
+    migrations.forEach((migration, index) => {
+      if (index > 0 && Number(migrations[index - 1].version) === Number(migration.version)) {
+        throw new MigrationError(`Duplicate migration version ${migration.version}`);
+      }
+    });
+
+    return migrations;
+  }
+
+  /**
+   * State of every migration, known from files or from the database
+   */
+  async status(): Promise<MigrationStatus[]> {
+    return this.withClient(async client => {
+      const files = this.discover();
+      const applied = await this.getApplied(client);
+      const appliedByVersion = new Map(applied.map(migration => [migration.version, migration]));
+
+      const statuses: MigrationStatus[] = files.map(file => {
+        const record = appliedByVersion.get(file.version);
+        return {
+          version: file.version,
+          name: file.name,
+          state: !record ? 'pending' : record.checksum === file.checksum ? 'applied' : 'modified',
+          appliedAt: record?.appliedAt ?? null,
+        };
+      });
+
+      for (const record of applied) {
+        if (!files.some(file => file.version === record.version)) {
+          statuses.push({ version: record.version, name: record.name, state: 'missing', appliedAt: record.appliedAt });
+        }
+      }
+
+      return statuses.sort((a, b) => Number(a.version) - Number(b.version));
+    });
+  }
+
+  /**
+   * Apply pending migrations in order
+   *
+   * @param toVersion - Last version to apply (default: all)
+   * @returns Applied migrations
+   * @throws MigrationError if an applied migration was modified or is missing
+   */
+  async up(toVersion?: string): Promise<MigrationFile[]> {
+    return this.withClient(async client => {
+      const files = this.discover();
+      const applied = await this.getApplied(client);
+      this.assertUnchanged(files, applied);
+
+      const appliedVersions = new Set(applied.map(migration => migration.version));
+      const pending = files.filter(
+        file => !appliedVersions.has(file.version) && (toVersion === undefined || Number(file.version) <= Number(toVersion))
+      );
+
+      for (const migration of pending) {
+        console.log(`Applying ${migration.version}_${migration.name}...`);
+        await this.inTransaction(client, async () => {
+          await client.query(readFileSync(migration.upPath, 'utf-8'));
+          await client.query(
+            'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+            [migration.version, migration.name, migration.checksum]
+          );
+        });
+      }
+
+      return pending;
+    });
+  }
+
+  /**
+   * Revert applied migrations, newest first
+   *
+   * @param toVersion - Version to revert back to; migrations after it are
+   *                    reverted (default: revert only the latest migration;
+   *                    0 reverts everything)
+   * @returns Reverted migrations
+   * @throws MigrationError if a migration to revert has no down file
+   */
+  async down(toVersion?: string): Promise<AppliedMigration[]> {
+    return this.withClient(async client => {
+      const files = this.discover();
+      const applied = await this.getApplied(client);
+
+      const toRevert = (toVersion === undefined
+        ? applied.slice(-1)
+        : applied.filter(migration => Number(migration.version) > Number(toVersion))
+      ).reverse();
+
+      const downPaths = toRevert.map(migration => {
+        const downPath = files.find(file => file.version === migration.version)?.downPath;
+        if (!downPath) {
+          throw new MigrationError(`Migration ${migration.version}_${migration.name} has no down file`);
+        }
+        return downPath;
+      });
+
+      for (const [index, migration] of toRevert.entries()) {
+        console.log(`Reverting ${migration.version}_${migration.name}...`);
+        await this.inTransaction(client, async () => {
+          await client.query(readFileSync(downPaths[index], 'utf-8'));
+          await client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+        });
+      }
+
+      return toRevert;
+    });
+  }
+
+  /**
+   * Record migrations as applied without running them
+   *
+   * For databases whose schema was created before migrations were tracked.
+   *
+   * @param toVersion - Last version to record (default: all)
+   * @returns Recorded migrations
+   */
+  async baseline(toVersion?: string): Promise<MigrationFile[]> {
+    return this.withClient(async client => {
+      const files = this.discover();
+      const appliedVersions = new Set((await this.getApplied(client)).map(migration => migration.version));
+      const toRecord = files.filter(
+        file => !appliedVersions.has(file.version) && (toVersion === undefined || Number(file.version) <= Number(toVersion))
+      );
+
+      await this.inTransaction(client, async () => {
+        for (const migration of toRecord) {
+          await client.query(
+            'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+            [migration.version, migration.name, migration.checksum]
+          );
+        }
+      });
+
+      return toRecord;
+    });
+  }
+
+  /**
+   * Create an empty up/down migration pair with the next version
+   *
+   * @param description - Description, e.g. "add bio to user_profiles"
+   * @returns Paths of the created files
+   * @throws MigrationError if the description has no usable characters
+   */
+  create(description: string): { upPath: string; downPath: string } {
+    const name = description.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+    if (!name) {
+      throw new MigrationError('Migration name must contain letters or digits');
+    }
+
+    const files = this.discover();
+    const last = files.length > 0 ? Number(files[files.length - 1].version) : 0;
+    const version = String(last + 1).padStart(3, '0');
+
+    const upPath = join(this.directory, `${version}_${name}.sql`);
+    const downPath = join(this.directory, `${version}_${name}.down.sql`);
+    writeFileSync(upPath, `-- ${description}\n`, { flag: 'wx' });
+    writeFileSync(downPath, `-- Revert: ${description}\n`, { flag: 'wx' });
+
+    return { upPath, downPath };
+  }
+
+  /**
+   * Connect, take the migration lock and make sure schema_migrations exists
+   */
+  private async withClient<T>(callback: (client: Client) => Promise<T>): Promise<T> {
+    const client = new Client(createDatabaseConfig());
+    await client.connect();
+
+    try {
+      const lockResult = await client.query('SELECT pg_try_advisory_lock($1) AS locked', [MIGRATION_LOCK_KEY]);
+      if (!lockResult.rows[0].locked) {
+        console.log('Waiting for another migration run to finish...');
+        await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+      }
+
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+          version VARCHAR(20) PRIMARY KEY,
+          name VARCHAR(255) NOT NULL,
+          checksum CHAR(64) NOT NULL,
+          applied_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      return await callback(client);
+    } finally {
+      // Closing the session also releases the advisory lock
+      await client.end();
+    }
+  }
+
+  private async getApplied(client: Client): Promise<AppliedMigration[]> {
+    const result = await client.query('SELECT version, name, checksum, applied_at FROM schema_migrations');
+
+    return result.rows
+      .map(row => ({
+        version: row.version,
+        name: row.name,
+        checksum: row.checksum,
+        appliedAt: row.applied_at,
+      }))
+      .sort((a, b) => Number(a.version) - Number(b.version));
+  }
+
+  /**
+   * Refuse to migrate when applied migrations no longer match their files
+   */
+  private assertUnchanged(files: MigrationFile[], applied: AppliedMigration[]): void {
+    for (const record of applied) {
+      const file = files.find(candidate => candidate.version === record.version);
+      if (!file) {
+        throw new MigrationError(`Applied migration ${record.version}_${record.name} is missing from the migrations directory`);
+      }
+      if (file.checksum !== record.checksum) {
+        throw new MigrationError(
+          `Applied migration ${record.version}_${record.name} was modified; add a new migration instead`
+        );
+      }
+    }
+  }
+
+  private async inTransaction(client: Client, callback: () => Promise<void>): Promise<void> {
+    await client.query('BEGIN');
+    try {
+      await callback();
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    }
+  }
+
+  private checksum(content: string): string {
+    return createHash('sha256').update(content).digest('hex');
+  }
+}
@@ -1,14 +1,21 @@
 /**
- * Run Database Migrations Script
- * 
- * This script runs all database migrations in order.
+ * Database Migration CLI
+ *
+ * Usage:
+ *   npm run db:migrate -- status              Show applied and pending migrations
+ *   npm run db:migrate -- up [--to N]         Apply pending migrations (up to version N)
+ *   npm run db:migrate -- down [--to N]       Revert the latest migration (or every migration after version N)
+ *   npm run db:migrate -- create <name>       Create NNN_<name>.sql and NNN_<name>.down.sql
+ *   npm run db:migrate -- baseline [--to N]   Record migrations as applied without running them
+ *
+ * Without a command, `up` is run. Use `baseline` once on databases created
+ * before migrations were tracked in schema_migrations.
  */
 
 import dotenv from 'dotenv';
-import { readFileSync } from 'fs';
-import { join, dirname } from 'path';
+import { join, dirname, relative } from 'path';
 import { fileURLToPath } from 'url';
-import { getDatabaseService } from '../src/services/database';
+import { Migrator } from './migrator';
 
 // Get __dirname equivalent in ES modules
 const __filename = fileURLToPath(import.meta.url);
@@ -17,73 +24,74 @@ const __dirname = dirname(__filename);
 // Load environment variables
 dotenv.config({ override: true });
 
-async function runMigrations() {
-  console.log('=== Running Database Migrations ===\n');
+const USAGE = 'Usage: db:migrate [status | up [--to N] | down [--to N] | create <name> | baseline [--to N]]';
 
-  const db = getDatabaseService();
+/**
+ * Read the value of a `--to N` option
+ */
+function readToOption(args: string[]): string | undefined {
+  const index = args.indexOf('--to');
+  if (index === -1) {
+    return undefined;
+  }
 
-  try {
-    // Connect to database
-    console.log('Connecting to database...');
-    await db.connect();
-    console.log('✓ Connected\n');
+  const value = args[index + 1];
+  if (!value || !/^\d+$/.test(value)) {
+    throw new Error('--to requires a migration version number');
+  }
+  return value;
+}
 
-    // List of migration files in order
-    const migrations = [
-      '001_create_users_table.sql',
-      '002_create_user_profiles_table.sql',
-      '003_create_user_reports_table.sql',
-      '004_create_user_inquiries_table.sql',
-    ];
+async function main() {
+  const [command = 'up', ...args] = process.argv.slice(2);
+  const migrator = new Migrator(join(__dirname, 'migrations'));
 
-    // Run each migration
-    for (const migrationFile of migrations) {
-      console.log(`Running migration: ${migrationFile}`);
-      
-      const migrationPath = join(__dirname, 'migrations', migrationFile);
-      const sql = readFileSync(migrationPath, 'utf-8');
-      
-      try {
-        await db.query(sql);
-        console.log(`✓ ${migrationFile} completed\n`);
-      } catch (error: any) {
-        console.error(`✗ ${migrationFile} failed:`);
-        console.error(error.message);
-        throw error;
+  switch (command) {
+    case 'status': {
+      const statuses = await migrator.status();
+      for (const migration of statuses) {
+        const appliedAt = migration.appliedAt ? `  ${migration.appliedAt.toISOString()}` : '';
+        console.log(`${migration.state.padEnd(8)}  ${migration.version}_${migration.name}${appliedAt}`);
       }
+      const pending = statuses.filter(migration => migration.state === 'pending').length;
+      console.log(`\n${statuses.length - pending} applied, ${pending} pending`);
+      break;
     }
 
-    console.log('=== All Migrations Completed Successfully! ===\n');
+    case 'up': {
+      const applied = await migrator.up(readToOption(args));
+      console.log(applied.length > 0 ? `✓ Applied ${applied.length} migration(s)` : '✓ Database is up to date');
+      break;
+    }
 
-    // Verify tables were created
-    console.log('Verifying tables...');
-    const result = await db.query(`
-      SELECT tablename 
-      FROM pg_tables 
-      WHERE schemaname = 'public' 
-        AND tablename IN ('users', 'user_profiles', 'user_reports', 'user_inquiries')
-      ORDER BY tablename
-    `);
+    case 'down': {
+      const reverted = await migrator.down(readToOption(args));
+      console.log(reverted.length > 0 ? `✓ Reverted ${reverted.length} migration(s)` : '✓ Nothing to revert');
+      break;
+    }
 
-    console.log('\nCreated tables:');
-    result.rows.forEach((row: any) => {
-      console.log(`  ✓ ${row.tablename}`);
-    });
+    case 'create': {
+      if (args.length === 0) {
+        throw new Error('create requires a migration name');
+      }
+      const { upPath, downPath } = migrator.create(args.join(' '));
+      console.log(`✓ Created ${relative(process.cwd(), upPath)}`);
+      console.log(`✓ Created ${relative(process.cwd(), downPath)}`);
+      break;
+    }
 
-    console.log('\n✓ Migration verification complete!');
+    case 'baseline': {
+      const recorded = await migrator.baseline(readToOption(args));
+      console.log(`✓ Recorded ${recorded.length} migration(s) as applied`);
+      break;
+    }
 
-  } catch (error) {
-    console.error('\n✗ Migration failed:');
-    console.error(error);
-    process.exit(1);
-  } finally {
-    await db.close();
-    console.log('\nDatabase connection closed.');
+    default:
+      throw new Error(USAGE);
   }
 }
 
-// Run migrations
-runMigrations().catch(error => {
-  console.error('Unhandled error:', error);
+main().catch(error => {
+  console.error(`✗ ${error instanceof Error ? error.message : error}`);
   process.exit(1);
 });
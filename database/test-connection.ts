@@ -71,7 +71,7 @@ async function testDatabaseConnection() {
 
     if (existingTables.length === 0) {
       console.log('\n⚠ No tables found. Please run migrations first:');
-      console.log('  psql -h <host> -U <user> -d <database> -f database/migrations/run_migrations.sql\n');
+      console.log('  npm run db:migrate\n');
     } else if (existingTables.length < requiredTables.length) {
       console.log('\n⚠ Some tables are missing. Please run all migrations.\n');
     } else {
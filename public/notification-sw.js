@@ -0,0 +1,17 @@
+// 웹 푸시 알림을 표시하고, 알림을 누르면 관련 페이지를 연다.
+self.addEventListener("push", (event) => {
+  const { title, body, link } = event.data ? event.data.json() : {};
+
+  event.waitUntil(
+    self.registration.showNotification(title || "과거의 나", {
+      body,
+      icon: "/favicon.ico",
+      data: { link: link || "/" },
+    })
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  event.waitUntil(self.clients.openWindow(event.notification.data.link));
+});
@@ -0,0 +1,321 @@
+/**
+ * Admin Controller
+ *
+ * Handles HTTP requests for the moderation console: user reports,
+ * sanctions and the support inquiry queue.
+ */
+
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { getReportService } from '../../src/services/reportService';
+import { getInquiryService } from '../../src/services/inquiryService';
+import { getSanctionService } from '../../src/services/sanctionService';
+import type { AdminReportDetail, InquiryStatus, ReportStatus, UserReport } from '../../src/types/database';
+
+/**
+ * Parse a numeric route parameter, returning null if it isn't a positive integer
+ */
+function parseId(value: string): number | null {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * Parse a positive integer query parameter, falling back to a default
+ */
+function parsePositiveInt(value: unknown, fallback: number): number {
+  const parsed = typeof value === 'string' ? parseInt(value, 10) : NaN;
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Read an optional string query parameter
+ */
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+}
+
+/**
+ * Get a report with the reported user's sanction history
+ */
+async function getReportDetail(reportId: number): Promise<AdminReportDetail> {
+  const report = await getReportService().getAdminReportDetail(reportId);
+  const reportedUserSanctions = await getSanctionService().getSanctions(report.reportedUser.userId);
+  return { ...report, reportedUserSanctions };
+}
+
+/**
+ * GET /api/admin/reports
+ *
+ * List user reports, newest first. Accepts `status`, `reason`, `search`
+ * (reporter or reported user nickname/email), `page` and `pageSize`.
+ */
+export async function getReports(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const reportService = getReportService();
+  const result = await reportService.getAdminReports({
+    status: optionalString(req.query.status) as ReportStatus | undefined,
+    reason: optionalString(req.query.reason) as UserReport['reason'] | undefined,
+    search: optionalString(req.query.search),
+    page: parsePositiveInt(req.query.page, 1),
+    pageSize: parsePositiveInt(req.query.pageSize, 20),
+  });
+
+  res.json({
+    success: true,
+    ...result,
+  });
+}
+
+/**
+ * GET /api/admin/reports/:reportId
+ *
+ * Get a report with reporter and reported user details and the reported
+ * user's report and sanction history.
+ */
+export async function getReport(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const reportId = parseId(req.params.reportId);
+
+  if (reportId === null) {
+    res.status(400).json({
+      error: 'ValidationError',
+      message: 'Invalid report ID',
+    });
+    return;
+  }
+
+  const report = await getReportDetail(reportId);
+
+  res.json({
+    success: true,
+    data: report,
+  });
+}
+
+/**
+ * PATCH /api/admin/reports/:reportId
+ *
+ * Change a report's status (pending, reviewed or resolved). The
+ * authenticated admin is recorded as the reviewer.
+ */
+export async function updateReportStatus(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const reviewerId = req.user!.userId;
+  const reportId = parseId(req.params.reportId);
+  const { status } = req.body;
+
+  if (reportId === null) {
+    res.status(400).json({
+      error: 'ValidationError',
+      message: 'Invalid report ID',
+    });
+    return;
+  }
+
+  const reportService = getReportService();
+  await reportService.updateReportStatus(reportId, status as ReportStatus, reviewerId);
+  const report = await getReportDetail(reportId);
+
+  res.json({
+    success: true,
+    data: report,
+    message: 'Report status updated successfully',
+  });
+}
+
+/**
+ * GET /api/admin/users/:userId/sanctions
+ *
+ * Get a user's sanction history, newest first.
+ */
+export async function getUserSanctions(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const sanctionService = getSanctionService();
+  const sanctions = await sanctionService.getSanctions(String(req.params.userId));
+
+  res.json({
+    success: true,
+    data: sanctions,
+  });
+}
+
+/**
+ * POST /api/admin/sanctions/:sanctionId/lift
+ *
+ * Lift a sanction. Lifting a suspension reactivates the account.
+ */
+export async function liftSanction(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const moderatorId = req.user!.userId;
+  const sanctionId = parseId(req.params.sanctionId);
+
+  if (sanctionId === null) {
+    res.status(400).json({
+      error: 'ValidationError',
+      message: 'Invalid sanction ID',
+    });
+    return;
+  }
+
+  const sanctionService = getSanctionService();
+  const sanction = await sanctionService.liftSanction(sanctionId, moderatorId);
+
+  res.json({
+    success: true,
+    data: sanction,
+    message: 'Sanction lifted successfully',
+  });
+}
+
+/**
+ * GET /api/admin/inquiries
+ *
+ * List user inquiries, most recent activity first. Accepts `status`,
+ * `search` (subject or user nickname/email), `page` and `pageSize`.
+ */
+export async function getInquiries(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const inquiryService = getInquiryService();
+  const result = await inquiryService.getAdminInquiries({
+    status: optionalString(req.query.status) as InquiryStatus | undefined,
+    search: optionalString(req.query.search),
+    page: parsePositiveInt(req.query.page, 1),
+    pageSize: parsePositiveInt(req.query.pageSize, 20),
+  });
+
+  res.json({
+    success: true,
+    ...result,
+  });
+}
+
+/**
+ * GET /api/admin/inquiries/:inquiryId
+ *
+ * Get an inquiry with its full thread, including internal notes.
+ */
+export async function getInquiry(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const inquiryId = parseId(req.params.inquiryId);
+
+  if (inquiryId === null) {
+    res.status(400).json({
+      error: 'ValidationError',
+      message: 'Invalid inquiry ID',
+    });
+    return;
+  }
+
+  const inquiryService = getInquiryService();
+  const inquiry = await inquiryService.getAdminInquiryThread(inquiryId);
+
+  res.json({
+    success: true,
+    data: inquiry,
+  });
+}
+
+/**
+ * POST /api/admin/inquiries/:inquiryId/responses
+ *
+ * Answer an inquiry. Body: `{ message }`. Marks the inquiry answered.
+ */
+export async function respondToInquiry(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const staffId = req.user!.userId;
+  const inquiryId = parseId(req.params.inquiryId);
+
+  if (inquiryId === null) {
+    res.status(400).json({
+      error: 'ValidationError',
+      message: 'Invalid inquiry ID',
+    });
+    return;
+  }
+
+  const inquiryService = getInquiryService();
+  const inquiry = await inquiryService.respondToInquiry(inquiryId, staffId, req.body.message);
+
+  res.status(201).json({
+    success: true,
+    data: inquiry,
+    message: 'Response sent successfully',
+  });
+}
+
+/**
+ * POST /api/admin/inquiries/:inquiryId/notes
+ *
+ * Add an internal note, visible to staff only. Body: `{ message }`.
+ */
+export async function addInquiryNote(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const staffId = req.user!.userId;
+  const inquiryId = parseId(req.params.inquiryId);
+
+  if (inquiryId === null) {
+    res.status(400).json({
+      error: 'ValidationError',
+      message: 'Invalid inquiry ID',
+    });
+    return;
+  }
+
+  const inquiryService = getInquiryService();
+  const inquiry = await inquiryService.addInternalNote(inquiryId, staffId, req.body.message);
+
+  res.status(201).json({
+    success: true,
+    data: inquiry,
+  });
+}
+
+/**
+ * PATCH /api/admin/inquiries/:inquiryId
+ *
+ * Change an inquiry's status (pending, answered or closed).
+ */
+export async function updateInquiryStatus(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const inquiryId = parseId(req.params.inquiryId);
+  const { status } = req.body;
+
+  if (inquiryId === null) {
+    res.status(400).json({
+      error: 'ValidationError',
+      message: 'Invalid inquiry ID',
+    });
+    return;
+  }
+
+  const inquiryService = getInquiryService();
+  await inquiryService.updateInquiryStatus(inquiryId, status as InquiryStatus);
+  const inquiry = await inquiryService.getAdminInquiryThread(inquiryId);
+
+  res.json({
+    success: true,
+    data: inquiry,
+    message: 'Inquiry status updated successfully',
+  });
+}
@@ -0,0 +1,318 @@
+/**
+ * Journal Controller
+ *
+ * Handles HTTP requests for journal entries written in the 기록실,
+ * their daily summaries, chapters registered in the history, insights, streaks
+ * and imports from other diaries.
+ */
+
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { getJournalService } from '../../src/services/journalService';
+import { getChapterService } from '../../src/services/chapterService';
+import { getInsightsService } from '../../src/services/insightsService';
+import { getAchievementService } from '../../src/services/achievementService';
+import { getStreakService, DEFAULT_ACTIVITY_DAYS } from '../../src/services/streakService';
+import { getJournalImportService, JournalImportFile } from '../../src/services/journalImportService';
+import { getDateInTimeZone } from '../../src/services/timezoneUtils';
+import type { InsightsRange } from '../../src/types/database';
+
+/**
+ * Parse a numeric route parameter, returning null if it isn't a positive integer
+ */
+function parseId(value: string): number | null {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * Parse a positive integer query parameter, falling back to a default
+ */
+function parsePositiveInt(value: unknown, fallback: number): number {
+  const parsed = typeof value === 'string' ? parseInt(value, 10) : NaN;
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * GET /api/journal/entries
+ *
+ * List authenticated user's journal entries.
+ * Accepts an optional `date` query parameter (YYYY-MM-DD) to list a single day.
+ */
+export async function getEntries(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const userId = req.user!.userId;
+  const date = typeof req.query.date === 'string' ? req.query.date : undefined;
+
+  const journalService = getJournalService();
+  const entries = await journalService.getEntries(userId, date);
+
+  res.json({
+    success: true,
+    data: entries,
+  });
+}
+
+/**
+ * POST /api/journal/entries
+ *
+ * Create a journal entry.
+ */
+export async function createEntry(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const userId = req.user!.userId;
+  const { content, entry_date, timezone } = req.body;
+
+  const journalService = getJournalService();
+  const entry = await journalService.createEntry({
+    user_id: userId,
+    content,
+    entry_date,
+    timezone,
+  });
+
+  // Unlock achievements reached with this entry; failing here shouldn't fail the entry itself
+  await getAchievementService()
+    .evaluateAchievements(userId)
+    .catch(error => console.error('Failed to evaluate achievements:', error));
+
+  res.status(201).json({
+    success: true,
+    data: entry,
+  });
+}
+
+/**
+ * PATCH /api/journal/entries/:entryId
+ *
+ * Update the content of a journal entry.
+ */
+export async function updateEntry(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const userId = req.user!.userId;
+  const entryId = parseId(req.params.entryId);
+  const { content } = req.body;
+
+  if (entryId === null) {
+    res.status(400).json({
+      error: 'ValidationError',
+      message: 'Invalid entry ID',
+    });
+    return;
+  }
+
+  const journalService = getJournalService();
+  const entry = await journalService.updateEntry(userId, entryId, content);
+
+  res.json({
+    success: true,
+    data: entry,
+  });
+}
+
+/**
+ * DELETE /api/journal/entries/:entryId
+ *
+ * Delete a journal entry.
+ */
+export async function deleteEntry(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const userId = req.user!.userId;
+  const entryId = parseId(req.params.entryId);
+
+  if (entryId === null) {
+    res.status(400).json({
+      error: 'ValidationError',
+      message: 'Invalid entry ID',
+    });
+    return;
+  }
+
+  const journalService = getJournalService();
+  await journalService.deleteEntry(userId, entryId);
+
+  res.json({
+    success: true,
+    message: 'Entry deleted successfully',
+  });
+}
+
+/**
+ * POST /api/journal/summaries
+ *
+ * Summarize a day's entries.
+ * Returns the stored summary when the entries haven't changed since it was generated.
+ */
+export async function createSummary(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const userId = req.user!.userId;
+  const { date } = req.body;
+
+  const chapterService = getChapterService();
+  const summary = await chapterService.getDailySummary(userId, date);
+
+  res.json({
+    success: true,
+    data: summary,
+  });
+}
+
+/**
+ * POST /api/journal/chapters
+ *
+ * Register a day's entries as a chapter in the history.
+ */
+export async function registerChapter(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const userId = req.user!.userId;
+  const { date, title } = req.body;
+
+  const chapterService = getChapterService();
+  const chapter = await chapterService.registerChapter(userId, date, title);
+
+  res.status(201).json({
+    success: true,
+    data: chapter,
+    message: 'Chapter registered successfully',
+  });
+}
+
+/**
+ * GET /api/journal/chapters
+ *
+ * List authenticated user's chapters, most recent first.
+ * Accepts `page` and `pageSize` query parameters.
+ */
+export async function getChapters(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const userId = req.user!.userId;
+  const page = parsePositiveInt(req.query.page, 1);
+  const pageSize = parsePositiveInt(req.query.pageSize, 10);
+
+  const chapterService = getChapterService();
+  const result = await chapterService.getChapters(userId, page, pageSize);
+
+  res.json({
+    success: true,
+    ...result,
+  });
+}
+
+/**
+ * GET /api/journal/insights
+ *
+ * Emotion and writing statistics for the insights dashboard.
+ * Accepts `range` (week, month or year; default week) and `date`
+ * (last day of the range, YYYY-MM-DD; default today in the user's timezone).
+ */
+export async function getInsights(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const userId = req.user!.userId;
+  const range = (typeof req.query.range === 'string' ? req.query.range : 'week') as InsightsRange;
+  const date = typeof req.query.date === 'string'
+    ? req.query.date
+    : getDateInTimeZone(new Date(), await getJournalService().getProfileTimeZone(userId));
+
+  const insightsService = getInsightsService();
+  const insights = await insightsService.getInsights(userId, range, date);
+
+  res.json({
+    success: true,
+    data: insights,
+  });
+}
+
+/**
+ * GET /api/journal/streak
+ *
+ * Current and longest writing streak, counted in the user's timezone.
+ * Accepts `days` (number of days of per-day activity to include; default 30).
+ */
+export async function getStreak(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const userId = req.user!.userId;
+  const days = typeof req.query.days === 'string' ? Number(req.query.days) : DEFAULT_ACTIVITY_DAYS;
+
+  const streakService = getStreakService();
+  const streak = await streakService.getStreak(userId, days);
+
+  res.json({
+    success: true,
+    data: streak,
+  });
+}
+
+/**
+ * Map uploaded import files to service input
+ */
+function toImportFiles(req: AuthenticatedRequest): JournalImportFile[] {
+  const files = Array.isArray(req.files) ? req.files : [];
+  return files.map(file => ({ name: file.originalname, content: file.buffer }));
+}
+
+/**
+ * POST /api/journal/import/preview
+ *
+ * Dry run of a journal import. Accepts multipart `files` (Markdown, plain
+ * text or Day One JSON) and returns the entries found, which of them are
+ * duplicates, and parser warnings. Nothing is written.
+ */
+export async function previewImport(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const userId = req.user!.userId;
+
+  const journalImportService = getJournalImportService();
+  const preview = await journalImportService.previewImport(userId, toImportFiles(req));
+
+  res.json({
+    success: true,
+    data: preview,
+  });
+}
+
+/**
+ * POST /api/journal/import
+ *
+ * Import the entries of multipart `files` into the journal, skipping
+ * duplicates, and register a chapter for every day that received entries.
+ */
+export async function importEntries(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const userId = req.user!.userId;
+
+  const journalImportService = getJournalImportService();
+  const result = await journalImportService.importEntries(userId, toImportFiles(req));
+
+  // Unlock achievements reached with the imported entries; failing here shouldn't fail the import
+  await getAchievementService()
+    .evaluateAchievements(userId)
+    .catch(error => console.error('Failed to evaluate achievements:', error));
+
+  res.status(201).json({
+    success: true,
+    data: result,
+    message: 'Journal imported successfully',
+  });
+}
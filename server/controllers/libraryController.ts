@@ -0,0 +1,313 @@
+/**
+ * Library Controller
+ *
+ * Handles HTTP requests for files uploaded to the 라이브러리 and their
+ * public share links.
+ */
+
+import { Response } from 'express';
+import { createReadStream } from 'fs';
+import { pipeline } from 'stream/promises';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { getLibraryService, LibraryItemContent } from '../../src/services/libraryService';
+import { getLibraryShareService } from '../../src/services/libraryShareService';
+
+/**
+ * Types served inline; they can't run script on the API origin. Anything
+ * else (HTML, SVG, ...) is downloaded as an attachment, since the stored
+ * type comes from the uploading client.
+ */
+const INLINE_MIME_TYPES = new Set([
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'image/avif',
+  'video/mp4',
+  'video/webm',
+  'video/quicktime',
+  'application/pdf',
+]);
+
+/**
+ * Read an optional string field from a multipart or query value
+ */
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+/**
+ * Stream opened item content, as a 206 partial response for byte ranges
+ *
+ * Only INLINE_MIME_TYPES are sent with their own type; the rest are sent
+ * as application/octet-stream attachments.
+ */
+async function sendContent(res: Response, content: LibraryItemContent, cacheControl: string): Promise<void> {
+  const { item, mimeType, size, stream, range } = content;
+  const inline = INLINE_MIME_TYPES.has(mimeType.toLowerCase());
+
+  res.setHeader('Content-Type', inline ? mimeType : 'application/octet-stream');
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+  res.setHeader('Content-Security-Policy', 'sandbox');
+  res.setHeader('Accept-Ranges', 'bytes');
+  res.setHeader('Cache-Control', cacheControl);
+  res.setHeader(
+    'Content-Disposition',
+    `${inline ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(item.name)}`
+  );
+
+  if (range) {
+    res.status(206);
+    res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${size}`);
+    res.setHeader('Content-Length', range.end - range.start + 1);
+  } else {
+    res.setHeader('Content-Length', size);
+  }
+
+  try {
+    await pipeline(stream, res);
+  } catch (error) {
+    // Headers are already sent, so the error can only be logged
+    console.error(`Failed to stream library item ${item.itemId}:`, error);
+  }
+}
+
+/**
+ * GET /api/library/items
+ *
+ * List authenticated user's library items.
+ * Accepts an optional `type` query parameter (image, document, file, video).
+ */
+export async function getItems(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const userId = req.user!.userId;
+  const type = optionalString(req.query.type);
+
+  const libraryService = getLibraryService();
+  const items = await libraryService.getItems(userId, type);
+
+  res.json({
+    success: true,
+    data: items,
+  });
+}
+
+/**
+ * POST /api/library/items
+ *
+ * Upload a file as a library item (multipart/form-data).
+ * Fields: `file` (required), `name`, `type` and `visibility` (optional).
+ * The spooled file is removed by the route once the response is sent.
+ */
+export async function createItem(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const userId = req.user!.userId;
+  const file = req.file;
+
+  if (!file) {
+    res.status(400).json({
+      error: 'ValidationError',
+      message: 'file is required',
+    });
+    return;
+  }
+
+  const libraryService = getLibraryService();
+  const item = await libraryService.createItem({
+    userId,
+    name: req.body.name,
+    originalName: file.originalname,
+    mimeType: file.mimetype || 'application/octet-stream',
+    type: req.body.type,
+    visibility: req.body.visibility,
+    content: createReadStream(file.path),
+  });
+
+  res.status(201).json({
+    success: true,
+    data: item,
+  });
+}
+
+/**
+ * GET /api/library/items/:itemId/content
+ *
+ * Stream an item's content. Requires either the owner's token or the
+ * signature from the item's contentUrl. Supports single byte ranges.
+ * Accepts an optional `variant` query parameter (original, thumbnail, preview).
+ */
+export async function getItemContent(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const libraryService = getLibraryService();
+  const content = await libraryService.openContent(
+    String(req.params.itemId),
+    {
+      userId: req.user?.userId,
+      expires: optionalString(req.query.expires),
+      signature: optionalString(req.query.signature),
+    },
+    req.headers.range,
+    optionalString(req.query.variant)
+  );
+
+  await sendContent(res, content, 'private, max-age=3600');
+}
+
+/**
+ * PATCH /api/library/items/visibility
+ *
+ * Change the visibility of several items.
+ */
+export async function updateVisibility(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const userId = req.user!.userId;
+  const { itemIds, visibility } = req.body;
+
+  const libraryService = getLibraryService();
+  const items = await libraryService.updateVisibility(userId, itemIds, visibility);
+
+  res.json({
+    success: true,
+    data: items,
+  });
+}
+
+/**
+ * DELETE /api/library/items
+ *
+ * Delete several items and their content.
+ */
+export async function deleteItems(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const userId = req.user!.userId;
+  const { itemIds } = req.body;
+
+  const libraryService = getLibraryService();
+  const deletedIds = await libraryService.deleteItems(userId, itemIds);
+
+  res.json({
+    success: true,
+    data: { deletedIds },
+    message: 'Library items deleted successfully',
+  });
+}
+
+/**
+ * GET /api/library/items/:itemId/share-links
+ *
+ * List an item's share links.
+ */
+export async function getShareLinks(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const userId = req.user!.userId;
+
+  const libraryShareService = getLibraryShareService();
+  const links = await libraryShareService.getLinks(userId, String(req.params.itemId));
+
+  res.json({
+    success: true,
+    data: links,
+  });
+}
+
+/**
+ * POST /api/library/items/:itemId/share-links
+ *
+ * Create a share link for a public item.
+ * Accepts an optional `expiresAt` (ISO 8601) in the body.
+ */
+export async function createShareLink(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const userId = req.user!.userId;
+  const libraryShareService = getLibraryShareService();
+  const link = await libraryShareService.createLink(userId, String(req.params.itemId), req.body.expiresAt);
+
+  res.status(201).json({
+    success: true,
+    data: link,
+  });
+}
+
+/**
+ * DELETE /api/library/share-links/:linkId
+ *
+ * Revoke a share link.
+ */
+export async function revokeShareLink(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const userId = req.user!.userId;
+  const linkId = Number(req.params.linkId);
+
+  if (!Number.isInteger(linkId) || linkId <= 0) {
+    res.status(400).json({
+      error: 'ValidationError',
+      message: 'Invalid link ID',
+    });
+    return;
+  }
+
+  const libraryShareService = getLibraryShareService();
+  const link = await libraryShareService.revokeLink(userId, linkId);
+
+  res.json({
+    success: true,
+    data: link,
+    message: 'Share link revoked successfully',
+  });
+}
+
+/**
+ * GET /api/public/share/:token
+ *
+ * Get the item shared through a link. No authentication required.
+ */
+export async function getSharedItem(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const libraryShareService = getLibraryShareService();
+  const item = await libraryShareService.getSharedItem(String(req.params.token));
+
+  res.setHeader('Cache-Control', 'no-store');
+  res.json({
+    success: true,
+    data: item,
+  });
+}
+
+/**
+ * GET /api/public/share/:token/content
+ *
+ * Stream the content of the item shared through a link. No authentication
+ * required. Accepts an optional `variant` query parameter (original, thumbnail, preview).
+ */
+export async function getSharedItemContent(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const libraryShareService = getLibraryShareService();
+  const content = await libraryShareService.openSharedContent(
+    String(req.params.token),
+    req.headers.range,
+    optionalString(req.query.variant)
+  );
+
+  // Not cached, so revoking the link takes effect immediately
+  await sendContent(res, content, 'no-store');
+}
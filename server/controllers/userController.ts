@@ -7,11 +7,21 @@
  */
 
 import { Response } from 'express';
+import { pipeline } from 'stream/promises';
 import { AuthenticatedRequest } from '../middleware/auth';
+import { resolveRoles } from '../middleware/role';
+import { RequestValidationError } from '../middleware/validate';
 import { getUserService } from '../../src/services/userService';
 import { getAuthService } from '../../src/services/authService';
 import { getReportService } from '../../src/services/reportService';
 import { getInquiryService } from '../../src/services/inquiryService';
+import { getAchievementService } from '../../src/services/achievementService';
+import { getSanctionService } from '../../src/services/sanctionService';
+import { getAccountDeletionService } from '../../src/services/accountDeletionService';
+import { getDataExportService } from '../../src/services/dataExportService';
+import { getSettingsService } from '../../src/services/settingsService';
+import { getNotificationService } from '../../src/services/notificationService';
+import { getReminderService } from '../../src/services/reminderService';
 
 /**
  * GET /api/user/profile
@@ -72,6 +82,78 @@ export async function updateUserProfile(
   });
 }
 
+/**
+ * GET /api/user/settings
+ *
+ * Get authenticated user's theme, language and notification settings.
+ */
+export async function getSettings(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const settings = await getSettingsService().getSettings(req.user!.userId);
+
+  res.json({
+    success: true,
+    data: settings,
+  });
+}
+
+/**
+ * PUT /api/user/settings
+ *
+ * Update authenticated user's settings. Omitted fields are unchanged.
+ */
+export async function updateSettings(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const settings = await getSettingsService().updateSettings(req.user!.userId, req.body);
+
+  res.json({
+    success: true,
+    data: settings,
+    message: 'Settings updated successfully',
+  });
+}
+
+/**
+ * GET /api/user/reminder
+ *
+ * Get authenticated user's daily writing reminder schedule; null if the
+ * user never saved one.
+ */
+export async function getReminderSchedule(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const schedule = await getReminderService().getSchedule(req.user!.userId);
+
+  res.json({
+    success: true,
+    data: schedule,
+  });
+}
+
+/**
+ * PUT /api/user/reminder
+ *
+ * Save authenticated user's daily writing reminder schedule.
+ * Body: `{ enabled, time: 'HH:MM', weekdays: [0-6], timezone }`.
+ */
+export async function saveReminderSchedule(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const schedule = await getReminderService().saveSchedule(req.user!.userId, req.body);
+
+  res.json({
+    success: true,
+    data: schedule,
+    message: 'Reminder schedule saved successfully',
+  });
+}
+
 /**
  * POST /api/user/password-reset
  * 
@@ -85,24 +167,6 @@ export async function initiatePasswordReset(
 ): Promise<void> {
   const { email } = req.body;
 
-  if (!email) {
-    res.status(400).json({
-      error: 'ValidationError',
-      message: 'Email is required',
-    });
-    return;
-  }
-
-  // Validate email format
-  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-  if (!emailRegex.test(email)) {
-    res.status(400).json({
-      error: 'ValidationError',
-      message: 'Invalid email format',
-    });
-    return;
-  }
-
   const authService = getAuthService();
   await authService.initiatePasswordReset(email);
 
@@ -125,14 +189,6 @@ export async function confirmPasswordReset(
 ): Promise<void> {
   const { email, code, newPassword } = req.body;
 
-  if (!email || !code || !newPassword) {
-    res.status(400).json({
-      error: 'ValidationError',
-      message: 'Email, code, and newPassword are required',
-    });
-    return;
-  }
-
   const authService = getAuthService();
   await authService.confirmPasswordReset(email, code, newPassword);
 
@@ -145,7 +201,10 @@ export async function confirmPasswordReset(
 /**
  * DELETE /api/user/account
  * 
- * Delete authenticated user's account.
+ * Delete authenticated user's account. The account is marked deleted and
+ * can be restored until the grace period ends, when its data and Cognito
+ * account are purged. Users who signed up with a password must confirm it;
+ * federated (social login) users have none.
  * 
  * Requirements: 10.5
  */
@@ -153,25 +212,15 @@ export async function deleteAccount(
   req: AuthenticatedRequest,
   res: Response
 ): Promise<void> {
-  console.log('[deleteAccount] Starting account deletion process');
-  console.log('[deleteAccount] User ID:', req.user?.userId);
-  
-  const userId = req.user!.userId;
-  const password = req.body?.password; // Optional password
+  const { userId, email, federated } = req.user!;
+  const { password } = req.body;
 
-  const userService = getUserService();
-  const authService = getAuthService();
+  if (!federated) {
+    if (!password) {
+      throw new RequestValidationError({ password: '비밀번호를 입력해주세요' });
+    }
 
-  // Optional: Verify password before deletion (for extra security)
-  if (password) {
-    try {
-      // Re-authenticate user with Cognito to verify password
-      const email = req.user!.email;
-      // Note: This would require importing CognitoService and calling signIn
-      // For now, we skip password verification and rely on JWT authentication
-      console.log('[deleteAccount] Password verification skipped - relying on JWT authentication');
-    } catch (error) {
-      console.error('[deleteAccount] Password verification error:', error);
+    if (!(await getAuthService().verifyPassword(email, password))) {
       res.status(401).json({
         error: 'AuthenticationError',
         message: 'Invalid password',
@@ -180,43 +229,211 @@ export async function deleteAccount(
     }
   }
 
-  // Delete from database first
-  try {
-    console.log('[deleteAccount] Deleting user from database...');
-    await userService.deleteUser(userId);
-    console.log('[deleteAccount] User deleted from database successfully');
-  } catch (error: any) {
-    console.error('[deleteAccount] Failed to delete user from database:', error);
-    console.error('[deleteAccount] Error name:', error.name);
-    console.error('[deleteAccount] Error message:', error.message);
-    console.error('[deleteAccount] Error stack:', error.stack);
-    res.status(500).json({
-      error: 'DatabaseError',
-      message: 'Failed to delete user from database',
-      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
-    });
-    return;
-  }
+  const pendingDeletion = await getAccountDeletionService().scheduleDeletion(userId);
+
+  res.json({
+    success: true,
+    data: pendingDeletion,
+    message: 'Account scheduled for deletion',
+  });
+}
+
+/**
+ * POST /api/user/account/restore
+ * 
+ * Restore authenticated user's account during the deletion grace period.
+ * Available to accounts pending deletion.
+ */
+export async function restoreAccount(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  await getAccountDeletionService().restoreAccount(req.user!.userId);
+
+  res.json({
+    success: true,
+    message: 'Account restored successfully',
+  });
+}
+
+/**
+ * POST /api/user/export
+ * 
+ * Start building an archive of everything the authenticated user has
+ * stored. Returns the export to poll; an export already in progress is
+ * returned instead of starting another.
+ */
+export async function requestExport(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const userExport = await getDataExportService().requestExport(req.user!.userId);
+
+  res.status(202).json({
+    success: true,
+    data: userExport,
+  });
+}
+
+/**
+ * GET /api/user/export
+ * 
+ * Get authenticated user's most recent export, or null.
+ */
+export async function getLatestExport(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const userExport = await getDataExportService().getLatestExport(req.user!.userId);
+
+  res.json({
+    success: true,
+    data: userExport,
+  });
+}
+
+/**
+ * GET /api/user/export/:exportId
+ * 
+ * Get the status of one of authenticated user's exports.
+ */
+export async function getExport(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const userExport = await getDataExportService().getExport(req.user!.userId, String(req.params.exportId));
+
+  res.json({
+    success: true,
+    data: userExport,
+  });
+}
+
+/**
+ * GET /api/user/export/:exportId/download
+ * 
+ * Download a completed export archive.
+ */
+export async function downloadExport(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const exportId = String(req.params.exportId);
+  const archive = await getDataExportService().openExport(req.user!.userId, exportId);
+
+  res.setHeader('Content-Type', 'application/zip');
+  res.setHeader('Content-Length', archive.size);
+  res.setHeader('Cache-Control', 'no-store');
+  res.setHeader('Content-Disposition', `attachment; filename="${archive.filename}"`);
 
-  // Try to delete from Cognito (don't fail if user doesn't exist)
   try {
-    console.log('[deleteAccount] Deleting user from Cognito...');
-    await authService.deleteUser(userId);
-    console.log('[deleteAccount] User deleted from Cognito successfully');
-  } catch (error: any) {
-    // Log error but don't fail the request
-    console.warn('[deleteAccount] Failed to delete user from Cognito:', error.message);
-    console.warn('[deleteAccount] Cognito error code:', error.code);
-    // If user doesn't exist in Cognito, that's fine
-    if (error.code !== 'UserNotFoundException') {
-      console.error('[deleteAccount] Cognito deletion error:', error);
-    }
+    await pipeline(archive.stream, res);
+  } catch (error) {
+    // Headers are already sent, so the error can only be logged
+    console.error(`Failed to stream export ${exportId}:`, error);
   }
+}
+
+/**
+ * GET /api/user/notifications
+ *
+ * Get authenticated user's latest notifications and unread count.
+ */
+export async function getNotifications(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const notifications = await getNotificationService().getNotifications(req.user!.userId);
 
-  console.log('[deleteAccount] Account deletion completed successfully');
   res.json({
     success: true,
-    message: 'Account deleted successfully',
+    data: notifications,
+  });
+}
+
+/**
+ * POST /api/user/notifications/:notificationId/read
+ *
+ * Mark one of authenticated user's notifications read.
+ */
+export async function markNotificationRead(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  await getNotificationService().markRead(req.user!.userId, String(req.params.notificationId));
+
+  res.json({
+    success: true,
+    data: null,
+  });
+}
+
+/**
+ * POST /api/user/notifications/read-all
+ *
+ * Mark all of authenticated user's notifications read.
+ */
+export async function markAllNotificationsRead(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  await getNotificationService().markAllRead(req.user!.userId);
+
+  res.json({
+    success: true,
+    data: null,
+  });
+}
+
+/**
+ * GET /api/user/notifications/push-key
+ *
+ * Get the VAPID public key browsers subscribe to push notifications with;
+ * null when push notifications aren't configured.
+ */
+export async function getPushPublicKey(
+  _req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  res.json({
+    success: true,
+    data: { publicKey: getNotificationService().getPushPublicKey() },
+  });
+}
+
+/**
+ * POST /api/user/notifications/push-subscriptions
+ *
+ * Save this browser's push subscription. Body: PushSubscription.toJSON().
+ */
+export async function savePushSubscription(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  await getNotificationService().savePushSubscription(req.user!.userId, req.body);
+
+  res.status(201).json({
+    success: true,
+    data: null,
+  });
+}
+
+/**
+ * DELETE /api/user/notifications/push-subscriptions
+ *
+ * Delete this browser's push subscription. Body: `{ endpoint }`.
+ */
+export async function deletePushSubscription(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const { endpoint } = req.body;
+
+  await getNotificationService().deletePushSubscription(req.user!.userId, endpoint);
+
+  res.json({
+    success: true,
+    data: null,
   });
 }
 
@@ -234,14 +451,6 @@ export async function createReport(
   const reporterId = req.user!.userId;
   const { reported_user_identifier, reason, description } = req.body;
 
-  if (!reported_user_identifier || !reason) {
-    res.status(400).json({
-      error: 'ValidationError',
-      message: 'reported_user_identifier (nickname or email) and reason are required',
-    });
-    return;
-  }
-
   const userService = getUserService();
   const reportService = getReportService();
 
@@ -302,6 +511,13 @@ export async function createReport(
     description,
   });
 
+  // Apply automatic sanctions if the reported user passed a threshold
+  try {
+    await getSanctionService().evaluateUser(reportedUserId);
+  } catch (error) {
+    console.error('Sanction evaluation failed:', error);
+  }
+
   res.status(201).json({
     success: true,
     data: report,
@@ -323,14 +539,6 @@ export async function createInquiry(
   const userId = req.user!.userId;
   const { subject, message } = req.body;
 
-  if (!subject || !message) {
-    res.status(400).json({
-      error: 'ValidationError',
-      message: 'Subject and message are required',
-    });
-    return;
-  }
-
   const inquiryService = getInquiryService();
   const inquiry = await inquiryService.createInquiry({
     user_id: userId,
@@ -341,7 +549,7 @@ export async function createInquiry(
   res.status(201).json({
     success: true,
     data: inquiry,
-    message: `Inquiry created successfully. Inquiry ID: ${inquiry.inquiry_id}`,
+    message: `Inquiry created successfully. Inquiry ID: ${inquiry.inquiryId}`,
   });
 }
 
@@ -366,3 +574,124 @@ export async function getUserInquiries(
     data: inquiries,
   });
 }
+
+/**
+ * GET /api/user/inquiries/:inquiryId
+ *
+ * Get one of the authenticated user's inquiries with its replies.
+ */
+export async function getInquiryThread(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const userId = req.user!.userId;
+  const inquiryId = Number(req.params.inquiryId);
+
+  if (!Number.isInteger(inquiryId) || inquiryId <= 0) {
+    res.status(400).json({
+      error: 'ValidationError',
+      message: 'Invalid inquiry ID',
+    });
+    return;
+  }
+
+  const inquiryService = getInquiryService();
+  const inquiry = await inquiryService.getUserInquiryThread(userId, inquiryId);
+
+  res.json({
+    success: true,
+    data: inquiry,
+  });
+}
+
+/**
+ * POST /api/user/inquiries/:inquiryId/replies
+ *
+ * Reply to an answer on one of the authenticated user's inquiries.
+ * Body: `{ message }`. The inquiry goes back to pending.
+ */
+export async function replyToInquiry(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const userId = req.user!.userId;
+  const inquiryId = Number(req.params.inquiryId);
+
+  if (!Number.isInteger(inquiryId) || inquiryId <= 0) {
+    res.status(400).json({
+      error: 'ValidationError',
+      message: 'Invalid inquiry ID',
+    });
+    return;
+  }
+
+  const inquiryService = getInquiryService();
+  const inquiry = await inquiryService.addUserReply(userId, inquiryId, req.body.message);
+
+  res.status(201).json({
+    success: true,
+    data: inquiry,
+    message: 'Reply sent successfully',
+  });
+}
+
+/**
+ * GET /api/user/achievements
+ *
+ * Evaluate and list authenticated user's achievements with progress.
+ */
+export async function getAchievements(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const userId = req.user!.userId;
+  const achievementService = getAchievementService();
+
+  const achievements = await achievementService.evaluateAchievements(userId);
+
+  res.json({
+    success: true,
+    data: achievements,
+  });
+}
+
+/**
+ * GET /api/user/account-status
+ *
+ * Get authenticated user's account standing. Available to suspended
+ * users and accounts pending deletion so the frontend can explain the
+ * suspension or offer to restore the account.
+ */
+export async function getAccountStatus(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const userId = req.user!.userId;
+  const [suspension, pendingDeletion] = await Promise.all([
+    getSanctionService().getAccountStatus(userId),
+    getAccountDeletionService().getPendingDeletion(userId),
+  ]);
+
+  res.json({
+    success: true,
+    data: { ...suspension, pendingDeletion },
+  });
+}
+
+/**
+ * GET /api/user/roles
+ *
+ * Get authenticated user's effective roles (from Cognito groups and
+ * granted roles), used by the frontend route guards.
+ */
+export async function getRoles(
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> {
+  const roles = await resolveRoles(req);
+
+  res.json({
+    success: true,
+    data: { roles },
+  });
+}
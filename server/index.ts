@@ -15,7 +15,21 @@ import { fileURLToPath } from 'url';
 import { authMiddleware } from './middleware/auth';
 import { errorHandler } from './middleware/errorHandler';
 import userRoutes from './routes/userRoutes';
+import journalRoutes from './routes/journalRoutes';
+import libraryRoutes from './routes/libraryRoutes';
+import publicRoutes from './routes/publicRoutes';
+import adminRoutes from './routes/adminRoutes';
+import { createDocsRoutes } from './routes/docsRoutes';
 import { getDatabaseService } from '../src/services/database';
+import { getJobQueue } from '../src/services/jobQueue';
+import { getLibraryMediaService, LIBRARY_PROCESS_JOB } from '../src/services/libraryMediaService';
+import { getSanctionService, SANCTION_LIFT_JOB } from '../src/services/sanctionService';
+import { ACCOUNT_PURGE_JOB, getAccountDeletionService } from '../src/services/accountDeletionService';
+import { EXPORT_BUILD_JOB, EXPORT_EXPIRE_JOB, getDataExportService } from '../src/services/dataExportService';
+import { getNotificationService, NOTIFICATION_DELIVER_JOB } from '../src/services/notificationService';
+import type { DeliveryChannel } from '../src/services/notificationService';
+import { getReminderService, REMINDER_SEND_JOB } from '../src/services/reminderService';
+import { getRateLimitStore } from '../src/services/rateLimitStore';
 
 // ES 모듈에서 __dirname 대체
 const __filename = fileURLToPath(import.meta.url);
@@ -39,6 +53,22 @@ const initDatabase = async () => {
   }
 };
 
+// Resolve the rate limit store up front, so a mistyped RATE_LIMIT_STORE stops the server
+const initRateLimitStore = () => {
+  try {
+    console.log(`Rate limit store: ${getRateLimitStore().name}`);
+  } catch (error) {
+    console.error('Failed to resolve rate limit store:', error);
+    process.exit(1);
+  }
+};
+
+// Behind a proxy, take the client IP from X-Forwarded-For (hop count, true or an Express trust list)
+if (process.env.TRUST_PROXY) {
+  const trustProxy = process.env.TRUST_PROXY;
+  app.set('trust proxy', /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy === 'true' || trustProxy);
+}
+
 // Middleware
 app.use(cors({
   origin: [
@@ -64,7 +94,13 @@ app.get('/health', (req: Request, res: Response) => {
 });
 
 // API routes
-app.use('/api/user', userRoutes);
+export const apiRouters = [userRoutes, journalRoutes, libraryRoutes, publicRoutes, adminRoutes];
+for (const apiRouter of apiRouters) {
+  app.use(apiRouter.basePath, apiRouter.router);
+}
+
+// OpenAPI document (/api/openapi.json) and docs viewer (/api/docs)
+app.use('/api', createDocsRoutes(apiRouters));
 
 // 404 handler
 app.use((req: Request, res: Response) => {
@@ -77,9 +113,39 @@ app.use((req: Request, res: Response) => {
 // Error handler (must be last)
 app.use(errorHandler);
 
+// Background jobs
+const startJobWorker = () => {
+  const jobQueue = getJobQueue();
+  jobQueue.registerHandler(LIBRARY_PROCESS_JOB, (payload: { itemId: string }, job) =>
+    getLibraryMediaService().handleProcessJob(payload, job)
+  );
+  jobQueue.registerHandler(SANCTION_LIFT_JOB, (payload: { sanctionId: number }) =>
+    getSanctionService().handleLiftJob(payload)
+  );
+  jobQueue.registerHandler(ACCOUNT_PURGE_JOB, (payload: { userId: string }) =>
+    getAccountDeletionService().handlePurgeJob(payload)
+  );
+  jobQueue.registerHandler(EXPORT_BUILD_JOB, (payload: { exportId: string }, job) =>
+    getDataExportService().handleBuildJob(payload, job)
+  );
+  jobQueue.registerHandler(EXPORT_EXPIRE_JOB, (payload: { exportId: string }) =>
+    getDataExportService().handleExpireJob(payload)
+  );
+  jobQueue.registerHandler(NOTIFICATION_DELIVER_JOB, (payload: { notificationId: string; channel: DeliveryChannel }) =>
+    getNotificationService().handleDeliverJob(payload)
+  );
+  jobQueue.registerHandler(REMINDER_SEND_JOB, (payload: { userId: string }) =>
+    getReminderService().handleSendJob(payload)
+  );
+  jobQueue.start();
+};
+
 // Start server
 if (process.env.NODE_ENV !== 'test') {
+  initRateLimitStore();
   initDatabase().then(() => {
+    startJobWorker();
+    getReminderService().start();
     app.listen(PORT, () => {
       console.log(`API Server running on port ${PORT}`);
       console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
@@ -2,12 +2,16 @@
  * Authentication Middleware
  * 
  * Verifies JWT tokens from AWS Cognito and attaches user info to request.
+ * Rejects suspended accounts and accounts pending deletion.
  * 
  * Requirements: 10.9
  */
 
 import { Request, Response, NextFunction } from 'express';
-import { getAuthService } from '../../src/services/authService';
+import { getAuthService, CognitoUser } from '../../src/services/authService';
+import { getSanctionService } from '../../src/services/sanctionService';
+import { getAccountDeletionService } from '../../src/services/accountDeletionService';
+import type { UserRole } from '../../src/types/database';
 
 /**
  * Extended Request interface with user info
@@ -17,24 +21,34 @@ export interface AuthenticatedRequest extends Request {
     userId: string;
     email: string;
     nickname?: string;
+    groups: string[];  // Cognito groups from the token
+    federated: boolean;  // signed in through a social identity provider
+    roles?: UserRole[];  // resolved by requireRole
   };
 }
 
 /**
- * Authentication middleware
- * 
- * Extracts and verifies JWT token from Authorization header.
- * Attaches decoded user info to request object.
+ * Build the request user from a verified token
+ */
+function toRequestUser(decodedToken: CognitoUser): NonNullable<AuthenticatedRequest['user']> {
+  const groups = decodedToken['cognito:groups'];
+  const identities = decodedToken.identities;
+
+  return {
+    userId: decodedToken.sub,
+    email: decodedToken.email,
+    nickname: decodedToken.preferred_username,
+    groups: Array.isArray(groups) ? groups.filter((group): group is string => typeof group === 'string') : [],
+    federated: Array.isArray(identities) && identities.length > 0,
+  };
+}
+
+/**
+ * Verify the bearer token and attach the user to the request
  * 
- * @param req - Express request
- * @param res - Express response
- * @param next - Express next function
+ * Responds with 401 and returns false if the token is missing or invalid.
  */
-export async function authMiddleware(
-  req: AuthenticatedRequest,
-  res: Response,
-  next: NextFunction
-): Promise<void> {
+async function authenticate(req: AuthenticatedRequest, res: Response): Promise<boolean> {
   try {
     // Extract token from Authorization header
     const authHeader = req.headers.authorization;
@@ -44,7 +58,7 @@ export async function authMiddleware(
         error: 'Unauthorized',
         message: 'Missing or invalid authorization header',
       });
-      return;
+      return false;
     }
 
     const token = authHeader.substring(7); // Remove 'Bearer ' prefix
@@ -54,19 +68,67 @@ export async function authMiddleware(
     const decodedToken = await authService.verifyToken(token);
 
     // Attach user info to request
-    req.user = {
-      userId: decodedToken.sub,
-      email: decodedToken.email,
-      nickname: decodedToken.preferred_username,
-    };
+    req.user = toRequestUser(decodedToken);
 
-    next();
+    return true;
   } catch (error) {
     console.error('Authentication error:', error);
     res.status(401).json({
       error: 'Unauthorized',
       message: 'Invalid or expired token',
     });
+    return false;
+  }
+}
+
+/**
+ * Authentication middleware
+ * 
+ * Extracts and verifies JWT token from Authorization header.
+ * Attaches decoded user info to request object.
+ * Accounts pending deletion are rejected with 403 AccountPendingDeletion,
+ * and suspended users with 403 AccountSuspended.
+ * 
+ * @param req - Express request
+ * @param res - Express response
+ * @param next - Express next function
+ */
+export async function authMiddleware(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  if (!(await authenticate(req, res))) {
+    return;
+  }
+
+  try {
+    await getAccountDeletionService().assertNotPendingDeletion(req.user!.userId);
+    await getSanctionService().assertNotSuspended(req.user!.userId);
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Authentication middleware that lets restricted accounts through
+ * 
+ * For the few endpoints a suspended account or an account pending
+ * deletion still needs, such as the ones that explain the restriction
+ * and restore a deleted account.
+ * 
+ * @param req - Express request
+ * @param res - Express response
+ * @param next - Express next function
+ */
+export async function allowRestrictedAuthMiddleware(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  if (await authenticate(req, res)) {
+    next();
   }
 }
 
@@ -93,11 +155,14 @@ export async function optionalAuthMiddleware(
       const authService = getAuthService();
       const decodedToken = await authService.verifyToken(token);
 
-      req.user = {
-        userId: decodedToken.sub,
-        email: decodedToken.email,
-        nickname: decodedToken.preferred_username,
-      };
+      // Suspended accounts and accounts pending deletion are treated as anonymous
+      const [suspension, pendingDeletion] = await Promise.all([
+        getSanctionService().getActiveSuspension(decodedToken.sub),
+        getAccountDeletionService().getPendingDeletion(decodedToken.sub),
+      ]);
+      if (!suspension && !pendingDeletion) {
+        req.user = toRequestUser(decodedToken);
+      }
     }
 
     next();
@@ -32,16 +32,85 @@ export function errorHandler(
   let statusCode = 500;
   let message = 'Internal server error';
   let errorType = 'ServerError';
+  let details: Record<string, unknown> = {};
 
   // Handle specific error types
-  if (error.name === 'ValidationError' || error.name === 'InquiryValidationError' || error.name === 'ReportValidationError') {
+  if (error.name === 'ValidationError' || error.name === 'InquiryValidationError' || error.name === 'ReportValidationError' || error.name === 'JournalValidationError' || error.name === 'LibraryValidationError' || error.name === 'SettingsValidationError' || error.name === 'NotificationValidationError' || error.name === 'ReminderValidationError') {
     statusCode = 400;
     message = error.message;
     errorType = 'ValidationError';
+  } else if (error.name === 'RequestValidationError') {
+    statusCode = 400;
+    message = error.message;
+    errorType = 'ValidationError';
+    details = { fieldErrors: error.fieldErrors };
   } else if (error.name === 'UserNotFoundError') {
     statusCode = 404;
     message = 'User not found';
     errorType = 'NotFoundError';
+  } else if (error.name === 'JournalEntryNotFoundError') {
+    statusCode = 404;
+    message = 'Journal entry not found';
+    errorType = 'NotFoundError';
+  } else if (error.name === 'LibraryItemNotFoundError' || error.name === 'StorageObjectNotFoundError') {
+    statusCode = 404;
+    message = 'Library item not found';
+    errorType = 'NotFoundError';
+  } else if (error.name === 'AccountSuspendedError') {
+    statusCode = 403;
+    message = error.message;
+    errorType = 'AccountSuspended';
+    details = { reason: error.reason, suspendedUntil: error.suspendedUntil };
+  } else if (error.name === 'AccountPendingDeletionError') {
+    statusCode = 403;
+    message = error.message;
+    errorType = 'AccountPendingDeletion';
+    details = { deletedAt: error.deletedAt, purgeAt: error.purgeAt };
+  } else if (error.name === 'AccountNotPendingDeletionError') {
+    statusCode = 409;
+    message = error.message;
+    errorType = 'ConflictError';
+  } else if (error.name === 'ExportNotFoundError') {
+    statusCode = 404;
+    message = 'Export not found';
+    errorType = 'NotFoundError';
+  } else if (error.name === 'ExportNotReadyError') {
+    statusCode = 409;
+    message = error.message;
+    errorType = 'ConflictError';
+  } else if (error.name === 'NotificationNotFoundError') {
+    statusCode = 404;
+    message = 'Notification not found';
+    errorType = 'NotFoundError';
+  } else if (error.name === 'SanctionNotFoundError') {
+    statusCode = 404;
+    message = 'Sanction not found';
+    errorType = 'NotFoundError';
+  } else if (error.name === 'InquiryNotFoundError') {
+    statusCode = 404;
+    message = 'Inquiry not found';
+    errorType = 'NotFoundError';
+  } else if (error.name === 'ReportNotFoundError') {
+    statusCode = 404;
+    message = 'Report not found';
+    errorType = 'NotFoundError';
+  } else if (error.name === 'LibraryShareLinkNotFoundError') {
+    statusCode = 404;
+    message = error.message;
+    errorType = 'NotFoundError';
+  } else if (error.name === 'LibraryRangeNotSatisfiableError') {
+    statusCode = 416;
+    message = error.message;
+    errorType = 'RangeNotSatisfiableError';
+    res.setHeader('Content-Range', `bytes */${error.size}`);
+  } else if (error.name === 'MulterError') {
+    statusCode = error.code === 'LIMIT_FILE_SIZE' ? 413 : 400;
+    message = error.message;
+    errorType = 'ValidationError';
+  } else if (error.name === 'SummaryProviderError') {
+    statusCode = 502;
+    message = 'Failed to generate summary';
+    errorType = 'SummaryError';
   } else if (error.name === 'SelfReportError') {
     statusCode = 400;
     message = error.message;
@@ -58,6 +127,12 @@ export function errorHandler(
     statusCode = 409;
     message = error.message;
     errorType = 'ConflictError';
+  } else if (error.name === 'RateLimitExceededError') {
+    statusCode = 429;
+    message = error.message;
+    errorType = 'RateLimitExceeded';
+    details = { retryAfter: error.retryAfter };
+    res.setHeader('Retry-After', String(error.retryAfter));
   } else if (error.name === 'UnauthorizedError' || error.message?.includes('token')) {
     statusCode = 401;
     message = 'Unauthorized';
@@ -86,6 +161,7 @@ export function errorHandler(
   res.status(statusCode).json({
     error: errorType,
     message: message,
+    ...details,
     ...(process.env.NODE_ENV === 'development' && { stack: error.stack }),
   });
 }
@@ -0,0 +1,183 @@
+/**
+ * Rate Limit Test
+ *
+ * Checks the memory store's fixed windows and the rateLimit middleware's
+ * per-IP and per-user buckets, through a small Express app with the API's
+ * error handler.
+ *
+ * Run with `npm run test:rate-limit`. No database is needed.
+ */
+
+import { after, afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import type { Request } from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { errorHandler } from './errorHandler';
+import { rateLimit } from './rateLimit';
+import {
+  getRateLimitStore,
+  MemoryRateLimitStore,
+  registerRateLimitStore,
+} from '../../src/services/rateLimitStore';
+
+const WINDOW_MS = 60 * 1000;
+
+/**
+ * User key taken from a test header, standing in for the authenticated user
+ */
+const headerUserKey = (req: Request) => req.header('x-test-user');
+
+describe('MemoryRateLimitStore', () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('counts hits within a window and starts over after it', async () => {
+    let now = Date.parse('2026-01-01T09:00:00.000Z');
+    mock.method(Date, 'now', () => now);
+    const store = new MemoryRateLimitStore();
+
+    assert.equal((await store.hit('key', WINDOW_MS)).count, 1);
+    const second = await store.hit('key', WINDOW_MS);
+    assert.equal(second.count, 2);
+    assert.equal(second.resetAt.getTime(), now + WINDOW_MS);
+
+    now += WINDOW_MS - 1;
+    assert.equal((await store.hit('key', WINDOW_MS)).count, 3);
+
+    now += 1;
+    const reset = await store.hit('key', WINDOW_MS);
+    assert.equal(reset.count, 1);
+    assert.equal(reset.resetAt.getTime(), now + WINDOW_MS);
+  });
+
+  it('keeps separate counts per key', async () => {
+    const store = new MemoryRateLimitStore();
+
+    await store.hit('a', WINDOW_MS);
+    await store.hit('a', WINDOW_MS);
+
+    assert.equal((await store.hit('b', WINDOW_MS)).count, 1);
+  });
+});
+
+describe('getRateLimitStore', () => {
+  it('throws on an unknown store', () => {
+    assert.throws(() => getRateLimitStore('mistyped'), /Unknown rate limit store: mistyped/);
+  });
+});
+
+describe('rateLimit', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    const app = express();
+    app.use(express.json());
+    app.post(
+      '/per-ip',
+      rateLimit({ name: 'test-per-ip', windowMs: WINDOW_MS, perIp: 2 }),
+      (_req, res) => { res.json({ success: true }); }
+    );
+    app.post(
+      '/per-user',
+      rateLimit({ name: 'test-per-user', windowMs: WINDOW_MS, perIp: 100, perUser: 1, userKey: headerUserKey }),
+      (_req, res) => { res.json({ success: true }); }
+    );
+    app.post(
+      '/failing-store',
+      rateLimit({ name: 'test-failing-store', windowMs: WINDOW_MS, perIp: 1 }),
+      (_req, res) => { res.json({ success: true }); }
+    );
+    app.use(errorHandler);
+
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    mock.method(console, 'error', () => undefined);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  const post = (path: string, user?: string) =>
+    fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: user ? { 'x-test-user': user } : {},
+    });
+
+  it('answers requests over the per-IP limit with 429 and Retry-After', async () => {
+    assert.equal((await post('/per-ip')).status, 200);
+    assert.equal((await post('/per-ip')).status, 200);
+
+    const response = await post('/per-ip');
+    assert.equal(response.status, 429);
+
+    const retryAfter = Number(response.headers.get('retry-after'));
+    assert.ok(retryAfter > 0 && retryAfter <= WINDOW_MS / 1000, `Retry-After ${retryAfter}`);
+    assert.deepEqual(await response.json(), {
+      error: 'RateLimitExceeded',
+      message: 'Too many requests, please try again later',
+      retryAfter,
+    });
+  });
+
+  it('limits each user separately', async () => {
+    assert.equal((await post('/per-user', 'alice')).status, 200);
+    assert.equal((await post('/per-user', 'alice')).status, 429);
+
+    assert.equal((await post('/per-user', 'bob')).status, 200);
+  });
+
+  it('skips the per-user bucket when there is no user key', async () => {
+    assert.equal((await post('/per-user')).status, 200);
+    assert.equal((await post('/per-user')).status, 200);
+  });
+
+  it('lets requests through when the store fails', async () => {
+    registerRateLimitStore('failing', () => ({
+      name: 'failing',
+      hit: async () => {
+        throw new Error('connection refused');
+      },
+    }));
+    const previousStore = process.env.RATE_LIMIT_STORE;
+    process.env.RATE_LIMIT_STORE = 'failing';
+
+    try {
+      assert.equal((await post('/failing-store')).status, 200);
+      assert.equal((await post('/failing-store')).status, 200);
+    } finally {
+      if (previousStore === undefined) {
+        delete process.env.RATE_LIMIT_STORE;
+      } else {
+        process.env.RATE_LIMIT_STORE = previousStore;
+      }
+    }
+  });
+
+  it('fails requests when the store is unknown', async () => {
+    const previousStore = process.env.RATE_LIMIT_STORE;
+    process.env.RATE_LIMIT_STORE = 'mistyped';
+
+    try {
+      assert.equal((await post('/failing-store')).status, 500);
+    } finally {
+      if (previousStore === undefined) {
+        delete process.env.RATE_LIMIT_STORE;
+      } else {
+        process.env.RATE_LIMIT_STORE = previousStore;
+      }
+    }
+  });
+});
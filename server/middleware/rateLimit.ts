@@ -0,0 +1,123 @@
+/**
+ * Rate Limit Middleware
+ *
+ * Limits how often a route can be called per client IP and per user, each
+ * counted in a fixed window. Requests over a limit are answered with a 429
+ * and a Retry-After header (seconds):
+ *
+ *   { error: 'RateLimitExceeded', message, retryAfter: 120 }
+ *
+ * Counters live in the store selected by RATE_LIMIT_STORE. Behind a proxy
+ * set TRUST_PROXY so req.ip is the client's address, not the proxy's.
+ */
+
+import { createHash } from 'crypto';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { getRateLimitStore } from '../../src/services/rateLimitStore';
+import type { AuthenticatedRequest } from './auth';
+
+/**
+ * Limits of a route
+ */
+export interface RateLimitPolicy {
+  name: string;  // bucket prefix, unique per policy
+  windowMs: number;
+  perIp?: number;  // requests per window from one IP
+  perUser?: number;  // requests per window for one user
+  userKey?: (req: Request) => string | undefined;  // default: authenticated user ID
+}
+
+/**
+ * Policies of the rateLimit middleware created so far
+ */
+const policies = new WeakMap<RequestHandler, RateLimitPolicy>();
+
+/**
+ * Request rate limit exceeded
+ */
+export class RateLimitExceededError extends Error {
+  constructor(public retryAfter: number) {
+    super('Too many requests, please try again later');
+    this.name = 'RateLimitExceededError';
+  }
+}
+
+/**
+ * Authenticated user ID, the default user key
+ */
+function authenticatedUserKey(req: Request): string | undefined {
+  return (req as AuthenticatedRequest).user?.userId;
+}
+
+/**
+ * Email in the request body as the user key, for routes called before
+ * sign-in
+ */
+export function bodyEmailKey(req: Request): string | undefined {
+  const email = req.body?.email;
+  return typeof email === 'string' && email.trim() ? email.trim().toLowerCase() : undefined;
+}
+
+/**
+ * Bucket key of an identifier; hashed so the store holds no emails or IPs
+ */
+function bucketKey(policy: RateLimitPolicy, scope: 'ip' | 'user', identifier: string): string {
+  return `${policy.name}:${scope}:${createHash('sha256').update(identifier).digest('hex')}`;
+}
+
+/**
+ * Limit the request rate of a route
+ *
+ * Every request counts, including ones later rejected, so place it before
+ * validateBody. If the store fails (e.g. the database is briefly
+ * unavailable) the request is let through rather than taking the route
+ * down with it.
+ *
+ * @param policy - Limits of the route
+ * @returns Middleware that passes a RateLimitExceededError to the error handler
+ */
+export function rateLimit(policy: RateLimitPolicy) {
+  const userKey = policy.userKey ?? authenticatedUserKey;
+
+  const middleware = async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
+    const checks: { key: string; limit: number }[] = [];
+
+    if (policy.perIp !== undefined && req.ip) {
+      checks.push({ key: bucketKey(policy, 'ip', req.ip), limit: policy.perIp });
+    }
+    if (policy.perUser !== undefined) {
+      const user = userKey(req);
+      if (user) {
+        checks.push({ key: bucketKey(policy, 'user', user), limit: policy.perUser });
+      }
+    }
+
+    // Outside the try: an unknown store is a configuration error, not an outage
+    const store = getRateLimitStore();
+
+    try {
+      const hits = await Promise.all(checks.map(check => store.hit(check.key, policy.windowMs)));
+
+      const exceeded = hits.filter((hit, index) => hit.count > checks[index].limit);
+      if (exceeded.length > 0) {
+        const resetAt = Math.max(...exceeded.map(hit => hit.resetAt.getTime()));
+        next(new RateLimitExceededError(Math.max(1, Math.ceil((resetAt - Date.now()) / 1000))));
+        return;
+      }
+    } catch (error) {
+      console.error(`Rate limit check failed for ${policy.name}:`, error);
+    }
+
+    next();
+  };
+
+  policies.set(middleware, policy);
+  return middleware;
+}
+
+/**
+ * Policy of a rateLimit middleware, if the handler is one
+ */
+export function getRateLimitPolicy(handler: RequestHandler): RateLimitPolicy | undefined {
+  return policies.get(handler);
+}
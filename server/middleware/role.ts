@@ -0,0 +1,66 @@
+/**
+ * Role Middleware
+ *
+ * Restricts routes to users with a given role. Roles come from the
+ * user's Cognito groups and the user_roles table. Must run after
+ * authMiddleware.
+ */
+
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from './auth';
+import { getRoleService } from '../../src/services/roleService';
+import type { UserRole } from '../../src/types/database';
+
+/**
+ * Resolve and cache the authenticated user's roles on the request
+ *
+ * @param req - Authenticated request
+ * @returns Effective roles (admin includes moderator and user)
+ */
+export async function resolveRoles(req: AuthenticatedRequest): Promise<UserRole[]> {
+  const user = req.user!;
+
+  if (!user.roles) {
+    user.roles = await getRoleService().getRoles(user.userId, user.groups);
+  }
+
+  return user.roles;
+}
+
+/**
+ * Role middleware factory
+ *
+ * Responds with 403 unless the user has at least one of the given roles.
+ * Higher roles satisfy lower ones, so requireRole('moderator') also
+ * admits admins.
+ *
+ * @param roles - Accepted roles
+ * @returns Express middleware
+ */
+export function requireRole(...roles: UserRole[]) {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Missing or invalid authorization header',
+      });
+      return;
+    }
+
+    try {
+      const userRoles = await resolveRoles(req);
+
+      if (!roles.some(role => userRoles.includes(role))) {
+        res.status(403).json({
+          error: 'Forbidden',
+          message: `Requires role: ${roles.join(' or ')}`,
+        });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * Validation Middleware
+ *
+ * Validates request bodies against the shared schemas in src/schemas, so
+ * the API and the forms that call it apply the same rules. Invalid bodies
+ * are answered with a 400 listing an error message per field:
+ *
+ *   { error: 'ValidationError', message, fieldErrors: { nickname: '...' } }
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import type { ZodTypeAny } from 'zod';
+import { toFieldErrors, type FieldErrors } from '../../src/schemas/common';
+
+/**
+ * Schemas of the validateBody middleware created so far
+ */
+const bodySchemas = new WeakMap<RequestHandler, ZodTypeAny>();
+
+/**
+ * Request body failed schema validation
+ */
+export class RequestValidationError extends Error {
+  constructor(public fieldErrors: FieldErrors) {
+    super(Object.values(fieldErrors)[0] ?? 'Invalid request body');
+    this.name = 'RequestValidationError';
+  }
+}
+
+/**
+ * Validate the request body, replacing it with the parsed value
+ *
+ * Unknown fields are dropped and strings are trimmed where the schema
+ * says so, so controllers can use the body as-is. The schema is kept on
+ * the middleware so the OpenAPI document can describe the request body.
+ *
+ * @param schema - Schema of the request body
+ * @returns Middleware that passes a RequestValidationError to the error handler
+ */
+export function validateBody(schema: ZodTypeAny) {
+  const middleware = (req: Request, _res: Response, next: NextFunction): void => {
+    const result = schema.safeParse(req.body ?? {});
+
+    if (!result.success) {
+      next(new RequestValidationError(toFieldErrors(result.error)));
+      return;
+    }
+
+    req.body = result.data;
+    next();
+  };
+
+  bodySchemas.set(middleware, schema);
+  return middleware;
+}
+
+/**
+ * Body schema of a validateBody middleware, if the handler is one
+ */
+export function getBodySchema(handler: RequestHandler): ZodTypeAny | undefined {
+  return bodySchemas.get(handler);
+}
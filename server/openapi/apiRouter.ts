@@ -0,0 +1,104 @@
+/**
+ * API Router
+ *
+ * Express router that records the routes registered on it, so the OpenAPI
+ * document is generated from the same definitions that serve requests.
+ * A route may pass a RouteDocs object before its handlers:
+ *
+ *   router.get('/profile', { summary: 'Get profile', response: fullUserProfileSchema },
+ *     authMiddleware, asyncHandler(userController.getUserProfile));
+ *
+ * Routes without a `response` or `file` are documented as message-only
+ * responses; the contract test checks every route against its docs.
+ */
+
+import { Router, type RequestHandler } from 'express';
+import type { AnyZodObject, ZodTypeAny } from 'zod';
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+/**
+ * Documentation of a route
+ */
+export interface RouteDocs {
+  summary?: string;
+  description?: string;
+  status?: number;  // success status, 200 by default
+  response?: ZodTypeAny;  // `data` of the success response; omitted for message-only responses
+  paginated?: boolean;  // `pagination` is sent next to `data`
+  file?: string;  // content type of a file response sent instead of JSON
+  query?: AnyZodObject;  // query string parameters
+  requestContentType?: string;  // request body content type, application/json by default
+}
+
+/**
+ * Route registered on an API router
+ */
+export interface ApiRoute {
+  method: HttpMethod;
+  path: string;  // full Express path, e.g. /api/user/inquiries/:inquiryId
+  docs: RouteDocs;
+  handlers: RequestHandler[];  // router-level middleware first
+}
+
+type RouteArgs = [RouteDocs, ...RequestHandler[]] | RequestHandler[];
+
+export class ApiRouter {
+  readonly router = Router();
+  readonly routes: ApiRoute[] = [];
+  private middleware: RequestHandler[] = [];
+
+  /**
+   * @param basePath - Path the router is mounted at, e.g. /api/user
+   * @param tag - OpenAPI tag grouping the router's routes
+   */
+  constructor(
+    readonly basePath: string,
+    readonly tag: string
+  ) {}
+
+  /**
+   * Add middleware run before the routes registered after it
+   */
+  use(...handlers: RequestHandler[]): this {
+    this.middleware.push(...handlers);
+    this.router.use(...handlers);
+    return this;
+  }
+
+  get(path: string, ...args: RouteArgs): this {
+    return this.addRoute('get', path, args);
+  }
+
+  post(path: string, ...args: RouteArgs): this {
+    return this.addRoute('post', path, args);
+  }
+
+  put(path: string, ...args: RouteArgs): this {
+    return this.addRoute('put', path, args);
+  }
+
+  patch(path: string, ...args: RouteArgs): this {
+    return this.addRoute('patch', path, args);
+  }
+
+  delete(path: string, ...args: RouteArgs): this {
+    return this.addRoute('delete', path, args);
+  }
+
+  private addRoute(method: HttpMethod, path: string, args: RouteArgs): this {
+    const [docs, handlers] =
+      typeof args[0] === 'function'
+        ? [{}, args as RequestHandler[]]
+        : [args[0], args.slice(1) as RequestHandler[]];
+
+    this.router[method](path, ...handlers);
+    this.routes.push({
+      method,
+      path: `${this.basePath}${path}`,
+      docs,
+      handlers: [...this.middleware, ...handlers],
+    });
+    return this;
+  }
+}
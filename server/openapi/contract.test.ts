@@ -0,0 +1,940 @@
+/**
+ * API Contract Test
+ *
+ * Calls each API route through the Express app, with the services its
+ * controller uses stubbed, and checks the response against the schema
+ * the route declares in its docs — the schema published in the OpenAPI
+ * document. Fails when a controller response drifts from its schema, or
+ * when a route is added without a contract case here.
+ *
+ * Run with `npm run test:contract`. No database or Cognito is needed.
+ */
+
+import { after, afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { Readable } from 'stream';
+import type { ApiRoute, HttpMethod } from './apiRouter';
+import { getResponseSchema } from './document';
+import { getAuthService } from '../../src/services/authService';
+import { getAccountDeletionService } from '../../src/services/accountDeletionService';
+import { getAchievementService } from '../../src/services/achievementService';
+import { getChapterService } from '../../src/services/chapterService';
+import { getDataExportService } from '../../src/services/dataExportService';
+import { getDatabaseService } from '../../src/services/database';
+import { getInquiryService } from '../../src/services/inquiryService';
+import { getInsightsService } from '../../src/services/insightsService';
+import { getJournalImportService } from '../../src/services/journalImportService';
+import { getJournalService } from '../../src/services/journalService';
+import { getLibraryService } from '../../src/services/libraryService';
+import type { LibraryItemContent } from '../../src/services/libraryService';
+import { getLibraryShareService } from '../../src/services/libraryShareService';
+import { getNotificationService } from '../../src/services/notificationService';
+import { getReminderService } from '../../src/services/reminderService';
+import { getReportService } from '../../src/services/reportService';
+import { getRoleService } from '../../src/services/roleService';
+import { getSanctionService } from '../../src/services/sanctionService';
+import { getSettingsService } from '../../src/services/settingsService';
+import { getStreakService } from '../../src/services/streakService';
+import { getUserService } from '../../src/services/userService';
+import type { PaginationResponse } from '../../src/services/databaseUtils';
+import type {
+  AdminInquiry,
+  AdminInquiryThread,
+  AdminReport,
+  AdminReportDetail,
+  AdminUserSummary,
+  DailySummary,
+  FullUserProfile,
+  InquiryThread,
+  JournalChapter,
+  JournalEntry,
+  JournalImportPreview,
+  JournalImportResult,
+  JournalInsights,
+  LibraryItemData,
+  LibraryItemRecord,
+  LibraryShareLink,
+  NotificationList,
+  PendingDeletion,
+  ReminderSchedule,
+  SharedLibraryItem,
+  UserAchievement,
+  UserExport,
+  UserInquiry,
+  UserReport,
+  UserSanction,
+  UserSettings,
+  WritingStreak,
+} from '../../src/types/database';
+
+// The services read their configuration when first used; the server
+// doesn't listen when NODE_ENV is test
+process.env.NODE_ENV = 'test';
+process.env.AWS_USER_POOL_ID ??= 'ap-northeast-2_contract';
+process.env.AWS_CLIENT_ID ??= 'contract-test';
+
+const USER_ID = '00000000-0000-4000-8000-000000000001';
+const REPORTED_USER_ID = '00000000-0000-4000-8000-000000000002';
+const EXPORT_ID = '00000000-0000-4000-8000-000000000003';
+const ITEM_ID = '00000000-0000-4000-8000-000000000006';
+const SHARE_TOKEN = 'share-token';
+const NOW = new Date('2026-01-01T09:00:00.000Z');
+
+const profile: FullUserProfile = {
+  userId: USER_ID,
+  email: 'reader@example.com',
+  nickname: 'reader',
+  profileImageUrl: null,
+  bio: '매일 한 줄씩',
+  phoneNumber: null,
+  timezone: 'Asia/Seoul',
+  status: 'active',
+  createdAt: NOW,
+  updatedAt: NOW,
+};
+
+const settings: UserSettings = {
+  theme: 'night',
+  language: 'ko',
+  notificationsEnabled: true,
+  notificationOptOuts: ['writing_reminder'],
+  updatedAt: NOW,
+};
+
+const reminderSchedule: ReminderSchedule = {
+  enabled: true,
+  time: '21:00',
+  weekdays: [1, 2, 3, 4, 5],
+  timezone: 'Asia/Seoul',
+  lastSentOn: '2025-12-31',
+};
+
+const pendingDeletion: PendingDeletion = {
+  deletedAt: NOW,
+  purgeAt: new Date('2026-01-31T09:00:00.000Z'),
+};
+
+const userExport: UserExport = {
+  exportId: EXPORT_ID,
+  status: 'completed',
+  size: 2048,
+  error: null,
+  createdAt: NOW,
+  completedAt: NOW,
+  expiresAt: new Date('2026-01-08T09:00:00.000Z'),
+};
+
+const notificationList: NotificationList = {
+  notifications: [
+    {
+      notificationId: '00000000-0000-4000-8000-000000000004',
+      userId: USER_ID,
+      type: 'inquiry_answered',
+      title: '문의에 답변이 등록되었습니다',
+      body: '계정 문의',
+      link: '/mypage',
+      readAt: null,
+      createdAt: NOW,
+    },
+  ],
+  unreadCount: 1,
+};
+
+const report: UserReport = {
+  reportId: 1,
+  reporterId: USER_ID,
+  reportedUserId: REPORTED_USER_ID,
+  reason: 'spam',
+  description: null,
+  status: 'pending',
+  createdAt: NOW,
+  reviewedAt: null,
+  reviewedBy: null,
+};
+
+const inquiry: UserInquiry = {
+  inquiryId: 1,
+  userId: USER_ID,
+  subject: '계정 문의',
+  message: '닉네임을 바꾸고 싶어요',
+  status: 'answered',
+  response: '설정에서 바꿀 수 있습니다',
+  createdAt: NOW,
+  answeredAt: NOW,
+  answeredBy: '00000000-0000-4000-8000-000000000005',
+};
+
+const inquiryThread: InquiryThread = {
+  inquiryId: 1,
+  subject: inquiry.subject,
+  message: inquiry.message,
+  status: 'pending',
+  response: inquiry.response,
+  createdAt: NOW,
+  answeredAt: NOW,
+  messages: [
+    {
+      messageId: 1,
+      inquiryId: 1,
+      authorRole: 'staff',
+      authorNickname: '운영자',
+      body: '설정에서 바꿀 수 있습니다',
+      isInternal: false,
+      createdAt: NOW,
+    },
+  ],
+};
+
+const achievements: UserAchievement[] = [
+  {
+    key: 'first_entry',
+    label: '첫 기록',
+    category: 'journal',
+    target: 1,
+    progress: 1,
+    earned: true,
+    unlockedAt: NOW,
+  },
+];
+
+const journalEntry: JournalEntry = {
+  entryId: 1,
+  userId: USER_ID,
+  content: '오늘은 산책을 했다',
+  entryDate: '2026-01-01',
+  timezone: 'Asia/Seoul',
+  createdAt: NOW,
+  updatedAt: NOW,
+};
+
+const emotions: DailySummary['emotions'] = [{ type: 'positive', label: '평온', percentage: 100 }];
+
+const chapter: JournalChapter = {
+  chapterId: 1,
+  userId: USER_ID,
+  chapterDate: '2026-01-01',
+  title: '산책',
+  preview: journalEntry.content,
+  summary: '산책을 한 하루',
+  summaryProvider: 'extractive',
+  summarySourceHash: 'hash',
+  summarizedAt: NOW,
+  emotions,
+  entryCount: 1,
+  createdAt: NOW,
+  updatedAt: NOW,
+  entries: [journalEntry],
+};
+
+const dailySummary: DailySummary = {
+  date: '2026-01-01',
+  summary: '산책을 한 하루',
+  provider: 'extractive',
+  emotions,
+  entryCount: 1,
+  cached: true,
+};
+
+const importPreview: JournalImportPreview = {
+  files: [{ name: 'diary.md', format: 'markdown', entryCount: 1 }],
+  totalEntries: 1,
+  newEntries: 1,
+  duplicateEntries: 0,
+  dates: ['2026-01-01'],
+  entries: [{ entryDate: '2026-01-01', excerpt: journalEntry.content, source: 'diary.md', duplicate: false }],
+  warnings: [],
+};
+
+const importResult: JournalImportResult = {
+  importedEntries: 1,
+  duplicateEntries: 0,
+  dates: ['2026-01-01'],
+  warnings: [],
+};
+
+const insights: JournalInsights = {
+  range: 'week',
+  startDate: '2025-12-26',
+  endDate: '2026-01-01',
+  totalEntries: 1,
+  activeDays: 1,
+  averageEntriesPerDay: 1,
+  buckets: [{ period: '2026-01-01', entryCount: 1, activeDays: 1, positive: 100, neutral: 0, negative: 0 }],
+  topEmotions: emotions,
+};
+
+const streak: WritingStreak = {
+  timezone: 'Asia/Seoul',
+  today: '2026-01-01',
+  currentStreak: 1,
+  longestStreak: 3,
+  lastEntryDate: '2026-01-01',
+  activity: [{ date: '2026-01-01', count: 1 }],
+};
+
+const libraryItem: LibraryItemData = {
+  id: ITEM_ID,
+  name: 'photo.jpg',
+  type: 'image',
+  visibility: 'private',
+  mimeType: 'image/jpeg',
+  size: 3,
+  width: 640,
+  height: 480,
+  thumbnail: `/api/library/items/${ITEM_ID}/content?variant=thumbnail`,
+  previewUrl: `/api/library/items/${ITEM_ID}/content?variant=preview`,
+  preview: null,
+  processingStatus: 'ready',
+  contentUrl: `/api/library/items/${ITEM_ID}/content`,
+  createdAt: NOW,
+};
+
+const libraryItemRecord: LibraryItemRecord = {
+  itemId: ITEM_ID,
+  userId: USER_ID,
+  name: libraryItem.name,
+  type: 'image',
+  visibility: 'private',
+  mimeType: libraryItem.mimeType,
+  size: 3,
+  storageDriver: 'local',
+  storageKey: `library/${USER_ID}/${ITEM_ID}`,
+  width: 640,
+  height: 480,
+  thumbnailKey: null,
+  previewKey: null,
+  preview: null,
+  processingStatus: 'ready',
+  createdAt: NOW,
+  updatedAt: NOW,
+};
+
+const shareLink: LibraryShareLink = {
+  id: 1,
+  itemId: ITEM_ID,
+  token: SHARE_TOKEN,
+  expiresAt: null,
+  revokedAt: null,
+  active: true,
+  createdAt: NOW,
+};
+
+const sharedItem: SharedLibraryItem = {
+  name: libraryItem.name,
+  type: 'image',
+  mimeType: libraryItem.mimeType,
+  size: 3,
+  width: 640,
+  height: 480,
+  thumbnail: null,
+  previewUrl: null,
+  preview: null,
+  contentUrl: `/api/public/share/${SHARE_TOKEN}/content`,
+  createdAt: NOW,
+  expiresAt: null,
+};
+
+/**
+ * Opened library content; a new stream for every request
+ */
+const libraryContent = (): LibraryItemContent => ({
+  item: libraryItemRecord,
+  mimeType: libraryItemRecord.mimeType,
+  size: 3,
+  stream: Readable.from([Buffer.from('jpg')]),
+  range: null,
+});
+
+const reporter: AdminUserSummary = { userId: USER_ID, email: profile.email, nickname: profile.nickname, status: 'active' };
+
+const reportedUser: AdminUserSummary = {
+  userId: REPORTED_USER_ID,
+  email: 'spammer@example.com',
+  nickname: 'spammer',
+  status: 'active',
+};
+
+const sanction: UserSanction = {
+  sanctionId: 1,
+  userId: REPORTED_USER_ID,
+  action: 'suspend',
+  reason: '신고 누적',
+  reportCount: 5,
+  endsAt: new Date('2026-01-04T09:00:00.000Z'),
+  createdBy: null,
+  createdAt: NOW,
+  liftedAt: null,
+  liftedBy: null,
+  active: true,
+};
+
+const adminReport: AdminReport = {
+  reportId: report.reportId,
+  reason: report.reason,
+  description: report.description,
+  status: 'reviewed',
+  createdAt: NOW,
+  reviewedAt: NOW,
+  reporter,
+  reportedUser,
+  reviewer: reporter,
+  reportedUserSanction: 'suspend',
+};
+
+const adminReportDetail: AdminReportDetail = {
+  ...adminReport,
+  reportedUserReportCount: 2,
+  reportedUserHistory: [{ ...adminReport, reportId: 2, reviewer: null, reviewedAt: null, status: 'pending' }],
+  reporterReportCount: 1,
+  reportedUserSanctions: [sanction],
+};
+
+const adminInquiry: AdminInquiry = {
+  inquiryId: inquiry.inquiryId,
+  subject: inquiry.subject,
+  status: 'answered',
+  createdAt: NOW,
+  answeredAt: NOW,
+  lastMessageAt: NOW,
+  messageCount: 1,
+  user: reporter,
+  answeredBy: reporter,
+};
+
+const adminInquiryThread: AdminInquiryThread = {
+  ...inquiryThread,
+  user: reporter,
+  answeredBy: null,
+};
+
+/**
+ * One-page paginated response
+ */
+const page = <T>(data: T[]): PaginationResponse<T> => ({
+  data,
+  pagination: { page: 1, pageSize: 20, totalItems: data.length, totalPages: 1, hasNext: false, hasPrevious: false },
+});
+
+/**
+ * Multipart body with one small file in the given field
+ */
+const upload = (field: string, name: string, content: string, type: string) => () => {
+  const form = new FormData();
+  form.append(field, new Blob([content], { type }), name);
+  return form;
+};
+
+/**
+ * The test user passes requireRole('moderator')
+ */
+const asModerator = () => mock.method(getRoleService(), 'getRoles', async () => ['moderator']);
+
+interface ContractCase {
+  method: HttpMethod;
+  path: string;  // Express path of the route
+  url?: string;  // request URL, for paths with parameters
+  body?: unknown;
+  form?: () => FormData;  // multipart body, instead of a JSON body
+  stub: () => void;  // stub the services the controller calls
+}
+
+const cases: ContractCase[] = [
+  {
+    method: 'get',
+    path: '/api/user/profile',
+    stub: () => mock.method(getUserService(), 'getUserProfile', async () => profile),
+  },
+  {
+    method: 'put',
+    path: '/api/user/profile',
+    body: { bio: profile.bio },
+    stub: () => mock.method(getUserService(), 'updateUserProfile', async () => profile),
+  },
+  {
+    method: 'get',
+    path: '/api/user/settings',
+    stub: () => mock.method(getSettingsService(), 'getSettings', async () => settings),
+  },
+  {
+    method: 'put',
+    path: '/api/user/settings',
+    body: { theme: 'night' },
+    stub: () => mock.method(getSettingsService(), 'updateSettings', async () => settings),
+  },
+  {
+    method: 'get',
+    path: '/api/user/reminder',
+    stub: () => mock.method(getReminderService(), 'getSchedule', async () => reminderSchedule),
+  },
+  {
+    method: 'put',
+    path: '/api/user/reminder',
+    body: { enabled: true, time: '21:00', weekdays: [1, 2, 3, 4, 5], timezone: 'Asia/Seoul' },
+    stub: () => mock.method(getReminderService(), 'saveSchedule', async () => reminderSchedule),
+  },
+  {
+    method: 'post',
+    path: '/api/user/password-reset',
+    body: { email: profile.email },
+    stub: () => mock.method(getAuthService(), 'initiatePasswordReset', async () => undefined),
+  },
+  {
+    method: 'post',
+    path: '/api/user/password-reset/confirm',
+    body: { email: profile.email, code: '123456', newPassword: 'Password1!' },
+    stub: () => mock.method(getAuthService(), 'confirmPasswordReset', async () => undefined),
+  },
+  {
+    method: 'delete',
+    path: '/api/user/account',
+    body: { password: 'Password1!' },
+    stub: () => {
+      mock.method(getAuthService(), 'verifyPassword', async () => true);
+      mock.method(getAccountDeletionService(), 'scheduleDeletion', async () => pendingDeletion);
+    },
+  },
+  {
+    method: 'post',
+    path: '/api/user/account/restore',
+    stub: () => mock.method(getAccountDeletionService(), 'restoreAccount', async () => undefined),
+  },
+  {
+    method: 'post',
+    path: '/api/user/export',
+    stub: () => mock.method(getDataExportService(), 'requestExport', async () => ({ ...userExport, status: 'pending' })),
+  },
+  {
+    method: 'get',
+    path: '/api/user/export',
+    stub: () => mock.method(getDataExportService(), 'getLatestExport', async () => userExport),
+  },
+  {
+    method: 'get',
+    path: '/api/user/export/:exportId',
+    url: `/api/user/export/${EXPORT_ID}`,
+    stub: () => mock.method(getDataExportService(), 'getExport', async () => userExport),
+  },
+  {
+    method: 'get',
+    path: '/api/user/export/:exportId/download',
+    url: `/api/user/export/${EXPORT_ID}/download`,
+    stub: () =>
+      mock.method(getDataExportService(), 'openExport', async () => ({
+        filename: 'export.zip',
+        size: 3,
+        stream: Readable.from([Buffer.from('zip')]),
+      })),
+  },
+  {
+    method: 'get',
+    path: '/api/user/notifications',
+    stub: () => mock.method(getNotificationService(), 'getNotifications', async () => notificationList),
+  },
+  {
+    method: 'post',
+    path: '/api/user/notifications/read-all',
+    stub: () => mock.method(getNotificationService(), 'markAllRead', async () => undefined),
+  },
+  {
+    method: 'post',
+    path: '/api/user/notifications/:notificationId/read',
+    url: `/api/user/notifications/${notificationList.notifications[0].notificationId}/read`,
+    stub: () => mock.method(getNotificationService(), 'markRead', async () => undefined),
+  },
+  {
+    method: 'get',
+    path: '/api/user/notifications/push-key',
+    stub: () => mock.method(getNotificationService(), 'getPushPublicKey', () => 'BPublicKey'),
+  },
+  {
+    method: 'post',
+    path: '/api/user/notifications/push-subscriptions',
+    body: { endpoint: 'https://push.example.com/1', keys: { p256dh: 'p256dh', auth: 'auth' } },
+    stub: () => mock.method(getNotificationService(), 'savePushSubscription', async () => undefined),
+  },
+  {
+    method: 'delete',
+    path: '/api/user/notifications/push-subscriptions',
+    body: { endpoint: 'https://push.example.com/1' },
+    stub: () => mock.method(getNotificationService(), 'deletePushSubscription', async () => undefined),
+  },
+  {
+    method: 'post',
+    path: '/api/user/report',
+    body: { reported_user_identifier: 'spammer', reason: 'spam' },
+    stub: () => {
+      mock.method(getDatabaseService(), 'query', async () => ({ rows: [{ user_id: REPORTED_USER_ID }] }));
+      mock.method(getReportService(), 'createReport', async () => report);
+      mock.method(getSanctionService(), 'evaluateUser', async () => undefined);
+    },
+  },
+  {
+    method: 'post',
+    path: '/api/user/inquiry',
+    body: { subject: inquiry.subject, message: inquiry.message },
+    stub: () => mock.method(getInquiryService(), 'createInquiry', async () => ({ ...inquiry, status: 'pending' })),
+  },
+  {
+    method: 'get',
+    path: '/api/user/inquiries',
+    stub: () => mock.method(getInquiryService(), 'getUserInquiries', async () => [inquiry]),
+  },
+  {
+    method: 'get',
+    path: '/api/user/inquiries/:inquiryId',
+    url: '/api/user/inquiries/1',
+    stub: () => mock.method(getInquiryService(), 'getUserInquiryThread', async () => inquiryThread),
+  },
+  {
+    method: 'post',
+    path: '/api/user/inquiries/:inquiryId/replies',
+    url: '/api/user/inquiries/1/replies',
+    body: { message: '감사합니다' },
+    stub: () => mock.method(getInquiryService(), 'addUserReply', async () => inquiryThread),
+  },
+  {
+    method: 'get',
+    path: '/api/user/account-status',
+    stub: () => {
+      mock.method(getSanctionService(), 'getAccountStatus', async () => ({
+        suspended: false,
+        reason: null,
+        suspendedUntil: null,
+      }));
+      mock.method(getAccountDeletionService(), 'getPendingDeletion', async () => null);
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/user/roles',
+    stub: () => mock.method(getRoleService(), 'getRoles', async () => ['user']),
+  },
+  {
+    method: 'get',
+    path: '/api/user/achievements',
+    stub: () => mock.method(getAchievementService(), 'evaluateAchievements', async () => achievements),
+  },
+  {
+    method: 'get',
+    path: '/api/journal/entries',
+    stub: () => mock.method(getJournalService(), 'getEntries', async () => [journalEntry]),
+  },
+  {
+    method: 'post',
+    path: '/api/journal/entries',
+    body: { content: journalEntry.content },
+    stub: () => {
+      mock.method(getJournalService(), 'createEntry', async () => journalEntry);
+      mock.method(getAchievementService(), 'evaluateAchievements', async () => achievements);
+    },
+  },
+  {
+    method: 'patch',
+    path: '/api/journal/entries/:entryId',
+    url: '/api/journal/entries/1',
+    body: { content: journalEntry.content },
+    stub: () => mock.method(getJournalService(), 'updateEntry', async () => journalEntry),
+  },
+  {
+    method: 'delete',
+    path: '/api/journal/entries/:entryId',
+    url: '/api/journal/entries/1',
+    stub: () => mock.method(getJournalService(), 'deleteEntry', async () => undefined),
+  },
+  {
+    method: 'post',
+    path: '/api/journal/summaries',
+    body: { date: dailySummary.date },
+    stub: () => mock.method(getChapterService(), 'getDailySummary', async () => dailySummary),
+  },
+  {
+    method: 'get',
+    path: '/api/journal/chapters',
+    stub: () => mock.method(getChapterService(), 'getChapters', async () => page([chapter])),
+  },
+  {
+    method: 'post',
+    path: '/api/journal/chapters',
+    body: { date: chapter.chapterDate, title: chapter.title },
+    stub: () => mock.method(getChapterService(), 'registerChapter', async () => chapter),
+  },
+  {
+    method: 'post',
+    path: '/api/journal/import/preview',
+    form: upload('files', 'diary.md', `# 2026-01-01\n${journalEntry.content}`, 'text/markdown'),
+    stub: () => mock.method(getJournalImportService(), 'previewImport', async () => importPreview),
+  },
+  {
+    method: 'post',
+    path: '/api/journal/import',
+    form: upload('files', 'diary.md', `# 2026-01-01\n${journalEntry.content}`, 'text/markdown'),
+    stub: () => {
+      mock.method(getJournalImportService(), 'importEntries', async () => importResult);
+      mock.method(getAchievementService(), 'evaluateAchievements', async () => achievements);
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/journal/insights',
+    stub: () => {
+      mock.method(getJournalService(), 'getProfileTimeZone', async () => profile.timezone);
+      mock.method(getInsightsService(), 'getInsights', async () => insights);
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/journal/streak',
+    stub: () => mock.method(getStreakService(), 'getStreak', async () => streak),
+  },
+  {
+    method: 'get',
+    path: '/api/library/items',
+    stub: () => mock.method(getLibraryService(), 'getItems', async () => [libraryItem]),
+  },
+  {
+    method: 'post',
+    path: '/api/library/items',
+    form: upload('file', libraryItem.name, 'jpg', libraryItem.mimeType),
+    stub: () => mock.method(getLibraryService(), 'createItem', async () => libraryItem),
+  },
+  {
+    method: 'patch',
+    path: '/api/library/items/visibility',
+    body: { itemIds: [ITEM_ID], visibility: 'public' },
+    stub: () => mock.method(getLibraryService(), 'updateVisibility', async () => [{ ...libraryItem, visibility: 'public' }]),
+  },
+  {
+    method: 'delete',
+    path: '/api/library/items',
+    body: { itemIds: [ITEM_ID] },
+    stub: () => mock.method(getLibraryService(), 'deleteItems', async () => [ITEM_ID]),
+  },
+  {
+    method: 'get',
+    path: '/api/library/items/:itemId/content',
+    url: `/api/library/items/${ITEM_ID}/content`,
+    stub: () => mock.method(getLibraryService(), 'openContent', async () => libraryContent()),
+  },
+  {
+    method: 'get',
+    path: '/api/library/items/:itemId/share-links',
+    url: `/api/library/items/${ITEM_ID}/share-links`,
+    stub: () => mock.method(getLibraryShareService(), 'getLinks', async () => [shareLink]),
+  },
+  {
+    method: 'post',
+    path: '/api/library/items/:itemId/share-links',
+    url: `/api/library/items/${ITEM_ID}/share-links`,
+    body: {},
+    stub: () => mock.method(getLibraryShareService(), 'createLink', async () => shareLink),
+  },
+  {
+    method: 'delete',
+    path: '/api/library/share-links/:linkId',
+    url: '/api/library/share-links/1',
+    stub: () => mock.method(getLibraryShareService(), 'revokeLink', async () => ({ ...shareLink, revokedAt: NOW, active: false })),
+  },
+  {
+    method: 'get',
+    path: '/api/public/share/:token',
+    url: `/api/public/share/${SHARE_TOKEN}`,
+    stub: () => mock.method(getLibraryShareService(), 'getSharedItem', async () => sharedItem),
+  },
+  {
+    method: 'get',
+    path: '/api/public/share/:token/content',
+    url: `/api/public/share/${SHARE_TOKEN}/content`,
+    stub: () => mock.method(getLibraryShareService(), 'openSharedContent', async () => libraryContent()),
+  },
+  {
+    method: 'get',
+    path: '/api/admin/reports',
+    stub: () => {
+      asModerator();
+      mock.method(getReportService(), 'getAdminReports', async () => page([adminReport]));
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/admin/reports/:reportId',
+    url: '/api/admin/reports/1',
+    stub: () => {
+      asModerator();
+      mock.method(getReportService(), 'getAdminReportDetail', async () => adminReportDetail);
+      mock.method(getSanctionService(), 'getSanctions', async () => [sanction]);
+    },
+  },
+  {
+    method: 'patch',
+    path: '/api/admin/reports/:reportId',
+    url: '/api/admin/reports/1',
+    body: { status: 'reviewed' },
+    stub: () => {
+      asModerator();
+      mock.method(getReportService(), 'updateReportStatus', async () => ({ ...report, status: 'reviewed' }));
+      mock.method(getReportService(), 'getAdminReportDetail', async () => adminReportDetail);
+      mock.method(getSanctionService(), 'getSanctions', async () => [sanction]);
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/admin/users/:userId/sanctions',
+    url: `/api/admin/users/${REPORTED_USER_ID}/sanctions`,
+    stub: () => {
+      asModerator();
+      mock.method(getSanctionService(), 'getSanctions', async () => [sanction]);
+    },
+  },
+  {
+    method: 'post',
+    path: '/api/admin/sanctions/:sanctionId/lift',
+    url: '/api/admin/sanctions/1/lift',
+    stub: () => {
+      asModerator();
+      mock.method(getSanctionService(), 'liftSanction', async () => ({ ...sanction, liftedAt: NOW, liftedBy: USER_ID, active: false }));
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/admin/inquiries',
+    stub: () => {
+      asModerator();
+      mock.method(getInquiryService(), 'getAdminInquiries', async () => page([adminInquiry]));
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/admin/inquiries/:inquiryId',
+    url: '/api/admin/inquiries/1',
+    stub: () => {
+      asModerator();
+      mock.method(getInquiryService(), 'getAdminInquiryThread', async () => adminInquiryThread);
+    },
+  },
+  {
+    method: 'patch',
+    path: '/api/admin/inquiries/:inquiryId',
+    url: '/api/admin/inquiries/1',
+    body: { status: 'closed' },
+    stub: () => {
+      asModerator();
+      mock.method(getInquiryService(), 'updateInquiryStatus', async () => ({ ...inquiry, status: 'closed' }));
+      mock.method(getInquiryService(), 'getAdminInquiryThread', async () => ({ ...adminInquiryThread, status: 'closed' }));
+    },
+  },
+  {
+    method: 'post',
+    path: '/api/admin/inquiries/:inquiryId/responses',
+    url: '/api/admin/inquiries/1/responses',
+    body: { message: '설정에서 바꿀 수 있습니다' },
+    stub: () => {
+      asModerator();
+      mock.method(getInquiryService(), 'respondToInquiry', async () => adminInquiryThread);
+    },
+  },
+  {
+    method: 'post',
+    path: '/api/admin/inquiries/:inquiryId/notes',
+    url: '/api/admin/inquiries/1/notes',
+    body: { message: '같은 문의가 반복됨' },
+    stub: () => {
+      asModerator();
+      mock.method(getInquiryService(), 'addInternalNote', async () => adminInquiryThread);
+    },
+  },
+];
+
+/**
+ * Whether a content type matches a media range, which may use wildcards
+ */
+function matchesMediaRange(contentType: string | null, range: string): boolean {
+  const [type, subtype] = range.split('/');
+  const [actualType, actualSubtype] = (contentType ?? '').split(';')[0].trim().split('/');
+  return (type === '*' || type === actualType) && (subtype === '*' || subtype === actualSubtype);
+}
+
+describe('API contract', () => {
+  let server: Server;
+  let baseUrl: string;
+  let routes: ApiRoute[];
+
+  before(async () => {
+    const { default: app, apiRouters } = await import('../index');
+    routes = apiRouters.flatMap(router => router.routes);
+
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    // Any bearer token authenticates the test user
+    mock.method(getAuthService(), 'verifyToken', async () => ({
+      sub: USER_ID,
+      email: profile.email,
+      email_verified: true,
+      preferred_username: profile.nickname,
+    }));
+    mock.method(getAccountDeletionService(), 'assertNotPendingDeletion', async () => undefined);
+    mock.method(getSanctionService(), 'assertNotSuspended', async () => undefined);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('has a case for every route', () => {
+    const routeKeys = routes.map(route => `${route.method.toUpperCase()} ${route.path}`);
+    const covered = cases.map(c => `${c.method.toUpperCase()} ${c.path}`);
+
+    assert.deepEqual(
+      routeKeys.filter(route => !covered.includes(route)),
+      [],
+      'Add a contract case for each new route'
+    );
+  });
+
+  for (const c of cases) {
+    it(`${c.method.toUpperCase()} ${c.path}`, async () => {
+      const route: ApiRoute | undefined = routes.find(r => r.method === c.method && r.path === c.path);
+      assert.ok(route, `No route ${c.method.toUpperCase()} ${c.path}`);
+
+      c.stub();
+      const response = await fetch(`${baseUrl}${c.url ?? c.path}`, {
+        method: c.method.toUpperCase(),
+        headers: {
+          Authorization: 'Bearer contract-test',
+          ...(c.body !== undefined && { 'Content-Type': 'application/json' }),
+        },
+        body: c.form ? c.form() : c.body !== undefined ? JSON.stringify(c.body) : undefined,
+      });
+
+      const expectedStatus = route.docs.status ?? 200;
+      if (response.status !== expectedStatus) {
+        assert.fail(`Expected ${expectedStatus}, got ${response.status}: ${await response.text()}`);
+      }
+
+      const schema = getResponseSchema(route);
+      if (!schema) {
+        const contentType = response.headers.get('content-type');
+        assert.ok(matchesMediaRange(contentType, route.docs.file ?? ''), `Expected ${route.docs.file}, got ${contentType}`);
+        await response.arrayBuffer();
+        return;
+      }
+
+      const result = schema.safeParse(await response.json());
+      assert.ok(
+        result.success,
+        `Response doesn't match its declared schema:\n${result.error?.issues
+          .map(issue => `  ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+          .join('\n')}`
+      );
+    });
+  }
+});
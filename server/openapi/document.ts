@@ -0,0 +1,136 @@
+/**
+ * OpenAPI Document
+ *
+ * Generates the OpenAPI 3.1 document served at /api/openapi.json from the
+ * routes registered on the API routers:
+ *
+ * - path and method, with Express `:params` as path parameters
+ * - bearer token security for routes behind the auth middleware
+ * - request body from the route's validateBody schema
+ * - success response from the route's docs, wrapped in the
+ *   `{ success, data, message }` envelope, and the error responses the
+ *   middleware can send, including 429 for rate-limited routes
+ */
+
+import { OpenAPIRegistry, OpenApiGeneratorV31, type RouteConfig } from '@asteasolutions/zod-to-openapi';
+import type { RequestHandler } from 'express';
+import type { ZodTypeAny } from 'zod';
+import { allowRestrictedAuthMiddleware, authMiddleware, optionalAuthMiddleware } from '../middleware/auth';
+import { getRateLimitPolicy } from '../middleware/rateLimit';
+import { getBodySchema } from '../middleware/validate';
+import type { ApiRoute, ApiRouter } from './apiRouter';
+import { errorResponseSchema, successResponse } from './schemas/common';
+import { z } from './zod';
+
+const BEARER_AUTH = 'bearerAuth';
+
+const REQUIRED_AUTH_HANDLERS: RequestHandler[] = [authMiddleware, allowRestrictedAuthMiddleware];
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: errorResponseSchema } },
+});
+
+/**
+ * Convert an Express path to an OpenAPI path (`:inquiryId` → `{inquiryId}`)
+ */
+export function toOpenApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, '{$1}');
+}
+
+/**
+ * Schema of a route's JSON success response, including the envelope
+ *
+ * @returns The schema, or null for routes that send a file
+ */
+export function getResponseSchema(route: ApiRoute): ZodTypeAny | null {
+  return route.docs.file ? null : successResponse(route.docs.response, route.docs.paginated);
+}
+
+/**
+ * Describe a route for the registry
+ */
+function toRouteConfig(route: ApiRoute, tag: string): RouteConfig {
+  const { docs, handlers } = route;
+  const bodySchema = handlers.map(getBodySchema).find(Boolean);
+  const pathParams = [...route.path.matchAll(/:(\w+)/g)].map(match => match[1]);
+  const requiresAuth = handlers.some(handler => REQUIRED_AUTH_HANDLERS.includes(handler));
+  const allowsAuth = handlers.includes(optionalAuthMiddleware as RequestHandler);
+
+  const config: RouteConfig = {
+    method: route.method,
+    path: toOpenApiPath(route.path),
+    tags: [tag],
+    summary: docs.summary,
+    description: docs.description,
+    request: {
+      params: pathParams.length > 0 ? z.object(Object.fromEntries(pathParams.map(name => [name, z.string()]))) : undefined,
+      query: docs.query,
+      body: bodySchema && {
+        required: true,
+        content: { [docs.requestContentType ?? 'application/json']: { schema: bodySchema } },
+      },
+    },
+    responses: {
+      [docs.status ?? 200]: {
+        description: 'Success',
+        content: docs.file
+          ? { [docs.file]: { schema: { type: 'string', format: 'binary' } } }
+          : { 'application/json': { schema: getResponseSchema(route) } },
+      },
+    },
+  };
+
+  if (bodySchema) {
+    config.responses[400] = errorResponse('Invalid request body; `fieldErrors` has a message per field');
+  }
+  if (requiresAuth) {
+    config.security = [{ [BEARER_AUTH]: [] }];
+    config.responses[401] = errorResponse('Missing, invalid or expired token');
+  }
+  if (handlers.includes(authMiddleware as RequestHandler)) {
+    config.responses[403] = errorResponse('Account suspended or pending deletion');
+  }
+  if (allowsAuth) {
+    config.security = [{}, { [BEARER_AUTH]: [] }];
+  }
+  if (handlers.some(handler => getRateLimitPolicy(handler))) {
+    config.responses[429] = {
+      ...errorResponse('Rate limit exceeded; `retryAfter` is the number of seconds to wait'),
+      headers: { 'Retry-After': { description: 'Seconds until the limit resets', schema: { type: 'integer' } } },
+    };
+  }
+  config.responses.default = errorResponse('Error');
+
+  return config;
+}
+
+/**
+ * Generate the OpenAPI document for the given routers
+ *
+ * @param routers - API routers, as mounted by the server
+ */
+export function generateOpenApiDocument(routers: ApiRouter[]) {
+  const registry = new OpenAPIRegistry();
+
+  registry.registerComponent('securitySchemes', BEARER_AUTH, {
+    type: 'http',
+    scheme: 'bearer',
+    bearerFormat: 'JWT',
+    description: 'Cognito ID token',
+  });
+
+  for (const router of routers) {
+    for (const route of router.routes) {
+      registry.registerPath(toRouteConfig(route, router.tag));
+    }
+  }
+
+  return new OpenApiGeneratorV31(registry.definitions).generateDocument({
+    openapi: '3.1.0',
+    info: {
+      title: '과거의 나 API',
+      version: '1.0.0',
+    },
+  });
+}
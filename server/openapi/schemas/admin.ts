@@ -0,0 +1,99 @@
+/**
+ * Admin Response Schemas
+ *
+ * `data` of the /api/admin responses, mirroring the types in
+ * src/types/database as they are serialized to JSON. Objects are strict,
+ * as in the user schemas.
+ */
+
+import { z } from '../zod';
+import { dateTimeSchema } from './common';
+import { inquiryThreadSchema, inquiryStatusSchema, reportReasonSchema, reportStatusSchema, userStatusSchema } from './user';
+
+const sanctionActionSchema = z.enum(['flag', 'suspend', 'escalate']);
+
+export const adminUserSummarySchema = z
+  .object({
+    userId: z.string(),
+    email: z.string(),
+    nickname: z.string(),
+    status: userStatusSchema,
+  })
+  .strict()
+  .openapi('AdminUserSummary');
+
+export const userSanctionSchema = z
+  .object({
+    sanctionId: z.number().int(),
+    userId: z.string(),
+    action: sanctionActionSchema,
+    reason: z.string(),
+    reportCount: z.number().int().nullable(),
+    endsAt: dateTimeSchema.nullable(),
+    createdBy: z.string().nullable(),
+    createdAt: dateTimeSchema,
+    liftedAt: dateTimeSchema.nullable(),
+    liftedBy: z.string().nullable(),
+    active: z.boolean(),
+  })
+  .strict()
+  .openapi('UserSanction');
+
+export const adminReportSchema = z
+  .object({
+    reportId: z.number().int(),
+    reason: reportReasonSchema,
+    description: z.string().nullable(),
+    status: reportStatusSchema,
+    createdAt: dateTimeSchema,
+    reviewedAt: dateTimeSchema.nullable(),
+    reporter: adminUserSummarySchema,
+    reportedUser: adminUserSummarySchema,
+    reviewer: adminUserSummarySchema.nullable(),
+    reportedUserSanction: sanctionActionSchema.nullable(),
+  })
+  .strict()
+  .openapi('AdminReport');
+
+// Extended through the shape, so the document has one strict object
+// rather than an allOf of two
+export const adminReportDetailSchema = z
+  .object({
+    ...adminReportSchema.shape,
+    reportedUserReportCount: z.number().int(),
+    reportedUserHistory: z.array(adminReportSchema),
+    reporterReportCount: z.number().int(),
+    reportedUserSanctions: z.array(userSanctionSchema),
+  })
+  .strict()
+  .openapi('AdminReportDetail');
+
+export const adminInquirySchema = z
+  .object({
+    inquiryId: z.number().int(),
+    subject: z.string(),
+    status: inquiryStatusSchema,
+    createdAt: dateTimeSchema,
+    answeredAt: dateTimeSchema.nullable(),
+    lastMessageAt: dateTimeSchema,
+    messageCount: z.number().int(),
+    user: adminUserSummarySchema,
+    answeredBy: adminUserSummarySchema.nullable(),
+  })
+  .strict()
+  .openapi('AdminInquiry');
+
+export const adminInquiryThreadSchema = z
+  .object({
+    ...inquiryThreadSchema.shape,
+    user: adminUserSummarySchema,
+    answeredBy: adminUserSummarySchema.nullable(),
+  })
+  .strict()
+  .openapi('AdminInquiryThread');
+
+export const adminReportListSchema = z.array(adminReportSchema);
+
+export const userSanctionListSchema = z.array(userSanctionSchema);
+
+export const adminInquiryListSchema = z.array(adminInquirySchema);
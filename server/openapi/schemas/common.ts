@@ -0,0 +1,68 @@
+/**
+ * Common Response Schemas
+ *
+ * Response envelopes shared by every route:
+ *
+ *   { success: true, data, message? }   success
+ *   { success: true, data, pagination } success, for paginated lists
+ *   { error, message, ...details }      error (see errorHandler)
+ */
+
+import type { ZodTypeAny } from 'zod';
+import { z } from '../zod';
+
+/**
+ * Date serialized by res.json (Date#toISOString)
+ */
+export const dateTimeSchema = z.string().datetime();
+
+/**
+ * `data` of responses that only confirm an action
+ */
+export const nullDataSchema = z.null();
+
+/**
+ * `pagination` of paginated list responses (see createPaginationResponse)
+ */
+export const paginationSchema = z
+  .object({
+    page: z.number().int(),
+    pageSize: z.number().int(),
+    totalItems: z.number().int(),
+    totalPages: z.number().int(),
+    hasNext: z.boolean(),
+    hasPrevious: z.boolean(),
+  })
+  .strict()
+  .openapi('Pagination');
+
+/**
+ * Error response; some errors add fields, such as `fieldErrors` for
+ * validation errors or `suspendedUntil` for suspended accounts
+ */
+export const errorResponseSchema = z
+  .object({
+    error: z.string(),
+    message: z.string(),
+    fieldErrors: z.record(z.string()).optional(),
+  })
+  .passthrough()
+  .openapi('ErrorResponse');
+
+/**
+ * Success response wrapping the given data; without data the response
+ * only carries a message
+ *
+ * @param data - Schema of `data`
+ * @param paginated - Whether `pagination` is sent next to `data`
+ */
+export function successResponse(data?: ZodTypeAny, paginated = false) {
+  if (!data) {
+    return z.object({ success: z.literal(true), message: z.string() }).strict();
+  }
+  if (paginated) {
+    return z.object({ success: z.literal(true), data, pagination: paginationSchema }).strict();
+  }
+
+  return z.object({ success: z.literal(true), data, message: z.string().optional() }).strict();
+}
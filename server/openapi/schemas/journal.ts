@@ -0,0 +1,155 @@
+/**
+ * Journal Response Schemas
+ *
+ * `data` of the /api/journal responses, mirroring the types in
+ * src/types/database as they are serialized to JSON. Objects are strict,
+ * as in the user schemas.
+ */
+
+import { z } from '../zod';
+import { dateTimeSchema } from './common';
+
+const dateSchema = z.string().openapi({ example: '2026-01-01' });
+
+export const journalEntrySchema = z
+  .object({
+    entryId: z.number().int(),
+    userId: z.string(),
+    content: z.string(),
+    entryDate: dateSchema,
+    timezone: z.string().nullable(),
+    createdAt: dateTimeSchema,
+    updatedAt: dateTimeSchema,
+  })
+  .strict()
+  .openapi('JournalEntry');
+
+export const emotionTagSchema = z
+  .object({
+    type: z.enum(['positive', 'neutral', 'negative']),
+    label: z.string(),
+    percentage: z.number(),
+  })
+  .strict()
+  .openapi('EmotionTag');
+
+export const journalChapterSchema = z
+  .object({
+    chapterId: z.number().int(),
+    userId: z.string(),
+    chapterDate: dateSchema,
+    title: z.string(),
+    preview: z.string().nullable(),
+    summary: z.string().nullable(),
+    summaryProvider: z.string().nullable(),
+    summarySourceHash: z.string().nullable(),
+    summarizedAt: dateTimeSchema.nullable(),
+    emotions: z.array(emotionTagSchema).nullable(),
+    entryCount: z.number().int(),
+    createdAt: dateTimeSchema,
+    updatedAt: dateTimeSchema,
+    entries: z.array(journalEntrySchema).optional(),
+  })
+  .strict()
+  .openapi('JournalChapter');
+
+export const dailySummarySchema = z
+  .object({
+    date: dateSchema,
+    summary: z.string(),
+    provider: z.string(),
+    emotions: z.array(emotionTagSchema),
+    entryCount: z.number().int(),
+    cached: z.boolean(),
+  })
+  .strict()
+  .openapi('DailySummary');
+
+export const journalImportPreviewSchema = z
+  .object({
+    files: z.array(
+      z
+        .object({
+          name: z.string(),
+          format: z.enum(['markdown', 'text', 'dayone']),
+          entryCount: z.number().int(),
+        })
+        .strict()
+    ),
+    totalEntries: z.number().int(),
+    newEntries: z.number().int(),
+    duplicateEntries: z.number().int(),
+    dates: z.array(dateSchema),
+    entries: z.array(
+      z
+        .object({
+          entryDate: dateSchema,
+          excerpt: z.string(),
+          source: z.string(),
+          duplicate: z.boolean(),
+        })
+        .strict()
+    ),
+    warnings: z.array(z.string()),
+  })
+  .strict()
+  .openapi('JournalImportPreview');
+
+export const journalImportResultSchema = z
+  .object({
+    importedEntries: z.number().int(),
+    duplicateEntries: z.number().int(),
+    dates: z.array(dateSchema),
+    warnings: z.array(z.string()),
+  })
+  .strict()
+  .openapi('JournalImportResult');
+
+export const journalInsightsSchema = z
+  .object({
+    range: z.enum(['week', 'month', 'year']),
+    startDate: dateSchema,
+    endDate: dateSchema,
+    totalEntries: z.number().int(),
+    activeDays: z.number().int(),
+    averageEntriesPerDay: z.number(),
+    buckets: z.array(
+      z
+        .object({
+          period: z.string(),
+          entryCount: z.number().int(),
+          activeDays: z.number().int(),
+          positive: z.number(),
+          neutral: z.number(),
+          negative: z.number(),
+        })
+        .strict()
+        .openapi('InsightsBucket')
+    ),
+    topEmotions: z.array(emotionTagSchema),
+  })
+  .strict()
+  .openapi('JournalInsights');
+
+export const writingStreakSchema = z
+  .object({
+    timezone: z.string(),
+    today: dateSchema,
+    currentStreak: z.number().int(),
+    longestStreak: z.number().int(),
+    lastEntryDate: dateSchema.nullable(),
+    activity: z.array(
+      z
+        .object({
+          date: dateSchema,
+          count: z.number().int(),
+        })
+        .strict()
+    ),
+  })
+  .strict()
+  .openapi('WritingStreak');
+
+export const journalEntryListSchema = z.array(journalEntrySchema);
+
+export const journalChapterListSchema = z.array(journalChapterSchema);
@@ -0,0 +1,73 @@
+/**
+ * Library Response Schemas
+ *
+ * `data` of the /api/library and /api/public responses, mirroring the
+ * types in src/types/database as they are serialized to JSON. Objects are
+ * strict, as in the user schemas.
+ */
+
+import { z } from '../zod';
+import { dateTimeSchema } from './common';
+
+const libraryItemTypeSchema = z.enum(['image', 'document', 'file', 'video']);
+
+export const libraryItemSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    type: libraryItemTypeSchema,
+    visibility: z.enum(['public', 'private']),
+    mimeType: z.string(),
+    size: z.number().int(),
+    width: z.number().int().nullable(),
+    height: z.number().int().nullable(),
+    thumbnail: z.string().nullable(),
+    previewUrl: z.string().nullable(),
+    preview: z.string().nullable(),
+    processingStatus: z.enum(['pending', 'ready', 'failed']),
+    contentUrl: z.string(),
+    createdAt: dateTimeSchema,
+  })
+  .strict()
+  .openapi('LibraryItem');
+
+export const deletedLibraryItemsSchema = z
+  .object({
+    deletedIds: z.array(z.string()),
+  })
+  .strict();
+
+export const libraryShareLinkSchema = z
+  .object({
+    id: z.number().int(),
+    itemId: z.string(),
+    token: z.string(),
+    expiresAt: dateTimeSchema.nullable(),
+    revokedAt: dateTimeSchema.nullable(),
+    active: z.boolean(),
+    createdAt: dateTimeSchema,
+  })
+  .strict()
+  .openapi('LibraryShareLink');
+
+export const sharedLibraryItemSchema = z
+  .object({
+    name: z.string(),
+    type: libraryItemTypeSchema,
+    mimeType: z.string(),
+    size: z.number().int(),
+    width: z.number().int().nullable(),
+    height: z.number().int().nullable(),
+    thumbnail: z.string().nullable(),
+    previewUrl: z.string().nullable(),
+    preview: z.string().nullable(),
+    contentUrl: z.string(),
+    createdAt: dateTimeSchema,
+    expiresAt: dateTimeSchema.nullable(),
+  })
+  .strict()
+  .openapi('SharedLibraryItem');
+
+export const libraryItemListSchema = z.array(libraryItemSchema);
+
+export const libraryShareLinkListSchema = z.array(libraryShareLinkSchema);
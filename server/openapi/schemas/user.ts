@@ -0,0 +1,200 @@
+/**
+ * User Response Schemas
+ *
+ * `data` of the /api/user responses, mirroring the types in
+ * src/types/database as they are serialized to JSON (dates become ISO
+ * strings). Objects are strict so a field added to a response without
+ * being declared here fails the contract test.
+ */
+
+import { z } from '../zod';
+import { dateTimeSchema } from './common';
+
+const userRoleSchema = z.enum(['user', 'moderator', 'admin']);
+
+const notificationTypeSchema = z.enum(['inquiry_answered', 'report_resolved', 'writing_reminder', 'achievement_unlocked']);
+
+export const inquiryStatusSchema = z.enum(['pending', 'answered', 'closed']);
+
+export const reportReasonSchema = z.enum(['spam', 'harassment', 'inappropriate_content', 'other']);
+
+export const reportStatusSchema = z.enum(['pending', 'reviewed', 'resolved']);
+
+export const userStatusSchema = z.enum(['active', 'inactive', 'deleted']);
+
+export const fullUserProfileSchema = z
+  .object({
+    userId: z.string(),
+    email: z.string(),
+    nickname: z.string(),
+    profileImageUrl: z.string().nullable(),
+    bio: z.string().nullable(),
+    phoneNumber: z.string().nullable(),
+    timezone: z.string(),
+    status: userStatusSchema,
+    createdAt: dateTimeSchema,
+    updatedAt: dateTimeSchema,
+  })
+  .strict()
+  .openapi('FullUserProfile');
+
+export const userSettingsSchema = z
+  .object({
+    theme: z.enum(['night', 'day']),
+    language: z.enum(['ko', 'en', 'ja']),
+    notificationsEnabled: z.boolean(),
+    notificationOptOuts: z.array(notificationTypeSchema),
+    updatedAt: dateTimeSchema.nullable(),
+  })
+  .strict()
+  .openapi('UserSettings');
+
+export const reminderScheduleSchema = z
+  .object({
+    enabled: z.boolean(),
+    time: z.string().openapi({ example: '21:00' }),
+    weekdays: z.array(z.number().int().min(0).max(6)),
+    timezone: z.string(),
+    lastSentOn: z.string().nullable(),
+  })
+  .strict()
+  .openapi('ReminderSchedule');
+
+export const pendingDeletionSchema = z
+  .object({
+    deletedAt: dateTimeSchema,
+    purgeAt: dateTimeSchema,
+  })
+  .strict()
+  .openapi('PendingDeletion');
+
+export const userExportSchema = z
+  .object({
+    exportId: z.string(),
+    status: z.enum(['pending', 'processing', 'completed', 'failed', 'expired']),
+    size: z.number().int().nullable(),
+    error: z.string().nullable(),
+    createdAt: dateTimeSchema,
+    completedAt: dateTimeSchema.nullable(),
+    expiresAt: dateTimeSchema.nullable(),
+  })
+  .strict()
+  .openapi('UserExport');
+
+export const notificationListSchema = z
+  .object({
+    notifications: z.array(
+      z
+        .object({
+          notificationId: z.string(),
+          userId: z.string(),
+          type: notificationTypeSchema,
+          title: z.string(),
+          body: z.string(),
+          link: z.string().nullable(),
+          readAt: dateTimeSchema.nullable(),
+          createdAt: dateTimeSchema,
+        })
+        .strict()
+        .openapi('UserNotification')
+    ),
+    unreadCount: z.number().int(),
+  })
+  .strict()
+  .openapi('NotificationList');
+
+export const pushPublicKeySchema = z
+  .object({
+    publicKey: z.string().nullable(),
+  })
+  .strict();
+
+export const userReportSchema = z
+  .object({
+    reportId: z.number().int(),
+    reporterId: z.string(),
+    reportedUserId: z.string(),
+    reason: reportReasonSchema,
+    description: z.string().nullable(),
+    status: reportStatusSchema,
+    createdAt: dateTimeSchema,
+    reviewedAt: dateTimeSchema.nullable(),
+    reviewedBy: z.string().nullable(),
+  })
+  .strict()
+  .openapi('UserReport');
+
+export const userInquirySchema = z
+  .object({
+    inquiryId: z.number().int(),
+    userId: z.string(),
+    subject: z.string(),
+    message: z.string(),
+    status: inquiryStatusSchema,
+    response: z.string().nullable(),
+    createdAt: dateTimeSchema,
+    answeredAt: dateTimeSchema.nullable(),
+    answeredBy: z.string().nullable(),
+  })
+  .strict()
+  .openapi('UserInquiry');
+
+export const inquiryThreadSchema = z
+  .object({
+    inquiryId: z.number().int(),
+    subject: z.string(),
+    message: z.string(),
+    status: inquiryStatusSchema,
+    response: z.string().nullable(),
+    createdAt: dateTimeSchema,
+    answeredAt: dateTimeSchema.nullable(),
+    messages: z.array(
+      z
+        .object({
+          messageId: z.number().int(),
+          inquiryId: z.number().int(),
+          authorRole: z.enum(['user', 'staff']),
+          authorNickname: z.string().nullable(),
+          body: z.string(),
+          isInternal: z.boolean(),
+          createdAt: dateTimeSchema,
+        })
+        .strict()
+        .openapi('InquiryMessage')
+    ),
+  })
+  .strict()
+  .openapi('InquiryThread');
+
+export const accountStatusSchema = z
+  .object({
+    suspended: z.boolean(),
+    reason: z.string().nullable(),
+    suspendedUntil: dateTimeSchema.nullable(),
+    pendingDeletion: pendingDeletionSchema.nullable(),
+  })
+  .strict()
+  .openapi('AccountStatus');
+
+export const userRolesSchema = z
+  .object({
+    roles: z.array(userRoleSchema),
+  })
+  .strict();
+
+export const userAchievementSchema = z
+  .object({
+    key: z.string(),
+    label: z.string(),
+    category: z.enum(['journal', 'streak', 'photo']),
+    target: z.number().int(),
+    progress: z.number().int(),
+    earned: z.boolean(),
+    unlockedAt: dateTimeSchema.nullable(),
+  })
+  .strict()
+  .openapi('UserAchievement');
+
+export const userInquiryListSchema = z.array(userInquirySchema);
+
+export const userAchievementListSchema = z.array(userAchievementSchema);
@@ -0,0 +1,14 @@
+/**
+ * Zod with OpenAPI Metadata
+ *
+ * Adds `.openapi()` to zod schemas, used to name response schemas so they
+ * appear as components of the OpenAPI document. Import `z` from here in
+ * modules that call `.openapi()`.
+ */
+
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+import { z } from 'zod';
+
+extendZodWithOpenApi(z);
+
+export { z };
@@ -0,0 +1,85 @@
+/**
+ * Admin Routes
+ *
+ * API routes for the moderation console. All routes require the
+ * moderator role (admins included).
+ */
+
+import { authMiddleware } from '../middleware/auth';
+import { requireRole } from '../middleware/role';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validateBody } from '../middleware/validate';
+import * as adminController from '../controllers/adminController';
+import { ApiRouter } from '../openapi/apiRouter';
+import * as adminResponses from '../openapi/schemas/admin';
+import { staffMessageSchema, updateInquiryStatusSchema, updateReportStatusSchema } from '../../src/schemas/admin';
+
+const router = new ApiRouter('/api/admin', 'Admin');
+
+router.use(authMiddleware, requireRole('moderator'));
+
+// Report endpoints
+router.get(
+  '/reports',
+  {
+    summary: 'List reports (`status`, `reason`, `search`, `page`, `pageSize`)',
+    response: adminResponses.adminReportListSchema,
+    paginated: true,
+  },
+  asyncHandler(adminController.getReports)
+);
+router.get(
+  '/reports/:reportId',
+  { summary: 'Get report with the history of the users involved', response: adminResponses.adminReportDetailSchema },
+  asyncHandler(adminController.getReport)
+);
+router.patch(
+  '/reports/:reportId',
+  { summary: 'Change report status', response: adminResponses.adminReportDetailSchema },
+  validateBody(updateReportStatusSchema), asyncHandler(adminController.updateReportStatus)
+);
+
+// Sanction endpoints
+router.get(
+  '/users/:userId/sanctions',
+  { summary: "List a user's sanctions", response: adminResponses.userSanctionListSchema },
+  asyncHandler(adminController.getUserSanctions)
+);
+router.post(
+  '/sanctions/:sanctionId/lift',
+  { summary: 'Lift sanction', response: adminResponses.userSanctionSchema },
+  asyncHandler(adminController.liftSanction)
+);
+
+// Inquiry endpoints
+router.get(
+  '/inquiries',
+  {
+    summary: 'List inquiries (`status`, `search`, `page`, `pageSize`)',
+    response: adminResponses.adminInquiryListSchema,
+    paginated: true,
+  },
+  asyncHandler(adminController.getInquiries)
+);
+router.get(
+  '/inquiries/:inquiryId',
+  { summary: 'Get inquiry thread, including internal notes', response: adminResponses.adminInquiryThreadSchema },
+  asyncHandler(adminController.getInquiry)
+);
+router.patch(
+  '/inquiries/:inquiryId',
+  { summary: 'Change inquiry status', response: adminResponses.adminInquiryThreadSchema },
+  validateBody(updateInquiryStatusSchema), asyncHandler(adminController.updateInquiryStatus)
+);
+router.post(
+  '/inquiries/:inquiryId/responses',
+  { summary: 'Respond to inquiry', status: 201, response: adminResponses.adminInquiryThreadSchema },
+  validateBody(staffMessageSchema), asyncHandler(adminController.respondToInquiry)
+);
+router.post(
+  '/inquiries/:inquiryId/notes',
+  { summary: 'Add internal note to inquiry', status: 201, response: adminResponses.adminInquiryThreadSchema },
+  validateBody(staffMessageSchema), asyncHandler(adminController.addInquiryNote)
+);
+
+export default router;
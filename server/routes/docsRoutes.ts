@@ -0,0 +1,53 @@
+/**
+ * API Docs Routes
+ *
+ * Serves the OpenAPI document of the API routes and a Swagger UI viewer
+ * for it, both without authentication. The viewer's assets come from
+ * swagger-ui-dist, so it works offline.
+ *
+ *   GET /api/openapi.json   OpenAPI 3.1 document
+ *   GET /api/docs           Swagger UI
+ */
+
+import express, { Router } from 'express';
+import getAbsoluteFSPath from 'swagger-ui-dist/absolute-path.js';
+import type { ApiRouter } from '../openapi/apiRouter';
+import { generateOpenApiDocument } from '../openapi/document';
+
+const VIEWER_HTML = `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>API Docs</title>
+    <link rel="stylesheet" href="/api/docs/swagger-ui.css" />
+  </head>
+  <body>
+    <div id="swagger-ui"></div>
+    <script src="/api/docs/swagger-ui-bundle.js"></script>
+    <script>
+      window.ui = SwaggerUIBundle({ url: '/api/openapi.json', dom_id: '#swagger-ui' });
+    </script>
+  </body>
+</html>
+`;
+
+/**
+ * Create the docs routes
+ *
+ * @param apiRouters - Routers to document; the document is generated once
+ */
+export function createDocsRoutes(apiRouters: ApiRouter[]): Router {
+  const router = Router();
+  const document = generateOpenApiDocument(apiRouters);
+
+  router.get('/openapi.json', (_req, res) => {
+    res.json(document);
+  });
+
+  router.get('/docs', (_req, res) => {
+    res.type('html').send(VIEWER_HTML);
+  });
+  router.use('/docs', express.static(getAbsoluteFSPath(), { index: false }));
+
+  return router;
+}
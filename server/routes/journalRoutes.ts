@@ -0,0 +1,103 @@
+/**
+ * Journal Routes
+ *
+ * API routes for journal entries, summaries, chapters, insights and streaks. All routes require authentication.
+ */
+
+import multer from 'multer';
+import { authMiddleware } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validateBody } from '../middleware/validate';
+import * as journalController from '../controllers/journalController';
+import { ApiRouter } from '../openapi/apiRouter';
+import * as journalResponses from '../openapi/schemas/journal';
+import {
+  createEntrySchema,
+  createSummarySchema,
+  registerChapterSchema,
+  updateEntrySchema,
+} from '../../src/schemas/journal';
+
+const router = new ApiRouter('/api/journal', 'Journal');
+
+/**
+ * Import files are small text files, kept in memory while they are parsed,
+ * so a request holds at most 10 files of 2 MB each
+ */
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  defParamCharset: 'utf8',
+  limits: {
+    fileSize: 2 * 1024 * 1024,
+    files: 10,
+  },
+});
+
+// Entry endpoints
+router.get(
+  '/entries',
+  { summary: 'List entries, optionally of one day (`date`)', response: journalResponses.journalEntryListSchema },
+  authMiddleware, asyncHandler(journalController.getEntries)
+);
+router.post(
+  '/entries',
+  { summary: 'Create entry', status: 201, response: journalResponses.journalEntrySchema },
+  authMiddleware, validateBody(createEntrySchema), asyncHandler(journalController.createEntry)
+);
+router.patch(
+  '/entries/:entryId',
+  { summary: 'Update entry', response: journalResponses.journalEntrySchema },
+  authMiddleware, validateBody(updateEntrySchema), asyncHandler(journalController.updateEntry)
+);
+router.delete(
+  '/entries/:entryId',
+  { summary: 'Delete entry' },
+  authMiddleware, asyncHandler(journalController.deleteEntry)
+);
+
+// Summary endpoints
+router.post(
+  '/summaries',
+  { summary: "Summarize a day's entries", response: journalResponses.dailySummarySchema },
+  authMiddleware, validateBody(createSummarySchema), asyncHandler(journalController.createSummary)
+);
+
+// Chapter endpoints
+router.get(
+  '/chapters',
+  { summary: 'List chapters (`page`, `pageSize`)', response: journalResponses.journalChapterListSchema, paginated: true },
+  authMiddleware, asyncHandler(journalController.getChapters)
+);
+router.post(
+  '/chapters',
+  { summary: "Register a day's entries as a chapter", status: 201, response: journalResponses.journalChapterSchema },
+  authMiddleware, validateBody(registerChapterSchema), asyncHandler(journalController.registerChapter)
+);
+
+// Import endpoints
+router.post(
+  '/import/preview',
+  { summary: 'Preview an import of the files in the `files` field', response: journalResponses.journalImportPreviewSchema },
+  authMiddleware, importUpload.array('files'), asyncHandler(journalController.previewImport)
+);
+router.post(
+  '/import',
+  { summary: 'Import the files in the `files` field', status: 201, response: journalResponses.journalImportResultSchema },
+  authMiddleware, importUpload.array('files'), asyncHandler(journalController.importEntries)
+);
+
+// Insights endpoints
+router.get(
+  '/insights',
+  { summary: 'Get insights (`range`, `date`)', response: journalResponses.journalInsightsSchema },
+  authMiddleware, asyncHandler(journalController.getInsights)
+);
+
+// Streak endpoints
+router.get(
+  '/streak',
+  { summary: 'Get writing streak (`days` of activity)', response: journalResponses.writingStreakSchema },
+  authMiddleware, asyncHandler(journalController.getStreak)
+);
+
+export default router;
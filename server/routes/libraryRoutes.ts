@@ -0,0 +1,115 @@
+/**
+ * Library Routes
+ *
+ * API routes for library items. All routes require authentication, except
+ * item content, which can also be fetched through a signed URL.
+ */
+
+import type { RequestHandler } from 'express';
+import { rm } from 'fs/promises';
+import multer from 'multer';
+import os from 'os';
+import { authMiddleware, optionalAuthMiddleware } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validateBody } from '../middleware/validate';
+import * as libraryController from '../controllers/libraryController';
+import { ApiRouter } from '../openapi/apiRouter';
+import * as libraryResponses from '../openapi/schemas/library';
+import {
+  createItemSchema,
+  createShareLinkSchema,
+  deleteItemsSchema,
+  updateVisibilitySchema,
+} from '../../src/schemas/library';
+
+const router = new ApiRouter('/api/library', 'Library');
+
+/**
+ * Uploads are spooled to the OS temp directory and then written to the
+ * storage driver by the library service
+ */
+const upload = multer({
+  dest: os.tmpdir(),
+  defParamCharset: 'utf8',
+  limits: {
+    fileSize: Number(process.env.LIBRARY_MAX_UPLOAD_BYTES) || 100 * 1024 * 1024,
+    files: 1,
+  },
+});
+
+/**
+ * Remove the spooled upload once the response is sent, whether the item
+ * was created or the request was rejected (e.g. by validateBody)
+ */
+const removeUploadWhenDone: RequestHandler = (req, res, next) => {
+  const file = req.file;
+  if (file) {
+    res.on('close', () => {
+      rm(file.path, { force: true }).catch(error => {
+        console.error(`Failed to remove upload ${file.path}:`, error);
+      });
+    });
+  }
+  next();
+};
+
+// Item endpoints
+router.get(
+  '/items',
+  { summary: 'List items, optionally of one `type`', response: libraryResponses.libraryItemListSchema },
+  authMiddleware, asyncHandler(libraryController.getItems)
+);
+router.post(
+  '/items',
+  {
+    summary: 'Upload an item; the file is sent in the `file` field',
+    status: 201,
+    response: libraryResponses.libraryItemSchema,
+    requestContentType: 'multipart/form-data',
+  },
+  authMiddleware,
+  upload.single('file'),
+  removeUploadWhenDone,
+  validateBody(createItemSchema),
+  asyncHandler(libraryController.createItem)
+);
+router.patch(
+  '/items/visibility',
+  { summary: 'Change the visibility of items', response: libraryResponses.libraryItemListSchema },
+  authMiddleware, validateBody(updateVisibilitySchema), asyncHandler(libraryController.updateVisibility)
+);
+router.delete(
+  '/items',
+  { summary: 'Delete items', response: libraryResponses.deletedLibraryItemsSchema },
+  authMiddleware, validateBody(deleteItemsSchema), asyncHandler(libraryController.deleteItems)
+);
+
+// Content endpoint
+router.get(
+  '/items/:itemId/content',
+  {
+    summary: 'Get item content (`variant`); with the owner\'s token or the signed `contentUrl`',
+    description: 'Supports single byte ranges. Only safe image, video and PDF types are sent with their own type.',
+    file: '*/*',
+  },
+  optionalAuthMiddleware, asyncHandler(libraryController.getItemContent)
+);
+
+// Share link endpoints
+router.get(
+  '/items/:itemId/share-links',
+  { summary: 'List share links of an item', response: libraryResponses.libraryShareLinkListSchema },
+  authMiddleware, asyncHandler(libraryController.getShareLinks)
+);
+router.post(
+  '/items/:itemId/share-links',
+  { summary: 'Create share link', status: 201, response: libraryResponses.libraryShareLinkSchema },
+  authMiddleware, validateBody(createShareLinkSchema), asyncHandler(libraryController.createShareLink)
+);
+router.delete(
+  '/share-links/:linkId',
+  { summary: 'Revoke share link', response: libraryResponses.libraryShareLinkSchema },
+  authMiddleware, asyncHandler(libraryController.revokeShareLink)
+);
+
+export default router;
@@ -0,0 +1,31 @@
+/**
+ * Public Routes
+ *
+ * API routes that don't require authentication: library items shared
+ * through a share link.
+ */
+
+import { asyncHandler } from '../middleware/errorHandler';
+import * as libraryController from '../controllers/libraryController';
+import { ApiRouter } from '../openapi/apiRouter';
+import { sharedLibraryItemSchema } from '../openapi/schemas/library';
+
+const router = new ApiRouter('/api/public', 'Public');
+
+// Share link endpoints
+router.get(
+  '/share/:token',
+  { summary: 'Get the item shared through a link', response: sharedLibraryItemSchema },
+  asyncHandler(libraryController.getSharedItem)
+);
+router.get(
+  '/share/:token/content',
+  {
+    summary: 'Get the content of the item shared through a link (`variant`)',
+    description: 'Supports single byte ranges. Only safe image, video and PDF types are sent with their own type.',
+    file: '*/*',
+  },
+  asyncHandler(libraryController.getSharedItemContent)
+);
+
+export default router;
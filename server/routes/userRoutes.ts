@@ -6,29 +6,200 @@
  * Requirements: 10.1, 10.2, 10.3, 10.4, 10.5, 10.6, 10.7, 10.8
  */
 
-import { Router } from 'express';
-import { authMiddleware } from '../middleware/auth';
+import { authMiddleware, allowRestrictedAuthMiddleware } from '../middleware/auth';
 import { asyncHandler } from '../middleware/errorHandler';
+import { validateBody } from '../middleware/validate';
+import { bodyEmailKey, rateLimit } from '../middleware/rateLimit';
 import * as userController from '../controllers/userController';
+import { ApiRouter } from '../openapi/apiRouter';
+import { nullDataSchema } from '../openapi/schemas/common';
+import * as userResponses from '../openapi/schemas/user';
+import {
+  confirmPasswordResetSchema,
+  createInquirySchema,
+  createReportSchema,
+  deleteAccountSchema,
+  deletePushSubscriptionSchema,
+  inquiryReplySchema,
+  passwordResetSchema,
+  pushSubscriptionSchema,
+  reminderScheduleSchema,
+  updateProfileSchema,
+  updateSettingsSchema,
+} from '../../src/schemas/user';
 
-const router = Router();
+const router = new ApiRouter('/api/user', 'User');
 
 // Profile endpoints
-router.get('/profile', authMiddleware, asyncHandler(userController.getUserProfile));
-router.put('/profile', authMiddleware, asyncHandler(userController.updateUserProfile));
+router.get(
+  '/profile',
+  { summary: 'Get profile', response: userResponses.fullUserProfileSchema },
+  authMiddleware, asyncHandler(userController.getUserProfile)
+);
+router.put(
+  '/profile',
+  { summary: 'Update profile', response: userResponses.fullUserProfileSchema },
+  authMiddleware, validateBody(updateProfileSchema), asyncHandler(userController.updateUserProfile)
+);
+
+// Settings endpoints
+router.get(
+  '/settings',
+  { summary: 'Get settings', response: userResponses.userSettingsSchema },
+  authMiddleware, asyncHandler(userController.getSettings)
+);
+router.put(
+  '/settings',
+  { summary: 'Update settings', response: userResponses.userSettingsSchema },
+  authMiddleware, validateBody(updateSettingsSchema), asyncHandler(userController.updateSettings)
+);
+
+// Reminder endpoints
+router.get(
+  '/reminder',
+  { summary: 'Get writing reminder schedule', response: userResponses.reminderScheduleSchema.nullable() },
+  authMiddleware, asyncHandler(userController.getReminderSchedule)
+);
+router.put(
+  '/reminder',
+  { summary: 'Save writing reminder schedule', response: userResponses.reminderScheduleSchema },
+  authMiddleware, validateBody(reminderScheduleSchema), asyncHandler(userController.saveReminderSchedule)
+);
 
 // Password reset endpoints
-router.post('/password-reset', asyncHandler(userController.initiatePasswordReset));
-router.post('/password-reset/confirm', asyncHandler(userController.confirmPasswordReset));
+router.post(
+  '/password-reset',
+  { summary: 'Send a password reset code to the email' },
+  rateLimit({ name: 'password-reset', windowMs: 15 * 60 * 1000, perIp: 10, perUser: 3, userKey: bodyEmailKey }),
+  validateBody(passwordResetSchema), asyncHandler(userController.initiatePasswordReset)
+);
+router.post(
+  '/password-reset/confirm',
+  { summary: 'Set a new password with the emailed code' },
+  rateLimit({ name: 'password-reset-confirm', windowMs: 15 * 60 * 1000, perIp: 10, perUser: 5, userKey: bodyEmailKey }),
+  validateBody(confirmPasswordResetSchema), asyncHandler(userController.confirmPasswordReset)
+);
+
+// Account deletion endpoints
+router.delete(
+  '/account',
+  {
+    summary: 'Delete account',
+    description: 'The account can be restored until `purgeAt`. Users who signed up with a password must confirm it.',
+    response: userResponses.pendingDeletionSchema,
+  },
+  authMiddleware, validateBody(deleteAccountSchema), asyncHandler(userController.deleteAccount)
+);
+router.post(
+  '/account/restore',
+  { summary: 'Restore an account pending deletion' },
+  allowRestrictedAuthMiddleware, asyncHandler(userController.restoreAccount)
+);
+
+// Data export endpoints
+router.post(
+  '/export',
+  { summary: 'Request a personal data export', status: 202, response: userResponses.userExportSchema },
+  authMiddleware, asyncHandler(userController.requestExport)
+);
+router.get(
+  '/export',
+  { summary: 'Get latest data export', response: userResponses.userExportSchema.nullable() },
+  authMiddleware, asyncHandler(userController.getLatestExport)
+);
+router.get(
+  '/export/:exportId',
+  { summary: 'Get data export', response: userResponses.userExportSchema },
+  authMiddleware, asyncHandler(userController.getExport)
+);
+router.get(
+  '/export/:exportId/download',
+  { summary: 'Download data export archive', file: 'application/zip' },
+  authMiddleware, asyncHandler(userController.downloadExport)
+);
 
-// Account deletion endpoint
-router.delete('/account', authMiddleware, asyncHandler(userController.deleteAccount));
+// Notification endpoints
+router.get(
+  '/notifications',
+  { summary: 'List notifications', response: userResponses.notificationListSchema },
+  authMiddleware, asyncHandler(userController.getNotifications)
+);
+router.post(
+  '/notifications/read-all',
+  { summary: 'Mark all notifications read', response: nullDataSchema },
+  authMiddleware, asyncHandler(userController.markAllNotificationsRead)
+);
+router.post(
+  '/notifications/:notificationId/read',
+  { summary: 'Mark notification read', response: nullDataSchema },
+  authMiddleware, asyncHandler(userController.markNotificationRead)
+);
+router.get(
+  '/notifications/push-key',
+  { summary: 'Get Web Push public key', response: userResponses.pushPublicKeySchema },
+  authMiddleware, asyncHandler(userController.getPushPublicKey)
+);
+router.post(
+  '/notifications/push-subscriptions',
+  { summary: 'Save Web Push subscription', status: 201, response: nullDataSchema },
+  authMiddleware, validateBody(pushSubscriptionSchema), asyncHandler(userController.savePushSubscription)
+);
+router.delete(
+  '/notifications/push-subscriptions',
+  { summary: 'Delete Web Push subscription', response: nullDataSchema },
+  authMiddleware, validateBody(deletePushSubscriptionSchema), asyncHandler(userController.deletePushSubscription)
+);
 
 // Report endpoint
-router.post('/report', authMiddleware, asyncHandler(userController.createReport));
+router.post(
+  '/report',
+  { summary: 'Report a user', status: 201, response: userResponses.userReportSchema },
+  authMiddleware, rateLimit({ name: 'report', windowMs: 60 * 60 * 1000, perIp: 30, perUser: 10 }),
+  validateBody(createReportSchema), asyncHandler(userController.createReport)
+);
 
 // Inquiry endpoints
-router.post('/inquiry', authMiddleware, asyncHandler(userController.createInquiry));
-router.get('/inquiries', authMiddleware, asyncHandler(userController.getUserInquiries));
+router.post(
+  '/inquiry',
+  { summary: 'Create inquiry', status: 201, response: userResponses.userInquirySchema },
+  authMiddleware, rateLimit({ name: 'inquiry', windowMs: 60 * 60 * 1000, perIp: 20, perUser: 5 }),
+  validateBody(createInquirySchema), asyncHandler(userController.createInquiry)
+);
+router.get(
+  '/inquiries',
+  { summary: 'List inquiries', response: userResponses.userInquiryListSchema },
+  authMiddleware, asyncHandler(userController.getUserInquiries)
+);
+router.get(
+  '/inquiries/:inquiryId',
+  { summary: 'Get inquiry thread', response: userResponses.inquiryThreadSchema },
+  authMiddleware, asyncHandler(userController.getInquiryThread)
+);
+router.post(
+  '/inquiries/:inquiryId/replies',
+  { summary: 'Reply to an inquiry answer', status: 201, response: userResponses.inquiryThreadSchema },
+  authMiddleware, validateBody(inquiryReplySchema), asyncHandler(userController.replyToInquiry)
+);
+
+// Account status endpoint (also answers restricted accounts)
+router.get(
+  '/account-status',
+  { summary: 'Get account suspension and deletion status', response: userResponses.accountStatusSchema },
+  allowRestrictedAuthMiddleware, asyncHandler(userController.getAccountStatus)
+);
+
+// Role endpoint
+router.get(
+  '/roles',
+  { summary: 'Get roles', response: userResponses.userRolesSchema },
+  authMiddleware, asyncHandler(userController.getRoles)
+);
+
+// Achievement endpoints
+router.get(
+  '/achievements',
+  { summary: 'List achievements with progress', response: userResponses.userAchievementListSchema },
+  authMiddleware, asyncHandler(userController.getAchievements)
+);
 
 export default router;
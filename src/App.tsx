@@ -2,7 +2,7 @@ import { Navigate, Outlet } from "react-router-dom";
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { MutationCache, QueryCache, QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 
 import MainPage from "./pages/MainPage"
@@ -11,17 +11,34 @@ import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import AuthCallback from "./pages/AuthCallback";
 import History from "./pages/History";
+import Insights from "./pages/Insights";
 import LibraryPage from "./pages/LibraryPage";
 import LibraryDetailPage from "./pages/LibraryDetailPage";
+import SharedItemPage from "./pages/SharedItemPage";
 import { LibraryProvider } from "./contexts/LibraryContext";
 import { AuthProvider } from "./contexts/AuthContext";
 import ProtectedRoute from "./components/auth/ProtectedRoute";
+import RoleProtectedRoute from "./components/auth/RoleProtectedRoute";
 import MyPage from "./pages/MyPage";
+import Achievements from "./pages/Achievements";
 import EditProfile from "./pages/EditProfile";
 import Settings from "./pages/Settings";
+import AdminReports from "./pages/AdminReports";
+import AdminInquiries from "./pages/AdminInquiries";
 import NotFound from "./pages/NotFound";
+import { ApiError } from "./lib/api";
 
-const queryClient = new QueryClient();
+// 요청 중 계정 정지나 탈퇴 처리가 확인되면 안내 화면을 띄우도록 상태를 다시 조회.
+const handleApiError = (error: Error) => {
+  if (error instanceof ApiError && (error.code === "AccountSuspended" || error.code === "AccountPendingDeletion")) {
+    queryClient.invalidateQueries({ queryKey: ["account-status"] });
+  }
+};
+
+const queryClient: QueryClient = new QueryClient({
+  queryCache: new QueryCache({ onError: handleApiError }),
+  mutationCache: new MutationCache({ onError: handleApiError }),
+});
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
@@ -35,6 +52,7 @@ const App = () => (
             {/* 공개 라우트 */}
             <Route path="/auth" element={<Auth />} />
             <Route path="/auth/callback" element={<AuthCallback />} />
+            <Route path="/s/:token" element={<SharedItemPage />} />
             
             {/* 보호된 라우트 */}
             <Route path="/" element={
@@ -60,6 +78,12 @@ const App = () => (
                 <History />
               </ProtectedRoute>
             } />
+
+            <Route path="/insights" element={
+              <ProtectedRoute>
+                <Insights />
+              </ProtectedRoute>
+            } />
             
             <Route
               path="/library"
@@ -81,6 +105,12 @@ const App = () => (
               </ProtectedRoute>
             } />
             
+            <Route path="/achievements" element={
+              <ProtectedRoute>
+                <Achievements />
+              </ProtectedRoute>
+            } />
+
             <Route path="/edit-profile" element={
               <ProtectedRoute>
                 <EditProfile />
@@ -93,6 +123,19 @@ const App = () => (
               </ProtectedRoute>
             } />
             
+            {/* 관리자 라우트 */}
+            <Route path="/admin/reports" element={
+              <RoleProtectedRoute roles={["moderator"]}>
+                <AdminReports />
+              </RoleProtectedRoute>
+            } />
+
+            <Route path="/admin/inquiries" element={
+              <RoleProtectedRoute roles={["moderator"]}>
+                <AdminInquiries />
+              </RoleProtectedRoute>
+            } />
+            
             <Route path="*" element={<NotFound />} />
           </Routes>
         </AuthProvider>
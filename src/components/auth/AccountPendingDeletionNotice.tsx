@@ -0,0 +1,69 @@
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '../../contexts/AuthContext';
+import { useUserApi } from '../../hooks/useUserApi';
+import type { PendingDeletion } from '../../types/database';
+
+interface AccountPendingDeletionNoticeProps {
+  pendingDeletion: PendingDeletion;
+}
+
+/**
+ * 탈퇴 처리 중인 계정에 보여주는 복구 안내 화면
+ * 
+ * - 데이터가 완전히 삭제되는 시각 표시
+ * - 계정 복구 또는 로그아웃 제공
+ */
+const AccountPendingDeletionNotice: React.FC<AccountPendingDeletionNoticeProps> = ({ pendingDeletion }) => {
+  const { signOut } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const userApi = useUserApi();
+
+  const restoreMutation = useMutation({
+    mutationFn: userApi.restoreAccount,
+    onSuccess: () => queryClient.invalidateQueries(),
+  });
+
+  const handleSignOut = async () => {
+    await signOut();
+    navigate('/auth');
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen px-4 bg-background">
+      <div className="w-full max-w-md bg-card rounded-xl shadow-md border border-border p-8 text-center space-y-4">
+        <div className="mx-auto w-14 h-14 rounded-full bg-amber-50 flex items-center justify-center">
+          <RotateCcw className="w-7 h-7 text-amber-600" />
+        </div>
+        <h1 className="font-serif text-2xl text-foreground">탈퇴 처리 중인 계정입니다</h1>
+        <p className="text-sm text-muted-foreground">
+          {new Date(pendingDeletion.deletedAt).toLocaleDateString('ko-KR')}에 탈퇴를 요청하셨습니다.
+          {` ${new Date(pendingDeletion.purgeAt).toLocaleString('ko-KR')}에 모든 기록이 삭제되며, 그 전까지는 계정을 복구할 수 있습니다.`}
+        </p>
+        {restoreMutation.isError && (
+          <p className="text-xs text-red-500">계정을 복구하지 못했습니다. 다시 시도해주세요.</p>
+        )}
+        <button
+          type="button"
+          onClick={() => restoreMutation.mutate()}
+          disabled={restoreMutation.isPending}
+          className="w-full px-4 py-2 rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors text-sm disabled:opacity-60"
+        >
+          계정 복구하기
+        </button>
+        <button
+          type="button"
+          onClick={handleSignOut}
+          className="w-full px-4 py-2 rounded-md border border-input bg-background hover:bg-accent transition-colors text-sm"
+        >
+          로그아웃
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AccountPendingDeletionNotice;
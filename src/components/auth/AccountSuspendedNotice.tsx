@@ -0,0 +1,56 @@
+import React from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import type { AccountStatus } from '../../types/database';
+
+interface AccountSuspendedNoticeProps {
+  status: AccountStatus;
+}
+
+/**
+ * 이용이 정지된 계정에 보여주는 안내 화면
+ * 
+ * - 정지 사유와 해제 예정 시각 표시
+ * - 정지 중에는 다른 페이지를 이용할 수 없으므로 로그아웃만 제공
+ */
+const AccountSuspendedNotice: React.FC<AccountSuspendedNoticeProps> = ({ status }) => {
+  const { signOut } = useAuth();
+  const navigate = useNavigate();
+
+  const handleSignOut = async () => {
+    await signOut();
+    navigate('/auth');
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen px-4 bg-background">
+      <div className="w-full max-w-md bg-card rounded-xl shadow-md border border-border p-8 text-center space-y-4">
+        <div className="mx-auto w-14 h-14 rounded-full bg-red-50 flex items-center justify-center">
+          <ShieldAlert className="w-7 h-7 text-red-500" />
+        </div>
+        <h1 className="font-serif text-2xl text-foreground">계정 이용이 일시 정지되었습니다</h1>
+        <p className="text-sm text-muted-foreground">
+          짧은 기간에 여러 건의 신고가 접수되어 계정 이용이 제한되었습니다.
+          {status.suspendedUntil
+            ? ` ${new Date(status.suspendedUntil).toLocaleString('ko-KR')}에 자동으로 해제됩니다.`
+            : ' 운영팀 검토 후 해제 여부가 결정됩니다.'}
+        </p>
+        {status.reason && (
+          <p className="text-xs text-muted-foreground bg-secondary/40 rounded-md px-3 py-2">
+            사유: {status.reason}
+          </p>
+        )}
+        <button
+          type="button"
+          onClick={handleSignOut}
+          className="w-full px-4 py-2 rounded-md border border-input bg-background hover:bg-accent transition-colors text-sm"
+        >
+          로그아웃
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AccountSuspendedNotice;
@@ -1,6 +1,12 @@
 import React from 'react';
 import { Navigate, useLocation } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
 import { useAuth } from '../../contexts/AuthContext';
+import { useUserApi } from '../../hooks/useUserApi';
+import { useUserSettings } from '../../hooks/useUserSettings';
+import { readCachedSettings } from '../../lib/userSettings';
+import AccountPendingDeletionNotice from './AccountPendingDeletionNotice';
+import AccountSuspendedNotice from './AccountSuspendedNotice';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
@@ -13,6 +19,9 @@ interface ProtectedRouteProps {
  * - 인증되지 않은 사용자는 로그인 페이지로 리다이렉트
  * - 로그인 후 원래 페이지로 돌아갈 수 있도록 현재 위치 저장
  * - 로딩 중에는 로딩 인디케이터 표시
+ * - 캐시된 설정이 없으면 서버 설정(테마, 언어)을 적용한 뒤 화면 표시
+ * - 탈퇴 처리 중인 계정에는 복구 안내 화면 표시
+ * - 이용이 정지된 계정에는 정지 안내 화면 표시
  */
 const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
   children,
@@ -20,9 +29,22 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
 }) => {
   const { state } = useAuth();
   const location = useLocation();
+  const userApi = useUserApi();
+  const token = state.tokens?.idToken;
+
+  // 계정 정지/탈퇴 처리 여부 (API가 AccountSuspended 또는 AccountPendingDeletion을 반환하면 다시 조회됨)
+  const { data: accountStatus } = useQuery({
+    queryKey: ['account-status', state.user?.sub],
+    queryFn: userApi.getAccountStatus,
+    enabled: !!token,
+    staleTime: 60 * 1000,
+  });
+
+  // 테마와 언어 설정 (이 기기에 캐시가 없으면 적용될 때까지 기다림)
+  const { isLoading: settingsLoading } = useUserSettings();
 
   // 로딩 중
-  if (state.isLoading) {
+  if (state.isLoading || (settingsLoading && !readCachedSettings())) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <div className="text-center">
@@ -39,6 +61,16 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
     return <Navigate to={redirectTo} state={{ from: location }} replace />;
   }
 
+  // 탈퇴 처리 중인 경우
+  if (accountStatus?.pendingDeletion) {
+    return <AccountPendingDeletionNotice pendingDeletion={accountStatus.pendingDeletion} />;
+  }
+
+  // 이용이 정지된 경우
+  if (accountStatus?.suspended) {
+    return <AccountSuspendedNotice status={accountStatus} />;
+  }
+
   // 인증된 경우 자식 컴포넌트 렌더링
   return <>{children}</>;
 };
@@ -0,0 +1,54 @@
+import React from 'react';
+import { Navigate } from 'react-router-dom';
+import { useRoles } from '../../hooks/useRoles';
+import type { UserRole } from '../../types/database';
+import ProtectedRoute from './ProtectedRoute';
+
+interface RoleProtectedRouteProps {
+  children: React.ReactNode;
+  roles: UserRole[];
+  redirectTo?: string;
+  fallbackTo?: string;
+}
+
+/**
+ * 특정 역할이 필요한 라우트를 보호하는 컴포넌트
+ * 
+ * - 인증 처리는 ProtectedRoute와 동일 (로그인 페이지로 리다이렉트)
+ * - 역할 확인 중에는 로딩 인디케이터 표시
+ * - 역할이 없는 사용자는 fallbackTo(기본값: 메인 페이지)로 리다이렉트
+ */
+const RoleCheck: React.FC<Omit<RoleProtectedRouteProps, 'redirectTo'>> = ({
+  children,
+  roles,
+  fallbackTo = '/main',
+}) => {
+  const { hasRole, isLoading } = useRoles();
+
+  // 역할 확인 중
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <div className="inline-block animate-spin rounded-full h-12 w-12 border-b-2 border-gray-900"></div>
+          <p className="mt-4 text-gray-600">권한 확인 중...</p>
+        </div>
+      </div>
+    );
+  }
+
+  // 필요한 역할이 없는 경우
+  if (!hasRole(...roles)) {
+    return <Navigate to={fallbackTo} replace />;
+  }
+
+  return <>{children}</>;
+};
+
+const RoleProtectedRoute: React.FC<RoleProtectedRouteProps> = ({ redirectTo, ...props }) => (
+  <ProtectedRoute redirectTo={redirectTo}>
+    <RoleCheck {...props} />
+  </ProtectedRoute>
+);
+
+export default RoleProtectedRoute;
@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { ChevronDown, Loader2, MessageCircle } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useInquiries, useInquiry, useReplyToInquiry } from "@/hooks/useInquiries";
+import { cn } from "@/lib/utils";
+import type { InquiryStatus } from "@/types/database";
+import { InquiryThreadView } from "./InquiryThreadView";
+
+const statusLabels: Record<InquiryStatus, string> = {
+  pending: "답변 대기",
+  answered: "답변 완료",
+  closed: "종료",
+};
+
+const statusStyles: Record<InquiryStatus, string> = {
+  pending: "bg-secondary text-muted-foreground",
+  answered: "bg-yellow-700/10 text-yellow-700",
+  closed: "bg-secondary/50 text-muted-foreground/70",
+};
+
+// 펼친 문의의 대화 내용과 추가 문의 입력창.
+function InquiryThreadSection({ inquiryId }: { inquiryId: number }) {
+  const { toast } = useToast();
+  const [reply, setReply] = useState("");
+
+  const { data: thread, isLoading } = useInquiry(inquiryId);
+  const replyMutation = useReplyToInquiry(inquiryId);
+
+  const sendReply = () =>
+    replyMutation.mutate(reply, {
+      onSuccess: () => setReply(""),
+      onError: (error) =>
+        toast({ title: "추가 문의를 보내지 못했습니다", description: error.message, variant: "destructive" }),
+    });
+
+  if (isLoading || !thread) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 pt-3">
+      <InquiryThreadView thread={thread} />
+
+      {thread.status === "closed" ? (
+        <p className="text-xs text-muted-foreground text-center">종료된 문의입니다. 새 문의를 남겨주세요.</p>
+      ) : (
+        <div className="space-y-2">
+          <Textarea
+            value={reply}
+            onChange={(event) => setReply(event.target.value)}
+            placeholder="답변에 이어서 문의할 내용을 입력하세요"
+            maxLength={2000}
+            rows={3}
+          />
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={sendReply}
+              disabled={!reply.trim() || replyMutation.isPending}
+              className="px-4 py-2 rounded-md bg-yellow-700 text-white text-sm hover:bg-yellow-600 transition-colors disabled:opacity-50"
+            >
+              {replyMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : "추가 문의 보내기"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// 마이페이지의 문의 내역 (답변 상태와 대화 내용).
+export function InquiryHistoryPanel() {
+  const [openInquiryId, setOpenInquiryId] = useState<number | null>(null);
+
+  const { data: inquiries = [], isLoading } = useInquiries();
+
+  return (
+    <section className="bg-card rounded-xl shadow-md border border-border p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <MessageCircle className="w-5 h-5 text-yellow-600" />
+        <h3 className="font-semibold text-foreground">문의 내역</h3>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : inquiries.length === 0 ? (
+        <p className="handwriting text-lg text-muted-foreground">아직 남긴 문의가 없습니다.</p>
+      ) : (
+        <ul className="divide-y divide-border">
+          {inquiries.map((inquiry) => {
+            const isOpen = openInquiryId === inquiry.inquiryId;
+
+            return (
+              <li key={inquiry.inquiryId} className="py-3">
+                <button
+                  type="button"
+                  onClick={() => setOpenInquiryId(isOpen ? null : inquiry.inquiryId)}
+                  className="w-full flex items-center gap-3 text-left"
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-foreground truncate">{inquiry.subject}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(inquiry.createdAt).toLocaleDateString("ko-KR")}
+                    </p>
+                  </div>
+                  <span
+                    className={cn(
+                      "shrink-0 rounded-full px-3 py-1 text-xs font-semibold",
+                      statusStyles[inquiry.status]
+                    )}
+                  >
+                    {statusLabels[inquiry.status]}
+                  </span>
+                  <ChevronDown
+                    className={cn("w-4 h-4 text-muted-foreground transition-transform", isOpen && "rotate-180")}
+                  />
+                </button>
+
+                {isOpen && <InquiryThreadSection inquiryId={inquiry.inquiryId} />}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,67 @@
+import { Lock } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { InquiryThread } from "@/types/database";
+
+interface InquiryThreadViewProps {
+  thread: InquiryThread;
+  // 관리자 화면에서는 문의자 닉네임과 직원 이름을 표시.
+  userLabel?: string;
+}
+
+const formatDateTime = (value: string | Date) =>
+  new Date(value).toLocaleString("ko-KR", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+// 문의 원문과 이어진 답변, 추가 문의, 내부 메모를 시간순으로 표시.
+export function InquiryThreadView({ thread, userLabel = "나" }: InquiryThreadViewProps) {
+  const entries = [
+    {
+      key: "original",
+      authorRole: "user" as const,
+      author: userLabel,
+      body: thread.message,
+      isInternal: false,
+      createdAt: thread.createdAt,
+    },
+    ...thread.messages.map((message) => ({
+      key: String(message.messageId),
+      authorRole: message.authorRole,
+      author: message.authorRole === "user" ? userLabel : message.authorNickname ?? "운영팀",
+      body: message.body,
+      isInternal: message.isInternal,
+      createdAt: message.createdAt,
+    })),
+  ];
+
+  return (
+    <div className="space-y-3">
+      {entries.map((entry) => (
+        <div
+          key={entry.key}
+          className={cn("flex", entry.authorRole === "user" ? "justify-start" : "justify-end")}
+        >
+          <div
+            className={cn(
+              "max-w-[85%] rounded-lg px-4 py-3 text-sm",
+              entry.isInternal
+                ? "bg-amber-50 border border-dashed border-amber-300 text-amber-900"
+                : entry.authorRole === "user"
+                  ? "bg-secondary/50 text-foreground"
+                  : "bg-yellow-700/10 text-foreground"
+            )}
+          >
+            <p className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+              {entry.isInternal && <Lock className="w-3 h-3" />}
+              {entry.isInternal ? `내부 메모 · ${entry.author}` : entry.author} · {formatDateTime(entry.createdAt)}
+            </p>
+            <p className="whitespace-pre-line break-words">{entry.body}</p>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,7 +1,6 @@
 import { cn } from "@/lib/utils";
 import { ReactNode } from "react";
-
-type EmotionType = "positive" | "neutral" | "negative";
+import type { EmotionTag, EmotionType } from "@/types/database";
 
 interface EmotionBadgeProps {
   emotion: EmotionType;
@@ -40,7 +39,7 @@ export function EmotionBadge({ emotion, label, percentage, className }: EmotionB
 
 interface EmotionCardProps {
   title: string;
-  emotions: Array<{ type: EmotionType; label: string; percentage: number }>;
+  emotions: EmotionTag[];
   summary: string;
   children?: ReactNode;
   className?: string;
@@ -1,4 +1,6 @@
 import { useState, KeyboardEvent, useEffect, useRef } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
 import { Send, Sparkles, Feather, HelpCircle, Loader2, X, Trash2 } from "lucide-react"; // X, Trash2 아이콘 추가
 import { Button } from "@/components/ui/button";
 import {
@@ -9,19 +11,51 @@ import {
   DialogDescription,
   DialogFooter,
 } from "@/components/ui/dialog";
+import { useAuth } from "@/contexts/AuthContext";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest, getLocalDateString, getLocalTimeZone } from "@/lib/api";
+import type { JournalEntry, DailySummary } from "@/types/database";
 
 export const JournalBook = () => {
-  const [entries, setEntries] = useState<string[]>([]);
+  const { state } = useAuth();
+  const token = state.tokens?.idToken;
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
   const [currentEntry, setCurrentEntry] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
   const entriesContainerRef = useRef<HTMLDivElement>(null);
   
   // 요약(Analysis) 관련 상태
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [dialogStep, setDialogStep] = useState<"confirm" | "loading" | "result">("confirm");
+  const [summary, setSummary] = useState<DailySummary | null>(null);
+  const [isRegistering, setIsRegistering] = useState(false);
 
   // [추가됨] 삭제 관련 상태
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
-  const [deleteTargetIndex, setDeleteTargetIndex] = useState<number | null>(null);
+  const [deleteTargetId, setDeleteTargetId] = useState<number | null>(null);
+
+  // 오늘 작성한 기록 불러오기
+  useEffect(() => {
+    if (!token) return;
+
+    let cancelled = false;
+    const today = getLocalDateString();
+
+    apiRequest<JournalEntry[]>(`/api/journal/entries?date=${today}`, { token })
+      .then((data) => {
+        if (!cancelled) setEntries(data);
+      })
+      .catch((error) => {
+        console.error("기록 불러오기 실패:", error);
+        toast({ title: "기록을 불러오지 못했습니다", description: error.message, variant: "destructive" });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
 
   useEffect(() => {
     if (entriesContainerRef.current) {
@@ -29,10 +63,29 @@ export const JournalBook = () => {
     }
   }, [entries]);
 
-  const addEntry = () => {
-    if (currentEntry.trim()) {
-      setEntries((prev) => [...prev, currentEntry.trim()]);
+  const addEntry = async () => {
+    const content = currentEntry.trim();
+    if (!content || !token || isSaving) return;
+
+    try {
+      setIsSaving(true);
+      const entry = await apiRequest<JournalEntry>("/api/journal/entries", {
+        token,
+        method: "POST",
+        body: { content, entry_date: getLocalDateString(), timezone: getLocalTimeZone() },
+      });
+      setEntries((prev) => [...prev, entry]);
       setCurrentEntry("");
+      queryClient.invalidateQueries({ queryKey: ["journal-streak"] });
+    } catch (error) {
+      console.error("기록 저장 실패:", error);
+      toast({
+        title: "기록을 저장하지 못했습니다",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
     }
   };
 
@@ -45,17 +98,28 @@ export const JournalBook = () => {
   };
 
   // [추가됨] 삭제 요청 핸들러 (X버튼 클릭 시)
-  const handleDeleteRequest = (index: number) => {
-    setDeleteTargetIndex(index);
+  const handleDeleteRequest = (entryId: number) => {
+    setDeleteTargetId(entryId);
     setIsDeleteDialogOpen(true);
   };
 
   // [추가됨] 삭제 확정 핸들러 (팝업에서 '예' 클릭 시)
-  const confirmDelete = () => {
-    if (deleteTargetIndex !== null) {
-      setEntries((prev) => prev.filter((_, i) => i !== deleteTargetIndex));
+  const confirmDelete = async () => {
+    if (deleteTargetId === null || !token) return;
+
+    try {
+      await apiRequest(`/api/journal/entries/${deleteTargetId}`, { token, method: "DELETE" });
+      setEntries((prev) => prev.filter((entry) => entry.entryId !== deleteTargetId));
+    } catch (error) {
+      console.error("기록 삭제 실패:", error);
+      toast({
+        title: "기록을 삭제하지 못했습니다",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    } finally {
       setIsDeleteDialogOpen(false);
-      setDeleteTargetIndex(null);
+      setDeleteTargetId(null);
     }
   };
 
@@ -64,18 +128,55 @@ export const JournalBook = () => {
     setIsDialogOpen(true);
   };
 
-  const proceedToResult = () => {
+  const proceedToResult = async () => {
+    if (!token) return;
+
     setDialogStep("loading");
-    setTimeout(() => {
+    try {
+      const data = await apiRequest<DailySummary>("/api/journal/summaries", {
+        token,
+        method: "POST",
+        body: { date: getLocalDateString() },
+      });
+      setSummary(data);
       setDialogStep("result");
-    }, 2000);
+    } catch (error) {
+      console.error("기록 요약 실패:", error);
+      setIsDialogOpen(false);
+      toast({
+        title: "요약하지 못했습니다",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    }
   };
 
-  const mockEmotions = [
-    { type: "positive" as const, label: "평온", percentage: 45 },
-    { type: "neutral" as const, label: "그리움", percentage: 35 },
-    { type: "negative" as const, label: "쓸쓸함", percentage: 20 },
-  ];
+  // 오늘의 기록을 히스토리 챕터로 등록
+  const registerToHistory = async () => {
+    if (!token || isRegistering) return;
+
+    try {
+      setIsRegistering(true);
+      await apiRequest("/api/journal/chapters", {
+        token,
+        method: "POST",
+        body: { date: getLocalDateString() },
+      });
+      await queryClient.invalidateQueries({ queryKey: ["journal-chapters"] });
+      setIsDialogOpen(false);
+      toast({ title: "히스토리에 등록했어요", description: "오늘의 기록이 한 장의 챕터가 되었습니다." });
+      navigate("/history");
+    } catch (error) {
+      console.error("히스토리 등록 실패:", error);
+      toast({
+        title: "히스토리에 등록하지 못했습니다",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    } finally {
+      setIsRegistering(false);
+    }
+  };
 
   const defaultScrollbarStyle = `
     pr-2 overflow-y-auto
@@ -125,7 +226,7 @@ export const JournalBook = () => {
           >
             {entries.map((entry, idx) => (
               <div 
-                key={`entry-${idx}`}
+                key={entry.entryId}
                 // group 클래스 추가 (호버 시 X버튼 표시용)
                 className="group flex items-start gap-3 p-4 rounded-lg bg-[#ebe5da] shadow-sm border border-[#dcd6cc] animate-in fade-in slide-in-from-left-2 duration-300 border-l-4 border-l-primary relative"
               >
@@ -133,14 +234,14 @@ export const JournalBook = () => {
                   {String(idx + 1).padStart(2, "0")}
                 </span>
                 <p className="text-stone-800 text-sm flex-1 leading-relaxed font-medium whitespace-pre-wrap break-all">
-                  {entry}
+                  {entry.content}
                 </p>
                 
                 {/* [추가됨] 삭제 버튼 (X) */}
                 <Button 
                   variant="ghost" 
                   size="icon" 
-                  onClick={() => handleDeleteRequest(idx)}
+                  onClick={() => handleDeleteRequest(entry.entryId)}
                   className="h-6 w-6 shrink-0 text-stone-400 hover:text-red-500 hover:bg-red-50 transition-colors opacity-0 group-hover:opacity-100 focus:opacity-100"
                   aria-label="이 기록 삭제"
                 >
@@ -160,7 +261,7 @@ export const JournalBook = () => {
             className="w-full h-13 px-4 py-3 rounded-xl bg-secondary/20 border border-input focus:border-primary focus:ring-1 focus:ring-primary/20 resize-none text-foreground placeholder:text-muted-foreground/50 outline-none transition-all duration-300 font-serif"
           />
           <div className="absolute bottom-3 right-3">
-            <Button variant="ghost" size="icon" onClick={addEntry} disabled={!currentEntry.trim()} className="rounded-full hover:bg-primary/10 hover:text-primary transition-colors">
+            <Button variant="ghost" size="icon" onClick={addEntry} disabled={!currentEntry.trim() || isSaving} className="rounded-full hover:bg-primary/10 hover:text-primary transition-colors">
               <Send className="w-4 h-4" />
             </Button>
           </div>
@@ -260,7 +361,7 @@ export const JournalBook = () => {
                       })}
                     </h3>
                     <div className="flex items-center gap-2 mt-2">
-                        {mockEmotions.map((e, i) => (
+                        {(summary?.emotions ?? []).map((e, i) => (
                           <span key={i} className={`text-xs px-2 py-0.5 rounded-full border ${
                             i === 0 ? "border-rose-300 text-rose-600 bg-rose-50" : "border-stone-300 text-stone-500"
                           }`}>
@@ -275,24 +376,24 @@ export const JournalBook = () => {
                       className="font-handwriting text-xl text-stone-800 tracking-wide whitespace-pre-wrap min-h-full"
                       style={linedPaperStyle}
                     >
-                      오늘의 기록에서는 잔잔한 평온함이 느껴집니다. 
-                      과거를 그리워하는 마음과 함께, 고요한 쓸쓸함도 함께 담겨 있네요. 
-                      
-                      이 모든 감정이 모여 당신만의 하루가 됩니다. 
-                      때로는 지나간 추억이 아프게 다가오기도 하지만, 그것 또한 지금의 나를 만든 소중한 조각들입니다.
-                      
-                      내일은 오늘보다 조금 더 따뜻한 하루가 되기를 바랍니다.
-                      당신의 이야기는 여기서 끝이 아닙니다. 계속해서 써내려가세요.
+                      {summary?.summary}
                     </div>
                   </div>
 
                   <div className="shrink-0 pt-4 mt-2 border-t border-stone-300/50 flex items-center justify-between text-stone-500 text-sm font-serif">
-                    <span>총 {entries.length}개의 기록</span>
+                    <span>총 {summary?.entryCount ?? entries.length}개의 기록</span>
                     <div className="flex gap-2">
                       <Button variant="ghost" size="sm" onClick={() => setIsDialogOpen(false)} className="hover:bg-stone-200/50 hover:text-stone-800">
                         덮기
                       </Button>
-                      <Button variant="default" size="sm" className="bg-stone-800 text-[#fdfbf7] hover:bg-stone-700 shadow-sm font-sans">
+                      <Button
+                        variant="default"
+                        size="sm"
+                        onClick={registerToHistory}
+                        disabled={isRegistering}
+                        className="bg-stone-800 text-[#fdfbf7] hover:bg-stone-700 shadow-sm font-sans"
+                      >
+                        {isRegistering && <Loader2 className="w-4 h-4 animate-spin" />}
                         히스토리에 등록
                       </Button>
                     </div>
@@ -1,8 +1,11 @@
 import { useState } from "react";
 import { useNavigate, useLocation } from "react-router-dom";
-import { BookOpen, History, Library, User, Settings, LogOut, X, Home, BookMarked } from "lucide-react"; // LogIn -> LogOut 변경
+import { BookOpen, History, BarChart3, Library, User, Settings, LogOut, X, Home, BookMarked, Flag, Inbox } from "lucide-react"; // LogIn -> LogOut 변경
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/contexts/AuthContext";
+import { useNotifications } from "@/hooks/useNotifications";
+import { useRoles } from "@/hooks/useRoles";
+import { NotificationCenter } from "./NotificationCenter";
 
 // 1. 메뉴 데이터
 interface MenuItem {
@@ -15,6 +18,7 @@ interface MenuItem {
 const topMenuItems: MenuItem[] = [
   { id: "journal", label: "기록실", icon: BookOpen, path: "/journal" },
   { id: "history", label: "히스토리", icon: History, path: "/history" },
+  { id: "insights", label: "인사이트", icon: BarChart3, path: "/insights" },
   { id: "library", label: "라이브러리", icon: Library, path: "/library" },
 ];
 
@@ -26,6 +30,12 @@ const bottomRowItems: MenuItem[] = [
   { id: "settings", label: "설정", icon: Settings, path: "/settings" },
 ];
 
+// 모더레이터 이상에게만 표시
+const adminItems: MenuItem[] = [
+  { id: "admin-reports", label: "신고 관리", icon: Flag, path: "/admin/reports" },
+  { id: "admin-inquiries", label: "문의 관리", icon: Inbox, path: "/admin/inquiries" },
+];
+
 const mainItem: MenuItem = { id: "main", label: "메인 페이지", icon: Home, path: "/" };
 
 // 2. 컴포넌트
@@ -39,6 +49,8 @@ export function LibrarySidebar({ isOpen, onClose, onToggle }: LibrarySidebarProp
   const navigate = useNavigate();
   const location = useLocation();
   const { signOut } = useAuth();
+  const { hasRole } = useRoles();
+  const { unreadCount } = useNotifications();
   const [hoveredItem, setHoveredItem] = useState<string | null>(null);
   
   // 로그아웃 모달 상태 관리
@@ -173,6 +185,10 @@ export function LibrarySidebar({ isOpen, onClose, onToggle }: LibrarySidebarProp
                 isOpen ? "text-gold" : "text-muted-foreground group-hover:text-primary"
               )}
             />
+            {/* 읽지 않은 알림 표시 */}
+            {!isOpen && unreadCount > 0 && (
+              <span className="absolute top-2 right-1.5 w-2 h-2 rounded-full bg-gold" />
+            )}
           </div>
           {!isOpen && (
             <div className="absolute left-full top-1/2 -translate-y-1/2 ml-3 px-3 py-1.5 bg-card rounded-md shadow-md opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-none whitespace-nowrap border border-border">
@@ -190,13 +206,18 @@ export function LibrarySidebar({ isOpen, onClose, onToggle }: LibrarySidebarProp
         <div className="relative h-full flex flex-col py-8 px-4">
           <div className="flex items-center justify-between mb-8 px-2">
             <h2 className="font-serif text-lg text-gold gold-accent">메뉴</h2>
-            <button onClick={onClose} className="p-2 rounded-full hover:bg-secondary/50 transition-colors">
-              <X className="w-5 h-5 text-sepia" />
-            </button>
+            <div className="flex items-center gap-1">
+              <NotificationCenter onNavigate={onClose} />
+              <button onClick={onClose} className="p-2 rounded-full hover:bg-secondary/50 transition-colors">
+                <X className="w-5 h-5 text-sepia" />
+              </button>
+            </div>
           </div>
 
           <nav className="flex-1 space-y-3 overflow-y-auto overflow-x-hidden pr-1">
             {topMenuItems.map((item, index) => renderMenuItem(item, index, 0, "w-full"))}
+            {hasRole("moderator") &&
+              adminItems.map((item, index) => renderMenuItem(item, index, topMenuItems.length, "w-full"))}
           </nav>
 
           <div className="mt-4 pt-4 border-t border-border/30 flex flex-col gap-3">
@@ -0,0 +1,100 @@
+import { useNavigate } from "react-router-dom";
+import { Bell } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useNotifications } from "@/hooks/useNotifications";
+import { cn } from "@/lib/utils";
+import type { UserNotification } from "@/types/database";
+
+const formatTime = (value: Date | string) =>
+  new Date(value).toLocaleString("ko-KR", {
+    month: "numeric",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+interface NotificationCenterProps {
+  onNavigate: () => void;
+}
+
+// 사이드바 상단의 알림함. 알림을 누르면 읽음 처리 후 관련 페이지로 이동.
+export function NotificationCenter({ onNavigate }: NotificationCenterProps) {
+  const navigate = useNavigate();
+  const { notifications, unreadCount, markRead, markAllRead } = useNotifications();
+
+  const handleOpen = (notification: UserNotification) => {
+    if (!notification.readAt) markRead(notification.notificationId);
+    if (notification.link) {
+      navigate(notification.link);
+      onNavigate();
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className="relative p-2 rounded-full hover:bg-secondary/50 transition-colors"
+          aria-label="알림함"
+        >
+          <Bell className="w-5 h-5 text-sepia" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-gold text-[10px] leading-[18px] text-center font-semibold text-background">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </button>
+      </PopoverTrigger>
+
+      <PopoverContent side="right" align="start" className="z-[60] w-80 p-0 bg-card border-gold/40">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+          <h3 className="font-serif text-sm font-semibold text-foreground">알림</h3>
+          {unreadCount > 0 && (
+            <button
+              onClick={() => markAllRead()}
+              className="font-serif text-xs text-muted-foreground hover:text-gold transition-colors"
+            >
+              모두 읽음
+            </button>
+          )}
+        </div>
+
+        {notifications.length === 0 ? (
+          <p className="px-4 py-8 text-center font-serif text-sm text-muted-foreground">
+            새로운 알림이 없습니다.
+          </p>
+        ) : (
+          <ul className="max-h-96 overflow-y-auto divide-y divide-border">
+            {notifications.map((notification) => (
+              <li key={notification.notificationId}>
+                <button
+                  onClick={() => handleOpen(notification)}
+                  className={cn(
+                    "w-full text-left px-4 py-3 hover:bg-secondary/40 transition-colors",
+                    !notification.readAt && "bg-gold/5"
+                  )}
+                >
+                  <div className="flex items-start gap-2">
+                    <span
+                      className={cn(
+                        "mt-1.5 w-2 h-2 rounded-full shrink-0",
+                        notification.readAt ? "bg-transparent" : "bg-gold"
+                      )}
+                    />
+                    <div className="min-w-0">
+                      <p className="font-serif text-sm text-foreground">{notification.title}</p>
+                      <p className="text-xs text-muted-foreground line-clamp-2">{notification.body}</p>
+                      <p className="mt-1 text-[11px] text-muted-foreground/70">
+                        {formatTime(notification.createdAt)}
+                      </p>
+                    </div>
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { Globe, Lock, Plus } from "lucide-react";
+import { Globe, Loader2, Lock, Plus } from "lucide-react";
 import { LibraryItemType, LibraryItemVisibility } from "@/types/library";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -12,13 +12,22 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+
+// 타입별로 선택 가능한 파일 형식.
+const acceptByType: Record<LibraryItemType, string | undefined> = {
+  image: "image/*",
+  video: "video/*",
+  document: ".pdf,.txt,.md,.doc,.docx,.xls,.xlsx,.ppt,.pptx,.rtf,text/*",
+  file: undefined,
+};
 
 interface AddItemModalProps {
   isOpen: boolean;
   onClose: () => void;
   itemType: LibraryItemType;
   typeLabel: string;
-  onAdd: (item: { name: string; visibility: LibraryItemVisibility }) => void;
+  onAdd: (item: { file: File; name: string; visibility: LibraryItemVisibility }) => Promise<void>;
 }
 
 export function AddItemModal({
@@ -28,23 +37,57 @@ export function AddItemModal({
   typeLabel,
   onAdd,
 }: AddItemModalProps) {
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
   const [name, setName] = useState("");
   const [visibility, setVisibility] = useState<LibraryItemVisibility>("private");
+  const [isSaving, setIsSaving] = useState(false);
 
-  const handleSubmit = (event: React.FormEvent) => {
-    event.preventDefault();
-    if (!name.trim()) {
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0] ?? null;
+    setFile(selected);
+    // 이름을 비워두면 파일 이름을 그대로 사용.
+    if (selected && !name.trim()) {
+      setName(selected.name);
+    }
+  };
+
+  const handleClose = () => {
+    if (isSaving) {
       return;
     }
-    // 입력된 값으로 새 항목을 추가.
-    onAdd({ name: name.trim(), visibility });
+    setFile(null);
     setName("");
     setVisibility("private");
     onClose();
   };
 
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!file || !name.trim()) {
+      return;
+    }
+    // 선택한 파일을 업로드해 새 항목을 추가.
+    setIsSaving(true);
+    try {
+      await onAdd({ file, name: name.trim(), visibility });
+      setIsSaving(false);
+      setFile(null);
+      setName("");
+      setVisibility("private");
+      onClose();
+    } catch (error) {
+      setIsSaving(false);
+      toast({
+        title: "업로드 실패",
+        description: error instanceof Error ? error.message : "파일을 업로드하지 못했습니다.",
+        variant: "destructive",
+      });
+    }
+  };
+
   return (
-    <Dialog open={isOpen} onOpenChange={onClose}>
+    <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="max-w-md paper-texture border border-ink/10">
         <DialogHeader>
           <DialogTitle className="text-xl font-serif flex items-center gap-2 text-ink">
@@ -54,6 +97,19 @@ export function AddItemModal({
         </DialogHeader>
 
         <form onSubmit={handleSubmit} className="mt-4 space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="file" className="text-ink/80">
+              파일
+            </Label>
+            <Input
+              id="file"
+              type="file"
+              accept={acceptByType[itemType]}
+              onChange={handleFileChange}
+              className="bg-background"
+            />
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="name" className="text-ink/80">
               파일 이름
@@ -93,11 +149,11 @@ export function AddItemModal({
           </div>
 
           <div className="flex gap-3 pt-4">
-            <Button type="button" variant="outline" className="flex-1" onClick={onClose}>
+            <Button type="button" variant="outline" className="flex-1" onClick={handleClose} disabled={isSaving}>
               취소
             </Button>
-            <Button type="submit" className="flex-1" disabled={!name.trim()}>
-              추가
+            <Button type="submit" className="flex-1" disabled={!file || !name.trim() || isSaving}>
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : "추가"}
             </Button>
           </div>
         </form>
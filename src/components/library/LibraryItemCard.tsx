@@ -1,4 +1,4 @@
-import { Check, File, FileText, Globe, Image, Lock, Video } from "lucide-react";
+import { Check, File, FileText, Globe, Image, Link2, Loader2, Lock, Video } from "lucide-react";
 import { LibraryItem } from "@/types/library";
 import { cn } from "@/lib/utils";
 
@@ -15,6 +15,7 @@ interface LibraryItemCardProps {
   isSelected: boolean;
   onSelect: (id: string) => void;
   onOpen?: (item: LibraryItem) => void;
+  onShare?: (item: LibraryItem) => void;
 }
 
 export function LibraryItemCard({
@@ -23,6 +24,7 @@ export function LibraryItemCard({
   isSelected,
   onSelect,
   onOpen,
+  onShare,
 }: LibraryItemCardProps) {
   const IconComponent = iconMap[item.type];
 
@@ -80,7 +82,12 @@ export function LibraryItemCard({
           />
         ) : (
           <div className="w-full h-full flex items-center justify-center">
-            <IconComponent className="w-10 h-10 text-ink/30" />
+            {item.processingStatus === "pending" ? (
+              // 서버에서 썸네일을 만드는 중.
+              <Loader2 className="w-8 h-8 text-ink/30 animate-spin" />
+            ) : (
+              <IconComponent className="w-10 h-10 text-ink/30" />
+            )}
           </div>
         )}
 
@@ -104,6 +111,20 @@ export function LibraryItemCard({
             </>
           )}
         </div>
+
+        {!isSelectionMode && onShare && (
+          <button
+            type="button"
+            className="absolute bottom-3 right-3 p-2 rounded-full bg-background/80 text-ink/70 hover:text-gold transition-colors"
+            onClick={(event) => {
+              event.stopPropagation();
+              onShare(item);
+            }}
+            aria-label="공유 링크"
+          >
+            <Link2 className="w-4 h-4" />
+          </button>
+        )}
       </div>
 
       <div className="p-4 border-t border-ink/10 bg-background/10">
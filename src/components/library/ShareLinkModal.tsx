@@ -0,0 +1,233 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Copy, Globe, Link2, Loader2, Lock, Plus } from "lucide-react";
+import { LibraryItem } from "@/types/library";
+import type { LibraryShareLink } from "@/types/database";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/contexts/AuthContext";
+import { useLibraryContext } from "@/contexts/LibraryContext";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { cn } from "@/lib/utils";
+
+// 링크 만료 기간 선택지 (일 단위, 0은 만료 없음).
+const expiryOptions = [
+  { value: "0", label: "만료 없음" },
+  { value: "1", label: "1일" },
+  { value: "7", label: "7일" },
+  { value: "30", label: "30일" },
+];
+
+interface ShareLinkModalProps {
+  item: LibraryItem | null;
+  onClose: () => void;
+}
+
+const getShareUrl = (token: string) => `${window.location.origin}/s/${token}`;
+
+export function ShareLinkModal({ item: selectedItem, onClose }: ShareLinkModalProps) {
+  const { state } = useAuth();
+  const token = state.tokens?.idToken;
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { items, updateItemsVisibility } = useLibraryContext();
+  const [expiryDays, setExpiryDays] = useState("0");
+  const [isChangingVisibility, setIsChangingVisibility] = useState(false);
+
+  // 공개 상태가 바뀌면 목록에서 최신 항목을 사용.
+  const item = items.find((libraryItem) => libraryItem.id === selectedItem?.id) ?? selectedItem;
+  const queryKey = ["library-share-links", item?.id];
+  const isPublic = item?.visibility === "public";
+
+  const { data: links = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: () =>
+      apiRequest<LibraryShareLink[]>(`/api/library/items/${item!.id}/share-links`, { token: token! }),
+    enabled: !!token && !!item,
+  });
+
+  const showError = (title: string) => (error: Error) =>
+    toast({ title, description: error.message, variant: "destructive" });
+
+  const createMutation = useMutation({
+    mutationFn: () => {
+      const days = Number(expiryDays);
+      const expiresAt = days > 0 ? new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString() : undefined;
+      return apiRequest<LibraryShareLink>(`/api/library/items/${item!.id}/share-links`, {
+        token: token!,
+        method: "POST",
+        body: { expiresAt },
+      });
+    },
+    onSuccess: async (link) => {
+      queryClient.invalidateQueries({ queryKey });
+      await copyLink(link.token);
+    },
+    onError: showError("링크를 만들지 못했습니다"),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (linkId: number) =>
+      apiRequest<LibraryShareLink>(`/api/library/share-links/${linkId}`, { token: token!, method: "DELETE" }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: showError("링크를 해제하지 못했습니다"),
+  });
+
+  const handleVisibilityChange = async () => {
+    // 비공개로 바꾸면 서버에서 기존 링크가 모두 해제됨.
+    setIsChangingVisibility(true);
+    try {
+      await updateItemsVisibility([item!.id], isPublic ? "private" : "public");
+      queryClient.invalidateQueries({ queryKey });
+    } catch (error) {
+      showError("공개 상태를 바꾸지 못했습니다")(error as Error);
+    } finally {
+      setIsChangingVisibility(false);
+    }
+  };
+
+  const copyLink = async (shareToken: string) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(shareToken));
+      toast({ title: "링크를 복사했습니다" });
+    } catch {
+      toast({ title: "링크를 복사하지 못했습니다", description: getShareUrl(shareToken), variant: "destructive" });
+    }
+  };
+
+  const formatDate = (value: string | Date) =>
+    new Date(value).toLocaleString("ko-KR", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+
+  return (
+    <Dialog open={!!item} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg paper-texture border border-ink/10">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-serif flex items-center gap-2 text-ink">
+            <Link2 className="w-5 h-5 text-gold" />
+            공유 링크
+          </DialogTitle>
+          <DialogDescription className="text-ink/70 truncate">{item?.name}</DialogDescription>
+        </DialogHeader>
+
+        {isPublic ? (
+          <div className="flex items-end gap-3 mt-2">
+            <div className="flex-1 space-y-2">
+              <Label className="text-ink/80">만료</Label>
+              <Select value={expiryDays} onValueChange={setExpiryDays}>
+                <SelectTrigger className="bg-background">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-popover border-ink/10">
+                  {expiryOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={() => createMutation.mutate()} disabled={createMutation.isPending}>
+              {createMutation.isPending ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <>
+                  <Plus className="w-4 h-4 mr-1" />
+                  링크 만들기
+                </>
+              )}
+            </Button>
+          </div>
+        ) : (
+          <p className="flex items-center gap-2 text-sm font-serif text-ink/70 mt-2">
+            <Lock className="w-4 h-4" />
+            공개(Public) 항목만 공유할 수 있습니다.
+          </p>
+        )}
+
+        <Button
+          type="button"
+          variant="outline"
+          className="mt-2"
+          onClick={handleVisibilityChange}
+          disabled={isChangingVisibility}
+        >
+          {isChangingVisibility ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : isPublic ? (
+            <>
+              <Lock className="w-4 h-4 mr-2" />
+              비공개로 전환 (기존 링크 해제)
+            </>
+          ) : (
+            <>
+              <Globe className="w-4 h-4 mr-2" />
+              공개로 전환
+            </>
+          )}
+        </Button>
+
+        <div className="mt-4 space-y-2 max-h-64 overflow-y-auto">
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="w-5 h-5 animate-spin text-gold" />
+            </div>
+          ) : links.length === 0 ? (
+            <p className="font-handwriting text-sm text-ink/60">아직 만든 링크가 없습니다.</p>
+          ) : (
+            links.map((link) => (
+              <div
+                key={link.id}
+                className={cn(
+                  "flex items-center gap-3 rounded-md border border-ink/10 px-3 py-2",
+                  !link.active && "opacity-60"
+                )}
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-serif text-ink truncate">{getShareUrl(link.token)}</p>
+                  <p className="text-xs text-ink/50">
+                    {link.revokedAt
+                      ? `해제됨 · ${formatDate(link.revokedAt)}`
+                      : link.expiresAt
+                        ? `${link.active ? "만료 예정" : "만료됨"} · ${formatDate(link.expiresAt)}`
+                        : "만료 없음"}
+                  </p>
+                </div>
+                {link.active && (
+                  <>
+                    <Button type="button" variant="ghost" size="icon" onClick={() => copyLink(link.token)}>
+                      <Copy className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => revokeMutation.mutate(link.id)}
+                      disabled={revokeMutation.isPending}
+                    >
+                      해제
+                    </Button>
+                  </>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,94 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Download, Loader2, PackageOpen } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { useUserApi } from "@/hooks/useUserApi";
+import type { UserExport } from "@/types/database";
+
+// 개인 데이터 내보내기 요청과 다운로드. 준비 중에는 상태를 주기적으로 다시 조회.
+export function DataExportCard() {
+  const { t, i18n } = useTranslation();
+  const { state } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const userApi = useUserApi();
+  const token = state.tokens?.idToken;
+  const queryKey = ["user-export", state.user?.sub];
+
+  const { data: latestExport } = useQuery({
+    queryKey,
+    queryFn: userApi.getLatestExport,
+    enabled: !!token,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === "pending" || status === "processing" ? 3000 : false;
+    },
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: userApi.requestExport,
+    onSuccess: (userExport) => queryClient.setQueryData(queryKey, userExport),
+    onError: () => toast({ title: t("settings.dataExport.requestFailed"), variant: "destructive" }),
+  });
+
+  const downloadMutation = useMutation({
+    mutationFn: (userExport: UserExport) =>
+      userApi.downloadExport(
+        userExport.exportId,
+        `export-${new Date(userExport.createdAt).toISOString().slice(0, 10)}.zip`
+      ),
+    onError: () => toast({ title: t("settings.dataExport.downloadFailed"), variant: "destructive" }),
+  });
+
+  const isPreparing = latestExport?.status === "pending" || latestExport?.status === "processing";
+  const isReady = latestExport?.status === "completed";
+
+  return (
+    <div className="paper-texture rounded-lg shadow-book mt-6 p-5 pl-6 flex items-center gap-4 animate-fade-in">
+      <div className="w-10 h-10 rounded-full bg-secondary/60 flex items-center justify-center">
+        <PackageOpen className="w-5 h-5 text-ink/70" />
+      </div>
+
+      <div className="flex-1 min-w-0">
+        <h3 className="font-serif font-semibold text-ink">{t("settings.dataExport.label")}</h3>
+        <p className="font-handwriting text-sm text-ink/70">
+          {isPreparing && t("settings.dataExport.preparing")}
+          {isReady &&
+            latestExport.expiresAt &&
+            t("settings.dataExport.expiresAt", {
+              date: new Date(latestExport.expiresAt).toLocaleDateString(i18n.language),
+            })}
+          {latestExport?.status === "failed" && t("settings.dataExport.failed")}
+          {(!latestExport || latestExport.status === "expired") && t("settings.dataExport.description")}
+        </p>
+      </div>
+
+      {isPreparing ? (
+        <Loader2 className="w-5 h-5 animate-spin text-gold" />
+      ) : (
+        <div className="flex gap-2 shrink-0">
+          {isReady && (
+            <button
+              type="button"
+              onClick={() => downloadMutation.mutate(latestExport)}
+              disabled={downloadMutation.isPending}
+              className="vintage-btn px-4 py-2 rounded-md font-serif text-sm text-sepia hover:text-gold transition-colors inline-flex items-center gap-2 disabled:opacity-60"
+            >
+              <Download className="w-4 h-4" />
+              {t("settings.dataExport.download")}
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => requestMutation.mutate()}
+            disabled={requestMutation.isPending}
+            className="px-4 py-2 rounded-md border border-ink/20 font-serif text-sm text-ink hover:bg-secondary/40 transition-colors disabled:opacity-60"
+          >
+            {t("settings.dataExport.request")}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import { useRef, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { FileUp, Loader2 } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { cn } from "@/lib/utils";
+import type { JournalImportPreview, JournalImportResult } from "@/types/database";
+
+const toFormData = (files: File[]) => {
+  const formData = new FormData();
+  files.forEach((file) => formData.append("files", file));
+  return formData;
+};
+
+// 다른 일기 앱의 파일을 미리 확인한 뒤 기록으로 가져오는 카드.
+export function JournalImportCard() {
+  const { t } = useTranslation();
+  const { state } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const token = state.tokens?.idToken;
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  const [preview, setPreview] = useState<JournalImportPreview | null>(null);
+
+  const reset = () => {
+    setFiles([]);
+    setPreview(null);
+    if (inputRef.current) inputRef.current.value = "";
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: (selected: File[]) =>
+      apiRequest<JournalImportPreview>("/api/journal/import/preview", {
+        token: token!,
+        method: "POST",
+        body: toFormData(selected),
+      }),
+    onSuccess: setPreview,
+    onError: (error: Error) => {
+      reset();
+      toast({ title: t("settings.journalImport.failed"), description: error.message, variant: "destructive" });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: () =>
+      apiRequest<JournalImportResult>("/api/journal/import", {
+        token: token!,
+        method: "POST",
+        body: toFormData(files),
+      }),
+    onSuccess: (result) => {
+      reset();
+      ["journal-chapters", "journal-insights", "journal-streak", "achievements"].forEach((key) =>
+        queryClient.invalidateQueries({ queryKey: [key] })
+      );
+      toast({ title: t("settings.journalImport.done", { count: result.importedEntries }) });
+    },
+    onError: (error: Error) =>
+      toast({ title: t("settings.journalImport.failed"), description: error.message, variant: "destructive" }),
+  });
+
+  const handleSelect = (selected: File[]) => {
+    if (selected.length === 0) return;
+    setFiles(selected);
+    setPreview(null);
+    previewMutation.mutate(selected);
+  };
+
+  return (
+    <div className="paper-texture rounded-lg shadow-book mt-6 p-5 pl-6 animate-fade-in">
+      <div className="flex items-center gap-4">
+        <div className="w-10 h-10 rounded-full bg-secondary/60 flex items-center justify-center">
+          <FileUp className="w-5 h-5 text-ink/70" />
+        </div>
+
+        <div className="flex-1 min-w-0">
+          <h3 className="font-serif font-semibold text-ink">{t("settings.journalImport.label")}</h3>
+          <p className="font-handwriting text-sm text-ink/70">
+            {previewMutation.isPending ? t("settings.journalImport.checking") : t("settings.journalImport.description")}
+          </p>
+        </div>
+
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept=".md,.markdown,.txt,.json"
+          className="hidden"
+          onChange={(event) => handleSelect(Array.from(event.target.files ?? []))}
+        />
+        {previewMutation.isPending ? (
+          <Loader2 className="w-5 h-5 animate-spin text-gold" />
+        ) : (
+          <button
+            type="button"
+            onClick={() => inputRef.current?.click()}
+            disabled={importMutation.isPending}
+            className="shrink-0 px-4 py-2 rounded-md border border-ink/20 font-serif text-sm text-ink hover:bg-secondary/40 transition-colors disabled:opacity-60"
+          >
+            {t("settings.journalImport.choose")}
+          </button>
+        )}
+      </div>
+
+      {preview && (
+        <div className="mt-4 border-t border-ink/10 pt-4 space-y-3">
+          <p className="font-serif text-sm text-ink">
+            {preview.newEntries > 0
+              ? t("settings.journalImport.summary", {
+                  count: preview.newEntries,
+                  total: preview.totalEntries,
+                  days: preview.dates.length,
+                })
+              : t("settings.journalImport.nothingNew")}
+          </p>
+          {preview.duplicateEntries > 0 && (
+            <p className="font-handwriting text-sm text-ink/60">
+              {t("settings.journalImport.duplicates", { count: preview.duplicateEntries })}
+            </p>
+          )}
+          {preview.warnings.length > 0 && (
+            <ul className="text-xs text-amber-700 space-y-1">
+              {preview.warnings.map((warning) => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+          )}
+
+          <ul className="max-h-48 overflow-y-auto rounded-md border border-ink/10 divide-y divide-ink/10">
+            {preview.entries.map((entry, index) => (
+              <li
+                key={`${entry.source}-${index}`}
+                className={cn("flex gap-3 px-3 py-2 text-sm", entry.duplicate && "opacity-50 line-through")}
+              >
+                <span className="shrink-0 font-serif text-ink/70">{entry.entryDate}</span>
+                <span className="truncate text-ink">{entry.excerpt}</span>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={reset}
+              disabled={importMutation.isPending}
+              className="px-4 py-2 rounded-md border border-ink/20 font-serif text-sm text-ink hover:bg-secondary/40 transition-colors disabled:opacity-60"
+            >
+              {t("settings.journalImport.cancel")}
+            </button>
+            <button
+              type="button"
+              onClick={() => importMutation.mutate()}
+              disabled={preview.newEntries === 0 || importMutation.isPending}
+              className="vintage-btn px-4 py-2 rounded-md font-serif text-sm text-sepia hover:text-gold transition-colors inline-flex items-center gap-2 disabled:opacity-60"
+            >
+              {importMutation.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+              {t("settings.journalImport.confirm")}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { BellRing, Loader2 } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { useUserApi } from "@/hooks/useUserApi";
+import { useUserSettings } from "@/hooks/useUserSettings";
+import { getPushSubscription, isPushSupported, subscribePush, unsubscribePush } from "@/lib/pushNotifications";
+import { DEFAULT_USER_SETTINGS } from "@/lib/userSettings";
+import { cn } from "@/lib/utils";
+import type { NotificationType } from "@/types/database";
+
+const notificationTypes: NotificationType[] = [
+  "inquiry_answered",
+  "report_resolved",
+  "writing_reminder",
+  "achievement_unlocked",
+];
+
+function Toggle({ checked, disabled }: { checked: boolean; disabled?: boolean }) {
+  return (
+    <div
+      className={cn(
+        "w-10 h-6 rounded-full transition-colors relative shrink-0",
+        checked ? "bg-gold" : "bg-secondary",
+        disabled && "opacity-50"
+      )}
+    >
+      <div
+        className={cn(
+          "absolute top-1 w-4 h-4 rounded-full bg-aged-paper shadow-sm transition-transform",
+          checked ? "left-5" : "left-1"
+        )}
+      />
+    </div>
+  );
+}
+
+// 알림 종류별 수신 여부와 이 브라우저의 푸시 알림을 설정하는 카드.
+export function NotificationPreferencesCard() {
+  const { t } = useTranslation();
+  const { state } = useAuth();
+  const { toast } = useToast();
+  const userApi = useUserApi();
+  const token = state.tokens?.idToken;
+  const { settings, updateSettings } = useUserSettings();
+  const current = settings ?? DEFAULT_USER_SETTINGS;
+  const [pushEnabled, setPushEnabled] = useState(false);
+
+  const { data: pushKey } = useQuery({
+    queryKey: ["push-key"],
+    queryFn: userApi.getPushPublicKey,
+    enabled: !!token && isPushSupported(),
+    staleTime: Infinity,
+  });
+
+  useEffect(() => {
+    if (!isPushSupported()) return;
+    getPushSubscription().then((subscription) => setPushEnabled(!!subscription));
+  }, []);
+
+  const pushMutation = useMutation({
+    mutationFn: async (enable: boolean) => {
+      if (enable) {
+        const subscription = await subscribePush(pushKey!.publicKey!);
+        await userApi.savePushSubscription(subscription);
+      } else {
+        const endpoint = await unsubscribePush();
+        if (endpoint) {
+          await userApi.deletePushSubscription({ endpoint });
+        }
+      }
+      return enable;
+    },
+    onSuccess: setPushEnabled,
+    onError: (error: Error) =>
+      toast({ title: t("settings.notifications.push.failed"), description: error.message, variant: "destructive" }),
+  });
+
+  const toggleType = (type: NotificationType) => {
+    const optOuts = current.notificationOptOuts.includes(type)
+      ? current.notificationOptOuts.filter((optOut) => optOut !== type)
+      : [...current.notificationOptOuts, type];
+
+    updateSettings(
+      { notificationOptOuts: optOuts },
+      {
+        onError: (error: Error) =>
+          toast({ title: t("settings.saveFailed"), description: error.message, variant: "destructive" }),
+      }
+    );
+  };
+
+  const disabled = !current.notificationsEnabled;
+
+  return (
+    <div className="paper-texture rounded-lg shadow-book mt-6 p-5 pl-6 animate-fade-in">
+      <div className="flex items-center gap-4">
+        <div className="w-10 h-10 rounded-full bg-secondary/60 flex items-center justify-center">
+          <BellRing className="w-5 h-5 text-ink/70" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <h3 className="font-serif font-semibold text-ink">{t("settings.notifications.types.label")}</h3>
+          <p className="font-handwriting text-sm text-ink/70">
+            {disabled ? t("settings.notifications.types.disabled") : t("settings.notifications.types.description")}
+          </p>
+        </div>
+      </div>
+
+      <ul className="mt-4 border-t border-ink/10 pt-2 divide-y divide-ink/10">
+        {notificationTypes.map((type) => (
+          <li key={type}>
+            <button
+              type="button"
+              disabled={disabled}
+              onClick={() => toggleType(type)}
+              className="w-full flex items-center justify-between gap-4 py-3 text-left disabled:cursor-not-allowed"
+            >
+              <span className={cn("font-serif text-sm text-ink", disabled && "opacity-50")}>
+                {t(`settings.notifications.types.${type}`)}
+              </span>
+              <Toggle checked={!current.notificationOptOuts.includes(type)} disabled={disabled} />
+            </button>
+          </li>
+        ))}
+
+        {pushKey?.publicKey && (
+          <li>
+            <button
+              type="button"
+              disabled={disabled || pushMutation.isPending}
+              onClick={() => pushMutation.mutate(!pushEnabled)}
+              className="w-full flex items-center justify-between gap-4 py-3 text-left disabled:cursor-not-allowed"
+            >
+              <span className={cn("min-w-0", disabled && "opacity-50")}>
+                <span className="block font-serif text-sm text-ink">{t("settings.notifications.push.label")}</span>
+                <span className="block font-handwriting text-xs text-ink/60">
+                  {t("settings.notifications.push.description")}
+                </span>
+              </span>
+              {pushMutation.isPending ? (
+                <Loader2 className="w-5 h-5 animate-spin text-gold" />
+              ) : (
+                <Toggle checked={pushEnabled} disabled={disabled} />
+              )}
+            </button>
+          </li>
+        )}
+      </ul>
+    </div>
+  );
+}
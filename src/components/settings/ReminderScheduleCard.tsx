@@ -0,0 +1,148 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { AlarmClock, Loader2 } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { useUserApi } from "@/hooks/useUserApi";
+import { cn } from "@/lib/utils";
+import type { SaveReminderScheduleData } from "@/types/database";
+
+const weekdays = [0, 1, 2, 3, 4, 5, 6];
+
+const defaultSchedule = (): SaveReminderScheduleData => ({
+  enabled: false,
+  time: "21:00",
+  weekdays,
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+});
+
+// 매일 기록 알림을 받을 시간과 요일을 정하는 카드.
+export function ReminderScheduleCard() {
+  const { t } = useTranslation();
+  const { state } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const userApi = useUserApi();
+  const token = state.tokens?.idToken;
+  const queryKey = ["reminder-schedule", state.user?.sub];
+  const [draft, setDraft] = useState<SaveReminderScheduleData>(defaultSchedule);
+
+  const { data: schedule, isLoading } = useQuery({
+    queryKey,
+    queryFn: userApi.getReminderSchedule,
+    enabled: !!token,
+  });
+
+  useEffect(() => {
+    if (schedule) {
+      setDraft({
+        enabled: schedule.enabled,
+        time: schedule.time,
+        weekdays: schedule.weekdays,
+        timezone: schedule.timezone,
+      });
+    }
+  }, [schedule]);
+
+  const saveMutation = useMutation({
+    mutationFn: (data: SaveReminderScheduleData) => userApi.saveReminderSchedule(data),
+    onSuccess: (saved) => {
+      queryClient.setQueryData(queryKey, saved);
+      toast({ title: t("settings.reminder.saved") });
+    },
+    onError: (error: Error) =>
+      toast({ title: t("settings.saveFailed"), description: error.message, variant: "destructive" }),
+  });
+
+  const toggleWeekday = (day: number) =>
+    setDraft((prev) => ({
+      ...prev,
+      weekdays: prev.weekdays.includes(day)
+        ? prev.weekdays.filter((weekday) => weekday !== day)
+        : [...prev.weekdays, day].sort((a, b) => a - b),
+    }));
+
+  return (
+    <div className="paper-texture rounded-lg shadow-book mt-6 p-5 pl-6 animate-fade-in">
+      <div className="flex items-center gap-4">
+        <div className="w-10 h-10 rounded-full bg-secondary/60 flex items-center justify-center">
+          <AlarmClock className="w-5 h-5 text-ink/70" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <h3 className="font-serif font-semibold text-ink">{t("settings.reminder.label")}</h3>
+          <p className="font-handwriting text-sm text-ink/70">{t("settings.reminder.description")}</p>
+        </div>
+        {isLoading ? (
+          <Loader2 className="w-5 h-5 animate-spin text-gold" />
+        ) : (
+          <button
+            type="button"
+            onClick={() => setDraft((prev) => ({ ...prev, enabled: !prev.enabled }))}
+            aria-label={t("settings.reminder.label")}
+            className={cn(
+              "w-12 h-7 rounded-full transition-colors relative shrink-0",
+              draft.enabled ? "bg-gold" : "bg-secondary"
+            )}
+          >
+            <div
+              className={cn(
+                "absolute top-1 w-5 h-5 rounded-full bg-aged-paper shadow-sm transition-transform",
+                draft.enabled ? "left-6" : "left-1"
+              )}
+            />
+          </button>
+        )}
+      </div>
+
+      {draft.enabled && (
+        <div className="mt-4 border-t border-ink/10 pt-4 space-y-4">
+          <label className="flex items-center justify-between gap-4">
+            <span className="font-serif text-sm text-ink">{t("settings.reminder.time")}</span>
+            <input
+              type="time"
+              value={draft.time}
+              onChange={(event) => setDraft((prev) => ({ ...prev, time: event.target.value }))}
+              className="rounded-md border border-ink/20 bg-transparent px-3 py-1.5 font-serif text-sm text-ink"
+            />
+          </label>
+
+          <div className="flex items-center justify-between gap-4">
+            <span className="font-serif text-sm text-ink">{t("settings.reminder.weekdays")}</span>
+            <div className="flex gap-1">
+              {weekdays.map((day) => (
+                <button
+                  key={day}
+                  type="button"
+                  onClick={() => toggleWeekday(day)}
+                  className={cn(
+                    "w-8 h-8 rounded-full font-serif text-xs transition-colors",
+                    draft.weekdays.includes(day) ? "bg-gold text-background" : "bg-secondary/60 text-ink/70"
+                  )}
+                >
+                  {t(`settings.reminder.days.${day}`)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <p className="font-handwriting text-xs text-ink/60">
+            {t("settings.reminder.timezone", { timezone: draft.timezone })}
+          </p>
+        </div>
+      )}
+
+      <div className="mt-4 flex justify-end">
+        <button
+          type="button"
+          onClick={() => saveMutation.mutate(draft)}
+          disabled={saveMutation.isPending || draft.weekdays.length === 0}
+          className="vintage-btn px-4 py-2 rounded-md font-serif text-sm text-sepia hover:text-gold transition-colors inline-flex items-center gap-2 disabled:opacity-60"
+        >
+          {saveMutation.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+          {t("settings.reminder.save")}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { createContext, useContext, useReducer, useEffect } from 'react';
+import React, { createContext, useContext, useReducer, useEffect, useRef } from 'react';
 import { getCognitoService } from '../services/cognitoService';
 import type { AuthResult, CognitoUserInfo } from '../services/cognitoService';
 
@@ -35,6 +35,7 @@ interface AuthContextValue {
   forgotPassword: (email: string) => Promise<void>;
   confirmPassword: (email: string, code: string, newPassword: string) => Promise<void>;
   resendCode: (email: string) => Promise<void>;
+  refreshTokens: () => Promise<string | null>;
 }
 
 // 초기 상태
@@ -108,6 +109,7 @@ const AuthContext = createContext<AuthContextValue | undefined>(undefined);
 // Provider 컴포넌트
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [state, dispatch] = useReducer(authReducer, initialState);
+  const refreshPromiseRef = useRef<Promise<string | null> | null>(null);
   
   // Cognito Service 초기화 (에러 처리 포함)
   let cognitoService: any = null;
@@ -412,6 +414,33 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  // 토큰 즉시 갱신 (API가 토큰을 거부했을 때 사용)
+  // 동시에 401을 받은 요청들은 같은 갱신을 기다리며, 실패하면 로그아웃 후 null 반환
+  const refreshTokens = (): Promise<string | null> => {
+    if (!cognitoService) {
+      return Promise.resolve(null);
+    }
+
+    if (!refreshPromiseRef.current) {
+      refreshPromiseRef.current = (async () => {
+        try {
+          const refreshedSession: AuthResult = await cognitoService.refreshSession();
+          saveTokensToStorage(refreshedSession);
+          dispatch({ type: 'AUTH_REFRESH', payload: refreshedSession });
+          return refreshedSession.idToken;
+        } catch (error) {
+          console.error('토큰 갱신 실패:', error);
+          await signOut();
+          return null;
+        } finally {
+          refreshPromiseRef.current = null;
+        }
+      })();
+    }
+
+    return refreshPromiseRef.current;
+  };
+
   const value: AuthContextValue = {
     state,
     signUp,
@@ -423,6 +452,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     forgotPassword,
     confirmPassword,
     resendCode,
+    refreshTokens,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
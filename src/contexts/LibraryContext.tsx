@@ -1,21 +1,109 @@
-import { createContext, useCallback, useContext, useMemo, useState } from "react";
+import { createContext, useCallback, useContext, useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { LibraryItem, LibraryItemType, LibraryItemVisibility } from "@/types/library";
-import { initialMockItems } from "@/data/libraryMockData";
+import type { LibraryItemData } from "@/types/database";
+import { useAuth } from "@/contexts/AuthContext";
+import { API_BASE_URL, apiRequest } from "@/lib/api";
+
+interface NewLibraryItem {
+  file: File;
+  name: string;
+  type: LibraryItemType;
+  visibility: LibraryItemVisibility;
+}
 
 interface LibraryContextType {
   items: LibraryItem[];
+  isLoading: boolean;
   getItemsByType: (type: LibraryItemType) => LibraryItem[];
   getLatestItemByType: (type: LibraryItemType) => LibraryItem | null;
   getItemCountByType: (type: LibraryItemType) => number;
-  updateItemsVisibility: (itemIds: string[], visibility: LibraryItemVisibility) => void;
-  deleteItems: (itemIds: string[]) => void;
-  addItem: (item: Omit<LibraryItem, "id" | "createdAt">) => void;
+  updateItemsVisibility: (itemIds: string[], visibility: LibraryItemVisibility) => Promise<void>;
+  deleteItems: (itemIds: string[]) => Promise<void>;
+  addItem: (item: NewLibraryItem) => Promise<void>;
 }
 
 const LibraryContext = createContext<LibraryContextType | undefined>(undefined);
 
+const LIBRARY_ITEMS_QUERY_KEY = ["library-items"];
+
+/**
+ * 서버 응답을 화면에서 쓰는 형태로 변환 (상대 URL은 API 서버 기준으로).
+ */
+const toLibraryItem = (item: LibraryItemData): LibraryItem => {
+  const resolveUrl = (url: string | null) => (url?.startsWith("/") ? `${API_BASE_URL}${url}` : url ?? undefined);
+
+  return {
+    id: item.id,
+    name: item.name,
+    type: item.type,
+    visibility: item.visibility,
+    thumbnail: resolveUrl(item.thumbnail),
+    preview: item.preview ?? undefined,
+    createdAt: new Date(item.createdAt),
+    size: item.size,
+    mimeType: item.mimeType,
+    contentUrl: resolveUrl(item.contentUrl),
+    previewUrl: resolveUrl(item.previewUrl),
+    width: item.width ?? undefined,
+    height: item.height ?? undefined,
+    processingStatus: item.processingStatus,
+  };
+};
+
 export function LibraryProvider({ children }: { children: React.ReactNode }) {
-  const [items, setItems] = useState<LibraryItem[]>(initialMockItems);
+  const { state } = useAuth();
+  const token = state.tokens?.idToken;
+  const queryClient = useQueryClient();
+
+  const { data: items = [], isLoading } = useQuery({
+    queryKey: LIBRARY_ITEMS_QUERY_KEY,
+    queryFn: async () => {
+      const data = await apiRequest<LibraryItemData[]>("/api/library/items", { token: token! });
+      return data.map(toLibraryItem);
+    },
+    enabled: !!token,
+    // 썸네일 생성 중인 항목이 있으면 완료될 때까지 주기적으로 갱신.
+    refetchInterval: (query) =>
+      query.state.data?.some((item) => item.processingStatus === "pending") ? 3000 : false,
+  });
+
+  const invalidateItems = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: LIBRARY_ITEMS_QUERY_KEY }),
+    [queryClient]
+  );
+
+  const addMutation = useMutation({
+    mutationFn: ({ file, name, type, visibility }: NewLibraryItem) => {
+      const body = new FormData();
+      body.append("file", file);
+      body.append("name", name);
+      body.append("type", type);
+      body.append("visibility", visibility);
+      return apiRequest<LibraryItemData>("/api/library/items", { token: token!, method: "POST", body });
+    },
+    onSuccess: invalidateItems,
+  });
+
+  const visibilityMutation = useMutation({
+    mutationFn: ({ itemIds, visibility }: { itemIds: string[]; visibility: LibraryItemVisibility }) =>
+      apiRequest<LibraryItemData[]>("/api/library/items/visibility", {
+        token: token!,
+        method: "PATCH",
+        body: { itemIds, visibility },
+      }),
+    onSuccess: invalidateItems,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (itemIds: string[]) =>
+      apiRequest<{ deletedIds: string[] }>("/api/library/items", {
+        token: token!,
+        method: "DELETE",
+        body: { itemIds },
+      }),
+    onSuccess: invalidateItems,
+  });
 
   const getItemsByType = useCallback(
     (type: LibraryItemType) =>
@@ -38,33 +126,36 @@ export function LibraryProvider({ children }: { children: React.ReactNode }) {
     [items]
   );
 
+  const { mutateAsync: updateVisibilityAsync } = visibilityMutation;
   const updateItemsVisibility = useCallback(
-    (itemIds: string[], visibility: LibraryItemVisibility) => {
+    async (itemIds: string[], visibility: LibraryItemVisibility) => {
       // 여러 항목을 한 번에 공개 상태 변경.
-      setItems((prev) =>
-        prev.map((item) => (itemIds.includes(item.id) ? { ...item, visibility } : item))
-      );
+      await updateVisibilityAsync({ itemIds, visibility });
     },
-    []
+    [updateVisibilityAsync]
   );
 
-  const deleteItems = useCallback((itemIds: string[]) => {
-    // 선택된 항목만 제거.
-    setItems((prev) => prev.filter((item) => !itemIds.includes(item.id)));
-  }, []);
+  const { mutateAsync: deleteAsync } = deleteMutation;
+  const deleteItems = useCallback(
+    async (itemIds: string[]) => {
+      // 선택된 항목만 제거.
+      await deleteAsync(itemIds);
+    },
+    [deleteAsync]
+  );
 
-  const addItem = useCallback((item: Omit<LibraryItem, "id" | "createdAt">) => {
-    const newItem: LibraryItem = {
-      ...item,
-      id: `${item.type}-${Date.now()}`,
-      createdAt: new Date(),
-    };
-    setItems((prev) => [newItem, ...prev]);
-  }, []);
+  const { mutateAsync: addAsync } = addMutation;
+  const addItem = useCallback(
+    async (item: NewLibraryItem) => {
+      await addAsync(item);
+    },
+    [addAsync]
+  );
 
   const value = useMemo(
     () => ({
       items,
+      isLoading,
       getItemsByType,
       getLatestItemByType,
       getItemCountByType,
@@ -74,6 +165,7 @@ export function LibraryProvider({ children }: { children: React.ReactNode }) {
     }),
     [
       items,
+      isLoading,
       getItemsByType,
       getLatestItemByType,
       getItemCountByType,
@@ -92,4 +184,4 @@ export function useLibraryContext() {
     throw new Error("useLibraryContext must be used within a LibraryProvider");
   }
   return context;
-}
\ No newline at end of file
+}
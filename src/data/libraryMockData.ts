@@ -1,4 +1,4 @@
-import { LibraryItem, LibraryTypeConfig } from "@/types/library";
+import { LibraryTypeConfig } from "@/types/library";
 
 export const libraryTypeConfigs: LibraryTypeConfig[] = [
   {
@@ -30,113 +30,3 @@ export const libraryTypeConfigs: LibraryTypeConfig[] = [
     route: "/library/video",
   },
 ];
-
-export const initialMockItems: LibraryItem[] = [
-  {
-    id: "img-1",
-    name: "휴가 사진.jpg",
-    type: "image",
-    visibility: "public",
-    thumbnail: "https://images.unsplash.com/photo-1506905925346-21bda4d32df4?w=800&h=600&fit=crop",
-    createdAt: new Date("2024-12-20"),
-    size: 2400000,
-  },
-  {
-    id: "img-2",
-    name: "가족 사진.png",
-    type: "image",
-    visibility: "private",
-    thumbnail: "https://images.unsplash.com/photo-1511895426328-dc8714191300?w=800&h=600&fit=crop",
-    createdAt: new Date("2024-12-18"),
-    size: 1800000,
-  },
-  {
-    id: "img-3",
-    name: "풍경 사진.jpg",
-    type: "image",
-    visibility: "public",
-    thumbnail: "https://images.unsplash.com/photo-1470071459604-3b5ec3a7fe05?w=800&h=600&fit=crop",
-    createdAt: new Date("2024-12-15"),
-    size: 3200000,
-  },
-  {
-    id: "img-4",
-    name: "테스트 사진 1.jpg",
-    type: "image",
-    visibility: "public",
-    thumbnail: "/1.jpg",
-    createdAt: new Date("2024-12-24"),
-    size: 2100000,
-  },
-  {
-    id: "img-5",
-    name: "테스트 사진 2.jpg",
-    type: "image",
-    visibility: "private",
-    thumbnail: "/2.jpg",
-    createdAt: new Date("2024-12-23"),
-    size: 1900000,
-  },
-  {
-    id: "img-6",
-    name: "테스트 사진 3.jpg",
-    type: "image",
-    visibility: "public",
-    thumbnail: "/3.jpg",
-    createdAt: new Date("2024-12-22"),
-    size: 2000000,
-  },
-  {
-    id: "img-7",
-    name: "테스트 사진 4.png",
-    type: "image",
-    visibility: "private",
-    thumbnail: "/4.png",
-    createdAt: new Date("2024-12-21"),
-    size: 2300000,
-  },
-  {
-    id: "doc-1",
-    name: "프로젝트 계획서.pdf",
-    type: "document",
-    visibility: "public",
-    preview: "프로젝트 범위와 목표를 정리했습니다.\n예산과 일정은 다음 주 회의에서 확정합니다.",
-    createdAt: new Date("2024-12-22"),
-    size: 1200000,
-  },
-  {
-    id: "doc-2",
-    name: "회의록.docx",
-    type: "document",
-    visibility: "private",
-    preview: "주요 논의 사항: 일정 조정.\n다음 액션 아이템: 담당자 지정.",
-    createdAt: new Date("2024-12-19"),
-    size: 450000,
-  },
-  {
-    id: "file-1",
-    name: "데이터.zip",
-    type: "file",
-    visibility: "private",
-    createdAt: new Date("2024-12-21"),
-    size: 45000000,
-  },
-  {
-    id: "vid-1",
-    name: "발표 영상.mp4",
-    type: "video",
-    visibility: "public",
-    thumbnail: "https://images.unsplash.com/photo-1485846234645-a62644f84728?w=800&h=600&fit=crop",
-    createdAt: new Date("2024-12-23"),
-    size: 250000000,
-  },
-  {
-    id: "vid-2",
-    name: "튜토리얼.mov",
-    type: "video",
-    visibility: "private",
-    thumbnail: "https://images.unsplash.com/photo-1536240478700-b869070f9279?w=800&h=600&fit=crop",
-    createdAt: new Date("2024-12-16"),
-    size: 180000000,
-  },
-];
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { useMutation } from '@tanstack/react-query';
+import { useUserApi } from './useUserApi';
+import type { CreateReportInput } from '../schemas/user';
+
+/**
+ * 비밀번호 재설정 코드 요청 (코드는 이메일로 전송됨)
+ */
+export const useRequestPasswordReset = () => {
+  const userApi = useUserApi();
+
+  return useMutation({
+    mutationFn: (email: string) => userApi.requestPasswordReset({ email }),
+  });
+};
+
+/**
+ * 이메일로 받은 코드로 새 비밀번호 설정
+ */
+export const useConfirmPasswordReset = () => {
+  const userApi = useUserApi();
+
+  return useMutation({
+    mutationFn: (data: { email: string; code: string; newPassword: string }) => userApi.confirmPasswordReset(data),
+  });
+};
+
+/**
+ * 회원 탈퇴 (유예 기간 동안은 다시 로그인해 복구 가능)
+ *
+ * - 비밀번호로 가입한 사용자는 비밀번호 확인이 필요하며, 소셜 로그인 사용자는 생략
+ */
+export const useDeleteAccount = () => {
+  const userApi = useUserApi();
+
+  return useMutation({
+    mutationFn: (password?: string) => userApi.deleteAccount({ password }),
+  });
+};
+
+/**
+ * 회원 신고
+ */
+export const useCreateReport = () => {
+  const userApi = useUserApi();
+
+  return useMutation({
+    mutationFn: (report: CreateReportInput) => userApi.createReport(report),
+  });
+};
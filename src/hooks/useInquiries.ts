@@ -0,0 +1,64 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '../contexts/AuthContext';
+import { useUserApi } from './useUserApi';
+import type { CreateInquiryInput } from '../schemas/user';
+
+const INQUIRIES_QUERY_KEY = ['user-inquiries'];
+const inquiryQueryKey = (inquiryId: number) => ['user-inquiry', inquiryId];
+
+/**
+ * 로그인한 사용자의 문의 내역 (최근 문의가 먼저)
+ */
+export const useInquiries = () => {
+  const { state } = useAuth();
+  const userApi = useUserApi();
+
+  return useQuery({
+    queryKey: INQUIRIES_QUERY_KEY,
+    queryFn: userApi.getInquiries,
+    enabled: !!state.tokens?.idToken,
+  });
+};
+
+/**
+ * 문의 하나와 답변, 추가 문의로 이어진 대화
+ */
+export const useInquiry = (inquiryId: number) => {
+  const { state } = useAuth();
+  const userApi = useUserApi();
+
+  return useQuery({
+    queryKey: inquiryQueryKey(inquiryId),
+    queryFn: () => userApi.getInquiry(inquiryId),
+    enabled: !!state.tokens?.idToken,
+  });
+};
+
+/**
+ * 새 문의 접수 (성공하면 문의 내역을 다시 조회)
+ */
+export const useCreateInquiry = () => {
+  const userApi = useUserApi();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (inquiry: CreateInquiryInput) => userApi.createInquiry(inquiry),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: INQUIRIES_QUERY_KEY }),
+  });
+};
+
+/**
+ * 답변에 이어서 추가 문의 (문의는 다시 답변 대기 상태가 됨)
+ */
+export const useReplyToInquiry = (inquiryId: number) => {
+  const userApi = useUserApi();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (message: string) => userApi.replyToInquiry(inquiryId, { message }),
+    onSuccess: (thread) => {
+      queryClient.setQueryData(inquiryQueryKey(inquiryId), thread);
+      queryClient.invalidateQueries({ queryKey: INQUIRIES_QUERY_KEY });
+    },
+  });
+};
@@ -0,0 +1,44 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '../contexts/AuthContext';
+import { useUserApi } from './useUserApi';
+
+/**
+ * 알림함 (최근 알림과 읽지 않은 알림 수)
+ *
+ * - 1분마다 새 알림을 확인
+ * - 읽음 처리 후 목록을 다시 조회
+ */
+export const useNotifications = () => {
+  const { state } = useAuth();
+  const userApi = useUserApi();
+  const queryClient = useQueryClient();
+  const token = state.tokens?.idToken;
+  const queryKey = ['notifications', state.user?.sub];
+
+  const { data, isLoading } = useQuery({
+    queryKey,
+    queryFn: userApi.getNotifications,
+    enabled: !!token,
+    refetchInterval: 60 * 1000,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['notifications'] });
+
+  const markRead = useMutation({
+    mutationFn: userApi.markNotificationRead,
+    onSuccess: invalidate,
+  });
+
+  const markAllRead = useMutation({
+    mutationFn: userApi.markAllNotificationsRead,
+    onSuccess: invalidate,
+  });
+
+  return {
+    notifications: data?.notifications ?? [],
+    unreadCount: data?.unreadCount ?? 0,
+    isLoading: !!token && isLoading,
+    markRead: markRead.mutate,
+    markAllRead: markAllRead.mutate,
+  };
+};
@@ -0,0 +1,38 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '../contexts/AuthContext';
+import { useUserApi } from './useUserApi';
+import type { UpdateProfileInput } from '../schemas/user';
+
+const profileQueryKey = (sub?: string) => ['user-profile', sub];
+
+/**
+ * 로그인한 사용자의 프로필
+ */
+export const useProfile = () => {
+  const { state } = useAuth();
+  const userApi = useUserApi();
+  const token = state.tokens?.idToken;
+
+  return useQuery({
+    queryKey: profileQueryKey(state.user?.sub),
+    queryFn: userApi.getProfile,
+    enabled: !!token,
+  });
+};
+
+/**
+ * 프로필 수정
+ *
+ * - 성공하면 서버가 돌려준 프로필로 캐시를 교체
+ * - 검증 오류는 ApiError의 details.fieldErrors에 항목별로 담김
+ */
+export const useUpdateProfile = () => {
+  const { state } = useAuth();
+  const userApi = useUserApi();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (updates: UpdateProfileInput) => userApi.updateProfile(updates),
+    onSuccess: (profile) => queryClient.setQueryData(profileQueryKey(state.user?.sub), profile),
+  });
+};
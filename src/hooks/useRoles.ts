@@ -0,0 +1,33 @@
+import { useCallback, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '../contexts/AuthContext';
+import { useUserApi } from './useUserApi';
+import type { UserRole } from '../types/database';
+
+/**
+ * 로그인한 사용자의 역할 (서버에서 Cognito 그룹과 user_roles 테이블로 결정)
+ *
+ * - admin은 moderator, user 역할을 모두 포함
+ * - 역할은 서버 응답을 그대로 신뢰하며, 실제 권한 검사는 API에서 수행
+ */
+export const useRoles = () => {
+  const { state } = useAuth();
+  const userApi = useUserApi();
+  const token = state.tokens?.idToken;
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ['user-roles', state.user?.sub],
+    queryFn: userApi.getRoles,
+    enabled: !!token,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const roles = useMemo(() => data?.roles ?? [], [data]);
+
+  const hasRole = useCallback(
+    (...required: UserRole[]) => required.some((role) => roles.includes(role)),
+    [roles]
+  );
+
+  return { roles, hasRole, isLoading: !!token && isLoading, isError };
+};
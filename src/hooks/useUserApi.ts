@@ -0,0 +1,27 @@
+import { useMemo, useRef } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { createUserApi, type UserApi } from '../lib/userApi';
+
+/**
+ * /api/user 클라이언트
+ *
+ * - 요청마다 AuthContext의 최신 ID 토큰을 붙임
+ * - API가 토큰을 거부하면(401) 토큰을 갱신한 뒤 한 번 재시도
+ * - 클라이언트는 컴포넌트마다 한 번만 만들어지므로 의존성 배열에 넣어도 됨
+ */
+export const useUserApi = (): UserApi => {
+  const { state, refreshTokens } = useAuth();
+  const tokenRef = useRef(state.tokens?.idToken);
+  const refreshRef = useRef(refreshTokens);
+  tokenRef.current = state.tokens?.idToken;
+  refreshRef.current = refreshTokens;
+
+  return useMemo(
+    () =>
+      createUserApi({
+        getToken: () => tokenRef.current,
+        refreshToken: () => refreshRef.current(),
+      }),
+    []
+  );
+};
@@ -0,0 +1,60 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '../contexts/AuthContext';
+import { useUserApi } from './useUserApi';
+import { applySettings, readCachedSettings } from '../lib/userSettings';
+import type { UpdateUserSettingsData, UserSettings } from '../types/database';
+
+/**
+ * 서버에 저장된 사용자 설정 (테마, 언어, 알림)
+ *
+ * - 불러온 설정은 화면에 바로 적용되고 다음 부팅을 위해 캐시됨
+ * - 변경은 먼저 화면에 적용한 뒤 저장하며, 실패하면 이전 설정으로 되돌림
+ */
+export const useUserSettings = () => {
+  const { state } = useAuth();
+  const userApi = useUserApi();
+  const queryClient = useQueryClient();
+  const token = state.tokens?.idToken;
+  const queryKey = ['user-settings', state.user?.sub];
+
+  const { data, isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const settings = await userApi.getSettings();
+      applySettings(settings);
+      return settings;
+    },
+    enabled: !!token,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const mutation = useMutation({
+    mutationFn: (updates: UpdateUserSettingsData) => userApi.updateSettings(updates),
+    onMutate: (updates) => {
+      const previous = queryClient.getQueryData<UserSettings>(queryKey) ?? readCachedSettings();
+      if (previous) {
+        const next = { ...previous, ...updates };
+        applySettings(next);
+        queryClient.setQueryData(queryKey, next);
+      }
+      return { previous };
+    },
+    onError: (_error, _updates, context) => {
+      if (context?.previous) {
+        applySettings(context.previous);
+        queryClient.setQueryData(queryKey, context.previous);
+      }
+    },
+    onSuccess: (settings) => {
+      applySettings(settings);
+      queryClient.setQueryData(queryKey, settings);
+    },
+  });
+
+  return {
+    settings: data ?? readCachedSettings(),
+    isLoading: !!token && isLoading,
+    updateSettings: mutation.mutate,
+    isSaving: mutation.isPending,
+  };
+};
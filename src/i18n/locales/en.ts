@@ -2,10 +2,36 @@ export default {
   settings: {
     title: "Settings",
     subtitle: "Customize your personal space",
+    saveFailed: "Could not save your settings.",
 
     notifications: {
       label: "Notifications",
       description: "Receive new record alerts",
+      types: {
+        label: "Notification types",
+        description: "Choose the notifications you want",
+        disabled: "Turn on notifications to choose types",
+        inquiry_answered: "Inquiry answers",
+        report_resolved: "Report results",
+        writing_reminder: "Writing reminders",
+        achievement_unlocked: "Achievements",
+      },
+      push: {
+        label: "Browser notifications",
+        description: "Receive push notifications in this browser",
+        failed: "Could not set up browser notifications.",
+      },
+    },
+
+    reminder: {
+      label: "Writing reminder",
+      description: "Get a gentle nudge to write at a time you choose",
+      time: "Time",
+      weekdays: "Days",
+      days: { 0: "S", 1: "M", 2: "T", 3: "W", 4: "T", 5: "F", 6: "S" },
+      timezone: "Timezone: {{timezone}} · No reminder on days you already wrote",
+      save: "Save",
+      saved: "Writing reminder saved.",
     },
 
     theme: {
@@ -26,6 +52,32 @@ export default {
       description: "Manage privacy settings",
     },
 
+    dataExport: {
+      label: "Export my data",
+      description: "Download your profile, records and library files as a ZIP file",
+      request: "Request export",
+      preparing: "Preparing your file...",
+      download: "Download",
+      downloadFailed: "Could not download the file.",
+      requestFailed: "Could not request an export.",
+      failed: "Could not create the file. Please request it again.",
+      expiresAt: "Available until {{date}}.",
+    },
+
+    journalImport: {
+      label: "Import diary",
+      description: "Import entries from Markdown, text or Day One (JSON) files",
+      choose: "Choose files",
+      checking: "Checking your files...",
+      summary: "{{count}} of {{total}} entries will be imported across {{days}} days.",
+      duplicates: "{{count}} entries already in your journal will be skipped.",
+      nothingNew: "There are no new entries to import.",
+      confirm: "Import",
+      cancel: "Cancel",
+      done: "Imported {{count}} entries.",
+      failed: "Could not import your diary.",
+    },
+
     version: "Version 1.0.0",
     copyright: "Past Me Â© 2024",
   },
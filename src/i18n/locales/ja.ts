@@ -2,10 +2,36 @@ export default {
   settings: {
     title: "設定",
     subtitle: "自分だけの空間をカスタマイズしましょう",
+    saveFailed: "設定を保存できませんでした。",
 
     notifications: {
       label: "通知",
       description: "新しい記録の通知を受け取る",
+      types: {
+        label: "通知の種類",
+        description: "受け取りたい通知を選んでください",
+        disabled: "通知をオンにすると種類ごとに選べます",
+        inquiry_answered: "お問い合わせへの回答",
+        report_resolved: "通報の処理結果",
+        writing_reminder: "記録リマインダー",
+        achievement_unlocked: "実績の達成",
+      },
+      push: {
+        label: "ブラウザ通知",
+        description: "このブラウザでプッシュ通知を受け取る",
+        failed: "ブラウザ通知を設定できませんでした。",
+      },
+    },
+
+    reminder: {
+      label: "記録リマインダー",
+      description: "決めた時間に今日の記録をお知らせします",
+      time: "通知時間",
+      weekdays: "曜日",
+      days: { 0: "日", 1: "月", 2: "火", 3: "水", 4: "木", 5: "金", 6: "土" },
+      timezone: "タイムゾーン: {{timezone}} · その日すでに記録していれば通知しません",
+      save: "保存",
+      saved: "記録リマインダーを保存しました。",
     },
 
     theme: {
@@ -26,6 +52,32 @@ export default {
       description: "プライバシー設定の管理",
     },
 
+    dataExport: {
+      label: "データのエクスポート",
+      description: "プロフィール、記録、ライブラリのファイルをZIPファイルで受け取る",
+      request: "エクスポートを依頼",
+      preparing: "ファイルを準備しています...",
+      download: "ダウンロード",
+      downloadFailed: "ファイルをダウンロードできませんでした。",
+      requestFailed: "エクスポートを依頼できませんでした。",
+      failed: "ファイルを作成できませんでした。もう一度依頼してください。",
+      expiresAt: "{{date}}までダウンロードできます。",
+    },
+
+    journalImport: {
+      label: "日記のインポート",
+      description: "Markdown、テキスト、Day One(JSON)ファイルの日記を取り込む",
+      choose: "ファイルを選択",
+      checking: "ファイルを確認しています...",
+      summary: "{{total}}件中{{count}}件の記録を{{days}}日分取り込みます。",
+      duplicates: "既にある記録{{count}}件はスキップします。",
+      nothingNew: "新しく取り込む記録はありません。",
+      confirm: "インポート",
+      cancel: "キャンセル",
+      done: "{{count}}件の記録を取り込みました。",
+      failed: "日記を取り込めませんでした。",
+    },
+
     version: "バージョン 1.0.0",
     copyright: "過去の私 © 2024",
   },
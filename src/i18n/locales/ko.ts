@@ -1,10 +1,36 @@
 export default {
   settings: {
     title: "설정",
+    saveFailed: "설정을 저장하지 못했습니다.",
 
     notifications: {
       label: "알림",
       description: "알림 여부 설정",
+      types: {
+        label: "알림 종류",
+        description: "받고 싶은 알림을 선택하세요",
+        disabled: "알림을 켜면 종류별로 선택할 수 있습니다",
+        inquiry_answered: "문의 답변",
+        report_resolved: "신고 처리 결과",
+        writing_reminder: "기록 알림",
+        achievement_unlocked: "업적 달성",
+      },
+      push: {
+        label: "브라우저 알림",
+        description: "이 브라우저에서 푸시 알림 받기",
+        failed: "브라우저 알림을 설정하지 못했습니다.",
+      },
+    },
+
+    reminder: {
+      label: "기록 알림",
+      description: "정한 시간에 오늘의 기록을 남기도록 알려드려요",
+      time: "알림 시간",
+      weekdays: "요일",
+      days: { 0: "일", 1: "월", 2: "화", 3: "수", 4: "목", 5: "금", 6: "토" },
+      timezone: "시간대: {{timezone}} · 그날 이미 기록했다면 알림을 보내지 않아요",
+      save: "저장",
+      saved: "기록 알림을 저장했습니다.",
     },
 
     theme: {
@@ -24,5 +50,31 @@ export default {
       label: "개인정보 보호",
       description: "개인정보 설정 관리",
     },
+
+    dataExport: {
+      label: "내 데이터 내보내기",
+      description: "프로필, 기록, 라이브러리 파일 등을 ZIP 파일로 받기",
+      request: "내보내기 요청",
+      preparing: "파일을 준비하고 있습니다...",
+      download: "다운로드",
+      downloadFailed: "파일을 내려받지 못했습니다.",
+      requestFailed: "내보내기를 요청하지 못했습니다.",
+      failed: "파일을 만들지 못했습니다. 다시 요청해주세요.",
+      expiresAt: "{{date}}까지 내려받을 수 있습니다.",
+    },
+
+    journalImport: {
+      label: "일기 가져오기",
+      description: "Markdown, 텍스트, Day One(JSON) 파일의 일기를 기록으로 가져오기",
+      choose: "파일 선택",
+      checking: "파일을 확인하고 있습니다...",
+      summary: "{{total}}개 중 {{count}}개 기록을 {{days}}일에 걸쳐 가져옵니다.",
+      duplicates: "이미 있는 기록 {{count}}개는 건너뜁니다.",
+      nothingNew: "새로 가져올 기록이 없습니다.",
+      confirm: "가져오기",
+      cancel: "취소",
+      done: "{{count}}개 기록을 가져왔습니다.",
+      failed: "일기를 가져오지 못했습니다.",
+    },
   },
 };
\ No newline at end of file
@@ -0,0 +1,165 @@
+/**
+ * Minimal helper for calling the backend API with the user's ID token.
+ */
+
+import type { FieldErrors } from "@/schemas/common";
+
+export const API_BASE_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+
+export interface ApiRequestOptions {
+  token?: string;  // omitted for public endpoints
+  method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  body?: unknown;
+}
+
+export interface Pagination {
+  page: number;
+  pageSize: number;
+  totalItems: number;
+  totalPages: number;
+  hasNext: boolean;
+  hasPrevious: boolean;
+}
+
+/**
+ * Error response from the API, carrying the HTTP status, the server's
+ * error type (e.g. "AccountSuspended") and any extra fields it sent.
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public code?: string,
+    public details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+/**
+ * Per-field messages of a ValidationError response, keyed by field name;
+ * empty for any other error.
+ */
+export function getFieldErrors(error: unknown): FieldErrors {
+  if (error instanceof ApiError && error.details.fieldErrors) {
+    return error.details.fieldErrors as FieldErrors;
+  }
+  return {};
+}
+
+/**
+ * Where an API client gets the user's ID token: the current token, and a
+ * way to refresh it when the API rejects it.
+ */
+export interface ApiAuth {
+  getToken: () => string | undefined;
+  refreshToken: () => Promise<string | null>;
+}
+
+/**
+ * Run a request with the current token. When the API rejects the token
+ * (401 Unauthorized from the auth middleware), refresh it once and retry.
+ * Other 401s, such as a wrong password, and requests sent without a token
+ * aren't retried.
+ */
+export async function withAuth<T>(auth: ApiAuth, call: (token: string | undefined) => Promise<T>): Promise<T> {
+  const token = auth.getToken();
+
+  try {
+    return await call(token);
+  } catch (error) {
+    if (!(error instanceof ApiError) || error.status !== 401 || error.code !== "Unauthorized" || !token) {
+      throw error;
+    }
+
+    const refreshed = await auth.refreshToken();
+    if (!refreshed) {
+      throw error;
+    }
+    return call(refreshed);
+  }
+}
+
+/**
+ * Send a request and return the parsed JSON envelope.
+ * FormData bodies are sent as multipart/form-data, anything else as JSON.
+ * Throws an ApiError carrying the server's message when the response is not ok.
+ */
+async function send(path: string, { token, method = "GET", body }: ApiRequestOptions) {
+  const isFormData = body instanceof FormData;
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    method,
+    headers: {
+      ...(token && { Authorization: `Bearer ${token}` }),
+      ...(body !== undefined && !isFormData && { "Content-Type": "application/json" }),
+    },
+    body: isFormData ? body : body !== undefined ? JSON.stringify(body) : undefined,
+  });
+
+  const payload = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    const { error, message, ...details } = payload ?? {};
+    throw new ApiError(message || "요청을 처리하지 못했습니다.", response.status, error, details);
+  }
+
+  return payload;
+}
+
+/**
+ * Send a request and return the `data` field of the JSON envelope.
+ */
+export async function apiRequest<T>(path: string, options: ApiRequestOptions): Promise<T> {
+  const payload = await send(path, options);
+  return payload?.data as T;
+}
+
+/**
+ * Send a request to a paginated endpoint and return its data and pagination info.
+ */
+export async function apiRequestPage<T>(
+  path: string,
+  options: ApiRequestOptions
+): Promise<{ data: T[]; pagination: Pagination }> {
+  const payload = await send(path, options);
+  return { data: payload.data, pagination: payload.pagination };
+}
+
+/**
+ * Download a file from an authenticated endpoint and save it under the given name.
+ */
+export async function apiDownload(path: string, { token }: Pick<ApiRequestOptions, "token">, filename: string): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+
+  if (!response.ok) {
+    const { error, message, ...details } = (await response.json().catch(() => null)) ?? {};
+    throw new ApiError(message || "파일을 내려받지 못했습니다.", response.status, error, details);
+  }
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Today's date in the browser's timezone, formatted as YYYY-MM-DD
+ */
+export function getLocalDateString(date: Date = new Date()): string {
+  const year = date.getFullYear();
+  const month = `${date.getMonth() + 1}`.padStart(2, "0");
+  const day = `${date.getDate()}`.padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * The browser's IANA timezone (e.g. Asia/Seoul)
+ */
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
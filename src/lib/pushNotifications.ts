@@ -0,0 +1,42 @@
+import type { PushSubscriptionData } from "@/types/database";
+
+const SERVICE_WORKER_PATH = "/notification-sw.js";
+
+export const isPushSupported = () =>
+  "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+
+// VAPID 공개 키(base64url)를 PushManager가 받는 형식으로 변환
+const toApplicationServerKey = (publicKey: string) => {
+  const base64 = (publicKey + "=".repeat((4 - (publicKey.length % 4)) % 4))
+    .replace(/-/g, "+")
+    .replace(/_/g, "/");
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+};
+
+// 이 브라우저의 현재 푸시 구독 (없으면 null)
+export const getPushSubscription = async () => {
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_PATH);
+  return (await registration?.pushManager.getSubscription()) ?? null;
+};
+
+// 알림 권한을 요청하고 푸시를 구독. 권한이 거부되면 에러.
+export const subscribePush = async (publicKey: string): Promise<PushSubscriptionData> => {
+  if ((await Notification.requestPermission()) !== "granted") {
+    throw new Error("브라우저 알림 권한이 허용되지 않았습니다.");
+  }
+
+  const registration = await navigator.serviceWorker.register(SERVICE_WORKER_PATH);
+  const subscription = await registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: toApplicationServerKey(publicKey),
+  });
+  return subscription.toJSON() as PushSubscriptionData;
+};
+
+// 푸시 구독을 해지하고 해지한 endpoint를 반환 (구독이 없으면 null)
+export const unsubscribePush = async () => {
+  const subscription = await getPushSubscription();
+  if (!subscription) return null;
+  await subscription.unsubscribe();
+  return subscription.endpoint;
+};
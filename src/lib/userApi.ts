@@ -0,0 +1,119 @@
+/**
+ * Typed client for the /api/user routes (server/routes/userRoutes.ts).
+ *
+ * Request bodies are typed by the schemas the server validates them with
+ * (src/schemas/user) and responses by the types its services return
+ * (src/types/database), so a change on either side shows up as a type
+ * error in the callers. Requests carry the user's ID token and are retried
+ * once with a refreshed token when the API rejects the token.
+ */
+
+import type { z } from "zod";
+import { apiDownload, apiRequest, withAuth, type ApiAuth, type ApiRequestOptions } from "@/lib/api";
+import type {
+  confirmPasswordResetSchema,
+  createInquirySchema,
+  createReportSchema,
+  deleteAccountSchema,
+  deletePushSubscriptionSchema,
+  inquiryReplySchema,
+  passwordResetSchema,
+  pushSubscriptionSchema,
+  reminderScheduleSchema,
+  updateProfileSchema,
+  updateSettingsSchema,
+} from "@/schemas/user";
+import type {
+  AccountStatus,
+  FullUserProfile,
+  InquiryThread,
+  NotificationList,
+  PendingDeletion,
+  ReminderSchedule,
+  UserAchievement,
+  UserExport,
+  UserInquiry,
+  UserReport,
+  UserRole,
+  UserSettings,
+} from "@/types/database";
+
+/**
+ * Request body accepted by a route validated with the given schema
+ */
+type Body<Schema extends z.ZodTypeAny> = z.input<Schema>;
+
+/**
+ * Create a client for the /api/user routes
+ *
+ * @param auth - Source of the user's ID token
+ */
+export function createUserApi(auth: ApiAuth) {
+  const request = <T>(path: string, options: Omit<ApiRequestOptions, "token"> = {}) =>
+    withAuth(auth, (token) => apiRequest<T>(`/api/user${path}`, { ...options, token }));
+
+  return {
+    // Profile
+    getProfile: () => request<FullUserProfile>("/profile"),
+    updateProfile: (body: Body<typeof updateProfileSchema>) =>
+      request<FullUserProfile>("/profile", { method: "PUT", body }),
+
+    // Settings
+    getSettings: () => request<UserSettings>("/settings"),
+    updateSettings: (body: Body<typeof updateSettingsSchema>) =>
+      request<UserSettings>("/settings", { method: "PUT", body }),
+
+    // Reminder
+    getReminderSchedule: () => request<ReminderSchedule | null>("/reminder"),
+    saveReminderSchedule: (body: Body<typeof reminderScheduleSchema>) =>
+      request<ReminderSchedule>("/reminder", { method: "PUT", body }),
+
+    // Password reset
+    requestPasswordReset: (body: Body<typeof passwordResetSchema>) =>
+      request<void>("/password-reset", { method: "POST", body }),
+    confirmPasswordReset: (body: Body<typeof confirmPasswordResetSchema>) =>
+      request<void>("/password-reset/confirm", { method: "POST", body }),
+
+    // Account deletion
+    deleteAccount: (body: Body<typeof deleteAccountSchema>) =>
+      request<PendingDeletion>("/account", { method: "DELETE", body }),
+    restoreAccount: () => request<void>("/account/restore", { method: "POST" }),
+
+    // Data export
+    requestExport: () => request<UserExport>("/export", { method: "POST" }),
+    getLatestExport: () => request<UserExport | null>("/export"),
+    getExport: (exportId: string) => request<UserExport>(`/export/${exportId}`),
+    downloadExport: (exportId: string, filename: string) =>
+      withAuth(auth, (token) => apiDownload(`/api/user/export/${exportId}/download`, { token }, filename)),
+
+    // Notifications
+    getNotifications: () => request<NotificationList>("/notifications"),
+    markAllNotificationsRead: () => request<null>("/notifications/read-all", { method: "POST" }),
+    markNotificationRead: (notificationId: string) =>
+      request<null>(`/notifications/${notificationId}/read`, { method: "POST" }),
+    getPushPublicKey: () => request<{ publicKey: string | null }>("/notifications/push-key"),
+    savePushSubscription: (body: Body<typeof pushSubscriptionSchema>) =>
+      request<null>("/notifications/push-subscriptions", { method: "POST", body }),
+    deletePushSubscription: (body: Body<typeof deletePushSubscriptionSchema>) =>
+      request<null>("/notifications/push-subscriptions", { method: "DELETE", body }),
+
+    // Reports
+    createReport: (body: Body<typeof createReportSchema>) =>
+      request<UserReport>("/report", { method: "POST", body }),
+
+    // Inquiries
+    createInquiry: (body: Body<typeof createInquirySchema>) =>
+      request<UserInquiry>("/inquiry", { method: "POST", body }),
+    getInquiries: () => request<UserInquiry[]>("/inquiries"),
+    getInquiry: (inquiryId: number) => request<InquiryThread>(`/inquiries/${inquiryId}`),
+    replyToInquiry: (inquiryId: number, body: Body<typeof inquiryReplySchema>) =>
+      request<InquiryThread>(`/inquiries/${inquiryId}/replies`, { method: "POST", body }),
+
+    // Account status, roles and achievements
+    getAccountStatus: () => request<AccountStatus>("/account-status"),
+    getRoles: () => request<{ roles: UserRole[] }>("/roles"),
+    getAchievements: () => request<UserAchievement[]>("/achievements"),
+  };
+}
+
+export type UserApi = ReturnType<typeof createUserApi>;
@@ -0,0 +1,35 @@
+import i18n from "@/i18n";
+import type { UserSettings } from "@/types/database";
+
+const STORAGE_KEY = "user_settings";
+
+// 마지막으로 적용한 설정 (서버 응답을 기다리지 않고 첫 화면에 바로 적용하기 위함)
+export const readCachedSettings = (): UserSettings | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as UserSettings) : null;
+  } catch {
+    return null;
+  }
+};
+
+// 테마(body의 data-theme)와 언어를 화면에 적용하고 캐시에 저장.
+export const applySettings = (settings: UserSettings) => {
+  document.body.setAttribute(
+    "data-theme",
+    settings.theme === "night" ? "night-library" : "day-library"
+  );
+  if (i18n.language !== settings.language) {
+    i18n.changeLanguage(settings.language);
+  }
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+// 설정을 저장한 적 없는 사용자의 기본값 (서버의 DEFAULT_USER_SETTINGS와 동일)
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  theme: "night",
+  language: "ko",
+  notificationsEnabled: true,
+  notificationOptOuts: [],
+  updatedAt: null,
+};
@@ -4,7 +4,11 @@ import "./index.css";
 import { AuthProvider } from "./contexts/AuthContext.tsx";
 
 import "./i18n";
+import { applySettings, readCachedSettings } from "./lib/userSettings";
 
+// 첫 화면이 그려지기 전에 마지막으로 저장된 테마와 언어를 적용
+const cachedSettings = readCachedSettings();
+if (cachedSettings) applySettings(cachedSettings);
 
 createRoot(document.getElementById("root")!).render(
   <AuthProvider>
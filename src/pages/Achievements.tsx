@@ -1,32 +1,31 @@
+import { useQuery } from "@tanstack/react-query";
 import { MainLayout } from "@/components/layout/MainLayout";
-import { Award, CheckCircle2, Lock } from "lucide-react";
+import { Award, CheckCircle2, Loader2, Lock } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
 import { cn } from "@/lib/utils";
+import { useAuth } from "@/contexts/AuthContext";
+import { useUserApi } from "@/hooks/useUserApi";
+import type { AchievementCategory } from "@/types/database";
 
-interface Achievement {
-  label: string;
-  earned: boolean;
-}
-
-const achievements: Achievement[] = [
-  { label: "\uccab \uae30\ub85d", earned: true },
-  { label: "7\uc77c \uc5f0\uc18d", earned: true },
-  { label: "30\uc77c \uc5f0\uc18d", earned: false },
-  { label: "100\uc77c \uc5f0\uc18d", earned: false },
-  { label: "1\ub144 \uc5f0\uc18d", earned: false },
-  { label: "2\ub144 \uc5f0\uc18d", earned: false },
-  { label: "3\ub144 \uc5f0\uc18d", earned: false },
-  { label: "\uccab \uc0ac\uc9c4", earned: true },
-  { label: "\uc0ac\uc9c4 10\uc7a5", earned: true },
-  { label: "\uc0ac\uc9c4 30\uc7a5", earned: true },
-  { label: "\uc0ac\uc9c4 50\uc7a5", earned: true },
-  { label: "\uc0ac\uc9c4 100\uc7a5", earned: false },
-  { label: "\uc0ac\uc9c4 200\uc7a5", earned: false },
-  { label: "\uc0ac\uc9c4 300\uc7a5", earned: false },
-  { label: "\uc0ac\uc9c4 400\uc7a5", earned: false },
-  { label: "\uc0ac\uc9c4 500\uc7a5", earned: false },
-];
+const progressUnits: Record<AchievementCategory, string> = {
+  journal: "개",
+  streak: "일",
+  photo: "장",
+};
 
 const Achievements = () => {
+  const { state } = useAuth();
+  const userApi = useUserApi();
+  const token = state.tokens?.idToken;
+
+  const { data: achievements = [], isLoading, isError, error } = useQuery({
+    queryKey: ["achievements"],
+    queryFn: userApi.getAchievements,
+    enabled: !!token,
+  });
+
+  const earnedCount = achievements.filter((achievement) => achievement.earned).length;
+
   return (
     <MainLayout>
       <div className="min-h-screen py-12 px-4 bg-background">
@@ -34,16 +33,33 @@ const Achievements = () => {
           <section className="bg-card rounded-xl shadow-md border border-border p-6">
             <div className="flex items-center gap-2 mb-2">
               <Award className="w-5 h-5 text-yellow-600" />
-              <h3 className="font-semibold text-foreground">\uc5c5\uc801 \uc804\uccb4\ubcf4\uae30</h3>
+              <h3 className="font-semibold text-foreground">업적 전체보기</h3>
+              {achievements.length > 0 && (
+                <span className="ml-auto text-sm text-muted-foreground">
+                  {earnedCount}/{achievements.length} 달성
+                </span>
+              )}
             </div>
             <p className="text-sm text-muted-foreground mb-6">
-              \uc804\uccb4 \uc5c5\uc801\uacfc \ub2ec\uc131 \uc5ec\ubd80\ub97c \ud655\uc778\ud560 \uc218 \uc788\uc5b4\uc694.
+              전체 업적과 달성 여부를 확인할 수 있어요.
             </p>
 
+            {isLoading && (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-yellow-600" />
+              </div>
+            )}
+
+            {isError && (
+              <p className="text-sm text-destructive py-4">
+                {error instanceof Error ? error.message : "업적을 불러오지 못했습니다."}
+              </p>
+            )}
+
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
               {achievements.map((achievement) => (
                 <div
-                  key={achievement.label}
+                  key={achievement.key}
                   className={cn(
                     "rounded-lg border p-4 transition-colors",
                     achievement.earned
@@ -54,19 +70,19 @@ const Achievements = () => {
                   <div className="flex items-center gap-3">
                     <div
                       className={cn(
-                        "w-10 h-10 rounded-full flex items-center justify-center",
+                        "w-10 h-10 rounded-full flex items-center justify-center shrink-0",
                         achievement.earned
                           ? "bg-yellow-700/10 text-yellow-700"
                           : "bg-secondary text-muted-foreground"
                       )}
                     >
-                        {achievement.earned ? "\ub2ec\uc131" : "\ubbf8\ub2ec\uc131"}
+                      {achievement.earned ? (
                         <CheckCircle2 className="w-5 h-5" />
                       ) : (
                         <Lock className="w-5 h-5" />
-                      )
+                      )}
                     </div>
-                    <div className="flex-1">
+                    <div className="flex-1 min-w-0">
                       <p className="text-sm font-semibold text-foreground">
                         {achievement.label}
                       </p>
@@ -78,8 +94,16 @@ const Achievements = () => {
                             : "text-muted-foreground"
                         )}
                       >
-                        {achievement.earned ? "\ub2ec\uc131" : "\ubbf8\ub2ec\uc131"}
+                        {achievement.earned && achievement.unlockedAt
+                          ? `${new Date(achievement.unlockedAt).toLocaleDateString("ko-KR")} 달성`
+                          : `${achievement.progress}/${achievement.target}${progressUnits[achievement.category]}`}
                       </p>
+                      {!achievement.earned && (
+                        <Progress
+                          value={(achievement.progress / achievement.target) * 100}
+                          className="h-1.5 mt-2"
+                        />
+                      )}
                     </div>
                   </div>
                 </div>
@@ -92,4 +116,4 @@ const Achievements = () => {
   );
 };
 
-export default Achievements;
\ No newline at end of file
+export default Achievements;
@@ -0,0 +1,347 @@
+import { useState } from "react";
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ChevronLeft, ChevronRight, Inbox, Loader2, Lock, Search, Send } from "lucide-react";
+import { MainLayout } from "@/components/layout/MainLayout";
+import { InquiryThreadView } from "@/components/inquiry/InquiryThreadView";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, apiRequestPage } from "@/lib/api";
+import { cn } from "@/lib/utils";
+import type { AdminInquiry, AdminInquiryThread, InquiryStatus } from "@/types/database";
+
+const PAGE_SIZE = 20;
+
+const statusLabels: Record<InquiryStatus, string> = {
+  pending: "답변 대기",
+  answered: "답변 완료",
+  closed: "종료",
+};
+
+const statusStyles: Record<InquiryStatus, string> = {
+  pending: "bg-amber-100 text-amber-800",
+  answered: "bg-emerald-100 text-emerald-800",
+  closed: "bg-stone-200 text-stone-700",
+};
+
+const formatDateTime = (value: string | Date) =>
+  new Date(value).toLocaleString("ko-KR", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const StatusBadge = ({ status }: { status: InquiryStatus }) => (
+  <Badge variant="outline" className={cn("border-0 font-serif", statusStyles[status])}>
+    {statusLabels[status]}
+  </Badge>
+);
+
+// 사용자 문의에 답변하고 내부 메모를 남기는 관리자 페이지.
+const AdminInquiries = () => {
+  const { state } = useAuth();
+  const token = state.tokens?.idToken;
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [status, setStatus] = useState<string>("pending");
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [page, setPage] = useState(1);
+  const [selectedInquiryId, setSelectedInquiryId] = useState<number | null>(null);
+  const [draft, setDraft] = useState("");
+
+  const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+  if (status !== "all") params.set("status", status);
+  if (search) params.set("search", search);
+
+  const { data, isLoading, isError, error } = useQuery({
+    queryKey: ["admin-inquiries", params.toString()],
+    queryFn: () => apiRequestPage<AdminInquiry>(`/api/admin/inquiries?${params}`, { token: token! }),
+    enabled: !!token,
+    placeholderData: keepPreviousData,
+  });
+
+  const { data: thread, isLoading: isThreadLoading } = useQuery({
+    queryKey: ["admin-inquiry", selectedInquiryId],
+    queryFn: () => apiRequest<AdminInquiryThread>(`/api/admin/inquiries/${selectedInquiryId}`, { token: token! }),
+    enabled: !!token && selectedInquiryId !== null,
+  });
+
+  const onThreadUpdated = (updated: AdminInquiryThread) => {
+    queryClient.setQueryData(["admin-inquiry", updated.inquiryId], updated);
+    queryClient.invalidateQueries({ queryKey: ["admin-inquiries"] });
+  };
+
+  const showError = (title: string) => (error: Error) =>
+    toast({ title, description: error.message, variant: "destructive" });
+
+  const responseMutation = useMutation({
+    mutationFn: ({ inquiryId, message }: { inquiryId: number; message: string }) =>
+      apiRequest<AdminInquiryThread>(`/api/admin/inquiries/${inquiryId}/responses`, {
+        token: token!,
+        method: "POST",
+        body: { message },
+      }),
+    onSuccess: (updated) => {
+      onThreadUpdated(updated);
+      setDraft("");
+      toast({ title: "답변을 보냈습니다" });
+    },
+    onError: showError("답변을 보내지 못했습니다"),
+  });
+
+  const noteMutation = useMutation({
+    mutationFn: ({ inquiryId, message }: { inquiryId: number; message: string }) =>
+      apiRequest<AdminInquiryThread>(`/api/admin/inquiries/${inquiryId}/notes`, {
+        token: token!,
+        method: "POST",
+        body: { message },
+      }),
+    onSuccess: (updated) => {
+      onThreadUpdated(updated);
+      setDraft("");
+    },
+    onError: showError("메모를 저장하지 못했습니다"),
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: ({ inquiryId, status }: { inquiryId: number; status: InquiryStatus }) =>
+      apiRequest<AdminInquiryThread>(`/api/admin/inquiries/${inquiryId}`, {
+        token: token!,
+        method: "PATCH",
+        body: { status },
+      }),
+    onSuccess: onThreadUpdated,
+    onError: showError("상태를 변경하지 못했습니다"),
+  });
+
+  const isSending = responseMutation.isPending || noteMutation.isPending;
+
+  const handleSearch = (event: React.FormEvent) => {
+    event.preventDefault();
+    setSearch(searchInput.trim());
+    setPage(1);
+  };
+
+  const openInquiry = (inquiryId: number) => {
+    setSelectedInquiryId(inquiryId);
+    setDraft("");
+  };
+
+  const inquiries = data?.data ?? [];
+  const pagination = data?.pagination;
+
+  return (
+    <MainLayout>
+      <div className="min-h-screen py-12 px-4">
+        <div className="max-w-5xl mx-auto">
+          <header className="text-center mb-10 animate-fade-in">
+            <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-secondary mb-4">
+              <Inbox className="w-8 h-8 text-gold" />
+            </div>
+            <h1 className="font-serif text-3xl text-primary mb-2 gold-accent">문의 관리</h1>
+            <p className="font-handwriting text-xl text-muted-foreground">사용자 문의에 답변하세요</p>
+          </header>
+
+          {/* 필터 */}
+          <div className="flex flex-col md:flex-row gap-3 mb-6">
+            <Select
+              value={status}
+              onValueChange={(value) => {
+                setStatus(value);
+                setPage(1);
+              }}
+            >
+              <SelectTrigger className="md:w-40 bg-background">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-popover border-ink/10">
+                <SelectItem value="all">모든 상태</SelectItem>
+                {Object.entries(statusLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <form onSubmit={handleSearch} className="flex flex-1 gap-2">
+              <Input
+                value={searchInput}
+                onChange={(event) => setSearchInput(event.target.value)}
+                placeholder="제목, 닉네임 또는 이메일"
+                className="bg-background"
+              />
+              <Button type="submit" variant="outline" size="icon">
+                <Search className="w-4 h-4" />
+              </Button>
+            </form>
+          </div>
+
+          {isLoading && (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-gold" />
+            </div>
+          )}
+
+          {isError && (
+            <p className="text-center font-serif text-sm text-destructive py-6">
+              {error instanceof Error ? error.message : "문의 목록을 불러오지 못했습니다."}
+            </p>
+          )}
+
+          {!isLoading && !isError && inquiries.length === 0 && (
+            <p className="text-center font-handwriting text-lg text-muted-foreground py-12">
+              조건에 맞는 문의가 없습니다.
+            </p>
+          )}
+
+          {/* 문의 목록 */}
+          <div className="space-y-3">
+            {inquiries.map((inquiry) => (
+              <button
+                key={inquiry.inquiryId}
+                onClick={() => openInquiry(inquiry.inquiryId)}
+                className="w-full text-left paper-texture rounded-lg p-4 shadow-page hover:shadow-book transition-shadow"
+              >
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="font-serif text-ink truncate">{inquiry.subject}</p>
+                    <p className="text-sm text-ink/60 truncate">
+                      {inquiry.user.nickname} · 메시지 {inquiry.messageCount + 1}개
+                      {inquiry.answeredBy && ` · 최근 답변 ${inquiry.answeredBy.nickname}`}
+                    </p>
+                  </div>
+                  <div className="flex flex-col items-end gap-1 shrink-0">
+                    <StatusBadge status={inquiry.status} />
+                    <span className="text-xs text-ink/50">{formatDateTime(inquiry.lastMessageAt)}</span>
+                  </div>
+                </div>
+              </button>
+            ))}
+          </div>
+
+          {pagination && pagination.totalPages > 1 && (
+            <div className="flex items-center justify-center gap-4 mt-8">
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setPage((current) => current - 1)}
+                disabled={!pagination.hasPrevious}
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <span className="font-serif text-sm text-ink/70">
+                {pagination.page} / {pagination.totalPages}
+              </span>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setPage((current) => current + 1)}
+                disabled={!pagination.hasNext}
+              >
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* 문의 상세 */}
+      <Dialog open={selectedInquiryId !== null} onOpenChange={() => setSelectedInquiryId(null)}>
+        <DialogContent className="max-w-2xl paper-texture border border-ink/10 max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="text-xl font-serif flex items-center gap-2 text-ink">
+              <Inbox className="w-5 h-5 text-gold" />
+              <span className="truncate">{thread?.subject ?? `문의 #${selectedInquiryId}`}</span>
+            </DialogTitle>
+            <DialogDescription className="text-ink/70">
+              {thread && `${thread.user.nickname} (${thread.user.email}) · ${formatDateTime(thread.createdAt)}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {isThreadLoading || !thread ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-gold" />
+            </div>
+          ) : (
+            <div className="space-y-5">
+              <div className="flex items-center gap-2">
+                <StatusBadge status={thread.status} />
+                {thread.answeredAt && (
+                  <span className="text-sm text-ink/70">
+                    {thread.answeredBy?.nickname ?? "알 수 없음"} · {formatDateTime(thread.answeredAt)}
+                  </span>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="ml-auto"
+                  disabled={statusMutation.isPending}
+                  onClick={() =>
+                    statusMutation.mutate({
+                      inquiryId: thread.inquiryId,
+                      status: thread.status === "closed" ? "pending" : "closed",
+                    })
+                  }
+                >
+                  {thread.status === "closed" ? "다시 열기" : "문의 종료"}
+                </Button>
+              </div>
+
+              <InquiryThreadView thread={thread} userLabel={thread.user.nickname} />
+
+              <div className="space-y-2">
+                <Textarea
+                  value={draft}
+                  onChange={(event) => setDraft(event.target.value)}
+                  placeholder="답변 또는 내부 메모를 입력하세요"
+                  maxLength={2000}
+                  rows={4}
+                  className="bg-background"
+                />
+                <div className="flex justify-end gap-2">
+                  <Button
+                    variant="outline"
+                    disabled={!draft.trim() || isSending}
+                    onClick={() => noteMutation.mutate({ inquiryId: thread.inquiryId, message: draft })}
+                  >
+                    <Lock className="w-4 h-4 mr-1" />
+                    내부 메모
+                  </Button>
+                  <Button
+                    disabled={!draft.trim() || isSending}
+                    onClick={() => responseMutation.mutate({ inquiryId: thread.inquiryId, message: draft })}
+                  >
+                    {responseMutation.isPending ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <>
+                        <Send className="w-4 h-4 mr-1" />
+                        답변 보내기
+                      </>
+                    )}
+                  </Button>
+                </div>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </MainLayout>
+  );
+};
+
+export default AdminInquiries;
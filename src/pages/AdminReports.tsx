@@ -0,0 +1,424 @@
+import { useState } from "react";
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ChevronLeft, ChevronRight, Flag, Loader2, Search } from "lucide-react";
+import { MainLayout } from "@/components/layout/MainLayout";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, apiRequestPage } from "@/lib/api";
+import { cn } from "@/lib/utils";
+import type {
+  AdminReport,
+  AdminReportDetail,
+  AdminUserSummary,
+  ReportStatus,
+  SanctionAction,
+  UserSanction,
+} from "@/types/database";
+
+const PAGE_SIZE = 20;
+
+const statusLabels: Record<ReportStatus, string> = {
+  pending: "대기",
+  reviewed: "검토됨",
+  resolved: "처리 완료",
+};
+
+const reasonLabels: Record<AdminReport["reason"], string> = {
+  spam: "스팸",
+  harassment: "괴롭힘",
+  inappropriate_content: "부적절한 콘텐츠",
+  other: "기타",
+};
+
+const statusStyles: Record<ReportStatus, string> = {
+  pending: "bg-amber-100 text-amber-800",
+  reviewed: "bg-sky-100 text-sky-800",
+  resolved: "bg-emerald-100 text-emerald-800",
+};
+
+const sanctionLabels: Record<SanctionAction, string> = {
+  flag: "주의",
+  suspend: "이용 정지",
+  escalate: "검토 요청",
+};
+
+const sanctionStyles: Record<SanctionAction, string> = {
+  flag: "bg-stone-200 text-stone-700",
+  suspend: "bg-red-100 text-red-800",
+  escalate: "bg-violet-100 text-violet-800",
+};
+
+const formatDateTime = (value: string | Date) =>
+  new Date(value).toLocaleString("ko-KR", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const StatusBadge = ({ status }: { status: ReportStatus }) => (
+  <Badge variant="outline" className={cn("border-0 font-serif", statusStyles[status])}>
+    {statusLabels[status]}
+  </Badge>
+);
+
+const SanctionBadge = ({ action }: { action: SanctionAction }) => (
+  <Badge variant="outline" className={cn("border-0 font-serif", sanctionStyles[action])}>
+    {sanctionLabels[action]}
+  </Badge>
+);
+
+const UserCard = ({ title, user, count }: { title: string; user: AdminUserSummary; count: string }) => (
+  <div className="rounded-md border border-ink/10 p-3 space-y-1">
+    <p className="text-xs text-ink/50">{title}</p>
+    <p className="font-serif text-ink">{user.nickname}</p>
+    <p className="text-sm text-ink/70 break-all">{user.email}</p>
+    <p className="text-xs text-ink/50">
+      상태: {user.status} · {count}
+    </p>
+  </div>
+);
+
+// 신고 목록을 확인하고 처리하는 관리자 페이지.
+const AdminReports = () => {
+  const { state } = useAuth();
+  const token = state.tokens?.idToken;
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [status, setStatus] = useState<string>("pending");
+  const [reason, setReason] = useState<string>("all");
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [page, setPage] = useState(1);
+  const [selectedReportId, setSelectedReportId] = useState<number | null>(null);
+
+  const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+  if (status !== "all") params.set("status", status);
+  if (reason !== "all") params.set("reason", reason);
+  if (search) params.set("search", search);
+
+  const { data, isLoading, isError, error } = useQuery({
+    queryKey: ["admin-reports", params.toString()],
+    queryFn: () => apiRequestPage<AdminReport>(`/api/admin/reports?${params}`, { token: token! }),
+    enabled: !!token,
+    placeholderData: keepPreviousData,
+  });
+
+  const { data: detail, isLoading: isDetailLoading } = useQuery({
+    queryKey: ["admin-report", selectedReportId],
+    queryFn: () => apiRequest<AdminReportDetail>(`/api/admin/reports/${selectedReportId}`, { token: token! }),
+    enabled: !!token && selectedReportId !== null,
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: ({ reportId, status }: { reportId: number; status: ReportStatus }) =>
+      apiRequest<AdminReportDetail>(`/api/admin/reports/${reportId}`, {
+        token: token!,
+        method: "PATCH",
+        body: { status },
+      }),
+    onSuccess: (report) => {
+      queryClient.setQueryData(["admin-report", report.reportId], report);
+      queryClient.invalidateQueries({ queryKey: ["admin-reports"] });
+      toast({ title: `신고를 '${statusLabels[report.status]}' 상태로 변경했습니다` });
+    },
+    onError: (error: Error) =>
+      toast({ title: "상태를 변경하지 못했습니다", description: error.message, variant: "destructive" }),
+  });
+
+  const liftMutation = useMutation({
+    mutationFn: (sanctionId: number) =>
+      apiRequest<UserSanction>(`/api/admin/sanctions/${sanctionId}/lift`, { token: token!, method: "POST" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin-report", selectedReportId] });
+      queryClient.invalidateQueries({ queryKey: ["admin-reports"] });
+      toast({ title: "제재를 해제했습니다" });
+    },
+    onError: (error: Error) =>
+      toast({ title: "제재를 해제하지 못했습니다", description: error.message, variant: "destructive" }),
+  });
+
+  const handleFilterChange = (setter: (value: string) => void) => (value: string) => {
+    // 필터가 바뀌면 첫 페이지부터.
+    setter(value);
+    setPage(1);
+  };
+
+  const handleSearch = (event: React.FormEvent) => {
+    event.preventDefault();
+    setSearch(searchInput.trim());
+    setPage(1);
+  };
+
+  const reports = data?.data ?? [];
+  const pagination = data?.pagination;
+
+  return (
+    <MainLayout>
+      <div className="min-h-screen py-12 px-4">
+        <div className="max-w-5xl mx-auto">
+          <header className="text-center mb-10 animate-fade-in">
+            <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-secondary mb-4">
+              <Flag className="w-8 h-8 text-gold" />
+            </div>
+            <h1 className="font-serif text-3xl text-primary mb-2 gold-accent">신고 관리</h1>
+            <p className="font-handwriting text-xl text-muted-foreground">접수된 신고를 검토하고 처리하세요</p>
+          </header>
+
+          {/* 필터 */}
+          <div className="flex flex-col md:flex-row gap-3 mb-6">
+            <Select value={status} onValueChange={handleFilterChange(setStatus)}>
+              <SelectTrigger className="md:w-40 bg-background">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-popover border-ink/10">
+                <SelectItem value="all">모든 상태</SelectItem>
+                {Object.entries(statusLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={reason} onValueChange={handleFilterChange(setReason)}>
+              <SelectTrigger className="md:w-48 bg-background">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-popover border-ink/10">
+                <SelectItem value="all">모든 사유</SelectItem>
+                {Object.entries(reasonLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <form onSubmit={handleSearch} className="flex flex-1 gap-2">
+              <Input
+                value={searchInput}
+                onChange={(event) => setSearchInput(event.target.value)}
+                placeholder="닉네임 또는 이메일"
+                className="bg-background"
+              />
+              <Button type="submit" variant="outline" size="icon">
+                <Search className="w-4 h-4" />
+              </Button>
+            </form>
+          </div>
+
+          {isLoading && (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-gold" />
+            </div>
+          )}
+
+          {isError && (
+            <p className="text-center font-serif text-sm text-destructive py-6">
+              {error instanceof Error ? error.message : "신고 목록을 불러오지 못했습니다."}
+            </p>
+          )}
+
+          {!isLoading && !isError && reports.length === 0 && (
+            <p className="text-center font-handwriting text-lg text-muted-foreground py-12">
+              조건에 맞는 신고가 없습니다.
+            </p>
+          )}
+
+          {/* 신고 목록 */}
+          <div className="space-y-3">
+            {reports.map((report) => (
+              <button
+                key={report.reportId}
+                onClick={() => setSelectedReportId(report.reportId)}
+                className="w-full text-left paper-texture rounded-lg p-4 shadow-page hover:shadow-book transition-shadow"
+              >
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="font-serif text-ink truncate">
+                      {report.reporter.nickname} → {report.reportedUser.nickname}
+                    </p>
+                    <p className="text-sm text-ink/60 truncate">
+                      {reasonLabels[report.reason]}
+                      {report.description && ` · ${report.description}`}
+                    </p>
+                  </div>
+                  <div className="flex flex-col items-end gap-1 shrink-0">
+                    <span className="flex gap-1">
+                      {report.reportedUserSanction && <SanctionBadge action={report.reportedUserSanction} />}
+                      <StatusBadge status={report.status} />
+                    </span>
+                    <span className="text-xs text-ink/50">{formatDateTime(report.createdAt)}</span>
+                  </div>
+                </div>
+              </button>
+            ))}
+          </div>
+
+          {pagination && pagination.totalPages > 1 && (
+            <div className="flex items-center justify-center gap-4 mt-8">
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setPage((current) => current - 1)}
+                disabled={!pagination.hasPrevious}
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <span className="font-serif text-sm text-ink/70">
+                {pagination.page} / {pagination.totalPages}
+              </span>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setPage((current) => current + 1)}
+                disabled={!pagination.hasNext}
+              >
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* 신고 상세 */}
+      <Dialog open={selectedReportId !== null} onOpenChange={() => setSelectedReportId(null)}>
+        <DialogContent className="max-w-2xl paper-texture border border-ink/10 max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="text-xl font-serif flex items-center gap-2 text-ink">
+              <Flag className="w-5 h-5 text-gold" />
+              신고 #{selectedReportId}
+            </DialogTitle>
+            <DialogDescription className="text-ink/70">
+              {detail && `${reasonLabels[detail.reason]} · ${formatDateTime(detail.createdAt)}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {isDetailLoading || !detail ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-gold" />
+            </div>
+          ) : (
+            <div className="space-y-5">
+              <div className="grid md:grid-cols-2 gap-3">
+                <UserCard title="신고자" user={detail.reporter} count={`신고 ${detail.reporterReportCount}건 제출`} />
+                <UserCard
+                  title="신고 대상"
+                  user={detail.reportedUser}
+                  count={`신고 ${detail.reportedUserReportCount}건 접수`}
+                />
+              </div>
+
+              <div>
+                <p className="text-xs text-ink/50 mb-1">내용</p>
+                <p className="font-serif text-sm text-ink whitespace-pre-line">
+                  {detail.description || "작성된 내용이 없습니다."}
+                </p>
+              </div>
+
+              <div className="flex items-center gap-2 text-sm text-ink/70">
+                <StatusBadge status={detail.status} />
+                {detail.reviewedAt && (
+                  <span>
+                    {detail.reviewer?.nickname ?? "알 수 없음"} · {formatDateTime(detail.reviewedAt)}
+                  </span>
+                )}
+              </div>
+
+              <div className="flex gap-2">
+                {(Object.keys(statusLabels) as ReportStatus[]).map((value) => (
+                  <Button
+                    key={value}
+                    variant={detail.status === value ? "default" : "outline"}
+                    size="sm"
+                    disabled={detail.status === value || statusMutation.isPending}
+                    onClick={() => statusMutation.mutate({ reportId: detail.reportId, status: value })}
+                  >
+                    {statusLabels[value]}
+                  </Button>
+                ))}
+              </div>
+
+              <div>
+                <p className="text-xs text-ink/50 mb-2">신고 대상의 제재 내역</p>
+                {detail.reportedUserSanctions.length === 0 ? (
+                  <p className="font-handwriting text-sm text-ink/60">제재 내역이 없습니다.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {detail.reportedUserSanctions.map((sanction) => (
+                      <div
+                        key={sanction.sanctionId}
+                        className={cn(
+                          "flex items-center gap-3 rounded-md border border-ink/10 px-3 py-2",
+                          !sanction.active && "opacity-60"
+                        )}
+                      >
+                        <SanctionBadge action={sanction.action} />
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-serif text-ink truncate">{sanction.reason}</p>
+                          <p className="text-xs text-ink/50">
+                            {formatDateTime(sanction.createdAt)}
+                            {sanction.endsAt && ` ~ ${formatDateTime(sanction.endsAt)}`}
+                            {sanction.liftedAt && ` · 해제됨 ${formatDateTime(sanction.liftedAt)}`}
+                          </p>
+                        </div>
+                        {sanction.active && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={liftMutation.isPending}
+                            onClick={() => liftMutation.mutate(sanction.sanctionId)}
+                          >
+                            해제
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <p className="text-xs text-ink/50 mb-2">신고 대상의 다른 신고 내역</p>
+                {detail.reportedUserHistory.length === 0 ? (
+                  <p className="font-handwriting text-sm text-ink/60">다른 신고 내역이 없습니다.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {detail.reportedUserHistory.map((report) => (
+                      <button
+                        key={report.reportId}
+                        onClick={() => setSelectedReportId(report.reportId)}
+                        className="w-full flex items-center justify-between gap-3 rounded-md border border-ink/10 px-3 py-2 text-left hover:bg-secondary/30"
+                      >
+                        <span className="text-sm font-serif text-ink truncate">
+                          {reasonLabels[report.reason]} · {report.reporter.nickname}
+                        </span>
+                        <span className="flex items-center gap-2 shrink-0">
+                          <StatusBadge status={report.status} />
+                          <span className="text-xs text-ink/50">{formatDateTime(report.createdAt)}</span>
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </MainLayout>
+  );
+};
+
+export default AdminReports;
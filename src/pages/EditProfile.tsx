@@ -2,28 +2,53 @@ import { useRef, useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { User, Loader2 } from "lucide-react";
 import { MainLayout } from "@/components/layout/MainLayout";
-import { useAuth } from "@/contexts/AuthContext";
-// TODO: These services should not be imported in frontend - use API client instead
-// import { getUserService } from "@/services/userService";
-// import { getAuthService } from "@/services/authService";
-import type { FullUserProfile, UpdateUserProfileData } from "@/types/database";
+import { useProfile, useUpdateProfile } from "@/hooks/useProfile";
+import { getFieldErrors, getLocalTimeZone } from "@/lib/api";
+import { validateField } from "@/schemas/common";
+import {
+  BIO_MAX_LENGTH,
+  bioSchema,
+  nicknameSchema,
+  phoneNumberSchema,
+  type UpdateProfileInput,
+} from "@/schemas/user";
+
+// 자주 쓰이는 시간대 (브라우저 시간대가 목록에 없으면 맨 앞에 추가)
+const TIMEZONE_OPTIONS = [
+  { value: "Asia/Seoul", label: "서울 (UTC+9)" },
+  { value: "Asia/Tokyo", label: "도쿄 (UTC+9)" },
+  { value: "Asia/Shanghai", label: "상하이 (UTC+8)" },
+  { value: "Asia/Singapore", label: "싱가포르 (UTC+8)" },
+  { value: "Asia/Bangkok", label: "방콕 (UTC+7)" },
+  { value: "Asia/Kolkata", label: "뉴델리 (UTC+5:30)" },
+  { value: "Australia/Sydney", label: "시드니" },
+  { value: "Pacific/Auckland", label: "오클랜드" },
+  { value: "Europe/London", label: "런던" },
+  { value: "Europe/Paris", label: "파리" },
+  { value: "Europe/Berlin", label: "베를린" },
+  { value: "America/New_York", label: "뉴욕" },
+  { value: "America/Chicago", label: "시카고" },
+  { value: "America/Denver", label: "덴버" },
+  { value: "America/Los_Angeles", label: "로스앤젤레스" },
+  { value: "Pacific/Honolulu", label: "호놀룰루 (UTC-10)" },
+  { value: "UTC", label: "UTC" },
+];
 
 const EditProfile = () => {
   const navigate = useNavigate();
-  const { state } = useAuth();
-  const user = state.user;
   const fileInputRef = useRef<HTMLInputElement | null>(null);
 
   // Profile state
-  const [profile, setProfile] = useState<FullUserProfile | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [isSaving, setIsSaving] = useState(false);
+  const { data: profile, isLoading, error: loadError } = useProfile();
+  const updateProfile = useUpdateProfile();
+  const isSaving = updateProfile.isPending;
   const [error, setError] = useState<string | null>(null);
   
   // Form state
   const [nickname, setNickname] = useState("");
   const [bio, setBio] = useState("");
   const [phoneNumber, setPhoneNumber] = useState("");
+  const [timezone, setTimezone] = useState("Asia/Seoul");
   const [profilePreview, setProfilePreview] = useState("");
   
   // Validation state
@@ -35,89 +60,31 @@ const EditProfile = () => {
   // Modal state
   const [isCompleteOpen, setIsCompleteOpen] = useState(false);
 
-  // Fetch profile data on mount
+  // Initialize form with current profile data
   useEffect(() => {
-    const fetchProfile = async () => {
-      if (!user) {
-        setError("User not authenticated");
-        setIsLoading(false);
-        return;
-      }
-
-      try {
-        setIsLoading(true);
-        setError(null);
-        
-        const token = state.tokens?.idToken;
-        if (!token) {
-          setError("인증 토큰을 찾을 수 없습니다.");
-          setIsLoading(false);
-          return;
-        }
-
-        // Fetch profile from API
-        const response = await fetch(`${import.meta.env.VITE_API_URL || 'http://localhost:3001'}/api/user/profile`, {
-          headers: {
-            'Authorization': `Bearer ${token}`,
-          },
-        });
-
-        if (!response.ok) {
-          throw new Error('프로필을 불러오는데 실패했습니다.');
-        }
-
-        const data = await response.json();
-        const fetchedProfile = data.data;
-        
-        setProfile(fetchedProfile);
-        
-        // Initialize form with current profile data
-        setNickname(fetchedProfile.nickname);
-        setBio(fetchedProfile.bio || "");
-        setPhoneNumber(fetchedProfile.phoneNumber || "");
-        setProfilePreview(fetchedProfile.profileImageUrl || "");
-      } catch (err) {
-        console.error("Failed to fetch profile:", err);
-        setError(err instanceof Error ? err.message : "Failed to load profile");
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    fetchProfile();
-  }, [user, state.tokens]);
-
-  // Validate nickname
-  const validateNickname = (value: string): string | null => {
-    if (value.length < 2 || value.length > 20) {
-      return "닉네임은 2-20자 사이여야 합니다";
-    }
-    if (!/^[가-힣a-zA-Z0-9_]+$/.test(value)) {
-      return "닉네임은 한글, 영문, 숫자, 언더스코어만 사용 가능합니다";
-    }
-    return null;
-  };
+    if (!profile) return;
+    setNickname(profile.nickname);
+    setBio(profile.bio || "");
+    setPhoneNumber(profile.phoneNumber || "");
+    setTimezone(profile.timezone || "Asia/Seoul");
+    setProfilePreview(profile.profileImageUrl || "");
+  }, [profile]);
 
-  // Validate bio
-  const validateBio = (value: string): string | null => {
-    if (value.length > 500) {
-      return "자기소개는 최대 500자까지 입력 가능합니다";
+  useEffect(() => {
+    if (loadError) {
+      console.error("Failed to fetch profile:", loadError);
+      setError("프로필을 불러오는데 실패했습니다.");
     }
-    return null;
-  };
+  }, [loadError]);
 
-  // Validate phone number
-  const validatePhoneNumber = (value: string): string | null => {
-    if (!value) return null; // Phone number is optional
-    if (!/^[0-9-+() ]+$/.test(value)) {
-      return "올바른 전화번호 형식이 아닙니다";
-    }
-    return null;
-  };
+  // 서버와 같은 스키마로 검증
+  const validateNickname = (value: string) => validateField(nicknameSchema, value);
+  const validateBio = (value: string) => validateField(bioSchema, value);
+  const validatePhoneNumber = (value: string) => validateField(phoneNumberSchema, value);
 
   // Check nickname availability
   const checkNicknameAvailability = async (value: string) => {
-    if (!user || !profile) return;
+    if (!profile) return;
     
     // Skip if nickname hasn't changed
     if (value === profile.nickname) {
@@ -159,14 +126,21 @@ const EditProfile = () => {
     setPhoneError(error);
   };
 
+  // 저장된 시간대나 브라우저 시간대가 목록에 없으면 선택지에 추가
+  const timezoneOptions = [timezone, getLocalTimeZone()]
+    .filter((value, index, values) => values.indexOf(value) === index)
+    .filter((value) => !TIMEZONE_OPTIONS.some((option) => option.value === value))
+    .map((value) => ({ value, label: value }))
+    .concat(TIMEZONE_OPTIONS);
+
   const handleCancel = () => {
     navigate("/mypage");
   };
 
-  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     
-    if (!user || !profile) {
+    if (!profile) {
       setError("User not authenticated");
       return;
     }
@@ -183,56 +157,43 @@ const EditProfile = () => {
       return;
     }
 
-    try {
-      setIsSaving(true);
-      setError(null);
-
-      const token = state.tokens?.idToken;
-      if (!token) {
-        setError("인증 토큰을 찾을 수 없습니다. 다시 로그인해주세요.");
-        setIsSaving(false);
-        return;
-      }
+    setError(null);
 
-      // Prepare updates
-      const updates: any = {};
-      
-      if (nickname !== profile.nickname) {
-        updates.nickname = nickname;
-      }
-      if (bio !== (profile.bio || "")) {
-        updates.bio = bio;
-      }
-      if (phoneNumber !== (profile.phoneNumber || "")) {
-        // Send null if empty, otherwise send the phone number
-        updates.phone_number = phoneNumber.trim() === "" ? null : phoneNumber;
-      }
-      if (profilePreview !== (profile.profileImageUrl || "")) {
-        updates.profile_image_url = profilePreview || null;
-      }
-
-      // Update profile via API
-      const response = await fetch(`${import.meta.env.VITE_API_URL || 'http://localhost:3001'}/api/user/profile`, {
-        method: 'PUT',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(updates),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || '프로필 업데이트에 실패했습니다.');
-      }
-
-      setIsCompleteOpen(true);
-    } catch (err) {
-      console.error("Failed to update profile:", err);
-      setError(err instanceof Error ? err.message : "프로필 업데이트에 실패했습니다");
-    } finally {
-      setIsSaving(false);
+    // Prepare updates
+    const updates: UpdateProfileInput = {};
+    
+    if (nickname !== profile.nickname) {
+      updates.nickname = nickname;
     }
+    if (bio !== (profile.bio || "")) {
+      updates.bio = bio;
+    }
+    if (phoneNumber !== (profile.phoneNumber || "")) {
+      // Send null if empty, otherwise send the phone number
+      updates.phone_number = phoneNumber.trim() === "" ? null : phoneNumber;
+    }
+    if (timezone !== profile.timezone) {
+      updates.timezone = timezone;
+    }
+    if (profilePreview !== (profile.profileImageUrl || "")) {
+      updates.profile_image_url = profilePreview || null;
+    }
+
+    updateProfile.mutate(updates, {
+      onSuccess: () => setIsCompleteOpen(true),
+      onError: (err) => {
+        console.error("Failed to update profile:", err);
+        // 항목별 검증 오류는 입력란 옆에 표시
+        const fieldErrors = getFieldErrors(err);
+        if (fieldErrors.nickname || fieldErrors.bio || fieldErrors.phone_number) {
+          setNicknameError(fieldErrors.nickname ?? null);
+          setBioError(fieldErrors.bio ?? null);
+          setPhoneError(fieldErrors.phone_number ?? null);
+          return;
+        }
+        setError(err.message || "프로필 업데이트에 실패했습니다");
+      },
+    });
   };
 
   const handleConfirm = () => {
@@ -404,14 +365,14 @@ const EditProfile = () => {
                   className={`w-full rounded-lg border px-3 py-2 text-sm text-foreground outline-none focus-visible:ring-2 focus-visible:ring-ring ${
                     bioError ? "border-red-500 bg-red-50/10" : "border-border bg-background"
                   }`}
-                  placeholder="자기소개를 입력하세요 (최대 500자)"
+                  placeholder={`자기소개를 입력하세요 (최대 ${BIO_MAX_LENGTH}자)`}
                 />
                 <div className="flex justify-between items-center">
                   {bioError && (
                     <p className="text-xs text-red-500">{bioError}</p>
                   )}
-                  <p className={`text-xs ml-auto ${bio.length > 500 ? "text-red-500" : "text-muted-foreground"}`}>
-                    {bio.length} / 500
+                  <p className={`text-xs ml-auto ${bio.length > BIO_MAX_LENGTH ? "text-red-500" : "text-muted-foreground"}`}>
+                    {bio.length} / {BIO_MAX_LENGTH}
                   </p>
                 </div>
               </div>
@@ -439,6 +400,31 @@ const EditProfile = () => {
                 )}
               </div>
 
+              <div className="space-y-2">
+                <label
+                  htmlFor="timezone"
+                  className="text-sm font-medium text-foreground"
+                >
+                  시간대
+                </label>
+                <select
+                  id="timezone"
+                  name="timezone"
+                  value={timezone}
+                  onChange={(event) => setTimezone(event.target.value)}
+                  className="w-full rounded-lg border border-border bg-background px-3 py-2 text-sm text-foreground outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                >
+                  {timezoneOptions.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-muted-foreground">
+                  하루의 기준이 되는 시간대입니다. 연속 기록 일수를 계산할 때 사용돼요.
+                </p>
+              </div>
+
               <div className="flex flex-col gap-3 sm:flex-row pt-2">
                 <button
                   type="button"
@@ -1,42 +1,48 @@
 import { useState } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
 import { MainLayout } from "@/components/layout/MainLayout";
-import { BookOpen, ChevronRight, Calendar } from "lucide-react";
+import { BookOpen, ChevronRight, Calendar, Loader2, Sparkles } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { EmotionBadge } from "@/components/journal/EmotionCard";
+import { useAuth } from "@/contexts/AuthContext";
+import { apiRequestPage } from "@/lib/api";
+import type { JournalChapter } from "@/types/database";
 
-interface HistoryChapter {
-  id: string;
-  date: string;
-  title: string;
-  preview: string;
-  entries: number;
-}
-
-const mockHistory: HistoryChapter[] = [
-  {
-    id: "1",
-    date: "2024년 12월 22일",
-    title: "겨울의 시작",
-    preview: "오늘은 첫눈이 내렸다. 창밖을 바라보며 지난 시간들을 떠올렸다...",
-    entries: 5,
-  },
-  {
-    id: "2",
-    date: "2024년 12월 21일",
-    title: "조용한 하루",
-    preview: "아무것도 하지 않은 하루였지만, 그래서 더 평화로웠다...",
-    entries: 3,
-  },
-  {
-    id: "3",
-    date: "2024년 12월 20일",
-    title: "새로운 시작",
-    preview: "과거의 나를 기록하기 시작한 첫 날. 이 기록이 미래의 나에게...",
-    entries: 7,
-  },
-];
+const PAGE_SIZE = 10;
+
+const formatChapterDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("ko-KR", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
 
 const History = () => {
-  const [selectedChapter, setSelectedChapter] = useState<string | null>(null);
+  const { state } = useAuth();
+  const token = state.tokens?.idToken;
+  const [selectedChapter, setSelectedChapter] = useState<number | null>(null);
+
+  const {
+    data,
+    isLoading,
+    isError,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["journal-chapters"],
+    queryFn: ({ pageParam }) =>
+      apiRequestPage<JournalChapter>(`/api/journal/chapters?page=${pageParam}&pageSize=${PAGE_SIZE}`, {
+        token: token!,
+      }),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) =>
+      lastPage.pagination.hasNext ? lastPage.pagination.page + 1 : undefined,
+    enabled: !!token,
+  });
+
+  const chapters = data?.pages.flatMap((page) => page.data) ?? [];
 
   return (
     <MainLayout>
@@ -55,17 +61,29 @@ const History = () => {
             </p>
           </header>
 
+          {isLoading && (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-gold" />
+            </div>
+          )}
+
+          {isError && (
+            <p className="text-center font-serif text-sm text-destructive py-6">
+              {error instanceof Error ? error.message : "히스토리를 불러오지 못했습니다."}
+            </p>
+          )}
+
           {/* Chapter List */}
           <div className="space-y-4">
-            {mockHistory.map((chapter, index) => (
+            {chapters.map((chapter, index) => (
               <button
-                key={chapter.id}
+                key={chapter.chapterId}
                 onClick={() => setSelectedChapter(
-                  selectedChapter === chapter.id ? null : chapter.id
+                  selectedChapter === chapter.chapterId ? null : chapter.chapterId
                 )}
                 className={cn(
                   "w-full text-left paper-texture rounded-lg overflow-hidden transition-all duration-500 animate-fade-in",
-                  selectedChapter === chapter.id
+                  selectedChapter === chapter.chapterId
                     ? "shadow-book"
                     : "shadow-page hover:shadow-soft"
                 )}
@@ -80,11 +98,11 @@ const History = () => {
                       {/* Date as chapter number */}
                       <div className="flex items-center gap-2 mb-2">
                         <span className="font-serif text-sm text-ink/60">
-                          {chapter.date}
+                          {formatChapterDate(chapter.chapterDate)}
                         </span>
                         <span className="text-ink/40">·</span>
                         <span className="font-serif text-sm text-ink/60">
-                          {chapter.entries}개의 기록
+                          {chapter.entryCount}개의 기록
                         </span>
                       </div>
 
@@ -97,6 +115,21 @@ const History = () => {
                       <p className="font-handwriting text-ink/80 text-lg line-clamp-2 leading-relaxed">
                         {chapter.preview}
                       </p>
+
+                      {/* Emotion tags */}
+                      {chapter.emotions && chapter.emotions.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mt-4">
+                          {chapter.emotions.map((emotion) => (
+                            <EmotionBadge
+                              key={emotion.label}
+                              emotion={emotion.type}
+                              label={emotion.label}
+                              percentage={emotion.percentage}
+                              className="text-xs px-2 py-1"
+                            />
+                          ))}
+                        </div>
+                      )}
                     </div>
 
                     {/* Open indicator */}
@@ -104,7 +137,7 @@ const History = () => {
                       <div
                         className={cn(
                           "w-10 h-10 rounded-full bg-secondary/50 flex items-center justify-center transition-transform duration-300",
-                          selectedChapter === chapter.id && "rotate-90"
+                          selectedChapter === chapter.chapterId && "rotate-90"
                         )}
                       >
                         <ChevronRight className="w-5 h-5 text-gold" />
@@ -116,12 +149,26 @@ const History = () => {
                   <div
                     className={cn(
                       "overflow-hidden transition-all duration-500",
-                      selectedChapter === chapter.id
-                        ? "max-h-96 opacity-100 mt-6"
+                      selectedChapter === chapter.chapterId
+                        ? "max-h-[36rem] opacity-100 mt-6"
                         : "max-h-0 opacity-0"
                     )}
                   >
                     <div className="border-t border-ink/10 pt-6 page-lines">
+                      {chapter.summary && (
+                        <div className="mb-6">
+                          <div className="flex items-center gap-2 mb-3">
+                            <Sparkles className="w-5 h-5 text-gold" />
+                            <span className="font-serif text-sm text-ink/70">
+                              하루 요약
+                            </span>
+                          </div>
+                          <p className="font-handwriting text-ink/85 text-lg leading-relaxed tracking-wide whitespace-pre-wrap">
+                            {chapter.summary}
+                          </p>
+                        </div>
+                      )}
+
                       <div className="flex items-center gap-2 mb-4">
                         <BookOpen className="w-5 h-5 text-gold" />
                         <span className="font-serif text-sm text-ink/70">
@@ -129,16 +176,12 @@ const History = () => {
                         </span>
                       </div>
 
-                      <div className="space-y-5 font-handwriting text-ink/85 text-lg leading-relaxed tracking-wide">
-                        <p>
-                          이 날의 첫 번째 기록입니다. 아침에 일어나 창밖을 바라보았습니다.
-                        </p>
-                        <p>
-                          점심 무렵, 오래된 사진첩을 꺼내 보았습니다. 추억이 새록새록 떠올랐습니다.
-                        </p>
-                        <p>
-                          저녁에는 조용히 차를 마시며 하루를 정리했습니다.
-                        </p>
+                      <div className="space-y-5 font-handwriting text-ink/85 text-lg leading-relaxed tracking-wide max-h-72 overflow-y-auto pr-2">
+                        {(chapter.entries ?? []).map((entry) => (
+                          <p key={entry.entryId} className="whitespace-pre-wrap break-all">
+                            {entry.content}
+                          </p>
+                        ))}
                       </div>
                     </div>
                   </div>
@@ -147,8 +190,21 @@ const History = () => {
             ))}
           </div>
 
+          {hasNextPage && (
+            <div className="flex justify-center mt-8">
+              <button
+                type="button"
+                onClick={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
+                className="vintage-btn px-5 py-2 rounded-md font-serif text-sm text-sepia hover:text-gold transition-colors disabled:opacity-60"
+              >
+                {isFetchingNextPage ? "불러오는 중..." : "이전 기록 더 보기"}
+              </button>
+            </div>
+          )}
+
           {/* Empty state hint */}
-          {mockHistory.length === 0 && (
+          {!isLoading && !isError && chapters.length === 0 && (
             <div className="text-center py-20">
               <BookOpen className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
               <p className="font-handwriting text-xl text-muted-foreground">
@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { BarChart3, Loader2 } from "lucide-react";
+import { MainLayout } from "@/components/layout/MainLayout";
+import { EmotionBadge } from "@/components/journal/EmotionCard";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { useAuth } from "@/contexts/AuthContext";
+import { apiRequest, getLocalDateString } from "@/lib/api";
+import type { InsightsRange, JournalInsights } from "@/types/database";
+
+const RANGE_LABELS: Record<InsightsRange, string> = {
+  week: "최근 7일",
+  month: "최근 30일",
+  year: "최근 1년",
+};
+
+const emotionChartConfig = {
+  positive: { label: "긍정", color: "hsl(142 30% 45%)" },
+  neutral: { label: "중립", color: "hsl(var(--gold))" },
+  negative: { label: "부정", color: "hsl(350 40% 55%)" },
+} satisfies ChartConfig;
+
+const frequencyChartConfig = {
+  entryCount: { label: "기록 수", color: "hsl(var(--leather))" },
+} satisfies ChartConfig;
+
+const formatPeriod = (period: string, range: InsightsRange) => {
+  if (range === "year") {
+    return `${Number(period.slice(5, 7))}월`;
+  }
+  return `${Number(period.slice(5, 7))}/${Number(period.slice(8, 10))}`;
+};
+
+const Insights = () => {
+  const { state } = useAuth();
+  const token = state.tokens?.idToken;
+  const [range, setRange] = useState<InsightsRange>("week");
+  const today = getLocalDateString();
+
+  const { data: insights, isLoading, isError, error } = useQuery({
+    queryKey: ["journal-insights", range, today],
+    queryFn: () =>
+      apiRequest<JournalInsights>(`/api/journal/insights?range=${range}&date=${today}`, {
+        token: token!,
+      }),
+    enabled: !!token,
+  });
+
+  const chartData = (insights?.buckets ?? []).map((bucket) => ({
+    ...bucket,
+    label: formatPeriod(bucket.period, range),
+  }));
+  const hasEmotions = (insights?.topEmotions.length ?? 0) > 0;
+
+  return (
+    <MainLayout>
+      <div className="min-h-screen py-12 px-4">
+        <div className="max-w-4xl mx-auto">
+          {/* Header */}
+          <header className="text-center mb-10 animate-fade-in">
+            <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-secondary mb-4">
+              <BarChart3 className="w-8 h-8 text-gold" />
+            </div>
+            <h1 className="font-serif text-3xl text-primary mb-2 gold-accent">
+              인사이트
+            </h1>
+            <p className="font-handwriting text-xl text-muted-foreground">
+              내 마음이 어떻게 변해왔는지 살펴보세요
+            </p>
+          </header>
+
+          <div className="flex justify-center mb-8">
+            <Tabs value={range} onValueChange={(value) => setRange(value as InsightsRange)}>
+              <TabsList>
+                {(Object.keys(RANGE_LABELS) as InsightsRange[]).map((key) => (
+                  <TabsTrigger key={key} value={key} className="font-serif">
+                    {RANGE_LABELS[key]}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+          </div>
+
+          {isLoading && (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-gold" />
+            </div>
+          )}
+
+          {isError && (
+            <p className="text-center font-serif text-sm text-destructive py-6">
+              {error instanceof Error ? error.message : "인사이트를 불러오지 못했습니다."}
+            </p>
+          )}
+
+          {insights && (
+            <div className="space-y-6 animate-fade-in">
+              {/* Writing statistics */}
+              <div className="grid grid-cols-3 gap-4">
+                {[
+                  { label: "전체 기록", value: `${insights.totalEntries}개` },
+                  { label: "기록한 날", value: `${insights.activeDays}일` },
+                  { label: "하루 평균", value: `${insights.averageEntriesPerDay}개` },
+                ].map((stat) => (
+                  <div key={stat.label} className="paper-texture rounded-lg shadow-page p-5 text-center">
+                    <p className="font-serif text-sm text-ink/60 mb-1">{stat.label}</p>
+                    <p className="font-serif text-2xl text-ink">{stat.value}</p>
+                  </div>
+                ))}
+              </div>
+
+              {/* Emotion distribution over time */}
+              <section className="paper-texture rounded-lg shadow-page p-6">
+                <h2 className="font-serif text-lg text-ink mb-1">감정 흐름</h2>
+                <p className="font-serif text-sm text-ink/60 mb-4">
+                  히스토리에 등록한 챕터의 감정 비율
+                </p>
+
+                {hasEmotions ? (
+                  <>
+                    <ChartContainer config={emotionChartConfig} className="h-64 w-full">
+                      <AreaChart data={chartData}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} minTickGap={16} />
+                        <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+                        <ChartTooltip content={<ChartTooltipContent indicator="line" />} />
+                        <ChartLegend content={<ChartLegendContent />} />
+                        {(["positive", "neutral", "negative"] as const).map((type) => (
+                          <Area
+                            key={type}
+                            dataKey={type}
+                            type="monotone"
+                            stackId="emotions"
+                            fill={`var(--color-${type})`}
+                            fillOpacity={0.35}
+                            stroke={`var(--color-${type})`}
+                          />
+                        ))}
+                      </AreaChart>
+                    </ChartContainer>
+
+                    <div className="flex flex-wrap gap-2 mt-4">
+                      {insights.topEmotions.map((emotion) => (
+                        <EmotionBadge
+                          key={emotion.label}
+                          emotion={emotion.type}
+                          label={emotion.label}
+                          percentage={emotion.percentage}
+                        />
+                      ))}
+                    </div>
+                  </>
+                ) : (
+                  <p className="font-handwriting text-lg text-ink/60 text-center py-10">
+                    이 기간에 히스토리에 등록한 챕터가 없어요.
+                  </p>
+                )}
+              </section>
+
+              {/* Writing frequency */}
+              <section className="paper-texture rounded-lg shadow-page p-6">
+                <h2 className="font-serif text-lg text-ink mb-1">기록 빈도</h2>
+                <p className="font-serif text-sm text-ink/60 mb-4">
+                  {range === "year" ? "월별" : "일별"} 작성한 기록 수
+                </p>
+
+                <ChartContainer config={frequencyChartConfig} className="h-56 w-full">
+                  <BarChart data={chartData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} minTickGap={16} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="entryCount" fill="var(--color-entryCount)" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ChartContainer>
+              </section>
+            </div>
+          )}
+        </div>
+      </div>
+    </MainLayout>
+  );
+};
+
+export default Insights;
@@ -5,15 +5,18 @@ import { MainLayout } from "@/components/layout/MainLayout";
 import { LibraryItemCard } from "@/components/library/LibraryItemCard";
 import { DeleteConfirmModal } from "@/components/library/DeleteConfirmModal";
 import { AddItemModal } from "@/components/library/AddItemModal";
+import { ShareLinkModal } from "@/components/library/ShareLinkModal";
 import { useLibraryContext } from "@/contexts/LibraryContext";
 import { libraryTypeConfigs } from "@/data/libraryMockData";
 import { LibraryItem, LibraryItemType, LibraryItemVisibility } from "@/types/library";
 import { Dialog, DialogContent } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
 
 const LibraryDetailPage = () => {
   const { type } = useParams<{ type: string }>();
   const navigate = useNavigate();
   const { getItemsByType, deleteItems, addItem } = useLibraryContext();
+  const { toast } = useToast();
   const menuRef = useRef<HTMLDivElement | null>(null);
 
   const itemType = type as LibraryItemType;
@@ -25,6 +28,7 @@ const LibraryDetailPage = () => {
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [previewItem, setPreviewItem] = useState<LibraryItem | null>(null);
+  const [shareItem, setShareItem] = useState<LibraryItem | null>(null);
 
   const items = useMemo(() => getItemsByType(itemType), [getItemsByType, itemType]);
 
@@ -64,19 +68,27 @@ const LibraryDetailPage = () => {
     setSelectedIds([]);
   };
 
-  const handleDeleteConfirm = () => {
-    deleteItems(selectedIds);
-    setIsSelectionMode(false);
-    setSelectedIds([]);
+  const handleDeleteConfirm = async () => {
+    try {
+      await deleteItems(selectedIds);
+      setIsSelectionMode(false);
+      setSelectedIds([]);
+    } catch (error) {
+      toast({
+        title: "삭제 실패",
+        description: error instanceof Error ? error.message : "항목을 삭제하지 못했습니다.",
+        variant: "destructive",
+      });
+    }
   };
 
-  const handleAddItem = (item: { name: string; visibility: LibraryItemVisibility }) => {
+  const handleAddItem = (item: { file: File; name: string; visibility: LibraryItemVisibility }) =>
     addItem({
+      file: item.file,
       name: item.name,
       type: itemType,
       visibility: item.visibility,
     });
-  };
 
   const handleOpenPreview = (item: LibraryItem) => {
     if (item.type === "image" || item.type === "video") {
@@ -183,6 +195,7 @@ const LibraryDetailPage = () => {
                     isSelected={selectedIds.includes(item.id)}
                     onSelect={handleToggleSelect}
                     onOpen={handleOpenPreview}
+                    onShare={setShareItem}
                   />
                 </div>
               ))}
@@ -221,11 +234,15 @@ const LibraryDetailPage = () => {
         onAdd={handleAddItem}
       />
 
+      <ShareLinkModal item={shareItem} onClose={() => setShareItem(null)} />
+
       <Dialog open={!!previewItem} onOpenChange={() => setPreviewItem(null)}>
         <DialogContent className="max-w-4xl p-0 overflow-hidden">
-          {previewItem?.thumbnail ? (
+          {previewItem?.type === "video" && previewItem.contentUrl ? (
+            <video src={previewItem.contentUrl} controls autoPlay className="w-full h-full bg-black" />
+          ) : previewItem?.previewUrl || previewItem?.thumbnail ? (
             <img
-              src={previewItem.thumbnail}
+              src={previewItem.previewUrl ?? previewItem.thumbnail}
               alt={previewItem.name}
               className="w-full h-full object-contain"
             />
@@ -8,6 +8,7 @@ import { useLibraryContext } from "@/contexts/LibraryContext";
 import { libraryTypeConfigs } from "@/data/libraryMockData";
 import { LibraryItemType, LibraryItemVisibility } from "@/types/library";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AddItemModal } from "@/components/library/AddItemModal";
 
 const getIcon = (type: "image" | "document" | "video" | "file") => {
   switch (type) {
@@ -25,6 +26,7 @@ const getIcon = (type: "image" | "document" | "video" | "file") => {
 const LibraryPage = () => {
   const [isUploadMenuOpen, setIsUploadMenuOpen] = useState(false);
   const [openItemMenuId, setOpenItemMenuId] = useState<string | null>(null);
+  const [uploadType, setUploadType] = useState<LibraryItemType | null>(null);
   const [visibilityModal, setVisibilityModal] = useState<{
     isOpen: boolean;
     type: LibraryItemType | null;
@@ -36,7 +38,7 @@ const LibraryPage = () => {
   });
   const uploadMenuRef = useRef<HTMLDivElement | null>(null);
   const navigate = useNavigate();
-  const { getLatestItemByType, getItemCountByType, getItemsByType } = useLibraryContext();
+  const { getLatestItemByType, getItemCountByType, getItemsByType, addItem } = useLibraryContext();
 
   const formatDate = (date: Date) => {
     const year = date.getFullYear();
@@ -98,8 +100,10 @@ const LibraryPage = () => {
 
   const handleUploadClick = (target: "video" | "image" | "document" | "file") => {
     setIsUploadMenuOpen(false);
-    // TODO: 실제 업로드 로직을 연결하세요.
+    // 선택한 타입으로 업로드 모달 열기.
+    setUploadType(target);
   };
+  const uploadConfig = libraryTypeConfigs.find((config) => config.type === uploadType);
   const handleVisibilityOpen = (type: LibraryItemType, visibility: LibraryItemVisibility) => {
     // 공개 상태별 목록을 팝업으로 표시.
     setOpenItemMenuId(null);
@@ -359,6 +363,16 @@ const LibraryPage = () => {
               </div>
             </DialogContent>
           </Dialog>
+
+          {uploadType && uploadConfig && (
+            <AddItemModal
+              isOpen
+              onClose={() => setUploadType(null)}
+              itemType={uploadType}
+              typeLabel={uploadConfig.label}
+              onAdd={(item) => addItem({ ...item, type: uploadType })}
+            />
+          )}
         </div>
       </div>
     </MainLayout>
@@ -1,14 +1,31 @@
 import type React from "react";
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
 import { MainLayout } from "@/components/layout/MainLayout";
+import { InquiryHistoryPanel } from "@/components/inquiry/InquiryHistoryPanel";
 import { useAuth } from "@/contexts/AuthContext";
-// TODO: These services should not be imported in frontend - use API client instead
-// import { getUserService } from "@/services/userService";
-// import { getAuthService } from "@/services/authService";
-// import { getReportService } from "@/services/reportService";
-// import { getInquiryService } from "@/services/inquiryService";
-import type { FullUserProfile } from "@/types/database";
+import { useProfile } from "@/hooks/useProfile";
+import { useCreateInquiry } from "@/hooks/useInquiries";
+import {
+  useConfirmPasswordReset,
+  useCreateReport,
+  useDeleteAccount,
+  useRequestPasswordReset,
+} from "@/hooks/useAccount";
+import { ApiError, apiRequest, getFieldErrors } from "@/lib/api";
+import { validateField, validateFields, type FieldErrors } from "@/schemas/common";
+import {
+  INQUIRY_MESSAGE_MAX_LENGTH,
+  INQUIRY_SUBJECT_MAX_LENGTH,
+  REPORT_DESCRIPTION_MAX_LENGTH,
+  confirmPasswordResetSchema,
+  createInquirySchema,
+  createReportSchema,
+  newPasswordSchema,
+  type CreateReportInput,
+} from "@/schemas/user";
+import type { WritingStreak } from "@/types/database";
 import {
   User,
   MessageCircle,
@@ -18,11 +35,20 @@ import {
   Lock,
   X,
   Loader2,
+  Award,
+  Flame,
 } from "lucide-react";
 
 const cn = (...classes: Array<string | false | null | undefined>) =>
   classes.filter(Boolean).join(" ");
 
+// 검증 오류가 있는 입력란은 붉은 테두리로 표시
+const inputClass = (error?: string) =>
+  cn(
+    "w-full rounded-lg border px-3 py-2 text-sm text-foreground outline-none focus-visible:ring-2 focus-visible:ring-ring",
+    error ? "border-red-500 bg-red-50/10" : "border-border bg-background"
+  );
+
 interface MenuItem {
   id: string;
   label: string;
@@ -32,6 +58,12 @@ interface MenuItem {
 }
 
 const menuItems: MenuItem[] = [
+  {
+    id: "achievements",
+    label: "업적",
+    icon: Award,
+    description: "달성한 업적과 진행 상황을 확인하세요",
+  },
   {
     id: "inquiry",
     label: "문의",
@@ -76,16 +108,23 @@ const MyPage = () => {
   const navigate = useNavigate();
   const { signOut, state } = useAuth();
   const user = state.user;
-  
-  // Profile state
-  const [profile, setProfile] = useState<FullUserProfile | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+
+  // Profile
+  const { data: profile, isLoading, error: profileError } = useProfile();
+  const error = profileError ? "프로필을 불러오는데 실패했습니다." : null;
+
+  const deleteAccount = useDeleteAccount();
+  const createReport = useCreateReport();
+  const createInquiry = useCreateInquiry();
+  const requestPasswordReset = useRequestPasswordReset();
+  const confirmPasswordReset = useConfirmPasswordReset();
   
   // Modal states
   const [isWithdrawOpen, setIsWithdrawOpen] = useState(false);
   const [isWithdrawAgreed, setIsWithdrawAgreed] = useState(false);
-  const [isWithdrawCompleteOpen, setIsWithdrawCompleteOpen] = useState(false);
+  const [withdrawPassword, setWithdrawPassword] = useState("");
+  const [withdrawErrors, setWithdrawErrors] = useState<FieldErrors>({});
+  const [withdrawPurgeAt, setWithdrawPurgeAt] = useState<Date | string | null>(null);
   const [isLogoutConfirmOpen, setIsLogoutConfirmOpen] = useState(false);
   const [isLogoutCompleteOpen, setIsLogoutCompleteOpen] = useState(false);
   const [isReportOpen, setIsReportOpen] = useState(false);
@@ -99,63 +138,32 @@ const MyPage = () => {
   const [currentPassword, setCurrentPassword] = useState("");
   const [newPassword, setNewPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
+  const [passwordErrors, setPasswordErrors] = useState<FieldErrors>({});
   
   // Report form state
   const [reportedUserId, setReportedUserId] = useState("");
-  const [reportReason, setReportReason] = useState<'spam' | 'harassment' | 'inappropriate_content' | 'other'>('spam');
+  const [reportReason, setReportReason] = useState<CreateReportInput["reason"]>('spam');
   const [reportDescription, setReportDescription] = useState("");
+  const [reportErrors, setReportErrors] = useState<FieldErrors>({});
   
   // Inquiry form state
   const [inquirySubject, setInquirySubject] = useState("");
   const [inquiryMessage, setInquiryMessage] = useState("");
+  const [inquiryErrors, setInquiryErrors] = useState<FieldErrors>({});
 
-  // Fetch profile data on mount
-  useEffect(() => {
-    const fetchProfile = async () => {
-      if (!user) {
-        setError("User not authenticated");
-        setIsLoading(false);
-        return;
-      }
-
-      try {
-        setIsLoading(true);
-        setError(null);
-        
-        const token = state.tokens?.idToken;
-        if (!token) {
-          setError("인증 토큰을 찾을 수 없습니다.");
-          setIsLoading(false);
-          return;
-        }
-
-        // Fetch profile from API
-        const response = await fetch(`${import.meta.env.VITE_API_URL || 'http://localhost:3001'}/api/user/profile`, {
-          headers: {
-            'Authorization': `Bearer ${token}`,
-          },
-        });
-
-        if (!response.ok) {
-          throw new Error('프로필을 불러오는데 실패했습니다.');
-        }
-
-        const data = await response.json();
-        setProfile(data.data);
-      } catch (err) {
-        console.error("Failed to fetch profile:", err);
-        setError(err instanceof Error ? err.message : "Failed to load profile");
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    fetchProfile();
-  }, [user, state.tokens]);
+  // Writing streak
+  const { data: streak } = useQuery({
+    queryKey: ["journal-streak"],
+    queryFn: () =>
+      apiRequest<WritingStreak>("/api/journal/streak?days=0", { token: state.tokens!.idToken }),
+    enabled: !!state.tokens?.idToken,
+  });
 
   const closeWithdrawModal = () => {
     setIsWithdrawOpen(false);
     setIsWithdrawAgreed(false);
+    setWithdrawPassword("");
+    setWithdrawErrors({});
   };
 
   const handleWithdrawConfirm = async () => {
@@ -165,32 +173,11 @@ const MyPage = () => {
     }
 
     try {
-      // Get token from auth state
-      const token = state.tokens?.idToken;
-
-      if (!token) {
-        alert("인증 토큰을 찾을 수 없습니다. 다시 로그인해주세요.");
-        return;
-      }
+      const pendingDeletion = await deleteAccount.mutateAsync(withdrawPassword || undefined);
 
-      // Call backend API to delete account
-      const response = await fetch(`${import.meta.env.VITE_API_URL || 'http://localhost:3001'}/api/user/account`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || '회원 탈퇴에 실패했습니다.');
-      }
-
-      // Close modal and show completion message
-      setIsWithdrawOpen(false);
-      setIsWithdrawAgreed(false);
-      setIsWithdrawCompleteOpen(true);
+      // Close modal and show completion message with the end of the grace period
+      closeWithdrawModal();
+      setWithdrawPurgeAt(pendingDeletion.purgeAt);
 
       // Sign out and redirect after 2 seconds
       const handleSignOutAndRedirect = async () => {
@@ -208,15 +195,24 @@ const MyPage = () => {
       }, 2000);
 
     } catch (error) {
+      if (error instanceof ApiError && error.status === 401) {
+        setWithdrawErrors({ password: '비밀번호가 올바르지 않습니다.' });
+        setWithdrawPassword("");
+        return;
+      }
+      const fieldErrors = getFieldErrors(error);
+      if (Object.keys(fieldErrors).length > 0) {
+        setWithdrawErrors(fieldErrors);
+        return;
+      }
       console.error("회원 탈퇴 실패:", error);
       alert(error instanceof Error ? error.message : "회원 탈퇴에 실패했습니다. 다시 시도해주세요.");
-      setIsWithdrawOpen(false);
-      setIsWithdrawAgreed(false);
+      setWithdrawPassword("");
     }
   };
 
   const closeWithdrawCompleteModal = () => {
-    setIsWithdrawCompleteOpen(false);
+    setWithdrawPurgeAt(null);
   };
 
   const openLogoutConfirm = () => {
@@ -259,6 +255,7 @@ const MyPage = () => {
     setReportedUserId("");
     setReportReason('spam');
     setReportDescription("");
+    setReportErrors({});
   };
 
   const handleReportSubmit = async () => {
@@ -267,35 +264,19 @@ const MyPage = () => {
       return;
     }
 
-    if (!reportedUserId.trim()) {
-      alert("신고할 회원의 닉네임 또는 이메일을 입력해주세요.");
+    const report: CreateReportInput = {
+      reported_user_identifier: reportedUserId,
+      reason: reportReason,
+      description: reportDescription || undefined,
+    };
+    const errors = validateFields(createReportSchema, report);
+    setReportErrors(errors ?? {});
+    if (errors) {
       return;
     }
 
     try {
-      const token = state.tokens?.idToken;
-      if (!token) {
-        alert("인증 토큰을 찾을 수 없습니다. 다시 로그인해주세요.");
-        return;
-      }
-
-      const response = await fetch(`${import.meta.env.VITE_API_URL || 'http://localhost:3001'}/api/user/report`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          reported_user_identifier: reportedUserId,
-          reason: reportReason,
-          description: reportDescription || undefined,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || '신고 접수에 실패했습니다.');
-      }
+      await createReport.mutateAsync(report);
 
       setIsReportOpen(false);
       setReportedUserId("");
@@ -303,6 +284,16 @@ const MyPage = () => {
       setReportDescription("");
       setIsReportCompleteOpen(true);
     } catch (error) {
+      const fieldErrors = getFieldErrors(error);
+      if (Object.keys(fieldErrors).length > 0) {
+        setReportErrors(fieldErrors);
+        return;
+      }
+      // 신고 대상을 찾지 못하면 대상 입력란에 표시
+      if (error instanceof ApiError && error.status === 404) {
+        setReportErrors({ reported_user_identifier: error.message });
+        return;
+      }
       console.error("신고 접수 실패:", error);
       alert(error instanceof Error ? error.message : "신고 접수에 실패했습니다. 다시 시도해주세요.");
     }
@@ -316,6 +307,7 @@ const MyPage = () => {
     setIsInquiryOpen(false);
     setInquirySubject("");
     setInquiryMessage("");
+    setInquiryErrors({});
   };
 
   const handleInquirySubmit = async () => {
@@ -324,40 +316,26 @@ const MyPage = () => {
       return;
     }
 
-    if (!inquirySubject.trim() || !inquiryMessage.trim()) {
-      alert("제목과 문의 내용을 모두 입력해주세요.");
+    const inquiry = { subject: inquirySubject, message: inquiryMessage };
+    const errors = validateFields(createInquirySchema, inquiry);
+    setInquiryErrors(errors ?? {});
+    if (errors) {
       return;
     }
 
     try {
-      const token = state.tokens?.idToken;
-      if (!token) {
-        alert("인증 토큰을 찾을 수 없습니다. 다시 로그인해주세요.");
-        return;
-      }
-
-      const response = await fetch(`${import.meta.env.VITE_API_URL || 'http://localhost:3001'}/api/user/inquiry`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          subject: inquirySubject,
-          message: inquiryMessage,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || '문의 접수에 실패했습니다.');
-      }
+      await createInquiry.mutateAsync(inquiry);
 
       setIsInquiryOpen(false);
       setInquirySubject("");
       setInquiryMessage("");
       setIsInquiryCompleteOpen(true);
     } catch (error) {
+      const fieldErrors = getFieldErrors(error);
+      if (Object.keys(fieldErrors).length > 0) {
+        setInquiryErrors(fieldErrors);
+        return;
+      }
       console.error("문의 접수 실패:", error);
       alert(error instanceof Error ? error.message : "문의 접수에 실패했습니다. 다시 시도해주세요.");
     }
@@ -373,11 +351,13 @@ const MyPage = () => {
     setNewPassword("");
     setConfirmPassword("");
     setVerificationCode("");
+    setPasswordErrors({});
   };
 
   const closeVerifyCodeModal = () => {
     setIsVerifyCodeOpen(false);
     setVerificationCode("");
+    setPasswordErrors({});
   };
 
   const handleChangePasswordSubmit = async () => {
@@ -386,6 +366,13 @@ const MyPage = () => {
       alert("새 비밀번호와 비밀번호 확인이 일치하지 않습니다.");
       return;
     }
+
+    // 인증 코드를 보내기 전에 새 비밀번호가 정책에 맞는지 확인
+    const newPasswordError = validateField(newPasswordSchema, newPassword);
+    setPasswordErrors(newPasswordError ? { newPassword: newPasswordError } : {});
+    if (newPasswordError) {
+      return;
+    }
     
     if (!user) {
       alert("사용자 인증 정보가 없습니다.");
@@ -393,28 +380,8 @@ const MyPage = () => {
     }
 
     try {
-      const token = state.tokens?.idToken;
-      if (!token) {
-        alert("인증 토큰을 찾을 수 없습니다. 다시 로그인해주세요.");
-        return;
-      }
-
       // 비밀번호 재설정 코드를 이메일로 전송
-      const response = await fetch(`${import.meta.env.VITE_API_URL || 'http://localhost:3001'}/api/user/password-reset`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          email: user.email,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || '비밀번호 변경 요청에 실패했습니다.');
-      }
+      await requestPasswordReset.mutateAsync(user.email);
 
       // 첫 번째 모달 닫고 인증 코드 입력 모달 열기
       setIsChangePasswordOpen(false);
@@ -426,41 +393,21 @@ const MyPage = () => {
   };
 
   const handleVerifyCodeSubmit = async () => {
-    if (!verificationCode.trim()) {
-      alert("인증 코드를 입력해주세요.");
+    if (!user) {
+      alert("사용자 인증 정보가 없습니다.");
       return;
     }
 
-    if (!user) {
-      alert("사용자 인증 정보가 없습니다.");
+    const confirmation = { email: user.email, code: verificationCode, newPassword };
+    const errors = validateFields(confirmPasswordResetSchema, confirmation);
+    setPasswordErrors(errors ?? {});
+    if (errors) {
       return;
     }
 
     try {
-      const token = state.tokens?.idToken;
-      if (!token) {
-        alert("인증 토큰을 찾을 수 없습니다. 다시 로그인해주세요.");
-        return;
-      }
-
       // 인증 코드로 비밀번호 변경 확인
-      const response = await fetch(`${import.meta.env.VITE_API_URL || 'http://localhost:3001'}/api/user/password-reset/confirm`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          email: user.email,
-          code: verificationCode,
-          newPassword: newPassword,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || '비밀번호 변경에 실패했습니다.');
-      }
+      await confirmPasswordReset.mutateAsync(confirmation);
 
       // 성공 시 모든 모달 닫고 완료 모달 열기
       setIsVerifyCodeOpen(false);
@@ -470,6 +417,11 @@ const MyPage = () => {
       setVerificationCode("");
       setIsChangePasswordCompleteOpen(true);
     } catch (error) {
+      const fieldErrors = getFieldErrors(error);
+      if (Object.keys(fieldErrors).length > 0) {
+        setPasswordErrors(fieldErrors);
+        return;
+      }
       console.error("비밀번호 변경 실패:", error);
       alert(error instanceof Error ? error.message : "비밀번호 변경에 실패했습니다. 인증 코드를 확인해주세요.");
     }
@@ -527,6 +479,25 @@ const MyPage = () => {
                       {profile.email}
                     </p>
                   </div>
+
+                  {streak && (
+                    <div className="text-right shrink-0">
+                      <div
+                        className={cn(
+                          "inline-flex items-center gap-1 rounded-full px-3 py-1 text-sm font-semibold",
+                          streak.currentStreak > 0
+                            ? "bg-yellow-700/10 text-yellow-700"
+                            : "bg-secondary text-muted-foreground"
+                        )}
+                      >
+                        <Flame className="w-4 h-4" />
+                        {streak.currentStreak}일 연속
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        최장 {streak.longestStreak}일
+                      </p>
+                    </div>
+                  )}
                 </div>
 
                 {/* Additional Profile Info */}
@@ -570,6 +541,9 @@ const MyPage = () => {
                         if (item.id === "logout") {
                           openLogoutConfirm();
                         }
+                        if (item.id === "achievements") {
+                          navigate("/achievements");
+                        }
                         if (item.id === "edit") {
                           navigate("/edit-profile");
                         }
@@ -613,6 +587,8 @@ const MyPage = () => {
                 })}
             </div>
 
+            <InquiryHistoryPanel />
+
             <div className="bg-card rounded-lg shadow-md overflow-hidden border border-border">
               {menuItems
                 .filter((item) => item.variant === "danger")
@@ -678,10 +654,31 @@ const MyPage = () => {
               <h3 className="font-semibold text-foreground">회원 탈퇴</h3>
             </div>
             <p className="text-sm text-muted-foreground whitespace-pre-line mb-6">
-              회원정보 및 기록, 사진 등 서비스 이용기록은 모두 삭제되며, 삭제된 데이터는 복구되지 않습니다.
+              탈퇴 후 유예 기간 동안은 다시 로그인하여 계정을 복구할 수 있습니다.
+              {"\n"}유예 기간이 지나면 회원정보 및 기록, 사진 등 서비스 이용기록은 모두 삭제되며, 삭제된 데이터는 복구되지 않습니다.
               {"\n"}삭제되는 내용을 확인하시고 필요한 데이터는 미리 백업을 해주세요.
             </p>
 
+            <label className="block mb-4">
+              <span className="text-sm text-foreground">비밀번호 확인</span>
+              <input
+                type="password"
+                autoComplete="current-password"
+                className={cn(
+                  "mt-1 w-full rounded-lg border px-3 py-2 text-sm",
+                  withdrawErrors.password ? "border-red-500 bg-red-50/10" : "border-border bg-background"
+                )}
+                value={withdrawPassword}
+                onChange={(event) => setWithdrawPassword(event.target.value)}
+              />
+              {withdrawErrors.password && (
+                <span className="mt-1 block text-xs text-red-500">{withdrawErrors.password}</span>
+              )}
+              <span className="mt-1 block text-xs text-muted-foreground">
+                Google 계정으로 가입한 경우 입력하지 않아도 됩니다.
+              </span>
+            </label>
+
             <label className="flex items-start gap-3 rounded-lg border border-border bg-secondary/30 p-4">
               <input
                 type="checkbox"
@@ -718,7 +715,7 @@ const MyPage = () => {
         </div>
       )}
 
-      {isWithdrawCompleteOpen && (
+      {withdrawPurgeAt && (
         <div className="fixed inset-0 z-50 flex items-center justify-center px-4">
           <button
             type="button"
@@ -728,6 +725,9 @@ const MyPage = () => {
           />
           <div className="relative w-full max-w-sm bg-card rounded-xl shadow-xl border border-border p-6 text-center">
             <p className="text-sm text-foreground">회원 탈퇴 되었습니다.</p>
+            <p className="mt-1 text-xs text-muted-foreground">
+              {`${new Date(withdrawPurgeAt).toLocaleString('ko-KR')}까지 다시 로그인하면 계정을 복구할 수 있습니다.`}
+            </p>
             <button
               type="button"
               className="mt-5 w-full rounded-lg bg-primary px-4 py-2 text-sm font-semibold text-primary-foreground transition-colors hover:bg-primary/90"
@@ -830,10 +830,13 @@ const MyPage = () => {
                   type="text"
                   value={reportedUserId}
                   onChange={(e) => setReportedUserId(e.target.value)}
-                  className="w-full rounded-lg border border-border bg-background px-3 py-2 text-sm text-foreground outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                  className={inputClass(reportErrors.reported_user_identifier)}
                   placeholder="닉네임 또는 이메일을 입력하세요"
                   required
                 />
+                {reportErrors.reported_user_identifier && (
+                  <p className="text-xs text-red-500">{reportErrors.reported_user_identifier}</p>
+                )}
               </div>
 
               <div className="space-y-2">
@@ -846,8 +849,8 @@ const MyPage = () => {
                 <select
                   id="report-reason-select"
                   value={reportReason}
-                  onChange={(e) => setReportReason(e.target.value as any)}
-                  className="w-full rounded-lg border border-border bg-background px-3 py-2 text-sm text-foreground outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                  onChange={(e) => setReportReason(e.target.value as CreateReportInput["reason"])}
+                  className={inputClass(reportErrors.reason)}
                   required
                 >
                   <option value="spam">스팸</option>
@@ -855,6 +858,9 @@ const MyPage = () => {
                   <option value="inappropriate_content">부적절한 콘텐츠</option>
                   <option value="other">기타</option>
                 </select>
+                {reportErrors.reason && (
+                  <p className="text-xs text-red-500">{reportErrors.reason}</p>
+                )}
               </div>
 
               <div className="space-y-2">
@@ -870,13 +876,18 @@ const MyPage = () => {
                   value={reportDescription}
                   onChange={(e) => setReportDescription(e.target.value)}
                   rows={4}
-                  maxLength={1000}
-                  className="w-full rounded-lg border border-border bg-background px-3 py-2 text-sm text-foreground outline-none focus-visible:ring-2 focus-visible:ring-ring"
-                  placeholder="신고 사유를 상세히 입력하세요 (최대 1000자)"
+                  maxLength={REPORT_DESCRIPTION_MAX_LENGTH}
+                  className={inputClass(reportErrors.description)}
+                  placeholder={`신고 사유를 상세히 입력하세요 (최대 ${REPORT_DESCRIPTION_MAX_LENGTH}자)`}
                 />
-                <p className="text-xs text-muted-foreground text-right">
-                  {reportDescription.length} / 1000
-                </p>
+                <div className="flex justify-between items-center">
+                  {reportErrors.description && (
+                    <p className="text-xs text-red-500">{reportErrors.description}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground ml-auto">
+                    {reportDescription.length} / {REPORT_DESCRIPTION_MAX_LENGTH}
+                  </p>
+                </div>
               </div>
             </div>
 
@@ -963,14 +974,19 @@ const MyPage = () => {
                   type="text"
                   value={inquirySubject}
                   onChange={(e) => setInquirySubject(e.target.value)}
-                  maxLength={200}
-                  className="w-full rounded-lg border border-border bg-background px-3 py-2 text-sm text-foreground outline-none focus-visible:ring-2 focus-visible:ring-ring"
-                  placeholder="문의 제목을 입력하세요 (최대 200자)"
+                  maxLength={INQUIRY_SUBJECT_MAX_LENGTH}
+                  className={inputClass(inquiryErrors.subject)}
+                  placeholder={`문의 제목을 입력하세요 (최대 ${INQUIRY_SUBJECT_MAX_LENGTH}자)`}
                   required
                 />
-                <p className="text-xs text-muted-foreground text-right">
-                  {inquirySubject.length} / 200
-                </p>
+                <div className="flex justify-between items-center">
+                  {inquiryErrors.subject && (
+                    <p className="text-xs text-red-500">{inquiryErrors.subject}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground ml-auto">
+                    {inquirySubject.length} / {INQUIRY_SUBJECT_MAX_LENGTH}
+                  </p>
+                </div>
               </div>
 
               <div className="space-y-2">
@@ -986,14 +1002,19 @@ const MyPage = () => {
                   value={inquiryMessage}
                   onChange={(e) => setInquiryMessage(e.target.value)}
                   rows={5}
-                  maxLength={2000}
-                  className="w-full rounded-lg border border-border bg-background px-3 py-2 text-sm text-foreground outline-none focus-visible:ring-2 focus-visible:ring-ring"
-                  placeholder="문의 내용을 입력하세요 (최대 2000자)"
+                  maxLength={INQUIRY_MESSAGE_MAX_LENGTH}
+                  className={inputClass(inquiryErrors.message)}
+                  placeholder={`문의 내용을 입력하세요 (최대 ${INQUIRY_MESSAGE_MAX_LENGTH}자)`}
                   required
                 />
-                <p className="text-xs text-muted-foreground text-right">
-                  {inquiryMessage.length} / 2000
-                </p>
+                <div className="flex justify-between items-center">
+                  {inquiryErrors.message && (
+                    <p className="text-xs text-red-500">{inquiryErrors.message}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground ml-auto">
+                    {inquiryMessage.length} / {INQUIRY_MESSAGE_MAX_LENGTH}
+                  </p>
+                </div>
               </div>
             </div>
 
@@ -1098,9 +1119,12 @@ const MyPage = () => {
                   type="password"
                   value={newPassword}
                   onChange={(e) => setNewPassword(e.target.value)}
-                  className="w-full rounded-lg border border-border bg-background px-3 py-2 text-sm text-foreground outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                  className={inputClass(passwordErrors.newPassword)}
                   placeholder="새 비밀번호를 입력하세요"
                 />
+                {passwordErrors.newPassword && (
+                  <p className="text-xs text-red-500">{passwordErrors.newPassword}</p>
+                )}
               </div>
 
               <div className="space-y-2">
@@ -1180,12 +1204,18 @@ const MyPage = () => {
                 </label>
                 <input
                   type="text"
-                  className="w-full rounded-lg border border-border bg-background px-4 py-2 text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+                  className={cn(
+                    "w-full rounded-lg border px-4 py-2 text-foreground focus:outline-none focus:ring-2 focus:ring-primary",
+                    passwordErrors.code ? "border-red-500 bg-red-50/10" : "border-border bg-background"
+                  )}
                   placeholder="6자리 코드 입력"
                   value={verificationCode}
                   onChange={(e) => setVerificationCode(e.target.value)}
                   maxLength={6}
                 />
+                {(passwordErrors.code || passwordErrors.newPassword) && (
+                  <p className="mt-1 text-xs text-red-500">{passwordErrors.code ?? passwordErrors.newPassword}</p>
+                )}
               </div>
             </div>
             <div className="mt-6 flex gap-3">
@@ -1,6 +1,11 @@
-import { useState, useEffect } from "react";
 import { useTranslation } from "react-i18next";
 import { MainLayout } from "@/components/layout/MainLayout";
+import { DataExportCard } from "@/components/settings/DataExportCard";
+import { JournalImportCard } from "@/components/settings/JournalImportCard";
+import { NotificationPreferencesCard } from "@/components/settings/NotificationPreferencesCard";
+import { ReminderScheduleCard } from "@/components/settings/ReminderScheduleCard";
+import { useToast } from "@/hooks/use-toast";
+import { useUserSettings } from "@/hooks/useUserSettings";
 import {
   Settings as SettingsIcon,
   Bell,
@@ -10,6 +15,8 @@ import {
   ChevronRight,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { DEFAULT_USER_SETTINGS } from "@/lib/userSettings";
+import type { LanguagePreference } from "@/types/database";
 
 interface SettingItem {
   id: string;
@@ -54,64 +61,50 @@ const settingsData: SettingItem[] = [
   },
 ];
 
+const nextLanguage: Record<LanguagePreference, LanguagePreference> = {
+  ko: "en",
+  en: "ja",
+  ja: "ko",
+};
+
 const Settings = () => {
-  const { t, i18n } = useTranslation();
-  const [settings, setSettings] = useState(settingsData);
-  const [theme, setTheme] = useState<"night" | "day">("night");
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { settings: saved, updateSettings } = useUserSettings();
+  const current = saved ?? DEFAULT_USER_SETTINGS;
+
+  /* =============================
+     SAVED VALUES → LIST
+     ============================= */
+  const settings = settingsData.map((item) => {
+    if (item.id === "notifications") return { ...item, value: current.notificationsEnabled };
+    if (item.id === "theme") return { ...item, value: `settings.theme.${current.theme}` };
+    return item;
+  });
 
   /* =============================
-     THEME APPLY
+     SAVE (서버에 저장, 실패 시 이전 값으로 복원)
      ============================= */
-  useEffect(() => {
-    document.body.setAttribute(
-      "data-theme",
-      theme === "night" ? "night-library" : "day-library"
-    );
-  }, [theme]);
+  const save = (updates: Parameters<typeof updateSettings>[0]) =>
+    updateSettings(updates, {
+      onError: (error: Error) =>
+        toast({ title: t("settings.saveFailed"), description: error.message, variant: "destructive" }),
+    });
 
   /* =============================
      TOGGLE (알림)
      ============================= */
-  const toggleSetting = (id: string) => {
-    setSettings((prev) =>
-      prev.map((item) =>
-        item.id === id && item.type === "toggle"
-          ? { ...item, value: !item.value }
-          : item
-      )
-    );
-  };
+  const toggleNotifications = () => save({ notificationsEnabled: !current.notificationsEnabled });
 
   /* =============================
      LANGUAGE CHANGE
      ============================= */
-  const changeLanguage = () => {
-    const current = i18n.language;
-    if (current === "ko") i18n.changeLanguage("en");
-    else if (current === "en") i18n.changeLanguage("ja");
-    else i18n.changeLanguage("ko");
-  };
+  const changeLanguage = () => save({ language: nextLanguage[current.language] });
 
   /* =============================
      THEME CHANGE
      ============================= */
-  const changeTheme = () => {
-    setTheme((prev) => (prev === "night" ? "day" : "night"));
-
-    setSettings((prev) =>
-      prev.map((item) =>
-        item.id === "theme"
-          ? {
-              ...item,
-              value:
-                theme === "night"
-                  ? "settings.theme.day"
-                  : "settings.theme.night",
-            }
-          : item
-      )
-    );
-  };
+  const changeTheme = () => save({ theme: current.theme === "night" ? "day" : "night" });
 
   return (
     <MainLayout>
@@ -141,7 +134,7 @@ const Settings = () => {
                     className="p-5 pl-6 flex items-center gap-4 animate-fade-in group hover:bg-secondary/20 transition-colors cursor-pointer"
                     style={{ animationDelay: `${index * 100}ms` }}
                     onClick={() => {
-                      if (item.type === "toggle") toggleSetting(item.id);
+                      if (item.id === "notifications") toggleNotifications();
                       if (item.id === "language") changeLanguage();
                       if (item.id === "theme") changeTheme();
                     }}
@@ -197,6 +190,11 @@ const Settings = () => {
               })}
             </div>
           </div>
+
+          <NotificationPreferencesCard />
+          <ReminderScheduleCard />
+          <JournalImportCard />
+          <DataExportCard />
         </div>
       </div>
     </MainLayout>
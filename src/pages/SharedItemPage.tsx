@@ -0,0 +1,119 @@
+import { useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { Download, File, FileText, Link2Off, Loader2 } from "lucide-react";
+import { API_BASE_URL, apiRequest } from "@/lib/api";
+import type { SharedLibraryItem } from "@/types/database";
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+// 공유 링크로 받은 항목을 로그인 없이 읽기 전용으로 보여주는 페이지.
+const SharedItemPage = () => {
+  const { token = "" } = useParams<{ token: string }>();
+
+  const { data: item, isLoading, isError } = useQuery({
+    queryKey: ["shared-item", token],
+    queryFn: () => apiRequest<SharedLibraryItem>(`/api/public/share/${encodeURIComponent(token)}`, {}),
+    retry: false,
+  });
+
+  const resolveUrl = (url: string | null) => (url ? `${API_BASE_URL}${url}` : undefined);
+
+  const renderContent = (sharedItem: SharedLibraryItem) => {
+    const contentUrl = resolveUrl(sharedItem.contentUrl);
+
+    if (sharedItem.type === "image" || sharedItem.mimeType.startsWith("image/")) {
+      return (
+        <img
+          src={resolveUrl(sharedItem.previewUrl) ?? contentUrl}
+          alt={sharedItem.name}
+          className="w-full max-h-[70vh] object-contain rounded-lg bg-secondary/30"
+        />
+      );
+    }
+
+    if (sharedItem.type === "video" || sharedItem.mimeType.startsWith("video/")) {
+      return (
+        <video
+          src={contentUrl}
+          poster={resolveUrl(sharedItem.thumbnail)}
+          controls
+          className="w-full max-h-[70vh] rounded-lg bg-black"
+        />
+      );
+    }
+
+    const Icon = sharedItem.type === "document" ? FileText : File;
+    return (
+      <div className="flex flex-col items-center gap-4 py-8">
+        {sharedItem.thumbnail ? (
+          <img
+            src={resolveUrl(sharedItem.thumbnail)}
+            alt={sharedItem.name}
+            className="max-h-80 rounded border border-ink/10 shadow-page"
+          />
+        ) : (
+          <Icon className="w-16 h-16 text-ink/30" />
+        )}
+        {sharedItem.preview && (
+          <p className="w-full text-sm font-serif text-ink/70 whitespace-pre-line bg-secondary/30 rounded-md p-4">
+            {sharedItem.preview}
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen py-12 px-4 bg-background">
+      <div className="max-w-3xl mx-auto">
+        {isLoading && (
+          <div className="flex justify-center py-20">
+            <Loader2 className="w-8 h-8 animate-spin text-gold" />
+          </div>
+        )}
+
+        {isError && (
+          <div className="text-center py-20 paper-texture rounded-lg">
+            <Link2Off className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            <h1 className="font-serif text-xl text-ink mb-2">링크를 열 수 없습니다</h1>
+            <p className="font-handwriting text-base text-muted-foreground">
+              링크가 만료되었거나 해제되었습니다.
+            </p>
+          </div>
+        )}
+
+        {item && (
+          <article className="paper-texture rounded-2xl shadow-page p-6 animate-fade-in">
+            <header className="mb-6">
+              <h1 className="font-serif text-2xl text-primary gold-accent break-all">{item.name}</h1>
+              <p className="font-serif text-sm text-muted-foreground mt-1">
+                {new Date(item.createdAt).toLocaleDateString("ko-KR")} · {formatFileSize(item.size)}
+                {item.expiresAt && ` · ${new Date(item.expiresAt).toLocaleString("ko-KR")}까지 공유`}
+              </p>
+            </header>
+
+            {renderContent(item)}
+
+            <div className="flex justify-end mt-6">
+              <a
+                href={resolveUrl(item.contentUrl)}
+                download={item.name}
+                className="vintage-btn px-5 py-3 rounded-md font-serif text-sepia hover:text-gold transition-colors inline-flex items-center gap-2"
+              >
+                <Download className="w-4 h-4" />
+                다운로드
+              </a>
+            </div>
+          </article>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SharedItemPage;
@@ -0,0 +1,33 @@
+/**
+ * Admin Request Schemas
+ *
+ * Request bodies of /api/admin: report and inquiry moderation.
+ */
+
+import { z } from 'zod';
+import { inquiryMessageSchema } from './user';
+
+/**
+ * PATCH /api/admin/reports/:reportId
+ */
+export const updateReportStatusSchema = z.object({
+  status: z.enum(['pending', 'reviewed', 'resolved'], {
+    errorMap: () => ({ message: '상태는 pending, reviewed, resolved 중 하나여야 합니다' }),
+  }),
+});
+
+/**
+ * PATCH /api/admin/inquiries/:inquiryId
+ */
+export const updateInquiryStatusSchema = z.object({
+  status: z.enum(['pending', 'answered', 'closed'], {
+    errorMap: () => ({ message: '상태는 pending, answered, closed 중 하나여야 합니다' }),
+  }),
+});
+
+/**
+ * POST /api/admin/inquiries/:inquiryId/responses and /notes
+ */
+export const staffMessageSchema = z.object({
+  message: inquiryMessageSchema,
+});
@@ -0,0 +1,67 @@
+/**
+ * Shared Schema Helpers
+ *
+ * Field schemas reused across the request body schemas, and conversion of
+ * validation errors into per-field messages. Used by the API's validation
+ * middleware and by the forms that call the API, so both report the same
+ * errors.
+ */
+
+import { z } from 'zod';
+import { isValidTimeZone } from '../services/timezoneUtils';
+
+/**
+ * First error message for each invalid field, keyed by field path
+ * (nested fields are joined with dots, e.g. `keys.auth`)
+ */
+export type FieldErrors = Record<string, string>;
+
+/**
+ * Collect the first message for each invalid field
+ */
+export function toFieldErrors(error: z.ZodError): FieldErrors {
+  const fieldErrors: FieldErrors = {};
+  for (const issue of error.issues) {
+    const field = issue.path.join('.') || 'body';
+    fieldErrors[field] ??= issue.message;
+  }
+  return fieldErrors;
+}
+
+/**
+ * Calendar date in YYYY-MM-DD format
+ */
+export const dateSchema = z
+  .string({ required_error: '날짜를 입력해주세요' })
+  .regex(/^\d{4}-\d{2}-\d{2}$/, '날짜는 YYYY-MM-DD 형식이어야 합니다');
+
+/**
+ * IANA timezone name, e.g. Asia/Seoul
+ */
+export const timezoneSchema = z
+  .string({ required_error: '시간대를 입력해주세요' })
+  .refine(isValidTimeZone, '올바른 시간대가 아닙니다');
+
+/**
+ * Treat an empty string as an omitted field (multipart forms send "" for
+ * empty inputs)
+ */
+export function optionalField<T extends z.ZodTypeAny>(schema: T) {
+  return z.preprocess(value => (value === '' ? undefined : value), schema.optional());
+}
+
+/**
+ * Validate form values, returning per-field messages or null when valid
+ */
+export function validateFields(schema: z.ZodTypeAny, values: unknown): FieldErrors | null {
+  const result = schema.safeParse(values);
+  return result.success ? null : toFieldErrors(result.error);
+}
+
+/**
+ * Validate a single form field, returning its first error message or null
+ */
+export function validateField(schema: z.ZodTypeAny, value: unknown): string | null {
+  const result = schema.safeParse(value);
+  return result.success ? null : result.error.issues[0].message;
+}
@@ -0,0 +1,54 @@
+/**
+ * Journal Request Schemas
+ *
+ * Request bodies of /api/journal: entries, daily summaries and chapters.
+ */
+
+import { z } from 'zod';
+import { dateSchema, timezoneSchema } from './common';
+
+export const ENTRY_MAX_LENGTH = 2000;
+export const CHAPTER_TITLE_MAX_LENGTH = 100;
+
+const contentSchema = z
+  .string({ required_error: '내용을 입력해주세요' })
+  .trim()
+  .min(1, '내용을 입력해주세요')
+  .max(ENTRY_MAX_LENGTH, `기록은 최대 ${ENTRY_MAX_LENGTH}자까지 입력 가능합니다`);
+
+/**
+ * POST /api/journal/entries — the date and timezone default to today in
+ * the user's timezone
+ */
+export const createEntrySchema = z.object({
+  content: contentSchema,
+  entry_date: dateSchema.optional(),
+  timezone: timezoneSchema.optional(),
+});
+
+/**
+ * PATCH /api/journal/entries/:entryId
+ */
+export const updateEntrySchema = z.object({
+  content: contentSchema,
+});
+
+/**
+ * POST /api/journal/summaries
+ */
+export const createSummarySchema = z.object({
+  date: dateSchema,
+});
+
+/**
+ * POST /api/journal/chapters — the title defaults to the first line of the
+ * day's first entry
+ */
+export const registerChapterSchema = z.object({
+  date: dateSchema,
+  title: z
+    .string()
+    .trim()
+    .max(CHAPTER_TITLE_MAX_LENGTH, `제목은 최대 ${CHAPTER_TITLE_MAX_LENGTH}자까지 입력 가능합니다`)
+    .optional(),
+});
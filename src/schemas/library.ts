@@ -0,0 +1,56 @@
+/**
+ * Library Request Schemas
+ *
+ * Request bodies of /api/library: uploads, visibility changes, deletion and
+ * share links.
+ */
+
+import { z } from 'zod';
+import { optionalField } from './common';
+
+export const ITEM_NAME_MAX_LENGTH = 255;
+
+const visibilitySchema = z.enum(['public', 'private'], {
+  errorMap: () => ({ message: '공개 범위는 public 또는 private이어야 합니다' }),
+});
+
+const itemIdsSchema = z
+  .array(z.string().uuid('올바른 항목 ID가 아닙니다'), { required_error: '항목을 선택해주세요' })
+  .min(1, '항목을 하나 이상 선택해주세요');
+
+/**
+ * POST /api/library/items — multipart fields sent with the file; the name
+ * and type default to the file's name and MIME type
+ */
+export const createItemSchema = z.object({
+  name: optionalField(
+    z.string().trim().min(1).max(ITEM_NAME_MAX_LENGTH, `이름은 최대 ${ITEM_NAME_MAX_LENGTH}자까지 입력 가능합니다`)
+  ),
+  type: optionalField(z.enum(['image', 'document', 'file', 'video'])),
+  visibility: optionalField(visibilitySchema),
+});
+
+/**
+ * PATCH /api/library/items/visibility
+ */
+export const updateVisibilitySchema = z.object({
+  itemIds: itemIdsSchema,
+  visibility: visibilitySchema,
+});
+
+/**
+ * DELETE /api/library/items
+ */
+export const deleteItemsSchema = z.object({
+  itemIds: itemIdsSchema,
+});
+
+/**
+ * POST /api/library/items/:itemId/share-links — links without an expiry
+ * stay valid until revoked
+ */
+export const createShareLinkSchema = z.object({
+  expiresAt: optionalField(
+    z.string().refine(value => !isNaN(Date.parse(value)), '만료 시각이 올바른 날짜가 아닙니다')
+  ),
+});
@@ -0,0 +1,191 @@
+/**
+ * User Request Schemas
+ *
+ * Request bodies of /api/user: profile, settings, password reset, account
+ * deletion, notifications, reports and inquiries.
+ */
+
+import { z } from 'zod';
+import { timezoneSchema } from './common';
+
+export const NICKNAME_MIN_LENGTH = 2;
+export const NICKNAME_MAX_LENGTH = 20;
+export const BIO_MAX_LENGTH = 500;
+export const REPORT_DESCRIPTION_MAX_LENGTH = 1000;
+export const INQUIRY_SUBJECT_MAX_LENGTH = 200;
+export const INQUIRY_MESSAGE_MAX_LENGTH = 2000;
+
+/**
+ * Korean, English letters, digits and underscores
+ */
+const NICKNAME_PATTERN = /^[가-힣a-zA-Z0-9_]+$/;
+
+/**
+ * International (+821012345678) or Korean (01012345678) number; spaces and
+ * hyphens are ignored
+ */
+const PHONE_PATTERN = /^(\+?[1-9]\d{9,14}|0\d{9,10})$/;
+
+/**
+ * At least 8 characters with an uppercase letter, a lowercase letter, a
+ * digit and a special character (Cognito password policy)
+ */
+const PASSWORD_PATTERN = /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]{8,}$/;
+
+const nicknameLengthMessage = `닉네임은 ${NICKNAME_MIN_LENGTH}-${NICKNAME_MAX_LENGTH}자 사이여야 합니다`;
+
+export const nicknameSchema = z
+  .string()
+  .min(NICKNAME_MIN_LENGTH, nicknameLengthMessage)
+  .max(NICKNAME_MAX_LENGTH, nicknameLengthMessage)
+  .regex(NICKNAME_PATTERN, '닉네임은 한글, 영문, 숫자, 언더스코어만 사용 가능합니다');
+
+export const bioSchema = z
+  .string()
+  .max(BIO_MAX_LENGTH, `자기소개는 최대 ${BIO_MAX_LENGTH}자까지 입력 가능합니다`);
+
+export const phoneNumberSchema = z
+  .string()
+  .refine(
+    value => value.trim() === '' || PHONE_PATTERN.test(value.replace(/[\s-]/g, '')),
+    '올바른 전화번호 형식이 아닙니다'
+  );
+
+export const emailSchema = z
+  .string({ required_error: '이메일을 입력해주세요' })
+  .trim()
+  .min(1, '이메일을 입력해주세요')
+  .email('올바른 이메일 형식이 아닙니다');
+
+export const newPasswordSchema = z
+  .string({ required_error: '새 비밀번호를 입력해주세요' })
+  .regex(PASSWORD_PATTERN, '비밀번호는 8자 이상이며 대문자, 소문자, 숫자, 특수문자를 포함해야 합니다');
+
+/**
+ * PUT /api/user/profile — omitted fields are unchanged
+ */
+export const updateProfileSchema = z.object({
+  nickname: nicknameSchema.optional(),
+  bio: bioSchema.optional(),
+  phone_number: phoneNumberSchema.nullable().optional(),
+  timezone: timezoneSchema.optional(),
+  profile_image_url: z.string().nullable().optional(),
+});
+
+/**
+ * PUT /api/user/settings — omitted fields are unchanged
+ */
+export const updateSettingsSchema = z.object({
+  theme: z.enum(['night', 'day']).optional(),
+  language: z.enum(['ko', 'en', 'ja']).optional(),
+  notificationsEnabled: z.boolean().optional(),
+  notificationOptOuts: z
+    .array(z.enum(['inquiry_answered', 'report_resolved', 'writing_reminder', 'achievement_unlocked']))
+    .optional(),
+});
+
+/**
+ * PUT /api/user/reminder
+ */
+export const reminderScheduleSchema = z.object({
+  enabled: z.boolean({ required_error: '알림 사용 여부를 선택해주세요' }),
+  time: z
+    .string({ required_error: '알림 시간을 입력해주세요' })
+    .regex(/^([01]\d|2[0-3]):[0-5]\d$/, '알림 시간은 HH:MM 형식이어야 합니다'),
+  weekdays: z
+    .array(z.number().int().min(0).max(6), { required_error: '요일을 선택해주세요' })
+    .min(1, '요일을 하나 이상 선택해주세요'),
+  timezone: timezoneSchema,
+});
+
+/**
+ * POST /api/user/password-reset
+ */
+export const passwordResetSchema = z.object({
+  email: emailSchema,
+});
+
+/**
+ * POST /api/user/password-reset/confirm
+ */
+export const confirmPasswordResetSchema = z.object({
+  email: emailSchema,
+  code: z.string({ required_error: '인증 코드를 입력해주세요' }).trim().min(1, '인증 코드를 입력해주세요'),
+  newPassword: newPasswordSchema,
+});
+
+/**
+ * DELETE /api/user/account — the password is required unless the user
+ * signed up with a social login, which the controller checks
+ */
+export const deleteAccountSchema = z.object({
+  password: z.string().optional(),
+});
+
+/**
+ * POST /api/user/notifications/push-subscriptions — PushSubscription.toJSON()
+ */
+export const pushSubscriptionSchema = z.object({
+  endpoint: z.string().url().startsWith('https://'),
+  expirationTime: z.number().nullable().optional(),
+  keys: z.object({
+    p256dh: z.string().min(1),
+    auth: z.string().min(1),
+  }),
+});
+
+/**
+ * DELETE /api/user/notifications/push-subscriptions
+ */
+export const deletePushSubscriptionSchema = z.object({
+  endpoint: z.string(),
+});
+
+/**
+ * POST /api/user/report
+ */
+export const createReportSchema = z.object({
+  reported_user_identifier: z
+    .string({ required_error: '신고할 회원의 닉네임 또는 이메일을 입력해주세요' })
+    .trim()
+    .min(1, '신고할 회원의 닉네임 또는 이메일을 입력해주세요'),
+  reason: z.enum(['spam', 'harassment', 'inappropriate_content', 'other'], {
+    errorMap: () => ({ message: '신고 사유를 선택해주세요' }),
+  }),
+  description: z
+    .string()
+    .max(REPORT_DESCRIPTION_MAX_LENGTH, `상세 설명은 최대 ${REPORT_DESCRIPTION_MAX_LENGTH}자까지 입력 가능합니다`)
+    .optional(),
+});
+
+/**
+ * Message of an inquiry, a reply to it or a staff response
+ */
+export const inquiryMessageSchema = z
+  .string({ required_error: '문의 내용을 입력해주세요' })
+  .trim()
+  .min(1, '문의 내용을 입력해주세요')
+  .max(INQUIRY_MESSAGE_MAX_LENGTH, `문의 내용은 최대 ${INQUIRY_MESSAGE_MAX_LENGTH}자까지 입력 가능합니다`);
+
+/**
+ * POST /api/user/inquiry
+ */
+export const createInquirySchema = z.object({
+  subject: z
+    .string({ required_error: '제목을 입력해주세요' })
+    .trim()
+    .min(1, '제목을 입력해주세요')
+    .max(INQUIRY_SUBJECT_MAX_LENGTH, `제목은 최대 ${INQUIRY_SUBJECT_MAX_LENGTH}자까지 입력 가능합니다`),
+  message: inquiryMessageSchema,
+});
+
+/**
+ * POST /api/user/inquiries/:inquiryId/replies
+ */
+export const inquiryReplySchema = z.object({
+  message: inquiryMessageSchema,
+});
+
+export type UpdateProfileInput = z.infer<typeof updateProfileSchema>;
+export type CreateReportInput = z.infer<typeof createReportSchema>;
+export type CreateInquiryInput = z.infer<typeof createInquirySchema>;
@@ -0,0 +1,226 @@
+/**
+ * Account Deletion Service Module
+ *
+ * Deletes accounts in two steps:
+ * - Deleting an account marks it deleted (users.status = 'deleted',
+ *   users.deleted_at) and blocks sign-in; authMiddleware rejects the user
+ * - After a grace period, the accounts.purge background job deletes the
+ *   user's data, stored files (library items and export archives) and Cognito account
+ *
+ * Until the purge runs, the user can sign in and restore the account.
+ *
+ * Configuration: ACCOUNT_DELETION_GRACE_DAYS (default: 14)
+ */
+
+import { getAuthService } from './authService';
+import { getDatabaseService } from './database';
+import { getDataExportService } from './dataExportService';
+import { getJobQueue } from './jobQueue';
+import { getLibraryService } from './libraryService';
+import { getUserService, UserNotFoundError } from './userService';
+import type { PendingDeletion } from '../types/database';
+
+/**
+ * Job type that purges an account when its grace period ends
+ */
+export const ACCOUNT_PURGE_JOB = 'accounts.purge';
+
+/**
+ * Account Deletion Service Error Types
+ */
+export class AccountPendingDeletionError extends Error {
+  constructor(public deletedAt: Date, public purgeAt: Date) {
+    super('This account is scheduled for deletion');
+    this.name = 'AccountPendingDeletionError';
+  }
+}
+
+export class AccountNotPendingDeletionError extends Error {
+  constructor() {
+    super('This account is not scheduled for deletion');
+    this.name = 'AccountNotPendingDeletionError';
+  }
+}
+
+/**
+ * Account Deletion Service Class
+ */
+export class AccountDeletionService {
+  private graceDays = this.readGraceDays();
+
+  /**
+   * Mark an account deleted and schedule its purge
+   *
+   * Deleting an account that is already pending deletion keeps the
+   * original schedule.
+   *
+   * @param userId - User ID
+   * @returns Deletion and purge times
+   * @throws UserNotFoundError if the user doesn't exist
+   */
+  async scheduleDeletion(userId: string): Promise<PendingDeletion> {
+    const db = getDatabaseService();
+
+    return db.transaction(async client => {
+      const result = await client.query(
+        `
+          UPDATE users
+          SET status = 'deleted', deleted_at = CURRENT_TIMESTAMP
+          WHERE user_id = $1 AND status != 'deleted'
+          RETURNING deleted_at, deleted_at + make_interval(days => $2::integer) AS purge_at
+        `,
+        [userId, this.graceDays]
+      );
+
+      if (result.rows.length === 0) {
+        const pending = await this.getPendingDeletion(userId);
+        if (!pending) {
+          throw new UserNotFoundError(userId);
+        }
+        return pending;
+      }
+
+      const pending = this.toPendingDeletion(result.rows[0]);
+      await getJobQueue().enqueue(ACCOUNT_PURGE_JOB, { userId }, { runAt: pending.purgeAt, client });
+
+      return pending;
+    });
+  }
+
+  /**
+   * Get an account's pending deletion
+   *
+   * @param userId - User ID
+   * @returns Deletion and purge times, or null if the account isn't deleted
+   */
+  async getPendingDeletion(userId: string): Promise<PendingDeletion | null> {
+    const db = getDatabaseService();
+
+    const result = await db.query(
+      `
+        SELECT deleted_at, deleted_at + make_interval(days => $2::integer) AS purge_at
+        FROM users
+        WHERE user_id = $1 AND status = 'deleted'
+      `,
+      [userId, this.graceDays]
+    );
+
+    return result.rows.length > 0 ? this.toPendingDeletion(result.rows[0]) : null;
+  }
+
+  /**
+   * Throw if an account is pending deletion
+   *
+   * @param userId - User ID
+   * @throws AccountPendingDeletionError if the account is marked deleted
+   */
+  async assertNotPendingDeletion(userId: string): Promise<void> {
+    const pending = await this.getPendingDeletion(userId);
+    if (pending) {
+      throw new AccountPendingDeletionError(pending.deletedAt, pending.purgeAt);
+    }
+  }
+
+  /**
+   * Restore an account within its grace period
+   *
+   * The account returns to 'inactive' if a suspension is still active.
+   * The scheduled purge job finds the account restored and does nothing.
+   *
+   * @param userId - User ID
+   * @throws AccountNotPendingDeletionError if the account isn't pending deletion
+   */
+  async restoreAccount(userId: string): Promise<void> {
+    const db = getDatabaseService();
+
+    const result = await db.query(
+      `
+        UPDATE users u
+        SET deleted_at = NULL,
+            status = CASE
+              WHEN EXISTS (
+                SELECT 1 FROM user_sanctions s
+                WHERE s.user_id = u.user_id
+                  AND s.action = 'suspend'
+                  AND s.lifted_at IS NULL
+                  AND (s.ends_at IS NULL OR s.ends_at > NOW())
+              ) THEN 'inactive'
+              ELSE 'active'
+            END
+        WHERE u.user_id = $1
+          AND u.status = 'deleted'
+          AND u.deleted_at + make_interval(days => $2::integer) > NOW()
+      `,
+      [userId, this.graceDays]
+    );
+
+    if (result.rowCount === 0) {
+      throw new AccountNotPendingDeletionError();
+    }
+  }
+
+  /**
+   * Handle the accounts.purge job at the end of the grace period
+   *
+   * Skips accounts that were restored, or deleted again later (a newer job
+   * handles those). Cognito is purged first so that a failed attempt is
+   * retried while the database row still exists.
+   */
+  async handlePurgeJob(payload: { userId: string }): Promise<void> {
+    const db = getDatabaseService();
+
+    const result = await db.query(
+      `
+        SELECT user_id
+        FROM users
+        WHERE user_id = $1
+          AND status = 'deleted'
+          AND deleted_at + make_interval(days => $2::integer) <= NOW()
+      `,
+      [payload.userId, this.graceDays]
+    );
+
+    if (result.rows.length === 0) {
+      return;
+    }
+
+    try {
+      await getAuthService().deleteUser(payload.userId);
+    } catch (error) {
+      if ((error as { code?: string }).code !== 'UserNotFoundException') {
+        throw error;
+      }
+    }
+
+    await getLibraryService().deleteAllItems(payload.userId);
+    await getDataExportService().deleteAllExports(payload.userId);
+    await getUserService().deleteUser(payload.userId);
+  }
+
+  private readGraceDays(): number {
+    const value = Number(process.env.ACCOUNT_DELETION_GRACE_DAYS);
+    return Number.isInteger(value) && value > 0 ? value : 14;
+  }
+
+  private toPendingDeletion(row: Record<string, unknown>): PendingDeletion {
+    return {
+      deletedAt: row.deleted_at as Date,
+      purgeAt: row.purge_at as Date,
+    };
+  }
+}
+
+/**
+ * Singleton instance
+ */
+let accountDeletionServiceInstance: AccountDeletionService | null = null;
+
+/**
+ * Get AccountDeletionService instance
+ */
+export function getAccountDeletionService(): AccountDeletionService {
+  if (!accountDeletionServiceInstance) {
+    accountDeletionServiceInstance = new AccountDeletionService();
+  }
+  return accountDeletionServiceInstance;
+}
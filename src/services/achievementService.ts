@@ -0,0 +1,163 @@
+/**
+ * Achievement Service Module
+ *
+ * Rules engine for achievements (업적). Each rule compares one metric
+ * (entries written, longest writing streak, photos in the library) against
+ * a target. Unlocks are stored in user_achievements with the time they were
+ * first reached, so an achievement stays earned even if the metric drops later.
+ * Newly unlocked achievements are announced with an achievement_unlocked
+ * notification.
+ */
+
+import { getDatabaseService } from './database';
+import { getNotificationService } from './notificationService';
+import { getStreakService } from './streakService';
+import type { AchievementCategory, UserAchievement } from '../types/database';
+
+/**
+ * Achievement rule definition
+ */
+interface AchievementRule {
+  key: string;
+  label: string;
+  category: AchievementCategory;
+  target: number;
+}
+
+/**
+ * All achievements, in display order
+ */
+export const ACHIEVEMENT_RULES: AchievementRule[] = [
+  { key: 'first_entry', label: '첫 기록', category: 'journal', target: 1 },
+  { key: 'streak_7', label: '7일 연속', category: 'streak', target: 7 },
+  { key: 'streak_30', label: '30일 연속', category: 'streak', target: 30 },
+  { key: 'streak_100', label: '100일 연속', category: 'streak', target: 100 },
+  { key: 'streak_365', label: '1년 연속', category: 'streak', target: 365 },
+  { key: 'streak_730', label: '2년 연속', category: 'streak', target: 730 },
+  { key: 'streak_1095', label: '3년 연속', category: 'streak', target: 1095 },
+  { key: 'first_photo', label: '첫 사진', category: 'photo', target: 1 },
+  { key: 'photos_10', label: '사진 10장', category: 'photo', target: 10 },
+  { key: 'photos_30', label: '사진 30장', category: 'photo', target: 30 },
+  { key: 'photos_50', label: '사진 50장', category: 'photo', target: 50 },
+  { key: 'photos_100', label: '사진 100장', category: 'photo', target: 100 },
+  { key: 'photos_200', label: '사진 200장', category: 'photo', target: 200 },
+  { key: 'photos_300', label: '사진 300장', category: 'photo', target: 300 },
+  { key: 'photos_400', label: '사진 400장', category: 'photo', target: 400 },
+  { key: 'photos_500', label: '사진 500장', category: 'photo', target: 500 },
+];
+
+/**
+ * Achievement Service Class
+ */
+export class AchievementService {
+  /**
+   * Evaluate all achievement rules for a user
+   *
+   * Stores newly reached achievements and returns every achievement
+   * with the user's current progress.
+   *
+   * @param userId - User ID
+   * @returns Achievements in display order
+   */
+  async evaluateAchievements(userId: string): Promise<UserAchievement[]> {
+    const db = getDatabaseService();
+    const metrics = await this.getMetrics(userId);
+
+    const reached = ACHIEVEMENT_RULES
+      .filter(rule => metrics[rule.category] >= rule.target)
+      .map(rule => rule.key);
+
+    if (reached.length > 0) {
+      const insertedResult = await db.query(
+        `
+          INSERT INTO user_achievements (user_id, achievement_key)
+          SELECT $1, unnest($2::varchar[])
+          ON CONFLICT (user_id, achievement_key) DO NOTHING
+          RETURNING achievement_key
+        `,
+        [userId, reached]
+      );
+      await this.notifyUnlocked(userId, insertedResult.rows.map(row => row.achievement_key));
+    }
+
+    const unlockedResult = await db.query(
+      'SELECT achievement_key, unlocked_at FROM user_achievements WHERE user_id = $1',
+      [userId]
+    );
+    const unlockedAt = new Map<string, Date>(
+      unlockedResult.rows.map(row => [row.achievement_key, row.unlocked_at])
+    );
+
+    return ACHIEVEMENT_RULES.map(rule => ({
+      key: rule.key,
+      label: rule.label,
+      category: rule.category,
+      target: rule.target,
+      progress: Math.min(metrics[rule.category], rule.target),
+      earned: unlockedAt.has(rule.key),
+      unlockedAt: unlockedAt.get(rule.key) ?? null,
+    }));
+  }
+
+  /**
+   * Notify the user of newly unlocked achievements; failing to notify
+   * doesn't fail the evaluation
+   */
+  private async notifyUnlocked(userId: string, keys: string[]): Promise<void> {
+    const notificationService = getNotificationService();
+
+    for (const rule of ACHIEVEMENT_RULES.filter(rule => keys.includes(rule.key))) {
+      await notificationService
+        .notify(userId, 'achievement_unlocked', { label: rule.label })
+        .catch(error => console.error('Failed to send achievement notification:', error));
+    }
+  }
+
+  /**
+   * Current value of each metric the rules are evaluated against
+   */
+  private async getMetrics(userId: string): Promise<Record<AchievementCategory, number>> {
+    const db = getDatabaseService();
+
+    const entriesResult = await db.query(
+      'SELECT COUNT(*) as count FROM journal_entries WHERE user_id = $1',
+      [userId]
+    );
+
+    const streak = await getStreakService().getStreak(userId, 0);
+
+    return {
+      journal: parseInt(entriesResult.rows[0].count, 10),
+      streak: streak.longestStreak,
+      photo: await this.countPhotos(userId),
+    };
+  }
+
+  /**
+   * Number of photos in the user's library
+   */
+  private async countPhotos(userId: string): Promise<number> {
+    const db = getDatabaseService();
+
+    const result = await db.query(
+      "SELECT COUNT(*) as count FROM library_items WHERE user_id = $1 AND type = 'image'",
+      [userId]
+    );
+    return parseInt(result.rows[0].count, 10);
+  }
+}
+
+/**
+ * Singleton instance
+ */
+let achievementServiceInstance: AchievementService | null = null;
+
+/**
+ * Get AchievementService instance
+ */
+export function getAchievementService(): AchievementService {
+  if (!achievementServiceInstance) {
+    achievementServiceInstance = new AchievementService();
+  }
+  return achievementServiceInstance;
+}
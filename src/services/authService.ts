@@ -4,7 +4,7 @@
  * Handles AWS Cognito authentication operations including:
  * - JWT token verification
  * - User attribute updates
- * - Password reset
+ * - Password reset and verification
  * - User deletion from Cognito
  * 
  * Requirements: 4.1, 5.1, 5.2, 5.3, 5.4, 5.5, 6.3, 10.9
@@ -17,6 +17,7 @@ import {
   ForgotPasswordCommand,
   ConfirmForgotPasswordCommand,
   AdminGetUserCommand,
+  InitiateAuthCommand,
 } from '@aws-sdk/client-cognito-identity-provider';
 import jwt from 'jsonwebtoken';
 import jwksClient from 'jwks-rsa';
@@ -279,6 +280,39 @@ export class AuthService {
     }
   }
 
+  /**
+   * Verify a user's password
+   * 
+   * Attempts a USER_PASSWORD_AUTH sign-in, which must be enabled on the
+   * app client. The issued tokens are discarded.
+   * 
+   * @param email - User email address
+   * @param password - Password to check
+   * @returns true if the password is correct
+   * @throws CognitoError if Cognito can't check the password
+   */
+  async verifyPassword(email: string, password: string): Promise<boolean> {
+    try {
+      const command = new InitiateAuthCommand({
+        ClientId: this.clientId,
+        AuthFlow: 'USER_PASSWORD_AUTH',
+        AuthParameters: {
+          USERNAME: email,
+          PASSWORD: password,
+        },
+      });
+
+      await this.cognitoClient.send(command);
+      return true;
+    } catch (error) {
+      const { name, message } = error as Error;
+      if (name === 'NotAuthorizedException' || name === 'UserNotFoundException') {
+        return false;
+      }
+      throw new CognitoError(`Failed to verify password: ${message}`, name);
+    }
+  }
+
   /**
    * Delete user from Cognito
    * 
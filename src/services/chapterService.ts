@@ -0,0 +1,377 @@
+/**
+ * Chapter Service Module
+ *
+ * Handles journal chapter operations including:
+ * - Registering a day's entries as a chapter in the history
+ * - Generating and caching a day's summary and emotions
+ * - Listing chapters with pagination
+ */
+
+import { createHash } from 'crypto';
+import type { PoolClient } from 'pg';
+import { getDatabaseService } from './database';
+import {
+  keysToCamelCase,
+  createPaginationParams,
+  createPaginationResponse,
+  type PaginationResponse,
+} from './databaseUtils';
+import { getJournalService, isValidEntryDate, JournalValidationError } from './journalService';
+import { getSummaryService } from './summaryService';
+import { getEmotionService } from './emotionService';
+import type { JournalChapter, JournalEntry, DailySummary } from '../types/database';
+
+/**
+ * Maximum chapter title length
+ */
+export const MAX_TITLE_LENGTH = 100;
+
+/**
+ * Length of derived titles and previews
+ */
+const DERIVED_TITLE_LENGTH = 30;
+const PREVIEW_LENGTH = 120;
+
+/**
+ * Truncate text to a length, appending an ellipsis when cut
+ */
+function truncate(text: string, length: number): string {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  return normalized.length > length ? `${normalized.slice(0, length).trim()}...` : normalized;
+}
+
+/**
+ * Hash the entries a summary is generated from
+ *
+ * Includes the provider name so switching providers invalidates stored summaries.
+ */
+function computeSourceHash(entries: JournalEntry[], providerName: string): string {
+  const hash = createHash('sha256');
+  hash.update(providerName);
+  for (const entry of entries) {
+    hash.update('\u0000');
+    hash.update(entry.content);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Chapter Service Class
+ */
+export class ChapterService {
+  /**
+   * Register a day's entries as a chapter
+   *
+   * Creates the chapter for the given day, or refreshes it if the day was
+   * already registered (e.g. the user wrote more entries afterwards).
+   * An existing title is kept unless a new one is supplied.
+   *
+   * @param userId - User ID
+   * @param date - Day to register (YYYY-MM-DD)
+   * @param title - Optional chapter title; derived from the first entry if omitted
+   * @returns Registered chapter with its entries
+   * @throws JournalValidationError if the date or title is invalid, or the day has no entries
+   */
+  async registerChapter(userId: string, date: string, title?: string): Promise<JournalChapter> {
+    const db = getDatabaseService();
+
+    if (!isValidEntryDate(date)) {
+      throw new JournalValidationError('date must be a valid date in YYYY-MM-DD format');
+    }
+
+    if (title !== undefined && title.trim().length > MAX_TITLE_LENGTH) {
+      throw new JournalValidationError(`Title must not exceed ${MAX_TITLE_LENGTH} characters`);
+    }
+
+    const entries = await getJournalService().getEntries(userId, date);
+
+    if (entries.length === 0) {
+      throw new JournalValidationError('There are no entries to register for this date');
+    }
+
+    const derivedTitle = truncate(entries[0].content.split('\n')[0], DERIVED_TITLE_LENGTH);
+    const preview = truncate(entries.map(entry => entry.content).join(' '), PREVIEW_LENGTH);
+    const summary = await this.resolveSummary(userId, date, entries);
+    const emotions = getEmotionService().analyzeEntries(entries.map(entry => entry.content));
+
+    const query = `
+      INSERT INTO journal_chapters (
+        user_id, chapter_date, title, preview, entry_count,
+        summary, summary_provider, summary_source_hash, summarized_at, emotions
+      )
+      VALUES ($1, $2, COALESCE($3, $4), $5, $6, $7, $8, $9, $10, $11)
+      ON CONFLICT (user_id, chapter_date) DO UPDATE
+      SET title = COALESCE($3, journal_chapters.title),
+          preview = EXCLUDED.preview,
+          entry_count = EXCLUDED.entry_count,
+          summary = EXCLUDED.summary,
+          summary_provider = EXCLUDED.summary_provider,
+          summary_source_hash = EXCLUDED.summary_source_hash,
+          summarized_at = EXCLUDED.summarized_at,
+          emotions = EXCLUDED.emotions
+      RETURNING *
+    `;
+
+    const result = await db.query(query, [
+      userId,
+      date,
+      title?.trim() || null,
+      derivedTitle,
+      preview,
+      entries.length,
+      summary.summary,
+      summary.provider,
+      summary.sourceHash,
+      summary.summarizedAt,
+      JSON.stringify(emotions),
+    ]);
+
+    return {
+      ...keysToCamelCase<JournalChapter>(result.rows[0]),
+      entries,
+    };
+  }
+
+  /**
+   * Create or refresh the chapter of a day inside a caller's transaction
+   *
+   * Used by the journal import. Summaries aren't generated here, since a
+   * provider may be slow or remote; a changed day's stored summary is
+   * cleared and generated again the next time it is requested.
+   *
+   * @param client - Transaction client
+   * @param userId - User ID
+   * @param date - Day (YYYY-MM-DD) that has entries
+   * @param title - Title for a new chapter; an existing title is kept
+   */
+  async refreshChapter(client: PoolClient, userId: string, date: string, title?: string): Promise<void> {
+    const entriesResult = await client.query(
+      `
+        SELECT *
+        FROM journal_entries
+        WHERE user_id = $1 AND entry_date = $2
+        ORDER BY created_at ASC, entry_id ASC
+      `,
+      [userId, date]
+    );
+    const entries = entriesResult.rows.map(row => keysToCamelCase<JournalEntry>(row));
+
+    if (entries.length === 0) {
+      return;
+    }
+
+    const derivedTitle = truncate(entries[0].content.split('\n')[0], DERIVED_TITLE_LENGTH);
+    const preview = truncate(entries.map(entry => entry.content).join(' '), PREVIEW_LENGTH);
+    const emotions = getEmotionService().analyzeEntries(entries.map(entry => entry.content));
+
+    await client.query(
+      `
+        INSERT INTO journal_chapters (user_id, chapter_date, title, preview, entry_count, emotions)
+        VALUES ($1, $2, $3, $4, $5, $6)
+        ON CONFLICT (user_id, chapter_date) DO UPDATE
+        SET preview = EXCLUDED.preview,
+            entry_count = EXCLUDED.entry_count,
+            emotions = EXCLUDED.emotions,
+            summary = NULL,
+            summary_provider = NULL,
+            summary_source_hash = NULL,
+            summarized_at = NULL
+      `,
+      [
+        userId,
+        date,
+        title ? truncate(title, MAX_TITLE_LENGTH - 3) : derivedTitle,
+        preview,
+        entries.length,
+        JSON.stringify(emotions),
+      ]
+    );
+  }
+
+  /**
+   * Get the summary and emotions of a day's entries
+   *
+   * Reuses the summary stored on the day's chapter when the entries haven't
+   * changed since it was generated; otherwise generates a new summary and,
+   * if the day is already a chapter, stores it there along with the emotions.
+   *
+   * @param userId - User ID
+   * @param date - Day to summarize (YYYY-MM-DD)
+   * @returns Daily summary
+   * @throws JournalValidationError if the date is invalid or the day has no entries
+   */
+  async getDailySummary(userId: string, date: string): Promise<DailySummary> {
+    const db = getDatabaseService();
+
+    if (!isValidEntryDate(date)) {
+      throw new JournalValidationError('date must be a valid date in YYYY-MM-DD format');
+    }
+
+    const entries = await getJournalService().getEntries(userId, date);
+
+    if (entries.length === 0) {
+      throw new JournalValidationError('There are no entries to summarize for this date');
+    }
+
+    const summary = await this.resolveSummary(userId, date, entries);
+    const emotions = getEmotionService().analyzeEntries(entries.map(entry => entry.content));
+
+    if (!summary.cached) {
+      await db.query(
+        `
+          UPDATE journal_chapters
+          SET summary = $1, summary_provider = $2, summary_source_hash = $3, summarized_at = $4,
+              emotions = $5
+          WHERE user_id = $6 AND chapter_date = $7
+        `,
+        [
+          summary.summary,
+          summary.provider,
+          summary.sourceHash,
+          summary.summarizedAt,
+          JSON.stringify(emotions),
+          userId,
+          date,
+        ]
+      );
+    }
+
+    return {
+      date,
+      summary: summary.summary,
+      provider: summary.provider,
+      emotions,
+      entryCount: entries.length,
+      cached: summary.cached,
+    };
+  }
+
+  /**
+   * Get chapters for a user
+   *
+   * Returns a page of chapters (most recent day first), each with the
+   * entries written on that day and the emotions detected in them.
+   *
+   * @param userId - User ID
+   * @param page - Page number (1-based)
+   * @param pageSize - Number of chapters per page
+   * @returns Paginated chapters
+   */
+  async getChapters(
+    userId: string,
+    page: number = 1,
+    pageSize: number = 10
+  ): Promise<PaginationResponse<JournalChapter>> {
+    const db = getDatabaseService();
+    const { limit, offset } = createPaginationParams(page, pageSize);
+
+    const countResult = await db.query(
+      'SELECT COUNT(*) as count FROM journal_chapters WHERE user_id = $1',
+      [userId]
+    );
+    const totalItems = parseInt(countResult.rows[0].count, 10);
+
+    const chaptersResult = await db.query(
+      `
+        SELECT *
+        FROM journal_chapters
+        WHERE user_id = $1
+        ORDER BY chapter_date DESC
+        LIMIT $2 OFFSET $3
+      `,
+      [userId, limit, offset]
+    );
+
+    const chapters = chaptersResult.rows.map(row => keysToCamelCase<JournalChapter>(row));
+
+    if (chapters.length > 0) {
+      const entriesResult = await db.query(
+        `
+          SELECT *
+          FROM journal_entries
+          WHERE user_id = $1 AND entry_date = ANY($2::date[])
+          ORDER BY created_at ASC, entry_id ASC
+        `,
+        [userId, chapters.map(chapter => chapter.chapterDate)]
+      );
+
+      const entriesByDate = new Map<string, JournalEntry[]>();
+      for (const row of entriesResult.rows) {
+        const entry = keysToCamelCase<JournalEntry>(row);
+        const dayEntries = entriesByDate.get(entry.entryDate) || [];
+        dayEntries.push(entry);
+        entriesByDate.set(entry.entryDate, dayEntries);
+      }
+
+      for (const chapter of chapters) {
+        chapter.entries = entriesByDate.get(chapter.chapterDate) || [];
+      }
+
+      // Chapters registered before emotion analysis existed are analyzed on first view
+      for (const chapter of chapters) {
+        if (chapter.emotions === null && chapter.entries.length > 0) {
+          chapter.emotions = getEmotionService().analyzeEntries(
+            chapter.entries.map(entry => entry.content)
+          );
+          await db.query(
+            'UPDATE journal_chapters SET emotions = $1 WHERE chapter_id = $2',
+            [JSON.stringify(chapter.emotions), chapter.chapterId]
+          );
+        }
+      }
+    }
+
+    return createPaginationResponse(chapters, totalItems, Math.max(1, page), limit);
+  }
+
+  /**
+   * Return the stored summary for a day if it is still current, or generate a new one
+   */
+  private async resolveSummary(userId: string, date: string, entries: JournalEntry[]) {
+    const db = getDatabaseService();
+    const summaryService = getSummaryService();
+    const sourceHash = computeSourceHash(entries, summaryService.providerName);
+
+    const existing = await db.query(
+      `
+        SELECT summary, summary_provider, summarized_at
+        FROM journal_chapters
+        WHERE user_id = $1 AND chapter_date = $2 AND summary_source_hash = $3 AND summary IS NOT NULL
+      `,
+      [userId, date, sourceHash]
+    );
+
+    if (existing.rows.length > 0) {
+      return {
+        summary: existing.rows[0].summary as string,
+        provider: existing.rows[0].summary_provider as string,
+        sourceHash,
+        summarizedAt: existing.rows[0].summarized_at as Date,
+        cached: true,
+      };
+    }
+
+    return {
+      summary: await summaryService.summarizeEntries(entries.map(entry => entry.content)),
+      provider: summaryService.providerName,
+      sourceHash,
+      summarizedAt: new Date(),
+      cached: false,
+    };
+  }
+}
+
+/**
+ * Singleton instance
+ */
+let chapterServiceInstance: ChapterService | null = null;
+
+/**
+ * Get ChapterService instance
+ */
+export function getChapterService(): ChapterService {
+  if (!chapterServiceInstance) {
+    chapterServiceInstance = new ChapterService();
+  }
+  return chapterServiceInstance;
+}
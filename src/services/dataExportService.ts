@@ -0,0 +1,549 @@
+/**
+ * Data Export Service Module
+ *
+ * Builds personal data exports: a ZIP archive of everything a user has
+ * stored in the service. Exports are requested through the API and built
+ * by the exports.build background job; the archive is kept for
+ * EXPORT_RETENTION_DAYS (default: 7) and then deleted by the
+ * exports.expire job.
+ *
+ * Archive layout:
+ * - profile.json
+ * - journal/entries.json, journal/chapters.json (with summaries and emotions)
+ * - journal/markdown/YYYY-MM-DD.md: one readable page per day
+ * - library/items.json and library/files/: original uploaded files
+ * - achievements.json, inquiries.json, reports.json (reports filed by the user)
+ */
+
+import { randomUUID } from 'crypto';
+import type { Readable } from 'stream';
+import archiver from 'archiver';
+import { getDatabaseService } from './database';
+import { keysToCamelCase } from './databaseUtils';
+import { getJobQueue } from './jobQueue';
+import type { QueuedJob } from './jobQueue';
+import { getLibraryService } from './libraryService';
+import { getStorageDriver, StorageObjectNotFoundError } from './storageService';
+import { DEFAULT_TIMEZONE } from './timezoneUtils';
+import { getUserService } from './userService';
+import type { JournalChapter, JournalEntry, LibraryItemRecord, UserExport } from '../types/database';
+
+/**
+ * Job type that builds an export archive
+ */
+export const EXPORT_BUILD_JOB = 'exports.build';
+
+/**
+ * Job type that deletes an export archive once it expires
+ */
+export const EXPORT_EXPIRE_JOB = 'exports.expire';
+
+/**
+ * Data Export Service Error Types
+ */
+export class ExportNotFoundError extends Error {
+  constructor(exportId: string) {
+    super(`Export not found: ${exportId}`);
+    this.name = 'ExportNotFoundError';
+  }
+}
+
+export class ExportNotReadyError extends Error {
+  constructor() {
+    super('Export is not ready for download');
+    this.name = 'ExportNotReadyError';
+  }
+}
+
+/**
+ * Opened export archive
+ */
+export interface ExportArchive {
+  filename: string;
+  size: number;
+  stream: Readable;
+}
+
+/**
+ * Data Export Service Class
+ */
+export class DataExportService {
+  private retentionDays = this.readRetentionDays();
+
+  /**
+   * Request a new export
+   *
+   * Returns the export already in progress, if any, instead of queueing
+   * another one.
+   *
+   * @param userId - User ID
+   * @returns Queued export
+   */
+  async requestExport(userId: string): Promise<UserExport> {
+    const db = getDatabaseService();
+
+    return db.transaction(async client => {
+      // Serialize requests of the same user so double clicks don't queue two exports
+      await client.query('SELECT user_id FROM users WHERE user_id = $1 FOR UPDATE', [userId]);
+
+      const inProgress = await client.query(
+        `
+          SELECT * FROM user_exports
+          WHERE user_id = $1 AND status IN ('pending', 'processing')
+          ORDER BY created_at DESC
+          LIMIT 1
+        `,
+        [userId]
+      );
+      if (inProgress.rows.length > 0) {
+        return this.toExport(inProgress.rows[0]);
+      }
+
+      const exportId = randomUUID();
+      const result = await client.query(
+        'INSERT INTO user_exports (export_id, user_id) VALUES ($1, $2) RETURNING *',
+        [exportId, userId]
+      );
+      await getJobQueue().enqueue(EXPORT_BUILD_JOB, { exportId }, { client });
+
+      return this.toExport(result.rows[0]);
+    });
+  }
+
+  /**
+   * Get an export
+   *
+   * @param userId - Owner user ID
+   * @param exportId - Export ID
+   * @throws ExportNotFoundError if the export doesn't exist or belongs to another user
+   */
+  async getExport(userId: string, exportId: string): Promise<UserExport> {
+    const row = await this.findExportRow(userId, exportId);
+    return this.toExport(row);
+  }
+
+  /**
+   * Get a user's most recent export
+   *
+   * @param userId - User ID
+   * @returns Latest export, or null if the user never requested one
+   */
+  async getLatestExport(userId: string): Promise<UserExport | null> {
+    const db = getDatabaseService();
+
+    const result = await db.query(
+      'SELECT * FROM user_exports WHERE user_id = $1 ORDER BY created_at DESC LIMIT 1',
+      [userId]
+    );
+
+    return result.rows.length > 0 ? this.toExport(result.rows[0]) : null;
+  }
+
+  /**
+   * Open a completed export archive for download
+   *
+   * @param userId - Owner user ID
+   * @param exportId - Export ID
+   * @throws ExportNotFoundError if the export doesn't exist or belongs to another user
+   * @throws ExportNotReadyError if the archive isn't built or has expired
+   */
+  async openExport(userId: string, exportId: string): Promise<ExportArchive> {
+    const row = await this.findExportRow(userId, exportId);
+    if (row.status !== 'completed') {
+      throw new ExportNotReadyError();
+    }
+
+    const driver = getStorageDriver(row.storage_driver as string);
+    const createdAt = row.created_at as Date;
+
+    return {
+      filename: `export-${createdAt.toISOString().slice(0, 10)}.zip`,
+      size: Number(row.size),
+      stream: await driver.getStream(row.storage_key as string),
+    };
+  }
+
+  /**
+   * Handle the exports.build job
+   *
+   * Marks the export failed once the job runs out of attempts.
+   */
+  async handleBuildJob(payload: { exportId: string }, job: QueuedJob<{ exportId: string }>): Promise<void> {
+    try {
+      await this.buildExport(payload.exportId);
+    } catch (error) {
+      if (job.attempts >= job.maxAttempts) {
+        await getDatabaseService().query(
+          `UPDATE user_exports SET status = 'failed', error = $2 WHERE export_id = $1`,
+          [payload.exportId, error instanceof Error ? error.message : String(error)]
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Handle the exports.expire job: delete the archive of an expired export
+   */
+  async handleExpireJob(payload: { exportId: string }): Promise<void> {
+    const db = getDatabaseService();
+
+    const result = await db.query(
+      `
+        UPDATE user_exports
+        SET status = 'expired'
+        WHERE export_id = $1 AND status = 'completed'
+        RETURNING storage_driver, storage_key
+      `,
+      [payload.exportId]
+    );
+
+    if (result.rows.length > 0) {
+      const { storage_driver, storage_key } = result.rows[0];
+      await getStorageDriver(storage_driver).delete(storage_key);
+    }
+  }
+
+  /**
+   * Delete the archives of all of a user's exports and cancel their jobs
+   *
+   * Used when an account is purged; the user_exports rows go with the
+   * user, so the exports.expire job could no longer find the archives.
+   *
+   * @param userId - User ID
+   * @returns Number of exports whose archives were deleted
+   */
+  async deleteAllExports(userId: string): Promise<number> {
+    const db = getDatabaseService();
+    const jobQueue = getJobQueue();
+
+    const result = await db.query(
+      'SELECT export_id, storage_driver, storage_key FROM user_exports WHERE user_id = $1',
+      [userId]
+    );
+
+    for (const row of result.rows) {
+      const exportId: string = row.export_id;
+      await jobQueue.cancel(EXPORT_BUILD_JOB, { exportId });
+      await jobQueue.cancel(EXPORT_EXPIRE_JOB, { exportId });
+
+      // Unfinished exports may have left a partial archive at the default key
+      await getStorageDriver(row.storage_driver ?? undefined).delete(
+        row.storage_key ?? this.getStorageKey(userId, exportId)
+      );
+    }
+
+    return result.rows.length;
+  }
+
+  /**
+   * Build the archive of an export and store it
+   *
+   * @param exportId - Export ID (exports deleted in the meantime are skipped)
+   */
+  async buildExport(exportId: string): Promise<void> {
+    const db = getDatabaseService();
+
+    const claimed = await db.query(
+      `
+        UPDATE user_exports
+        SET status = 'processing'
+        WHERE export_id = $1 AND status IN ('pending', 'processing')
+        RETURNING user_id
+      `,
+      [exportId]
+    );
+    if (claimed.rows.length === 0) {
+      return;
+    }
+    const userId: string = claimed.rows[0].user_id;
+
+    const driver = getStorageDriver();
+    const storageKey = this.getStorageKey(userId, exportId);
+
+    const archive = archiver('zip', { zlib: { level: 6 } });
+    const upload = driver.put(storageKey, archive);
+    // Awaited below; keeps an early failure from surfacing as an unhandled rejection
+    upload.catch(() => undefined);
+
+    try {
+      await this.writeArchive(archive, userId);
+      await archive.finalize();
+      const size = await upload;
+
+      await db.transaction(async client => {
+        const result = await client.query(
+          `
+            UPDATE user_exports
+            SET status = 'completed', storage_driver = $2, storage_key = $3, size = $4, error = NULL,
+                completed_at = CURRENT_TIMESTAMP,
+                expires_at = CURRENT_TIMESTAMP + make_interval(days => $5::integer)
+            WHERE export_id = $1
+            RETURNING expires_at
+          `,
+          [exportId, driver.name, storageKey, size, this.retentionDays]
+        );
+        await getJobQueue().enqueue(
+          EXPORT_EXPIRE_JOB,
+          { exportId },
+          { runAt: result.rows[0].expires_at, client }
+        );
+      });
+    } catch (error) {
+      archive.abort();
+      await upload.catch(() => undefined);
+      await driver.delete(storageKey).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Storage key of an export's archive
+   */
+  private getStorageKey(userId: string, exportId: string): string {
+    return `exports/${userId}/${exportId}.zip`;
+  }
+
+  /**
+   * Append all of a user's data to an archive
+   */
+  private async writeArchive(archive: archiver.Archiver, userId: string): Promise<void> {
+    const db = getDatabaseService();
+
+    const appendJson = (name: string, data: unknown) =>
+      archive.append(JSON.stringify(data, null, 2), { name });
+
+    const profile = await getUserService().getUserProfile(userId);
+    appendJson('profile.json', profile);
+
+    const entriesResult = await db.query(
+      'SELECT * FROM journal_entries WHERE user_id = $1 ORDER BY entry_date ASC, created_at ASC, entry_id ASC',
+      [userId]
+    );
+    const entries = entriesResult.rows.map(row => keysToCamelCase<JournalEntry>(row));
+    appendJson('journal/entries.json', entries);
+
+    const chaptersResult = await db.query(
+      'SELECT * FROM journal_chapters WHERE user_id = $1 ORDER BY chapter_date ASC',
+      [userId]
+    );
+    const chapters = chaptersResult.rows.map(row => keysToCamelCase<JournalChapter>(row));
+    appendJson('journal/chapters.json', chapters);
+
+    const timezone = profile.timezone || DEFAULT_TIMEZONE;
+    for (const [date, page] of this.renderJournalPages(entries, chapters, timezone)) {
+      archive.append(page, { name: `journal/markdown/${date}.md` });
+    }
+
+    const achievementsResult = await db.query(
+      'SELECT achievement_key, unlocked_at FROM user_achievements WHERE user_id = $1 ORDER BY unlocked_at ASC',
+      [userId]
+    );
+    appendJson('achievements.json', achievementsResult.rows.map(row => keysToCamelCase(row)));
+
+    const inquiriesResult = await db.query(
+      `
+        SELECT
+          i.inquiry_id, i.subject, i.message, i.status, i.response, i.created_at, i.answered_at,
+          COALESCE(
+            (
+              SELECT json_agg(
+                json_build_object('authorRole', m.author_role, 'body', m.body, 'createdAt', m.created_at)
+                ORDER BY m.created_at, m.message_id
+              )
+              FROM inquiry_messages m
+              WHERE m.inquiry_id = i.inquiry_id AND NOT m.is_internal
+            ),
+            '[]'::json
+          ) AS messages
+        FROM user_inquiries i
+        WHERE i.user_id = $1
+        ORDER BY i.created_at ASC
+      `,
+      [userId]
+    );
+    appendJson('inquiries.json', inquiriesResult.rows.map(row => keysToCamelCase(row)));
+
+    const reportsResult = await db.query(
+      `
+        SELECT r.report_id, ru.nickname AS reported_user_nickname, r.reason, r.description, r.status, r.created_at
+        FROM user_reports r
+        LEFT JOIN users ru ON ru.user_id = r.reported_user_id
+        WHERE r.reporter_id = $1
+        ORDER BY r.created_at ASC
+      `,
+      [userId]
+    );
+    appendJson('reports.json', reportsResult.rows.map(row => keysToCamelCase(row)));
+
+    const itemsResult = await db.query(
+      'SELECT * FROM library_items WHERE user_id = $1 ORDER BY created_at ASC',
+      [userId]
+    );
+    const items = itemsResult.rows.map(row => getLibraryService().toRecord(row));
+    appendJson(
+      'library/items.json',
+      items.map(item => ({
+        itemId: item.itemId,
+        name: item.name,
+        type: item.type,
+        visibility: item.visibility,
+        mimeType: item.mimeType,
+        size: item.size,
+        createdAt: item.createdAt,
+        file: this.libraryFileName(item),
+      }))
+    );
+
+    // Files are appended one at a time so that they aren't all open at once
+    for (const item of items) {
+      let stream: Readable;
+      try {
+        stream = await getStorageDriver(item.storageDriver).getStream(item.storageKey);
+      } catch (error) {
+        if (error instanceof StorageObjectNotFoundError) {
+          continue;
+        }
+        throw error;
+      }
+      const name = this.libraryFileName(item);
+      const appended = this.waitForEntry(archive, name);
+      archive.append(stream, { name });
+      await appended;
+    }
+  }
+
+  /**
+   * Resolve once the archive has written the entry with the given name
+   *
+   * Other entries (e.g. the JSON files queued before it) emit 'entry' too,
+   * so the first event isn't necessarily this one.
+   */
+  private waitForEntry(archive: archiver.Archiver, name: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onEntry = (entry: archiver.EntryData) => {
+        if (entry.name === name) {
+          cleanup();
+          resolve();
+        }
+      };
+      const onError = (error: Error) => {
+        cleanup();
+        reject(error);
+      };
+      const cleanup = () => {
+        archive.off('entry', onEntry);
+        archive.off('error', onError);
+      };
+
+      archive.on('entry', onEntry);
+      archive.on('error', onError);
+    });
+  }
+
+  /**
+   * Render one Markdown page per day with the chapter title, summary and entries
+   */
+  private renderJournalPages(
+    entries: JournalEntry[],
+    chapters: JournalChapter[],
+    timezone: string
+  ): Map<string, string> {
+    const chaptersByDate = new Map(chapters.map(chapter => [chapter.chapterDate, chapter]));
+    const entriesByDate = new Map<string, JournalEntry[]>();
+    for (const entry of entries) {
+      entriesByDate.set(entry.entryDate, [...(entriesByDate.get(entry.entryDate) ?? []), entry]);
+    }
+
+    const dates = [...new Set([...chaptersByDate.keys(), ...entriesByDate.keys()])].sort();
+    const pages = new Map<string, string>();
+
+    for (const date of dates) {
+      const chapter = chaptersByDate.get(date);
+      const lines = [`# ${chapter?.title ?? date}`, '', `_${date}_`, ''];
+
+      if (chapter?.summary) {
+        lines.push('## 요약', '', chapter.summary, '');
+      }
+      if (chapter?.emotions?.length) {
+        lines.push(
+          `감정: ${chapter.emotions.map(emotion => `${emotion.label} ${emotion.percentage}%`).join(', ')}`,
+          ''
+        );
+      }
+
+      for (const entry of entriesByDate.get(date) ?? []) {
+        const time = new Date(entry.createdAt).toLocaleTimeString('ko-KR', {
+          timeZone: entry.timezone || timezone,
+          hour: '2-digit',
+          minute: '2-digit',
+        });
+        lines.push(`## ${time}`, '', entry.content, '');
+      }
+
+      pages.set(date, lines.join('\n'));
+    }
+
+    return pages;
+  }
+
+  /**
+   * Path of a library file inside the archive
+   */
+  private libraryFileName(item: LibraryItemRecord): string {
+    const safeName = Array.from(item.name, char => (char < ' ' || '\\/:*?"<>|'.includes(char) ? '_' : char)).join('');
+    return `library/files/${item.itemId}-${safeName}`;
+  }
+
+  private async findExportRow(userId: string, exportId: string): Promise<Record<string, unknown>> {
+    const db = getDatabaseService();
+
+    if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(exportId)) {
+      throw new ExportNotFoundError(exportId);
+    }
+
+    const result = await db.query(
+      'SELECT * FROM user_exports WHERE export_id = $1 AND user_id = $2',
+      [exportId, userId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new ExportNotFoundError(exportId);
+    }
+
+    return result.rows[0];
+  }
+
+  private readRetentionDays(): number {
+    const value = Number(process.env.EXPORT_RETENTION_DAYS);
+    return Number.isInteger(value) && value > 0 ? value : 7;
+  }
+
+  private toExport(row: Record<string, unknown>): UserExport {
+    const record = keysToCamelCase(row);
+    return {
+      exportId: record.exportId,
+      status: record.status,
+      size: record.size === null ? null : Number(record.size),
+      error: record.error,
+      createdAt: record.createdAt,
+      completedAt: record.completedAt,
+      expiresAt: record.expiresAt,
+    };
+  }
+}
+
+/**
+ * Singleton instance
+ */
+let dataExportServiceInstance: DataExportService | null = null;
+
+/**
+ * Get DataExportService instance
+ */
+export function getDataExportService(): DataExportService {
+  if (!dataExportServiceInstance) {
+    dataExportServiceInstance = new DataExportService();
+  }
+  return dataExportServiceInstance;
+}
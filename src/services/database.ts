@@ -7,7 +7,10 @@
  * Requirements: 1.1, 1.2, 1.3, 1.4, 1.5, 1.6, 9.1, 9.4
  */
 
-import { Pool, PoolClient, PoolConfig, QueryResult } from 'pg';
+import { Pool, PoolClient, PoolConfig, QueryResult, types } from 'pg';
+
+// Return DATE columns as 'YYYY-MM-DD' strings instead of local-midnight Date objects
+types.setTypeParser(types.builtins.DATE, (value: string) => value);
 
 /**
  * Database configuration interface
@@ -0,0 +1,125 @@
+/**
+ * Email Service Module
+ *
+ * Sends email behind an EmailTransport interface so that the delivery
+ * mechanism can change without touching callers. An SMTP transport is
+ * provided; in development it points at a local SMTP stand-in such as
+ * Mailpit or MailHog (localhost:1025). Other transports (e.g. an email API)
+ * can be registered with registerEmailTransport.
+ *
+ * Transport selection: EMAIL_TRANSPORT environment variable (default: smtp)
+ * SMTP transport: SMTP_HOST (default: localhost), SMTP_PORT (default: 1025),
+ * SMTP_SECURE, SMTP_USER, SMTP_PASSWORD
+ * Sender address: EMAIL_FROM
+ */
+
+import nodemailer from 'nodemailer';
+import type { Transporter } from 'nodemailer';
+
+/**
+ * Email to send
+ */
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Email transport interface
+ */
+export interface EmailTransport {
+  readonly name: string;
+
+  /**
+   * Send an email
+   */
+  send(message: EmailMessage): Promise<void>;
+}
+
+/**
+ * SMTP Email Transport
+ */
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = 'smtp';
+
+  private transporter: Transporter;
+
+  constructor(private from: string) {
+    const user = process.env.SMTP_USER;
+
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST || 'localhost',
+      port: Number(process.env.SMTP_PORT) || 1025,
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: user ? { user, pass: process.env.SMTP_PASSWORD } : undefined,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.from, ...message });
+  }
+}
+
+/**
+ * Log Email Transport
+ *
+ * Writes emails to the console instead of sending them.
+ */
+export class LogEmailTransport implements EmailTransport {
+  readonly name = 'log';
+
+  async send(message: EmailMessage): Promise<void> {
+    console.log(`Email to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+const defaultSender = () => process.env.EMAIL_FROM || '과거의 나 <no-reply@localhost>';
+
+/**
+ * Registered transport factories, keyed by transport name
+ */
+const transportFactories = new Map<string, () => EmailTransport>([
+  ['smtp', () => new SmtpEmailTransport(defaultSender())],
+  ['log', () => new LogEmailTransport()],
+]);
+
+/**
+ * Register an email transport
+ *
+ * Makes a transport selectable through EMAIL_TRANSPORT.
+ *
+ * @param name - Transport name
+ * @param factory - Function creating the transport
+ */
+export function registerEmailTransport(name: string, factory: () => EmailTransport): void {
+  transportFactories.set(name, factory);
+  transports.delete(name);
+}
+
+/**
+ * Created transports, keyed by transport name
+ */
+const transports = new Map<string, EmailTransport>();
+
+/**
+ * Get an email transport by name
+ *
+ * @param name - Transport name (default: EMAIL_TRANSPORT or smtp)
+ * @returns Email transport
+ * @throws Error if no transport with that name is registered
+ */
+export function getEmailTransport(name: string = process.env.EMAIL_TRANSPORT || 'smtp'): EmailTransport {
+  let transport = transports.get(name);
+
+  if (!transport) {
+    const factory = transportFactories.get(name);
+    if (!factory) {
+      throw new Error(`Unknown email transport: ${name}`);
+    }
+    transport = factory();
+    transports.set(name, transport);
+  }
+
+  return transport;
+}
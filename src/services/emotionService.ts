@@ -0,0 +1,226 @@
+/**
+ * Emotion Service Module
+ *
+ * Lexicon-based emotion analysis for journal text in Korean, English and Japanese.
+ * Each emotion has a list of cue words per language; the share of cues found in
+ * the text becomes the emotion's percentage. Results use the same shape as
+ * `EmotionBadge` so they can be rendered directly.
+ */
+
+import type { EmotionTag, EmotionType } from '../types/database';
+
+/**
+ * Maximum number of emotions returned for a text
+ */
+const MAX_EMOTIONS = 3;
+
+/**
+ * Emotion returned when no cue word is found
+ */
+const FALLBACK_EMOTION: EmotionTag = { type: 'neutral', label: '담담함', percentage: 100 };
+
+/**
+ * Emotion lexicon entry
+ *
+ * - `ko` / `ja`: stems matched anywhere in the text (no word spacing to rely on,
+ *   and Korean stems are followed by conjugated endings)
+ * - `en`: whole words, or word prefixes when ending in `*` (e.g. "happ*" → happy, happiness)
+ */
+interface EmotionLexiconEntry {
+  type: EmotionType;
+  label: string;
+  ko: string[];
+  en: string[];
+  ja: string[];
+}
+
+const EMOTION_LEXICON: EmotionLexiconEntry[] = [
+  {
+    type: 'positive',
+    label: '기쁨',
+    ko: ['기쁘', '기뻤', '기쁨', '행복', '즐거', '즐겁', '신나', '신났', '좋았', '웃었', '웃음', '뿌듯'],
+    en: ['happ*', 'joy*', 'glad', 'fun', 'delight*', 'excit*', 'laugh*', 'great', 'wonderful', 'proud'],
+    ja: ['嬉し', 'うれし', '楽し', 'たのし', '幸せ', 'しあわせ', '喜', '笑'],
+  },
+  {
+    type: 'positive',
+    label: '평온',
+    ko: ['평온', '편안', '편했', '차분', '여유', '고요', '잔잔', '느긋', '안정', '쉬었', '휴식'],
+    en: ['calm*', 'peace*', 'relax*', 'quiet*', 'rested', 'resting', 'comfort*', 'content', 'cozy', 'serene'],
+    ja: ['穏やか', 'おだやか', '落ち着', 'のんびり', '安心', 'ほっと', '静か', 'ゆっくり'],
+  },
+  {
+    type: 'positive',
+    label: '감사',
+    ko: ['감사', '고마', '고맙', '다행'],
+    en: ['thank*', 'grateful', 'gratitude', 'appreciat*', 'blessed', 'lucky'],
+    ja: ['感謝', 'ありがと', '有難', 'おかげ'],
+  },
+  {
+    type: 'positive',
+    label: '설렘',
+    ko: ['설레', '설렘', '기대', '두근'],
+    en: ['look forward', 'looking forward', 'thrill*', 'eager*', 'hope', 'hopeful', 'hoping'],
+    ja: ['わくわく', 'ワクワク', 'ドキドキ', '楽しみ', '期待'],
+  },
+  {
+    type: 'neutral',
+    label: '그리움',
+    ko: ['그립', '그리워', '그리움', '보고 싶', '보고싶', '추억', '옛날', '예전'],
+    en: ['miss', 'missed', 'missing', 'nostalgi*', 'memories', 'memory', 'remember*', 'used to'],
+    ja: ['懐かし', 'なつかし', '恋し', '思い出', '会いたい'],
+  },
+  {
+    type: 'neutral',
+    label: '피곤',
+    ko: ['피곤', '지쳤', '지친', '졸려', '졸렸', '힘들', '힘든', '녹초'],
+    en: ['tired', 'exhaust*', 'sleepy', 'weary', 'drained', 'worn out'],
+    ja: ['疲れ', 'つかれ', '眠い', 'ねむい', 'しんどい', 'だるい'],
+  },
+  {
+    type: 'negative',
+    label: '슬픔',
+    ko: ['슬프', '슬펐', '슬픔', '눈물', '울었', '우울', '속상', '아프', '아팠'],
+    en: ['sad*', 'cry', 'cried', 'crying', 'tears', 'depress*', 'hurt*', 'heartbr*', 'upset', 'unhapp*'],
+    ja: ['悲し', 'かなし', '泣', '涙', '辛い', 'つらい', '落ち込'],
+  },
+  {
+    type: 'negative',
+    label: '쓸쓸함',
+    ko: ['쓸쓸', '외로', '외롭', '허전', '공허', '혼자'],
+    en: ['lonel*', 'alone', 'empty', 'isolat*'],
+    ja: ['寂し', 'さみし', 'さびし', '孤独', 'ひとりぼっち'],
+  },
+  {
+    type: 'negative',
+    label: '불안',
+    ko: ['불안', '걱정', '긴장', '초조', '두려', '무서', '무섭', '막막'],
+    en: ['anxi*', 'worr*', 'nervous', 'afraid', 'fear*', 'scared', 'scary', 'stress*', 'uneas*'],
+    ja: ['不安', '心配', '緊張', '怖', 'こわ', 'ストレス'],
+  },
+  {
+    type: 'negative',
+    label: '분노',
+    ko: ['화가', '화났', '화나', '짜증', '분노', '억울', '답답'],
+    en: ['angr*', 'anger', 'mad', 'furious', 'annoy*', 'irritat*', 'frustrat*'],
+    ja: ['怒', 'イライラ', 'いらいら', 'ムカ', 'むかつ', '腹が立'],
+  },
+];
+
+/**
+ * Escape a string for use inside a regular expression
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Count occurrences of a substring
+ */
+function countOccurrences(text: string, stem: string): number {
+  let count = 0;
+  let index = text.indexOf(stem);
+  while (index !== -1) {
+    count++;
+    index = text.indexOf(stem, index + stem.length);
+  }
+  return count;
+}
+
+/**
+ * Pre-compiled English patterns, one per lexicon entry
+ */
+const ENGLISH_PATTERNS = EMOTION_LEXICON.map(entry => {
+  const words = entry.en.map(word =>
+    word.endsWith('*') ? `${escapeRegExp(word.slice(0, -1))}[a-z]*` : escapeRegExp(word)
+  );
+  return new RegExp(`\\b(?:${words.join('|')})\\b`, 'g');
+});
+
+/**
+ * Convert raw scores into integer percentages that add up to exactly 100
+ *
+ * Uses the largest remainder method so rounding never over- or under-shoots.
+ */
+export function toPercentages(scores: number[]): number[] {
+  const total = scores.reduce((sum, score) => sum + score, 0);
+  const exact = scores.map(score => (score / total) * 100);
+  const result = exact.map(value => Math.floor(value));
+  let remaining = 100 - result.reduce((sum, value) => sum + value, 0);
+
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+
+  for (const { index } of byRemainder) {
+    if (remaining <= 0) break;
+    result[index]++;
+    remaining--;
+  }
+
+  return result;
+}
+
+/**
+ * Analyze the emotions expressed in a text
+ *
+ * @param text - Text to analyze (any mix of Korean, English and Japanese)
+ * @returns Up to three emotions, strongest first, with percentages summing to 100
+ */
+export function analyzeEmotions(text: string): EmotionTag[] {
+  const normalized = text.toLowerCase();
+
+  const scored = EMOTION_LEXICON.map((entry, index) => {
+    const stemHits = [...entry.ko, ...entry.ja].reduce(
+      (sum, stem) => sum + countOccurrences(normalized, stem),
+      0
+    );
+    const englishHits = normalized.match(ENGLISH_PATTERNS[index])?.length || 0;
+    return { entry, index, score: stemHits + englishHits };
+  })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, MAX_EMOTIONS);
+
+  if (scored.length === 0) {
+    return [{ ...FALLBACK_EMOTION }];
+  }
+
+  const percentages = toPercentages(scored.map(({ score }) => score));
+
+  return scored.map(({ entry }, i) => ({
+    type: entry.type,
+    label: entry.label,
+    percentage: percentages[i],
+  }));
+}
+
+/**
+ * Emotion Service Class
+ */
+export class EmotionService {
+  /**
+   * Analyze the emotions of a day's entries
+   *
+   * @param entries - Entry texts
+   * @returns Up to three emotions, strongest first, with percentages summing to 100
+   */
+  analyzeEntries(entries: string[]): EmotionTag[] {
+    return analyzeEmotions(entries.join('\n'));
+  }
+}
+
+/**
+ * Singleton instance
+ */
+let emotionServiceInstance: EmotionService | null = null;
+
+/**
+ * Get EmotionService instance
+ */
+export function getEmotionService(): EmotionService {
+  if (!emotionServiceInstance) {
+    emotionServiceInstance = new EmotionService();
+  }
+  return emotionServiceInstance;
+}
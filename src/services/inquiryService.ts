@@ -5,13 +5,41 @@
  * - Creating user inquiries
  * - Retrieving user inquiry history
  * - Validating inquiry data
+ * - Threaded follow-ups, staff responses and internal notes
+ * - The admin inquiry queue
  * 
  * Requirements: 8.1, 8.2, 8.3, 8.4
  */
 
 import { getDatabaseService } from './database';
-import { keysToCamelCase } from './databaseUtils';
-import type { UserInquiry, CreateUserInquiryData } from '../types/database';
+import { getNotificationService } from './notificationService';
+import {
+  createPaginationParams,
+  createPaginationResponse,
+  keysToCamelCase,
+  PaginationResponse,
+} from './databaseUtils';
+import type {
+  AdminInquiry,
+  AdminInquiryFilters,
+  AdminInquiryThread,
+  AdminUserSummary,
+  CreateUserInquiryData,
+  InquiryMessage,
+  InquiryStatus,
+  InquiryThread,
+  UserInquiry,
+} from '../types/database';
+
+/**
+ * Valid inquiry statuses
+ */
+export const VALID_INQUIRY_STATUSES: InquiryStatus[] = ['pending', 'answered', 'closed'];
+
+/**
+ * Maximum length of a follow-up, response or internal note
+ */
+const MAX_MESSAGE_LENGTH = 2000;
 
 /**
  * Inquiry Service Error Types
@@ -23,6 +51,13 @@ export class InquiryValidationError extends Error {
   }
 }
 
+export class InquiryNotFoundError extends Error {
+  constructor(inquiryId: number) {
+    super(`Inquiry not found: ${inquiryId}`);
+    this.name = 'InquiryNotFoundError';
+  }
+}
+
 /**
  * Inquiry Service Class
  */
@@ -141,18 +176,26 @@ export class InquiryService {
    * @param status - New status
    * @param response - Optional response message
    * @returns Updated inquiry
+   * @throws InquiryValidationError if status is invalid
+   * @throws InquiryNotFoundError if the inquiry doesn't exist
    */
   async updateInquiryStatus(
     inquiryId: number,
-    status: 'pending' | 'answered' | 'closed',
+    status: InquiryStatus,
     response?: string
   ): Promise<UserInquiry> {
     const db = getDatabaseService();
 
+    if (!VALID_INQUIRY_STATUSES.includes(status)) {
+      throw new InquiryValidationError(
+        `Invalid inquiry status: ${status}. Must be one of: ${VALID_INQUIRY_STATUSES.join(', ')}`
+      );
+    }
+
     const query = `
       UPDATE user_inquiries
       SET status = $1,
-          response = $2,
+          response = COALESCE($2, response),
           answered_at = CASE WHEN $1 = 'answered' THEN CURRENT_TIMESTAMP ELSE answered_at END
       WHERE inquiry_id = $3
       RETURNING *
@@ -161,7 +204,7 @@ export class InquiryService {
     const result = await db.query(query, [status, response || null, inquiryId]);
 
     if (result.rows.length === 0) {
-      throw new Error(`Inquiry not found: ${inquiryId}`);
+      throw new InquiryNotFoundError(inquiryId);
     }
 
     return keysToCamelCase<UserInquiry>(result.rows[0]);
@@ -237,6 +280,364 @@ export class InquiryService {
 
     return result.rows.map(row => keysToCamelCase<UserInquiry>(row));
   }
+
+  /**
+   * Get one of a user's inquiries with its thread
+   * 
+   * Internal notes are left out, and staff are shown without their
+   * nicknames.
+   * 
+   * @param userId - User ID
+   * @param inquiryId - Inquiry ID
+   * @returns Inquiry thread
+   * @throws InquiryNotFoundError if the user has no such inquiry
+   */
+  async getUserInquiryThread(userId: string, inquiryId: number): Promise<InquiryThread> {
+    const db = getDatabaseService();
+
+    const result = await db.query(
+      'SELECT * FROM user_inquiries WHERE inquiry_id = $1 AND user_id = $2',
+      [inquiryId, userId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new InquiryNotFoundError(inquiryId);
+    }
+
+    const messages = await this.getMessages(inquiryId, false);
+
+    return {
+      ...this.toThread(result.rows[0]),
+      messages: messages.map(message =>
+        message.authorRole === 'staff' ? { ...message, authorNickname: null } : message
+      ),
+    };
+  }
+
+  /**
+   * Add a user's follow-up to their inquiry
+   * 
+   * Reopens the inquiry (status back to pending) so it returns to the
+   * admin queue.
+   * 
+   * @param userId - User ID
+   * @param inquiryId - Inquiry ID
+   * @param body - Follow-up message
+   * @returns Updated inquiry thread
+   * @throws InquiryValidationError if the message is invalid or the inquiry is closed
+   * @throws InquiryNotFoundError if the user has no such inquiry
+   */
+  async addUserReply(userId: string, inquiryId: number, body: string): Promise<InquiryThread> {
+    const db = getDatabaseService();
+    const message = this.validateMessageBody(body);
+
+    await db.transaction(async client => {
+      const result = await client.query(
+        'SELECT status FROM user_inquiries WHERE inquiry_id = $1 AND user_id = $2 FOR UPDATE',
+        [inquiryId, userId]
+      );
+
+      if (result.rows.length === 0) {
+        throw new InquiryNotFoundError(inquiryId);
+      }
+
+      if (result.rows[0].status === 'closed') {
+        throw new InquiryValidationError('Closed inquiries cannot be replied to');
+      }
+
+      await client.query(
+        `
+          INSERT INTO inquiry_messages (inquiry_id, author_id, author_role, body)
+          VALUES ($1, $2, 'user', $3)
+        `,
+        [inquiryId, userId, message]
+      );
+
+      await client.query("UPDATE user_inquiries SET status = 'pending' WHERE inquiry_id = $1", [inquiryId]);
+    });
+
+    return this.getUserInquiryThread(userId, inquiryId);
+  }
+
+  /**
+   * Get inquiries for the admin queue
+   * 
+   * Lists inquiries with the inquirer attached, most recent activity first.
+   * 
+   * @param filters - Status and search filters, and page
+   * @returns Page of inquiries
+   * @throws InquiryValidationError if the status filter is invalid
+   */
+  async getAdminInquiries(filters: AdminInquiryFilters = {}): Promise<PaginationResponse<AdminInquiry>> {
+    const db = getDatabaseService();
+    const page = filters.page ?? 1;
+    const pageSize = filters.pageSize ?? 20;
+    const { limit, offset } = createPaginationParams(page, pageSize);
+
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+
+    if (filters.status !== undefined) {
+      if (!VALID_INQUIRY_STATUSES.includes(filters.status)) {
+        throw new InquiryValidationError(`Invalid inquiry status: ${filters.status}`);
+      }
+      values.push(filters.status);
+      conditions.push(`i.status = $${values.length}`);
+    }
+
+    if (filters.search) {
+      values.push(`%${filters.search.replace(/[\\%_]/g, '\\$&')}%`);
+      const param = `$${values.length}`;
+      conditions.push(`(i.subject ILIKE ${param} OR u.nickname ILIKE ${param} OR u.email ILIKE ${param})`);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countResult = await db.query(
+      `
+        SELECT COUNT(*) as count
+        FROM user_inquiries i
+        JOIN users u ON u.user_id = i.user_id
+        ${where}
+      `,
+      values
+    );
+    const totalItems = parseInt(countResult.rows[0].count, 10);
+
+    const result = await db.query(
+      `
+        SELECT
+          i.inquiry_id, i.subject, i.status, i.created_at, i.answered_at, i.answered_by,
+          u.user_id, u.email AS user_email, u.nickname AS user_nickname, u.status AS user_status,
+          a.email AS answerer_email, a.nickname AS answerer_nickname, a.status AS answerer_status,
+          COALESCE(m.message_count, 0) AS message_count,
+          GREATEST(i.created_at, m.last_message_at) AS last_message_at
+        FROM user_inquiries i
+        JOIN users u ON u.user_id = i.user_id
+        LEFT JOIN users a ON a.user_id = i.answered_by
+        LEFT JOIN LATERAL (
+          SELECT COUNT(*) AS message_count, MAX(created_at) AS last_message_at
+          FROM inquiry_messages
+          WHERE inquiry_id = i.inquiry_id AND NOT is_internal
+        ) m ON TRUE
+        ${where}
+        ORDER BY last_message_at DESC, i.inquiry_id DESC
+        LIMIT $${values.length + 1} OFFSET $${values.length + 2}
+      `,
+      [...values, limit, offset]
+    );
+
+    const inquiries = result.rows.map(row => {
+      const inquiry = keysToCamelCase(row);
+      return {
+        inquiryId: inquiry.inquiryId,
+        subject: inquiry.subject,
+        status: inquiry.status,
+        createdAt: inquiry.createdAt,
+        answeredAt: inquiry.answeredAt,
+        lastMessageAt: inquiry.lastMessageAt,
+        messageCount: parseInt(inquiry.messageCount, 10),
+        user: this.toUserSummary(inquiry, inquiry.userId, 'user')!,
+        answeredBy: this.toUserSummary(inquiry, inquiry.answeredBy, 'answerer'),
+      };
+    });
+
+    return createPaginationResponse(inquiries, totalItems, page, limit);
+  }
+
+  /**
+   * Get an inquiry thread for staff, including internal notes
+   * 
+   * @param inquiryId - Inquiry ID
+   * @returns Inquiry thread with the inquirer and the latest responder
+   * @throws InquiryNotFoundError if the inquiry doesn't exist
+   */
+  async getAdminInquiryThread(inquiryId: number): Promise<AdminInquiryThread> {
+    const db = getDatabaseService();
+
+    const result = await db.query(
+      `
+        SELECT
+          i.*,
+          u.email AS user_email, u.nickname AS user_nickname, u.status AS user_status,
+          a.email AS answerer_email, a.nickname AS answerer_nickname, a.status AS answerer_status
+        FROM user_inquiries i
+        JOIN users u ON u.user_id = i.user_id
+        LEFT JOIN users a ON a.user_id = i.answered_by
+        WHERE i.inquiry_id = $1
+      `,
+      [inquiryId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new InquiryNotFoundError(inquiryId);
+    }
+
+    const inquiry = keysToCamelCase(result.rows[0]);
+
+    return {
+      ...this.toThread(result.rows[0]),
+      user: this.toUserSummary(inquiry, inquiry.userId, 'user')!,
+      answeredBy: this.toUserSummary(inquiry, inquiry.answeredBy, 'answerer'),
+      messages: await this.getMessages(inquiryId, true),
+    };
+  }
+
+  /**
+   * Answer an inquiry
+   * 
+   * Adds the response to the thread and records it as the inquiry's
+   * latest response (response, answered_at, answered_by), then notifies
+   * the user who asked.
+   * 
+   * @param inquiryId - Inquiry ID
+   * @param staffId - User ID of the staff member answering
+   * @param body - Response message
+   * @returns Updated inquiry thread
+   * @throws InquiryValidationError if the message is invalid
+   * @throws InquiryNotFoundError if the inquiry doesn't exist
+   */
+  async respondToInquiry(inquiryId: number, staffId: string, body: string): Promise<AdminInquiryThread> {
+    const db = getDatabaseService();
+    const response = this.validateMessageBody(body);
+
+    const inquiry = await db.transaction(async client => {
+      const result = await client.query(
+        `
+          UPDATE user_inquiries
+          SET status = 'answered', response = $1, answered_at = CURRENT_TIMESTAMP, answered_by = $2
+          WHERE inquiry_id = $3
+          RETURNING user_id, subject
+        `,
+        [response, staffId, inquiryId]
+      );
+
+      if (result.rows.length === 0) {
+        throw new InquiryNotFoundError(inquiryId);
+      }
+
+      await client.query(
+        `
+          INSERT INTO inquiry_messages (inquiry_id, author_id, author_role, body)
+          VALUES ($1, $2, 'staff', $3)
+        `,
+        [inquiryId, staffId, response]
+      );
+
+      return result.rows[0];
+    });
+
+    await getNotificationService()
+      .notify(inquiry.user_id, 'inquiry_answered', { subject: inquiry.subject })
+      .catch(error => console.error('Failed to send inquiry notification:', error));
+
+    return this.getAdminInquiryThread(inquiryId);
+  }
+
+  /**
+   * Add an internal note to an inquiry
+   * 
+   * Notes are visible to staff only and don't change the inquiry status.
+   * 
+   * @param inquiryId - Inquiry ID
+   * @param staffId - User ID of the staff member writing the note
+   * @param body - Note
+   * @returns Updated inquiry thread
+   * @throws InquiryValidationError if the note is invalid
+   * @throws InquiryNotFoundError if the inquiry doesn't exist
+   */
+  async addInternalNote(inquiryId: number, staffId: string, body: string): Promise<AdminInquiryThread> {
+    const db = getDatabaseService();
+    const note = this.validateMessageBody(body);
+
+    const result = await db.query(
+      `
+        INSERT INTO inquiry_messages (inquiry_id, author_id, author_role, body, is_internal)
+        SELECT inquiry_id, $2, 'staff', $3, TRUE
+        FROM user_inquiries
+        WHERE inquiry_id = $1
+        RETURNING message_id
+      `,
+      [inquiryId, staffId, note]
+    );
+
+    if (result.rows.length === 0) {
+      throw new InquiryNotFoundError(inquiryId);
+    }
+
+    return this.getAdminInquiryThread(inquiryId);
+  }
+
+  /**
+   * Get the messages of an inquiry thread, oldest first
+   */
+  private async getMessages(inquiryId: number, includeInternal: boolean): Promise<InquiryMessage[]> {
+    const db = getDatabaseService();
+
+    const result = await db.query(
+      `
+        SELECT m.*, u.nickname AS author_nickname
+        FROM inquiry_messages m
+        LEFT JOIN users u ON u.user_id = m.author_id
+        WHERE m.inquiry_id = $1 ${includeInternal ? '' : 'AND NOT m.is_internal'}
+        ORDER BY m.created_at ASC, m.message_id ASC
+      `,
+      [inquiryId]
+    );
+
+    return result.rows.map(row => {
+      const message = keysToCamelCase(row);
+      return {
+        messageId: message.messageId,
+        inquiryId: message.inquiryId,
+        authorRole: message.authorRole,
+        authorNickname: message.authorNickname,
+        body: message.body,
+        isInternal: message.isInternal,
+        createdAt: message.createdAt,
+      };
+    });
+  }
+
+  private validateMessageBody(body: unknown): string {
+    if (typeof body !== 'string' || body.trim().length === 0) {
+      throw new InquiryValidationError('Message is required');
+    }
+
+    if (body.length > MAX_MESSAGE_LENGTH) {
+      throw new InquiryValidationError(`Message must not exceed ${MAX_MESSAGE_LENGTH} characters`);
+    }
+
+    return body.trim();
+  }
+
+  private toThread(row: Record<string, unknown>): Omit<InquiryThread, 'messages'> {
+    const inquiry = keysToCamelCase(row);
+    return {
+      inquiryId: inquiry.inquiryId,
+      subject: inquiry.subject,
+      message: inquiry.message,
+      status: inquiry.status,
+      response: inquiry.response,
+      createdAt: inquiry.createdAt,
+      answeredAt: inquiry.answeredAt,
+    };
+  }
+
+  private toUserSummary(
+    row: Record<string, unknown>,
+    userId: string | null,
+    prefix: string
+  ): AdminUserSummary | null {
+    return userId
+      ? {
+          userId,
+          email: row[`${prefix}Email`] as string,
+          nickname: row[`${prefix}Nickname`] as string,
+          status: row[`${prefix}Status`] as AdminUserSummary['status'],
+        }
+      : null;
+  }
 }
 
 /**
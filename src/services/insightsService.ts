@@ -0,0 +1,196 @@
+/**
+ * Insights Service Module
+ *
+ * Aggregates journal entries and chapter emotions into the statistics shown
+ * on the insights dashboard: emotion distribution over time, writing
+ * frequency, and average entries per day.
+ */
+
+import { getDatabaseService } from './database';
+import { isValidEntryDate, JournalValidationError } from './journalService';
+import { toPercentages } from './emotionService';
+import { addDays } from './timezoneUtils';
+import type {
+  EmotionTag,
+  EmotionType,
+  InsightsBucket,
+  InsightsRange,
+  JournalInsights,
+} from '../types/database';
+
+/**
+ * Supported ranges
+ */
+export const INSIGHTS_RANGES: InsightsRange[] = ['week', 'month', 'year'];
+
+/**
+ * Number of emotion labels returned in topEmotions
+ */
+const TOP_EMOTIONS_LIMIT = 5;
+
+/**
+ * First and last day covered by a range ending on endDate
+ *
+ * - week: the last 7 days
+ * - month: the last 30 days
+ * - year: the last 12 calendar months, including the current one
+ */
+function getRangeStart(range: InsightsRange, endDate: string): string {
+  if (range === 'week') {
+    return addDays(endDate, -6);
+  }
+  if (range === 'month') {
+    return addDays(endDate, -29);
+  }
+  const end = new Date(`${endDate}T00:00:00Z`);
+  return new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth() - 11, 1)).toISOString().slice(0, 10);
+}
+
+/**
+ * Bucket key of a date: the day itself, or its month for the year range
+ */
+function getBucketKey(range: InsightsRange, date: string): string {
+  return range === 'year' ? date.slice(0, 7) : date;
+}
+
+/**
+ * All bucket keys of a range, oldest first
+ */
+function getBucketKeys(range: InsightsRange, startDate: string, endDate: string): string[] {
+  const keys: string[] = [];
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    const key = getBucketKey(range, date);
+    if (keys[keys.length - 1] !== key) {
+      keys.push(key);
+    }
+  }
+  return keys;
+}
+
+/**
+ * Round to one decimal place
+ */
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Insights Service Class
+ */
+export class InsightsService {
+  /**
+   * Get insights for a range
+   *
+   * @param userId - User ID
+   * @param range - week, month or year
+   * @param endDate - Last day of the range (YYYY-MM-DD), usually the user's today
+   * @returns Insights for the range
+   * @throws JournalValidationError if the range or date is invalid
+   */
+  async getInsights(userId: string, range: InsightsRange, endDate: string): Promise<JournalInsights> {
+    const db = getDatabaseService();
+
+    if (!INSIGHTS_RANGES.includes(range)) {
+      throw new JournalValidationError(`range must be one of: ${INSIGHTS_RANGES.join(', ')}`);
+    }
+
+    if (!isValidEntryDate(endDate)) {
+      throw new JournalValidationError('date must be a valid date in YYYY-MM-DD format');
+    }
+
+    const startDate = getRangeStart(range, endDate);
+
+    const [entriesResult, chaptersResult] = await Promise.all([
+      db.query(
+        `
+          SELECT entry_date, COUNT(*) as count
+          FROM journal_entries
+          WHERE user_id = $1 AND entry_date BETWEEN $2 AND $3
+          GROUP BY entry_date
+        `,
+        [userId, startDate, endDate]
+      ),
+      db.query(
+        `
+          SELECT chapter_date, emotions
+          FROM journal_chapters
+          WHERE user_id = $1 AND chapter_date BETWEEN $2 AND $3 AND emotions IS NOT NULL
+        `,
+        [userId, startDate, endDate]
+      ),
+    ]);
+
+    const buckets = new Map<string, InsightsBucket & { chapterCount: number }>(
+      getBucketKeys(range, startDate, endDate).map(period => [
+        period,
+        { period, entryCount: 0, activeDays: 0, positive: 0, neutral: 0, negative: 0, chapterCount: 0 },
+      ])
+    );
+
+    let totalEntries = 0;
+    for (const row of entriesResult.rows) {
+      const count = parseInt(row.count, 10);
+      const bucket = buckets.get(getBucketKey(range, row.entry_date))!;
+      bucket.entryCount += count;
+      bucket.activeDays += 1;
+      totalEntries += count;
+    }
+
+    const labelScores = new Map<string, { type: EmotionType; score: number }>();
+    for (const row of chaptersResult.rows) {
+      const emotions = row.emotions as EmotionTag[];
+      const bucket = buckets.get(getBucketKey(range, row.chapter_date))!;
+      bucket.chapterCount += 1;
+
+      for (const emotion of emotions) {
+        bucket[emotion.type] += emotion.percentage;
+
+        const label = labelScores.get(emotion.label) || { type: emotion.type, score: 0 };
+        label.score += emotion.percentage;
+        labelScores.set(emotion.label, label);
+      }
+    }
+
+    const topLabels = [...labelScores.entries()]
+      .sort((a, b) => b[1].score - a[1].score)
+      .slice(0, TOP_EMOTIONS_LIMIT);
+    const topPercentages = topLabels.length > 0 ? toPercentages(topLabels.map(([, { score }]) => score)) : [];
+
+    const activeDays = entriesResult.rows.length;
+
+    return {
+      range,
+      startDate,
+      endDate,
+      totalEntries,
+      activeDays,
+      averageEntriesPerDay: activeDays > 0 ? round1(totalEntries / activeDays) : 0,
+      buckets: [...buckets.values()].map(({ chapterCount, ...bucket }) => ({
+        ...bucket,
+        positive: chapterCount > 0 ? round1(bucket.positive / chapterCount) : 0,
+        neutral: chapterCount > 0 ? round1(bucket.neutral / chapterCount) : 0,
+        negative: chapterCount > 0 ? round1(bucket.negative / chapterCount) : 0,
+      })),
+      topEmotions: topLabels.map(([label, { type }], i) => ({
+        type,
+        label,
+        percentage: topPercentages[i],
+      })),
+    };
+  }
+}
+
+/**
+ * Singleton instance
+ */
+let insightsServiceInstance: InsightsService | null = null;
+
+/**
+ * Get InsightsService instance
+ */
+export function getInsightsService(): InsightsService {
+  if (!insightsServiceInstance) {
+    insightsServiceInstance = new InsightsService();
+  }
+  return insightsServiceInstance;
+}
@@ -0,0 +1,268 @@
+/**
+ * Job Queue Module
+ *
+ * Background job queue backed by the jobs table. Jobs are enqueued by the
+ * API (optionally inside the caller's transaction) and run by a worker loop
+ * started with the API server. Workers claim jobs with FOR UPDATE SKIP LOCKED,
+ * so several server instances can share one queue without running a job twice.
+ *
+ * Failed jobs are retried with exponential backoff until max_attempts is
+ * reached. Jobs left running by a crashed worker are reclaimed after
+ * JOB_LOCK_TIMEOUT_MS, or marked failed if that was their last attempt.
+ *
+ * Configuration:
+ * - JOB_WORKER_ENABLED: set to false to only enqueue (default: true)
+ * - JOB_POLL_INTERVAL_MS: delay between polls when the queue is empty (default: 2000)
+ * - JOB_LOCK_TIMEOUT_MS: age after which a running job is reclaimed (default: 600000)
+ */
+
+import type { PoolClient } from 'pg';
+import { getDatabaseService } from './database';
+
+/**
+ * Job handler; throwing marks the attempt as failed
+ */
+export type JobHandler<T = Record<string, unknown>> = (payload: T, job: QueuedJob<T>) => Promise<void>;
+
+/**
+ * Claimed job passed to a handler
+ */
+export interface QueuedJob<T = Record<string, unknown>> {
+  jobId: number;
+  type: string;
+  payload: T;
+  attempts: number;
+  maxAttempts: number;
+}
+
+/**
+ * Enqueue options
+ */
+export interface EnqueueOptions {
+  runAt?: Date;
+  maxAttempts?: number;
+  client?: PoolClient;  // enqueue inside the caller's transaction
+}
+
+/**
+ * Base retry delay; the nth retry waits RETRY_BASE_DELAY_MS * 2^(n-1)
+ */
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+
+/**
+ * Job Queue Class
+ */
+export class JobQueue {
+  private handlers = new Map<string, JobHandler>();
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private pollIntervalMs = Number(process.env.JOB_POLL_INTERVAL_MS) || 2000;
+  private lockTimeoutMs = Number(process.env.JOB_LOCK_TIMEOUT_MS) || 10 * 60 * 1000;
+
+  /**
+   * Register the handler for a job type
+   */
+  registerHandler<T>(type: string, handler: JobHandler<T>): void {
+    this.handlers.set(type, handler as JobHandler);
+  }
+
+  /**
+   * Add a job to the queue
+   *
+   * @param type - Job type
+   * @param payload - JSON payload passed to the handler
+   * @param options - Run time, attempt limit, and transaction client
+   * @returns Job ID
+   */
+  async enqueue(type: string, payload: Record<string, unknown>, options: EnqueueOptions = {}): Promise<number> {
+    const sql = `
+      INSERT INTO jobs (type, payload, run_at, max_attempts)
+      VALUES ($1, $2, COALESCE($3, CURRENT_TIMESTAMP), $4)
+      RETURNING job_id
+    `;
+    const params = [type, JSON.stringify(payload), options.runAt ?? null, options.maxAttempts ?? 3];
+
+    const result = options.client
+      ? await options.client.query(sql, params)
+      : await getDatabaseService().query(sql, params);
+
+    return Number(result.rows[0].job_id);
+  }
+
+  /**
+   * Remove pending jobs of a type whose payload contains the given fields
+   *
+   * Jobs already running are left to finish.
+   *
+   * @param type - Job type
+   * @param payload - Fields the payload must contain
+   * @returns Number of jobs removed
+   */
+  async cancel(type: string, payload: Record<string, unknown>): Promise<number> {
+    const db = getDatabaseService();
+
+    const result = await db.query(
+      "DELETE FROM jobs WHERE type = $1 AND status = 'pending' AND payload @> $2::jsonb",
+      [type, JSON.stringify(payload)]
+    );
+
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Start the worker loop
+   */
+  start(): void {
+    if (this.running || process.env.JOB_WORKER_ENABLED === 'false') {
+      return;
+    }
+    this.running = true;
+    this.schedule(0);
+    console.log(`Job worker started (handlers: ${[...this.handlers.keys()].join(', ') || 'none'})`);
+  }
+
+  /**
+   * Stop the worker loop after the current job
+   */
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Claim and run the next due job
+   *
+   * @returns True if a job was run, false if the queue was empty
+   */
+  async runNext(): Promise<boolean> {
+    const job = await this.claim();
+    if (!job) {
+      return false;
+    }
+
+    const handler = this.handlers.get(job.type);
+
+    try {
+      if (!handler) {
+        throw new Error(`No handler registered for job type: ${job.type}`);
+      }
+      await handler(job.payload, job);
+      await getDatabaseService().query(
+        `UPDATE jobs SET status = 'completed', locked_at = NULL, last_error = NULL WHERE job_id = $1`,
+        [job.jobId]
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const willRetry = job.attempts < job.maxAttempts;
+      console.error(`Job ${job.jobId} (${job.type}) failed on attempt ${job.attempts}:`, error);
+
+      await getDatabaseService().query(
+        `
+          UPDATE jobs
+          SET status = $2,
+              locked_at = NULL,
+              last_error = $3,
+              run_at = CURRENT_TIMESTAMP + ($4 || ' milliseconds')::interval
+          WHERE job_id = $1
+        `,
+        [job.jobId, willRetry ? 'pending' : 'failed', message, RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1)]
+      );
+    }
+
+    return true;
+  }
+
+  /**
+   * Lock the next due job (or a stale running one with attempts left) and mark it running
+   */
+  private async claim(): Promise<QueuedJob | null> {
+    const db = getDatabaseService();
+
+    // Stale jobs without attempts left crashed or hung on their last one; don't run them again
+    await db.query(
+      `
+        UPDATE jobs
+        SET status = 'failed', locked_at = NULL, last_error = 'Lock timed out on the last attempt'
+        WHERE status = 'running'
+          AND attempts >= max_attempts
+          AND locked_at < CURRENT_TIMESTAMP - ($1 || ' milliseconds')::interval
+      `,
+      [this.lockTimeoutMs]
+    );
+
+    const result = await db.query(
+      `
+        UPDATE jobs
+        SET status = 'running', attempts = attempts + 1, locked_at = CURRENT_TIMESTAMP
+        WHERE job_id = (
+          SELECT job_id FROM jobs
+          WHERE (status = 'pending' AND run_at <= CURRENT_TIMESTAMP)
+             OR (
+               status = 'running'
+               AND attempts < max_attempts
+               AND locked_at < CURRENT_TIMESTAMP - ($1 || ' milliseconds')::interval
+             )
+          ORDER BY run_at ASC
+          LIMIT 1
+          FOR UPDATE SKIP LOCKED
+        )
+        RETURNING job_id, type, payload, attempts, max_attempts
+      `,
+      [this.lockTimeoutMs]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0];
+    return {
+      jobId: Number(row.job_id),
+      type: row.type,
+      payload: row.payload,
+      attempts: row.attempts,
+      maxAttempts: row.max_attempts,
+    };
+  }
+
+  /**
+   * Run jobs back to back while there are any, then wait for the poll interval
+   */
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(async () => {
+      if (!this.running) {
+        return;
+      }
+
+      let ranJob = false;
+      try {
+        ranJob = await this.runNext();
+      } catch (error) {
+        // Keep polling if the database is briefly unavailable
+        console.error('Job worker error:', error);
+      }
+
+      if (this.running) {
+        this.schedule(ranJob ? 0 : this.pollIntervalMs);
+      }
+    }, delayMs);
+  }
+}
+
+/**
+ * Singleton instance
+ */
+let jobQueueInstance: JobQueue | null = null;
+
+/**
+ * Get JobQueue instance
+ */
+export function getJobQueue(): JobQueue {
+  if (!jobQueueInstance) {
+    jobQueueInstance = new JobQueue();
+  }
+  return jobQueueInstance;
+}
@@ -0,0 +1,500 @@
+/**
+ * Journal Import Service Module
+ *
+ * Imports diary entries written elsewhere into the journal:
+ * - Markdown (.md, .markdown): a heading containing a date starts a day;
+ *   the rest of the heading becomes the chapter title, and `---` lines
+ *   separate entries within a day
+ * - Plain text (.txt): lines holding only a date start a day; files
+ *   without such lines use the date in the file name (e.g. 2021-03-04.txt)
+ * - Day One JSON export (.json): each entry's creationDate and timeZone
+ *
+ * Dates may be written as 2021-03-04, 2021.03.04, 2021/03/04 or
+ * 2021년 3월 4일. Texts longer than an entry allows are split at
+ * paragraph boundaries.
+ *
+ * An import is previewed first (dry run), then committed. Entries already
+ * in the journal on the same day with the same text, or repeated within
+ * the import, are skipped as duplicates. The entries and the chapters of
+ * the affected days are written in one transaction.
+ */
+
+import type { PoolClient } from 'pg';
+import { getDatabaseService } from './database';
+import { getChapterService } from './chapterService';
+import { getJournalService, isValidEntryDate, JournalValidationError, MAX_ENTRY_LENGTH } from './journalService';
+import { DEFAULT_TIMEZONE, getDateInTimeZone, isValidTimeZone } from './timezoneUtils';
+import type {
+  JournalImportFormat,
+  JournalImportPreview,
+  JournalImportResult,
+} from '../types/database';
+
+/**
+ * Maximum number of entries in one import
+ */
+export const MAX_IMPORT_ENTRIES = 5000;
+
+/**
+ * Length of the entry excerpts in the preview
+ */
+const EXCERPT_LENGTH = 80;
+
+/**
+ * Uploaded import file
+ */
+export interface JournalImportFile {
+  name: string;
+  content: Buffer;
+}
+
+/**
+ * Entry parsed from an import file
+ */
+export interface ParsedImportEntry {
+  entryDate: string;  // YYYY-MM-DD
+  content: string;
+  createdAt: Date | null;  // known for Day One entries
+  timezone: string | null;
+  title: string | null;  // chapter title from a Markdown heading
+}
+
+/**
+ * Result of parsing one file
+ */
+export interface ParsedImportFile {
+  entries: ParsedImportEntry[];
+  warnings: string[];
+}
+
+/**
+ * Entry of an import, with its source and duplicate status
+ */
+interface PlannedEntry extends ParsedImportEntry {
+  source: string;
+  duplicate: boolean;
+}
+
+const DATE_PATTERN = /(\d{4})\s*(?:[-./]\s*(\d{1,2})\s*[-./]\s*(\d{1,2})|년\s*(\d{1,2})\s*월\s*(\d{1,2})\s*일)/;
+
+/**
+ * Find the first date in a text
+ *
+ * @returns The date as YYYY-MM-DD and the text around it, or null
+ */
+function findDate(text: string): { date: string; rest: string } | null {
+  const match = DATE_PATTERN.exec(text);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month = match[4], day = match[5]] = match;
+  const date = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  if (!isValidEntryDate(date)) {
+    return null;
+  }
+
+  const rest = (text.slice(0, match.index) + text.slice(match.index + match[0].length))
+    .replace(/^[\s\-–—:|.,()[\]]+|[\s\-–—:|.,()[\]]+$/g, '');
+  return { date, rest };
+}
+
+/**
+ * Split a text into entry-sized pieces at paragraph (or, failing that, character) boundaries
+ */
+function splitContent(text: string): string[] {
+  const trimmed = text.trim();
+  if (trimmed.length <= MAX_ENTRY_LENGTH) {
+    return trimmed ? [trimmed] : [];
+  }
+
+  const pieces: string[] = [];
+  let current = '';
+  for (const paragraph of trimmed.split(/\n\s*\n/)) {
+    const candidate = current ? `${current}\n\n${paragraph.trim()}` : paragraph.trim();
+    if (candidate.length <= MAX_ENTRY_LENGTH) {
+      current = candidate;
+      continue;
+    }
+    if (current) {
+      pieces.push(current);
+    }
+    current = paragraph.trim();
+    while (current.length > MAX_ENTRY_LENGTH) {
+      pieces.push(current.slice(0, MAX_ENTRY_LENGTH));
+      current = current.slice(MAX_ENTRY_LENGTH).trim();
+    }
+  }
+  if (current) {
+    pieces.push(current);
+  }
+  return pieces;
+}
+
+/**
+ * Turn a day's text into entries
+ */
+function toEntries(
+  date: string,
+  text: string,
+  title: string | null = null,
+  createdAt: Date | null = null,
+  timezone: string | null = null
+): ParsedImportEntry[] {
+  return splitContent(text).map(content => ({ entryDate: date, content, createdAt, timezone, title }));
+}
+
+/**
+ * Parse a Markdown diary with date headings
+ */
+export function parseMarkdown(text: string): ParsedImportFile {
+  const entries: ParsedImportEntry[] = [];
+  const warnings: string[] = [];
+  let day: { date: string; title: string | null; sections: string[][] } | null = null;
+  let skippedPreamble = false;
+
+  const flush = () => {
+    if (day) {
+      for (const section of day.sections) {
+        entries.push(...toEntries(day.date, section.join('\n'), day.title));
+      }
+    }
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    const heading = /^#{1,6}\s+(.*)$/.exec(line);
+    const found = heading ? findDate(heading[1]) : null;
+
+    if (found) {
+      flush();
+      day = { date: found.date, title: found.rest || null, sections: [[]] };
+    } else if (!day) {
+      skippedPreamble ||= line.trim().length > 0;
+    } else if (/^\s*(-{3,}|\*{3,}|_{3,})\s*$/.test(line)) {
+      day.sections.push([]);
+    } else {
+      day.sections[day.sections.length - 1].push(line);
+    }
+  }
+  flush();
+
+  if (skippedPreamble) {
+    warnings.push('Text before the first date heading was skipped');
+  }
+  return { entries, warnings };
+}
+
+/**
+ * Parse a dated plain-text diary
+ *
+ * @param text - File content
+ * @param fileName - File name, used for the date when the text has no date lines
+ */
+export function parsePlainText(text: string, fileName: string): ParsedImportFile {
+  const entries: ParsedImportEntry[] = [];
+  const warnings: string[] = [];
+  const lines = text.split(/\r?\n/);
+
+  const isDateLine = (line: string) => {
+    const found = findDate(line);
+    return found !== null && found.rest === '' ? found.date : null;
+  };
+
+  if (!lines.some(line => isDateLine(line))) {
+    const found = findDate(fileName);
+    if (!found) {
+      warnings.push('No date found in the text or the file name');
+      return { entries, warnings };
+    }
+    return { entries: toEntries(found.date, text), warnings };
+  }
+
+  let day: { date: string; lines: string[] } | null = null;
+  let skippedPreamble = false;
+  for (const line of lines) {
+    const date = isDateLine(line);
+    if (date) {
+      if (day) {
+        entries.push(...toEntries(day.date, day.lines.join('\n')));
+      }
+      day = { date, lines: [] };
+    } else if (day) {
+      day.lines.push(line);
+    } else {
+      skippedPreamble ||= line.trim().length > 0;
+    }
+  }
+  if (day) {
+    entries.push(...toEntries(day.date, day.lines.join('\n')));
+  }
+
+  if (skippedPreamble) {
+    warnings.push('Text before the first date line was skipped');
+  }
+  return { entries, warnings };
+}
+
+/**
+ * Parse a Day One JSON export
+ *
+ * @param text - File content
+ * @param fallbackTimeZone - Timezone for entries without a valid one
+ * @throws JournalValidationError if the file isn't a Day One export
+ */
+export function parseDayOneJson(text: string, fallbackTimeZone: string): ParsedImportFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new JournalValidationError('File is not valid JSON');
+  }
+
+  const rawEntries = (data as { entries?: unknown })?.entries;
+  if (!Array.isArray(rawEntries)) {
+    throw new JournalValidationError('File is not a Day One export (missing entries)');
+  }
+
+  const entries: ParsedImportEntry[] = [];
+  let skipped = 0;
+
+  for (const raw of rawEntries as Array<Record<string, unknown>>) {
+    const createdAt = typeof raw?.creationDate === 'string' ? new Date(raw.creationDate) : null;
+    // Photos and other attachments are referenced with dayone-moment:// links
+    const content = typeof raw?.text === 'string'
+      ? raw.text.replace(/!\[[^\]]*\]\(dayone-moment:[^)]*\)/g, '').replace(/\\([.\-!#*_()[\]])/g, '$1')
+      : '';
+
+    if (!createdAt || isNaN(createdAt.getTime()) || content.trim().length === 0) {
+      skipped++;
+      continue;
+    }
+
+    const timezone = typeof raw.timeZone === 'string' && isValidTimeZone(raw.timeZone)
+      ? raw.timeZone
+      : fallbackTimeZone;
+    entries.push(...toEntries(getDateInTimeZone(createdAt, timezone), content, null, createdAt, timezone));
+  }
+
+  return {
+    entries,
+    warnings: skipped > 0 ? [`${skipped} entries without a date or text were skipped`] : [],
+  };
+}
+
+/**
+ * Detect the format of an import file from its name
+ */
+export function detectImportFormat(fileName: string): JournalImportFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'md' || extension === 'markdown') return 'markdown';
+  if (extension === 'txt') return 'text';
+  if (extension === 'json') return 'dayone';
+  return null;
+}
+
+/**
+ * Normalize entry text for duplicate detection
+ */
+function duplicateKey(date: string, content: string): string {
+  return `${date}\u0000${content.replace(/\s+/g, ' ').trim()}`;
+}
+
+/**
+ * Journal Import Service Class
+ */
+export class JournalImportService {
+  /**
+   * Preview an import without writing anything
+   *
+   * @param userId - User ID
+   * @param files - Uploaded files
+   * @returns Entries found, duplicates and warnings
+   * @throws JournalValidationError if a file can't be imported
+   */
+  async previewImport(userId: string, files: JournalImportFile[]): Promise<JournalImportPreview> {
+    const { entries, files: fileSummaries, warnings } = await this.parseFiles(userId, files);
+    const existing = await this.getExistingKeys(userId, entries);
+    this.markDuplicates(entries, existing);
+
+    const newEntries = entries.filter(entry => !entry.duplicate);
+
+    return {
+      files: fileSummaries,
+      totalEntries: entries.length,
+      newEntries: newEntries.length,
+      duplicateEntries: entries.length - newEntries.length,
+      dates: [...new Set(newEntries.map(entry => entry.entryDate))].sort(),
+      entries: entries.map(entry => ({
+        entryDate: entry.entryDate,
+        excerpt: entry.content.length > EXCERPT_LENGTH
+          ? `${entry.content.slice(0, EXCERPT_LENGTH).trim()}...`
+          : entry.content,
+        source: entry.source,
+        duplicate: entry.duplicate,
+      })),
+      warnings,
+    };
+  }
+
+  /**
+   * Import entries and refresh the chapters of the affected days
+   *
+   * Runs in one transaction: either every new entry is imported or none.
+   * Duplicates are detected again inside the transaction, so importing the
+   * same files twice adds nothing the second time.
+   *
+   * @param userId - User ID
+   * @param files - Uploaded files
+   * @returns Counts of imported and skipped entries
+   * @throws JournalValidationError if a file can't be imported
+   */
+  async importEntries(userId: string, files: JournalImportFile[]): Promise<JournalImportResult> {
+    const db = getDatabaseService();
+    const { entries, warnings } = await this.parseFiles(userId, files);
+
+    return db.transaction(async client => {
+      // Serialize imports of the same user so concurrent imports can't both add an entry
+      await client.query('SELECT user_id FROM users WHERE user_id = $1 FOR UPDATE', [userId]);
+
+      const existing = await this.getExistingKeys(userId, entries, client);
+      this.markDuplicates(entries, existing);
+
+      const newEntries = entries.filter(entry => !entry.duplicate);
+      const titles = new Map<string, string | null>();
+      const undatedCounts = new Map<string, number>();
+
+      const profileResult = await client.query('SELECT timezone FROM user_profiles WHERE user_id = $1', [userId]);
+      const profileTimezone: string = profileResult.rows[0]?.timezone || DEFAULT_TIMEZONE;
+
+      for (const entry of newEntries) {
+        // Entries without a known time are placed at local noon of their day,
+        // a second apart, so they stay on that day and keep their order
+        const offset = entry.createdAt ? 0 : undatedCounts.get(entry.entryDate) ?? 0;
+        if (!entry.createdAt) {
+          undatedCounts.set(entry.entryDate, offset + 1);
+        }
+
+        await client.query(
+          `
+            INSERT INTO journal_entries (user_id, content, entry_date, timezone, created_at, updated_at)
+            VALUES (
+              $1, $2, $3, $4::varchar,
+              COALESCE($5, ($3::date + TIME '12:00' + make_interval(secs => $6::integer)) AT TIME ZONE $4::varchar),
+              CURRENT_TIMESTAMP
+            )
+          `,
+          [userId, entry.content, entry.entryDate, entry.timezone ?? profileTimezone, entry.createdAt, offset]
+        );
+        if (!titles.has(entry.entryDate) || (!titles.get(entry.entryDate) && entry.title)) {
+          titles.set(entry.entryDate, entry.title);
+        }
+      }
+
+      const dates = [...titles.keys()].sort();
+      for (const date of dates) {
+        await getChapterService().refreshChapter(client, userId, date, titles.get(date) ?? undefined);
+      }
+
+      return {
+        importedEntries: newEntries.length,
+        duplicateEntries: entries.length - newEntries.length,
+        dates,
+        warnings,
+      };
+    });
+  }
+
+  /**
+   * Parse all files of an import
+   */
+  private async parseFiles(userId: string, files: JournalImportFile[]): Promise<{
+    entries: PlannedEntry[];
+    files: JournalImportPreview['files'];
+    warnings: string[];
+  }> {
+    if (files.length === 0) {
+      throw new JournalValidationError('At least one file is required');
+    }
+
+    const timeZone = await getJournalService().getProfileTimeZone(userId);
+    const entries: PlannedEntry[] = [];
+    const summaries: JournalImportPreview['files'] = [];
+    const warnings: string[] = [];
+
+    for (const file of files) {
+      const format = detectImportFormat(file.name);
+      if (!format) {
+        throw new JournalValidationError(`${file.name}: unsupported file type (use .md, .txt or Day One .json)`);
+      }
+
+      const text = file.content.toString('utf8').replace(/^\uFEFF/, '');
+      let parsed: ParsedImportFile;
+      try {
+        parsed = format === 'markdown'
+          ? parseMarkdown(text)
+          : format === 'text'
+            ? parsePlainText(text, file.name)
+            : parseDayOneJson(text, timeZone);
+      } catch (error) {
+        if (error instanceof JournalValidationError) {
+          throw new JournalValidationError(`${file.name}: ${error.message}`);
+        }
+        throw error;
+      }
+
+      entries.push(...parsed.entries.map(entry => ({ ...entry, source: file.name, duplicate: false })));
+      summaries.push({ name: file.name, format, entryCount: parsed.entries.length });
+      warnings.push(...parsed.warnings.map(warning => `${file.name}: ${warning}`));
+    }
+
+    if (entries.length === 0) {
+      throw new JournalValidationError('No dated entries were found in the files');
+    }
+    if (entries.length > MAX_IMPORT_ENTRIES) {
+      throw new JournalValidationError(`An import can contain at most ${MAX_IMPORT_ENTRIES} entries`);
+    }
+
+    return { entries, files: summaries, warnings };
+  }
+
+  /**
+   * Duplicate keys of the entries already in the journal on the imported days
+   */
+  private async getExistingKeys(
+    userId: string,
+    entries: PlannedEntry[],
+    client?: PoolClient
+  ): Promise<Set<string>> {
+    const query = 'SELECT entry_date, content FROM journal_entries WHERE user_id = $1 AND entry_date = ANY($2::date[])';
+    const params = [userId, [...new Set(entries.map(entry => entry.entryDate))]];
+    const result = client ? await client.query(query, params) : await getDatabaseService().query(query, params);
+    return new Set(result.rows.map(row => duplicateKey(row.entry_date, row.content)));
+  }
+
+  /**
+   * Mark entries already in the journal, or seen earlier in the import, as duplicates
+   */
+  private markDuplicates(entries: PlannedEntry[], existing: Set<string>): void {
+    const seen = new Set(existing);
+    for (const entry of entries) {
+      const key = duplicateKey(entry.entryDate, entry.content);
+      entry.duplicate = seen.has(key);
+      seen.add(key);
+    }
+  }
+}
+
+/**
+ * Singleton instance
+ */
+let journalImportServiceInstance: JournalImportService | null = null;
+
+/**
+ * Get JournalImportService instance
+ */
+export function getJournalImportService(): JournalImportService {
+  if (!journalImportServiceInstance) {
+    journalImportServiceInstance = new JournalImportService();
+  }
+  return journalImportServiceInstance;
+}
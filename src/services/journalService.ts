@@ -0,0 +1,246 @@
+/**
+ * Journal Service Module
+ *
+ * Handles journal entry operations including:
+ * - Creating journal entries
+ * - Retrieving a user's entries (optionally for a single day)
+ * - Updating and deleting entries
+ */
+
+import { getDatabaseService } from './database';
+import { keysToCamelCase } from './databaseUtils';
+import { DEFAULT_TIMEZONE, getDateInTimeZone, isValidTimeZone } from './timezoneUtils';
+import type { JournalEntry, CreateJournalEntryData } from '../types/database';
+
+/**
+ * Maximum length of a single journal entry
+ */
+export const MAX_ENTRY_LENGTH = 2000;
+
+/**
+ * Journal Service Error Types
+ */
+export class JournalValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JournalValidationError';
+  }
+}
+
+export class JournalEntryNotFoundError extends Error {
+  constructor(entryId: number) {
+    super(`Journal entry not found: ${entryId}`);
+    this.name = 'JournalEntryNotFoundError';
+  }
+}
+
+/**
+ * Validate a calendar date in YYYY-MM-DD format
+ */
+export function isValidEntryDate(date: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return false;
+  }
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date);
+}
+
+/**
+ * Journal Service Class
+ */
+export class JournalService {
+  /**
+   * Create a new journal entry
+   *
+   * Without an explicit entry_date, the entry belongs to the current day in
+   * the timezone it was written in (or the user's profile timezone).
+   *
+   * @param entryData - Entry data
+   * @returns Created entry
+   * @throws JournalValidationError if validation fails
+   */
+  async createEntry(entryData: CreateJournalEntryData): Promise<JournalEntry> {
+    const db = getDatabaseService();
+
+    const content = this.validateContent(entryData.content);
+
+    if (entryData.entry_date !== undefined && !isValidEntryDate(entryData.entry_date)) {
+      throw new JournalValidationError('entry_date must be a valid date in YYYY-MM-DD format');
+    }
+
+    if (entryData.timezone !== undefined && !isValidTimeZone(entryData.timezone)) {
+      throw new JournalValidationError('timezone must be a valid IANA timezone (e.g. Asia/Seoul)');
+    }
+
+    let entryDate = entryData.entry_date;
+    if (entryDate === undefined) {
+      const timeZone = entryData.timezone || await this.getProfileTimeZone(entryData.user_id);
+      entryDate = getDateInTimeZone(new Date(), timeZone);
+    }
+
+    const query = `
+      INSERT INTO journal_entries (user_id, content, entry_date, timezone)
+      VALUES ($1, $2, $3, $4)
+      RETURNING *
+    `;
+
+    const result = await db.query(query, [
+      entryData.user_id,
+      content,
+      entryDate,
+      entryData.timezone || null,
+    ]);
+
+    return keysToCamelCase<JournalEntry>(result.rows[0]);
+  }
+
+  /**
+   * Get journal entries for a user
+   *
+   * Entries are returned in writing order (oldest first) so they can be
+   * rendered as they were written.
+   *
+   * @param userId - User ID
+   * @param date - Optional day (YYYY-MM-DD) to restrict results to
+   * @returns Array of entries
+   * @throws JournalValidationError if date is malformed
+   */
+  async getEntries(userId: string, date?: string): Promise<JournalEntry[]> {
+    const db = getDatabaseService();
+
+    if (date !== undefined && !isValidEntryDate(date)) {
+      throw new JournalValidationError('date must be a valid date in YYYY-MM-DD format');
+    }
+
+    const query = `
+      SELECT *
+      FROM journal_entries
+      WHERE user_id = $1
+        AND ($2::date IS NULL OR entry_date = $2::date)
+      ORDER BY entry_date ASC, created_at ASC, entry_id ASC
+    `;
+
+    const result = await db.query(query, [userId, date || null]);
+
+    return result.rows.map(row => keysToCamelCase<JournalEntry>(row));
+  }
+
+  /**
+   * Get entry by ID
+   *
+   * Only returns the entry if it belongs to the given user.
+   *
+   * @param userId - Owner user ID
+   * @param entryId - Entry ID
+   * @returns Entry or null if not found
+   */
+  async getEntryById(userId: string, entryId: number): Promise<JournalEntry | null> {
+    const db = getDatabaseService();
+
+    const query = `
+      SELECT *
+      FROM journal_entries
+      WHERE entry_id = $1 AND user_id = $2
+    `;
+
+    const result = await db.query(query, [entryId, userId]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return keysToCamelCase<JournalEntry>(result.rows[0]);
+  }
+
+  /**
+   * Update entry content
+   *
+   * @param userId - Owner user ID
+   * @param entryId - Entry ID
+   * @param content - New content
+   * @returns Updated entry
+   * @throws JournalValidationError if content is invalid
+   * @throws JournalEntryNotFoundError if entry doesn't exist or isn't owned by the user
+   */
+  async updateEntry(userId: string, entryId: number, content: string): Promise<JournalEntry> {
+    const db = getDatabaseService();
+
+    const trimmed = this.validateContent(content);
+
+    const query = `
+      UPDATE journal_entries
+      SET content = $1
+      WHERE entry_id = $2 AND user_id = $3
+      RETURNING *
+    `;
+
+    const result = await db.query(query, [trimmed, entryId, userId]);
+
+    if (result.rows.length === 0) {
+      throw new JournalEntryNotFoundError(entryId);
+    }
+
+    return keysToCamelCase<JournalEntry>(result.rows[0]);
+  }
+
+  /**
+   * Delete entry
+   *
+   * @param userId - Owner user ID
+   * @param entryId - Entry ID
+   * @throws JournalEntryNotFoundError if entry doesn't exist or isn't owned by the user
+   */
+  async deleteEntry(userId: string, entryId: number): Promise<void> {
+    const db = getDatabaseService();
+
+    const result = await db.query(
+      'DELETE FROM journal_entries WHERE entry_id = $1 AND user_id = $2',
+      [entryId, userId]
+    );
+
+    if (result.rowCount === 0) {
+      throw new JournalEntryNotFoundError(entryId);
+    }
+  }
+
+  /**
+   * Timezone configured on the user's profile
+   */
+  async getProfileTimeZone(userId: string): Promise<string> {
+    const db = getDatabaseService();
+    const result = await db.query('SELECT timezone FROM user_profiles WHERE user_id = $1', [userId]);
+    return result.rows[0]?.timezone || DEFAULT_TIMEZONE;
+  }
+
+  /**
+   * Validate and normalize entry content
+   */
+  private validateContent(content: string): string {
+    if (typeof content !== 'string' || content.trim().length === 0) {
+      throw new JournalValidationError('Content is required');
+    }
+
+    const trimmed = content.trim();
+
+    if (trimmed.length > MAX_ENTRY_LENGTH) {
+      throw new JournalValidationError(`Content must not exceed ${MAX_ENTRY_LENGTH} characters`);
+    }
+
+    return trimmed;
+  }
+}
+
+/**
+ * Singleton instance
+ */
+let journalServiceInstance: JournalService | null = null;
+
+/**
+ * Get JournalService instance
+ */
+export function getJournalService(): JournalService {
+  if (!journalServiceInstance) {
+    journalServiceInstance = new JournalService();
+  }
+  return journalServiceInstance;
+}
@@ -0,0 +1,341 @@
+/**
+ * Library Media Service Module
+ *
+ * Generates thumbnails and previews for uploaded library items. Runs as the
+ * library.process background job, enqueued when an item is uploaded:
+ *
+ * - Images: WebP thumbnail and JPEG preview, plus dimensions and the MIME
+ *   type detected from the file itself
+ * - Videos: WebP thumbnail of a poster frame (ffmpeg), plus dimensions
+ * - Documents: WebP thumbnail of the first page and a text snippet for PDFs
+ *   (poppler's pdftoppm/pdftotext), or a text snippet for plain text files
+ *
+ * Artifacts are written next to the original through the item's storage driver.
+ * If ffmpeg or poppler isn't installed, the item is left without a thumbnail.
+ *
+ * Configuration: FFMPEG_PATH, PDFTOPPM_PATH, PDFTOTEXT_PATH (default: found on PATH)
+ */
+
+import { execFile } from 'child_process';
+import { createWriteStream } from 'fs';
+import { mkdtemp, open, rm, stat } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { promisify } from 'util';
+import sharp from 'sharp';
+import { getDatabaseService } from './database';
+import { keysToCamelCase } from './databaseUtils';
+import { getStorageDriver } from './storageService';
+import type { QueuedJob } from './jobQueue';
+import type { LibraryItemRecord } from '../types/database';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Job type that processes a newly uploaded item
+ */
+export const LIBRARY_PROCESS_JOB = 'library.process';
+
+/**
+ * Longest side of generated thumbnails and previews, in pixels
+ */
+const THUMBNAIL_SIZE = 480;
+const PREVIEW_SIZE = 1600;
+
+/**
+ * Maximum length of a document text snippet
+ */
+const MAX_SNIPPET_LENGTH = 300;
+
+/**
+ * Bytes read from a text file to build its snippet
+ */
+const TEXT_SNIPPET_READ_BYTES = 16 * 1024;
+
+/**
+ * External tool timeout
+ */
+const TOOL_TIMEOUT_MS = 60 * 1000;
+
+/**
+ * MIME types of the formats sharp can detect
+ */
+const SHARP_FORMAT_MIME_TYPES: Record<string, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  avif: 'image/avif',
+  heif: 'image/heif',
+  tiff: 'image/tiff',
+  svg: 'image/svg+xml',
+};
+
+/**
+ * Artifacts and metadata produced for an item
+ */
+interface MediaResult {
+  mimeType?: string;
+  width?: number;
+  height?: number;
+  thumbnail?: Buffer;
+  preview?: Buffer;
+  snippet?: string;
+}
+
+/**
+ * Collapse whitespace in extracted text and cut it to the snippet length
+ */
+export function toTextSnippet(text: string): string | undefined {
+  const snippet = text
+    .split(/\r?\n/)
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(line => line !== '')
+    .join('\n')
+    .slice(0, MAX_SNIPPET_LENGTH)
+    .trim();
+  return snippet || undefined;
+}
+
+/**
+ * Whether an error means an external tool isn't installed
+ */
+function isMissingTool(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
+
+/**
+ * Library Media Service Class
+ */
+export class LibraryMediaService {
+  /**
+   * Job handler for library.process
+   *
+   * Marks the item as failed once the job has used its last attempt.
+   */
+  async handleProcessJob(payload: { itemId: string }, job: QueuedJob<{ itemId: string }>): Promise<void> {
+    try {
+      await this.processItem(payload.itemId);
+    } catch (error) {
+      if (job.attempts >= job.maxAttempts) {
+        await getDatabaseService().query(
+          `UPDATE library_items SET processing_status = 'failed' WHERE item_id = $1`,
+          [payload.itemId]
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Generate the thumbnail and preview of an item and record its metadata
+   *
+   * @param itemId - Item ID (items deleted in the meantime are skipped)
+   */
+  async processItem(itemId: string): Promise<void> {
+    const db = getDatabaseService();
+
+    const itemResult = await db.query('SELECT * FROM library_items WHERE item_id = $1', [itemId]);
+    if (itemResult.rows.length === 0) {
+      return;
+    }
+    const item = keysToCamelCase<LibraryItemRecord>(itemResult.rows[0]);
+    const driver = getStorageDriver(item.storageDriver);
+
+    const workDir = await mkdtemp(path.join(os.tmpdir(), 'library-'));
+    try {
+      const sourcePath = path.join(workDir, 'source');
+      await pipeline(await driver.getStream(item.storageKey), createWriteStream(sourcePath));
+      const size = (await stat(sourcePath)).size;
+
+      const result = await this.generate(item, sourcePath, workDir);
+
+      const thumbnailKey = result.thumbnail ? `${item.storageKey}.thumbnail.webp` : null;
+      const previewKey = result.preview ? `${item.storageKey}.preview.jpg` : null;
+      if (thumbnailKey) {
+        await driver.put(thumbnailKey, Readable.from(result.thumbnail!));
+      }
+      if (previewKey) {
+        await driver.put(previewKey, Readable.from(result.preview!));
+      }
+
+      const updateResult = await db.query(
+        `
+          UPDATE library_items
+          SET mime_type = COALESCE($2, mime_type),
+              size = $3,
+              width = $4,
+              height = $5,
+              thumbnail_key = $6,
+              preview_key = $7,
+              preview = COALESCE($8, preview),
+              processing_status = 'ready'
+          WHERE item_id = $1
+        `,
+        [
+          itemId,
+          result.mimeType ?? null,
+          size,
+          result.width ?? null,
+          result.height ?? null,
+          thumbnailKey,
+          previewKey,
+          result.snippet ?? null,
+        ]
+      );
+
+      // The item was deleted while it was being processed
+      if (updateResult.rowCount === 0) {
+        await Promise.all([thumbnailKey, previewKey].filter(Boolean).map(key => driver.delete(key!)));
+      }
+    } finally {
+      await rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Produce artifacts based on the item's MIME type
+   */
+  private async generate(item: LibraryItemRecord, sourcePath: string, workDir: string): Promise<MediaResult> {
+    if (item.mimeType.startsWith('image/')) {
+      return this.generateForImage(sourcePath);
+    }
+    if (item.mimeType.startsWith('video/')) {
+      return this.generateForVideo(sourcePath, workDir);
+    }
+    if (item.mimeType === 'application/pdf') {
+      return this.generateForPdf(sourcePath, workDir);
+    }
+    if (item.mimeType.startsWith('text/')) {
+      return this.generateForText(sourcePath);
+    }
+    return {};
+  }
+
+  private async generateForImage(sourcePath: string): Promise<MediaResult> {
+    const metadata = await sharp(sourcePath).metadata();
+    // EXIF orientations 5-8 rotate the image by 90 degrees when displayed
+    const isRotated = (metadata.orientation ?? 1) >= 5;
+
+    return {
+      mimeType: SHARP_FORMAT_MIME_TYPES[metadata.format],
+      width: isRotated ? metadata.height : metadata.width,
+      height: isRotated ? metadata.width : metadata.height,
+      thumbnail: await this.renderThumbnail(sourcePath),
+      preview: await sharp(sourcePath)
+        .rotate()
+        .resize(PREVIEW_SIZE, PREVIEW_SIZE, { fit: 'inside', withoutEnlargement: true })
+        .flatten({ background: '#ffffff' })
+        .jpeg({ quality: 82, mozjpeg: true })
+        .toBuffer(),
+    };
+  }
+
+  private async generateForVideo(sourcePath: string, workDir: string): Promise<MediaResult> {
+    const posterPath = path.join(workDir, 'poster.png');
+
+    try {
+      // The thumbnail filter picks a representative frame among the first ones,
+      // which skips black fade-ins
+      await execFileAsync(
+        process.env.FFMPEG_PATH || 'ffmpeg',
+        ['-v', 'error', '-i', sourcePath, '-vf', 'thumbnail', '-frames:v', '1', '-y', posterPath],
+        { timeout: TOOL_TIMEOUT_MS }
+      );
+    } catch (error) {
+      if (isMissingTool(error)) {
+        console.warn('ffmpeg is not installed; skipping video thumbnail');
+        return {};
+      }
+      throw error;
+    }
+
+    const metadata = await sharp(posterPath).metadata();
+    return {
+      width: metadata.width,
+      height: metadata.height,
+      thumbnail: await this.renderThumbnail(posterPath),
+    };
+  }
+
+  private async generateForPdf(sourcePath: string, workDir: string): Promise<MediaResult> {
+    const pagePrefix = path.join(workDir, 'page');
+    const result: MediaResult = {};
+
+    try {
+      await execFileAsync(
+        process.env.PDFTOPPM_PATH || 'pdftoppm',
+        ['-png', '-f', '1', '-l', '1', '-scale-to', String(PREVIEW_SIZE), '-singlefile', sourcePath, pagePrefix],
+        { timeout: TOOL_TIMEOUT_MS }
+      );
+
+      const pagePath = `${pagePrefix}.png`;
+      const metadata = await sharp(pagePath).metadata();
+      result.width = metadata.width;
+      result.height = metadata.height;
+      result.thumbnail = await this.renderThumbnail(pagePath);
+    } catch (error) {
+      if (!isMissingTool(error)) {
+        throw error;
+      }
+      console.warn('pdftoppm is not installed; skipping PDF thumbnail');
+    }
+
+    try {
+      const { stdout } = await execFileAsync(
+        process.env.PDFTOTEXT_PATH || 'pdftotext',
+        ['-f', '1', '-l', '1', '-enc', 'UTF-8', sourcePath, '-'],
+        { timeout: TOOL_TIMEOUT_MS, maxBuffer: 4 * 1024 * 1024 }
+      );
+      result.snippet = toTextSnippet(stdout);
+    } catch (error) {
+      if (!isMissingTool(error)) {
+        throw error;
+      }
+      console.warn('pdftotext is not installed; skipping PDF text snippet');
+    }
+
+    return result;
+  }
+
+  private async generateForText(sourcePath: string): Promise<MediaResult> {
+    const file = await open(sourcePath, 'r');
+    try {
+      const buffer = Buffer.alloc(TEXT_SNIPPET_READ_BYTES);
+      const { bytesRead } = await file.read(buffer, 0, buffer.length, 0);
+      // A multi-byte character cut at the end decodes to U+FFFD, which is dropped
+      const text = buffer.subarray(0, bytesRead).toString('utf8').replace(/\uFFFD+$/, '');
+      return { snippet: toTextSnippet(text) };
+    } finally {
+      await file.close();
+    }
+  }
+
+  /**
+   * Resize an image file to a WebP thumbnail
+   */
+  private renderThumbnail(imagePath: string): Promise<Buffer> {
+    return sharp(imagePath)
+      .rotate()
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .webp({ quality: 80 })
+      .toBuffer();
+  }
+}
+
+/**
+ * Singleton instance
+ */
+let libraryMediaServiceInstance: LibraryMediaService | null = null;
+
+/**
+ * Get LibraryMediaService instance
+ */
+export function getLibraryMediaService(): LibraryMediaService {
+  if (!libraryMediaServiceInstance) {
+    libraryMediaServiceInstance = new LibraryMediaService();
+  }
+  return libraryMediaServiceInstance;
+}
@@ -0,0 +1,534 @@
+/**
+ * Library Service Module
+ *
+ * Handles library item operations including:
+ * - Uploading files into the configured storage driver
+ * - Listing a user's items (optionally by type)
+ * - Streaming item content and generated thumbnails/previews, with byte range support
+ * - Changing visibility and deleting items
+ *
+ * Content URLs are signed with LIBRARY_URL_SECRET so that they can be used
+ * directly in <img> and <video> tags, which can't send an Authorization header.
+ */
+
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { Readable } from 'stream';
+import { getDatabaseService } from './database';
+import { keysToCamelCase } from './databaseUtils';
+import { getJobQueue } from './jobQueue';
+import { LIBRARY_PROCESS_JOB } from './libraryMediaService';
+import { ByteRange, getStorageDriver } from './storageService';
+import type { LibraryItemData, LibraryItemRecord } from '../types/database';
+import type { LibraryItemType, LibraryItemVisibility } from '../types/library';
+
+/**
+ * Allowed item types and visibilities
+ */
+export const LIBRARY_ITEM_TYPES: LibraryItemType[] = ['image', 'document', 'file', 'video'];
+export const LIBRARY_VISIBILITIES: LibraryItemVisibility[] = ['public', 'private'];
+
+/**
+ * Stored renditions of an item: the uploaded file and the generated artifacts
+ */
+export type LibraryContentVariant = 'original' | 'thumbnail' | 'preview';
+export const LIBRARY_CONTENT_VARIANTS: LibraryContentVariant[] = ['original', 'thumbnail', 'preview'];
+
+/**
+ * Maximum length of an item name
+ */
+export const MAX_ITEM_NAME_LENGTH = 255;
+
+/**
+ * How long a signed content URL stays valid
+ */
+const CONTENT_URL_TTL_SECONDS = 60 * 60;
+
+/**
+ * Mime types stored as documents rather than generic files
+ */
+const DOCUMENT_MIME_TYPES = [
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-powerpoint',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'application/rtf',
+];
+
+/**
+ * Library Service Error Types
+ */
+export class LibraryValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LibraryValidationError';
+  }
+}
+
+export class LibraryItemNotFoundError extends Error {
+  constructor(itemId: string) {
+    super(`Library item not found: ${itemId}`);
+    this.name = 'LibraryItemNotFoundError';
+  }
+}
+
+export class LibraryRangeNotSatisfiableError extends Error {
+  constructor(public size: number) {
+    super('Requested range not satisfiable');
+    this.name = 'LibraryRangeNotSatisfiableError';
+  }
+}
+
+/**
+ * Infer the library category of a mime type
+ */
+export function getItemTypeForMimeType(mimeType: string): LibraryItemType {
+  if (mimeType.startsWith('image/')) {
+    return 'image';
+  }
+  if (mimeType.startsWith('video/')) {
+    return 'video';
+  }
+  if (mimeType.startsWith('text/') || DOCUMENT_MIME_TYPES.includes(mimeType)) {
+    return 'document';
+  }
+  return 'file';
+}
+
+/**
+ * Parse a single-range HTTP Range header (e.g. "bytes=0-1023", "bytes=-500")
+ *
+ * @param header - Range header value
+ * @param size - Size of the content in bytes
+ * @returns Byte range, or null if the header is absent or not a single byte range
+ * @throws LibraryRangeNotSatisfiableError if the range lies outside the content
+ */
+export function parseRangeHeader(header: string | undefined, size: number): ByteRange | null {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (match[1] === '' && match[2] === '')) {
+    return null;
+  }
+
+  let start: number;
+  let end: number;
+  if (match[1] === '') {
+    // Suffix range: the last N bytes
+    start = Math.max(size - parseInt(match[2], 10), 0);
+    end = size - 1;
+  } else {
+    start = parseInt(match[1], 10);
+    end = match[2] === '' ? size - 1 : Math.min(parseInt(match[2], 10), size - 1);
+  }
+
+  if (start >= size || start > end) {
+    throw new LibraryRangeNotSatisfiableError(size);
+  }
+
+  return { start, end };
+}
+
+/**
+ * Upload to store as a new library item
+ */
+export interface CreateLibraryItemData {
+  userId: string;
+  name?: string;
+  originalName: string;
+  mimeType: string;
+  type?: string;
+  visibility?: string;
+  content: Readable;
+}
+
+/**
+ * Opened item content
+ */
+export interface LibraryItemContent {
+  item: LibraryItemRecord;
+  mimeType: string;
+  size: number;
+  stream: Readable;
+  range: ByteRange | null;
+}
+
+/**
+ * Library Service Class
+ */
+export class LibraryService {
+  private urlSecret: string;
+
+  constructor() {
+    this.urlSecret = process.env.LIBRARY_URL_SECRET || '';
+    if (!this.urlSecret) {
+      // Signed URLs stop working when the server restarts
+      console.warn('LIBRARY_URL_SECRET is not set; using a random secret for signed content URLs');
+      this.urlSecret = randomBytes(32).toString('hex');
+    }
+  }
+
+  /**
+   * Store an uploaded file as a new library item
+   *
+   * Thumbnail and preview generation is queued in the same transaction as the
+   * insert, so every stored item gets processed.
+   *
+   * @param data - Upload data
+   * @returns Created item
+   * @throws LibraryValidationError if validation fails
+   */
+  async createItem(data: CreateLibraryItemData): Promise<LibraryItemData> {
+    const db = getDatabaseService();
+
+    const name = (data.name ?? data.originalName).trim();
+    if (!name) {
+      throw new LibraryValidationError('name cannot be empty');
+    }
+    if (name.length > MAX_ITEM_NAME_LENGTH) {
+      throw new LibraryValidationError(`name cannot exceed ${MAX_ITEM_NAME_LENGTH} characters`);
+    }
+
+    const type = data.type ?? getItemTypeForMimeType(data.mimeType);
+    if (!LIBRARY_ITEM_TYPES.includes(type as LibraryItemType)) {
+      throw new LibraryValidationError(`type must be one of: ${LIBRARY_ITEM_TYPES.join(', ')}`);
+    }
+
+    const visibility = data.visibility ?? 'private';
+    this.validateVisibility(visibility);
+
+    const itemId = randomUUID();
+    const storageKey = `${data.userId}/${itemId}`;
+    const driver = getStorageDriver();
+    const size = await driver.put(storageKey, data.content);
+
+    try {
+      const row = await db.transaction(async (client) => {
+        const result = await client.query(
+          `
+            INSERT INTO library_items (
+              item_id, user_id, name, type, visibility, mime_type, size, storage_driver, storage_key
+            )
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+            RETURNING *
+          `,
+          [itemId, data.userId, name, type, visibility, data.mimeType, size, driver.name, storageKey]
+        );
+
+        await getJobQueue().enqueue(LIBRARY_PROCESS_JOB, { itemId }, { client });
+
+        return result.rows[0];
+      });
+
+      return this.toItemData(this.toRecord(row));
+    } catch (error) {
+      await driver.delete(storageKey).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a user's library items, newest first
+   *
+   * @param userId - User ID
+   * @param type - Only return items of this type
+   * @returns Library items
+   * @throws LibraryValidationError if the type is invalid
+   */
+  async getItems(userId: string, type?: string): Promise<LibraryItemData[]> {
+    const db = getDatabaseService();
+
+    if (type !== undefined && !LIBRARY_ITEM_TYPES.includes(type as LibraryItemType)) {
+      throw new LibraryValidationError(`type must be one of: ${LIBRARY_ITEM_TYPES.join(', ')}`);
+    }
+
+    const result = await db.query(
+      `
+        SELECT * FROM library_items
+        WHERE user_id = $1 AND ($2::varchar IS NULL OR type = $2)
+        ORDER BY created_at DESC
+      `,
+      [userId, type ?? null]
+    );
+
+    return result.rows.map(row => this.toItemData(this.toRecord(row)));
+  }
+
+  /**
+   * Open the content of an item, or one of its generated artifacts
+   *
+   * Access is granted to the owner, or to anyone holding a valid signature
+   * from the item's content URLs.
+   *
+   * @param itemId - Item ID
+   * @param access - Authenticated user, or signature query parameters
+   * @param rangeHeader - HTTP Range header, if any
+   * @param variant - original, thumbnail, or preview
+   * @returns Item and a stream over the requested bytes
+   * @throws LibraryValidationError if the variant is invalid
+   * @throws LibraryItemNotFoundError if the item or artifact doesn't exist, or access is denied
+   * @throws LibraryRangeNotSatisfiableError if the range lies outside the content
+   */
+  async openContent(
+    itemId: string,
+    access: { userId?: string; expires?: string; signature?: string },
+    rangeHeader?: string,
+    variant: string = 'original'
+  ): Promise<LibraryItemContent> {
+    const item = await this.findItem(itemId);
+
+    const isOwner = !!item && access.userId === item.userId;
+    if (!item || (!isOwner && !this.verifySignature(itemId, access.expires, access.signature))) {
+      throw new LibraryItemNotFoundError(itemId);
+    }
+
+    return this.openStoredContent(item, rangeHeader, variant);
+  }
+
+  /**
+   * Open the content of an item whose access has already been checked
+   *
+   * @param item - Item record
+   * @param rangeHeader - HTTP Range header, if any
+   * @param variant - original, thumbnail, or preview
+   * @returns Item and a stream over the requested bytes
+   * @throws LibraryValidationError if the variant is invalid
+   * @throws LibraryItemNotFoundError if the artifact doesn't exist
+   * @throws LibraryRangeNotSatisfiableError if the range lies outside the content
+   */
+  async openStoredContent(
+    item: LibraryItemRecord,
+    rangeHeader?: string,
+    variant: string = 'original'
+  ): Promise<LibraryItemContent> {
+    if (!LIBRARY_CONTENT_VARIANTS.includes(variant as LibraryContentVariant)) {
+      throw new LibraryValidationError(`variant must be one of: ${LIBRARY_CONTENT_VARIANTS.join(', ')}`);
+    }
+
+    const driver = getStorageDriver(item.storageDriver);
+    let key = item.storageKey;
+    let mimeType = item.mimeType;
+    let size = item.size;
+
+    if (variant !== 'original') {
+      key = variant === 'thumbnail' ? item.thumbnailKey : item.previewKey;
+      if (!key) {
+        throw new LibraryItemNotFoundError(item.itemId);
+      }
+      mimeType = variant === 'thumbnail' ? 'image/webp' : 'image/jpeg';
+      size = await driver.getSize(key);
+    }
+
+    const range = parseRangeHeader(rangeHeader, size);
+    const stream = await driver.getStream(key, range ?? undefined);
+
+    return { item, mimeType, size, stream, range };
+  }
+
+  /**
+   * Change the visibility of several items
+   *
+   * Making items private revokes their share links, so the links stop working
+   * and stay dead if the items are made public again.
+   *
+   * @param userId - User ID (only the user's own items are updated)
+   * @param itemIds - Item IDs
+   * @param visibility - New visibility
+   * @returns Updated items
+   * @throws LibraryValidationError if validation fails
+   */
+  async updateVisibility(userId: string, itemIds: string[], visibility: string): Promise<LibraryItemData[]> {
+    const db = getDatabaseService();
+
+    this.validateItemIds(itemIds);
+    this.validateVisibility(visibility);
+
+    const rows = await db.transaction(async (client) => {
+      const result = await client.query(
+        `
+          UPDATE library_items
+          SET visibility = $3
+          WHERE user_id = $1 AND item_id = ANY($2::uuid[])
+          RETURNING *
+        `,
+        [userId, itemIds, visibility]
+      );
+
+      if (visibility === 'private') {
+        await client.query(
+          `
+            UPDATE library_share_links
+            SET revoked_at = CURRENT_TIMESTAMP
+            WHERE user_id = $1 AND item_id = ANY($2::uuid[]) AND revoked_at IS NULL
+          `,
+          [userId, itemIds]
+        );
+      }
+
+      return result.rows;
+    });
+
+    return rows.map(row => this.toItemData(this.toRecord(row)));
+  }
+
+  /**
+   * Delete several items and their content
+   *
+   * @param userId - User ID (only the user's own items are deleted)
+   * @param itemIds - Item IDs
+   * @returns IDs of the deleted items
+   * @throws LibraryValidationError if validation fails
+   */
+  async deleteItems(userId: string, itemIds: string[]): Promise<string[]> {
+    const db = getDatabaseService();
+
+    this.validateItemIds(itemIds);
+
+    const result = await db.query(
+      `
+        DELETE FROM library_items
+        WHERE user_id = $1 AND item_id = ANY($2::uuid[])
+        RETURNING *
+      `,
+      [userId, itemIds]
+    );
+
+    const deleted = result.rows.map(row => this.toRecord(row));
+    await this.deleteContent(deleted);
+
+    return deleted.map(item => item.itemId);
+  }
+
+  /**
+   * Delete all of a user's library items and their stored content
+   *
+   * @param userId - Owner user ID
+   * @returns Number of deleted items
+   */
+  async deleteAllItems(userId: string): Promise<number> {
+    const db = getDatabaseService();
+
+    const result = await db.query('DELETE FROM library_items WHERE user_id = $1 RETURNING *', [userId]);
+
+    await this.deleteContent(result.rows.map(row => this.toRecord(row)));
+
+    return result.rows.length;
+  }
+
+  /**
+   * Signed URL for an item's content or one of its artifacts
+   */
+  getContentUrl(itemId: string, variant: LibraryContentVariant = 'original', now: Date = new Date()): string {
+    const expires = Math.floor(now.getTime() / 1000) + CONTENT_URL_TTL_SECONDS;
+    const signature = this.sign(itemId, expires);
+    const variantParam = variant === 'original' ? '' : `variant=${variant}&`;
+    return `/api/library/items/${itemId}/content?${variantParam}expires=${expires}&signature=${signature}`;
+  }
+
+  /**
+   * Find an item by ID
+   */
+  async findItem(itemId: string): Promise<LibraryItemRecord | null> {
+    const db = getDatabaseService();
+
+    if (!this.isUuid(itemId)) {
+      return null;
+    }
+
+    const result = await db.query('SELECT * FROM library_items WHERE item_id = $1', [itemId]);
+    return result.rows.length > 0 ? this.toRecord(result.rows[0]) : null;
+  }
+
+  private sign(itemId: string, expires: number): string {
+    return createHmac('sha256', this.urlSecret).update(`${itemId}:${expires}`).digest('hex');
+  }
+
+  private verifySignature(itemId: string, expires?: string, signature?: string): boolean {
+    const expiresAt = Number(expires);
+    if (!signature || !Number.isInteger(expiresAt) || expiresAt * 1000 < Date.now()) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(itemId, expiresAt));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  private validateVisibility(visibility: string): void {
+    if (!LIBRARY_VISIBILITIES.includes(visibility as LibraryItemVisibility)) {
+      throw new LibraryValidationError(`visibility must be one of: ${LIBRARY_VISIBILITIES.join(', ')}`);
+    }
+  }
+
+  private validateItemIds(itemIds: string[]): void {
+    if (!Array.isArray(itemIds) || itemIds.length === 0) {
+      throw new LibraryValidationError('itemIds must be a non-empty array');
+    }
+    if (!itemIds.every(itemId => typeof itemId === 'string' && this.isUuid(itemId))) {
+      throw new LibraryValidationError('itemIds must contain valid item IDs');
+    }
+  }
+
+  private isUuid(value: string): boolean {
+    return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value);
+  }
+
+  /**
+   * Delete the stored files of deleted items
+   *
+   * The rows are gone, so a failed file deletion only leaves an orphaned file.
+   */
+  private async deleteContent(items: LibraryItemRecord[]): Promise<void> {
+    await Promise.all(
+      items.map(item => {
+        const driver = getStorageDriver(item.storageDriver);
+        const keys = [item.storageKey, item.thumbnailKey, item.previewKey].filter(Boolean);
+        return Promise.all(keys.map(key => driver.delete(key))).catch(error => {
+          console.error(`Failed to delete content of library item ${item.itemId}:`, error);
+        });
+      })
+    );
+  }
+
+  /**
+   * Convert a library_items row (size is returned as a string for BIGINT)
+   */
+  toRecord(row: Record<string, unknown>): LibraryItemRecord {
+    const record = keysToCamelCase(row) as LibraryItemRecord;
+    return { ...record, size: Number(record.size) };
+  }
+
+  private toItemData(item: LibraryItemRecord): LibraryItemData {
+    return {
+      id: item.itemId,
+      name: item.name,
+      type: item.type,
+      visibility: item.visibility,
+      mimeType: item.mimeType,
+      size: item.size,
+      width: item.width,
+      height: item.height,
+      thumbnail: item.thumbnailKey ? this.getContentUrl(item.itemId, 'thumbnail') : null,
+      previewUrl: item.previewKey ? this.getContentUrl(item.itemId, 'preview') : null,
+      preview: item.preview,
+      processingStatus: item.processingStatus,
+      contentUrl: this.getContentUrl(item.itemId),
+      createdAt: item.createdAt,
+    };
+  }
+}
+
+/**
+ * Singleton instance
+ */
+let libraryServiceInstance: LibraryService | null = null;
+
+/**
+ * Get LibraryService instance
+ */
+export function getLibraryService(): LibraryService {
+  if (!libraryServiceInstance) {
+    libraryServiceInstance = new LibraryService();
+  }
+  return libraryServiceInstance;
+}
@@ -0,0 +1,242 @@
+/**
+ * Library Share Service Module
+ *
+ * Handles public share links for library items:
+ * - Creating links (with an optional expiry) for public items
+ * - Listing and revoking an item's links
+ * - Resolving a link token to the shared item and its content
+ *
+ * A link works only while it is unrevoked and unexpired and its item is
+ * public. This is checked on every request, including content requests, so
+ * revoking a link or making the item private takes effect immediately.
+ */
+
+import { randomBytes } from 'crypto';
+import { getDatabaseService } from './database';
+import { keysToCamelCase } from './databaseUtils';
+import {
+  getLibraryService,
+  LibraryItemContent,
+  LibraryItemNotFoundError,
+  LibraryValidationError,
+} from './libraryService';
+import type { LibraryItemRecord, LibraryShareLink, SharedLibraryItem } from '../types/database';
+
+/**
+ * Random bytes in a share token (encoded as 32 base64url characters)
+ */
+const SHARE_TOKEN_BYTES = 24;
+
+/**
+ * Library Share Service Error Types
+ */
+export class LibraryShareLinkNotFoundError extends Error {
+  constructor() {
+    super('Share link not found or no longer active');
+    this.name = 'LibraryShareLinkNotFoundError';
+  }
+}
+
+/**
+ * Library Share Service Class
+ */
+export class LibraryShareService {
+  /**
+   * Create a share link for a public item
+   *
+   * @param userId - Owner's user ID
+   * @param itemId - Item ID
+   * @param expiresAt - ISO 8601 time after which the link stops working (optional)
+   * @returns Created link
+   * @throws LibraryItemNotFoundError if the user has no such item
+   * @throws LibraryValidationError if the item is private or the expiry is invalid
+   */
+  async createLink(userId: string, itemId: string, expiresAt?: string): Promise<LibraryShareLink> {
+    const db = getDatabaseService();
+
+    const item = await this.findOwnItem(userId, itemId);
+    if (item.visibility !== 'public') {
+      throw new LibraryValidationError('Only public items can be shared');
+    }
+
+    let expiry: Date | null = null;
+    if (expiresAt !== undefined) {
+      expiry = new Date(expiresAt);
+      if (isNaN(expiry.getTime())) {
+        throw new LibraryValidationError('expiresAt must be a valid date');
+      }
+      if (expiry.getTime() <= Date.now()) {
+        throw new LibraryValidationError('expiresAt must be in the future');
+      }
+    }
+
+    const token = randomBytes(SHARE_TOKEN_BYTES).toString('base64url');
+    const result = await db.query(
+      `
+        INSERT INTO library_share_links (item_id, user_id, token, expires_at)
+        VALUES ($1, $2, $3, $4)
+        RETURNING *
+      `,
+      [itemId, userId, token, expiry]
+    );
+
+    return this.toShareLink(result.rows[0]);
+  }
+
+  /**
+   * Get an item's share links, newest first
+   *
+   * @param userId - Owner's user ID
+   * @param itemId - Item ID
+   * @returns Share links, including revoked and expired ones
+   * @throws LibraryItemNotFoundError if the user has no such item
+   */
+  async getLinks(userId: string, itemId: string): Promise<LibraryShareLink[]> {
+    const db = getDatabaseService();
+
+    await this.findOwnItem(userId, itemId);
+
+    const result = await db.query(
+      `
+        SELECT * FROM library_share_links
+        WHERE item_id = $1 AND user_id = $2
+        ORDER BY created_at DESC
+      `,
+      [itemId, userId]
+    );
+
+    return result.rows.map(row => this.toShareLink(row));
+  }
+
+  /**
+   * Revoke a share link
+   *
+   * @param userId - Owner's user ID
+   * @param linkId - Link ID
+   * @returns Revoked link
+   * @throws LibraryShareLinkNotFoundError if the user has no such link
+   */
+  async revokeLink(userId: string, linkId: number): Promise<LibraryShareLink> {
+    const db = getDatabaseService();
+
+    const result = await db.query(
+      `
+        UPDATE library_share_links
+        SET revoked_at = COALESCE(revoked_at, CURRENT_TIMESTAMP)
+        WHERE link_id = $1 AND user_id = $2
+        RETURNING *
+      `,
+      [linkId, userId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new LibraryShareLinkNotFoundError();
+    }
+
+    return this.toShareLink(result.rows[0]);
+  }
+
+  /**
+   * Get the item shared through a link
+   *
+   * @param token - Share token
+   * @returns Read-only view of the item
+   * @throws LibraryShareLinkNotFoundError if the link isn't active
+   */
+  async getSharedItem(token: string): Promise<SharedLibraryItem> {
+    const { item, expiresAt } = await this.resolveToken(token);
+    const contentPath = `/api/public/share/${encodeURIComponent(token)}/content`;
+
+    return {
+      name: item.name,
+      type: item.type,
+      mimeType: item.mimeType,
+      size: item.size,
+      width: item.width,
+      height: item.height,
+      thumbnail: item.thumbnailKey ? `${contentPath}?variant=thumbnail` : null,
+      previewUrl: item.previewKey ? `${contentPath}?variant=preview` : null,
+      preview: item.preview,
+      contentUrl: contentPath,
+      createdAt: item.createdAt,
+      expiresAt,
+    };
+  }
+
+  /**
+   * Open the content of the item shared through a link
+   *
+   * @param token - Share token
+   * @param rangeHeader - HTTP Range header, if any
+   * @param variant - original, thumbnail, or preview
+   * @returns Item and a stream over the requested bytes
+   * @throws LibraryShareLinkNotFoundError if the link isn't active
+   */
+  async openSharedContent(token: string, rangeHeader?: string, variant?: string): Promise<LibraryItemContent> {
+    const { item } = await this.resolveToken(token);
+    return getLibraryService().openStoredContent(item, rangeHeader, variant);
+  }
+
+  /**
+   * Find the item behind an active link
+   */
+  private async resolveToken(token: string): Promise<{ item: LibraryItemRecord; expiresAt: Date | null }> {
+    const db = getDatabaseService();
+
+    const result = await db.query(
+      `
+        SELECT i.*, l.expires_at AS link_expires_at
+        FROM library_share_links l
+        JOIN library_items i ON i.item_id = l.item_id
+        WHERE l.token = $1
+          AND l.revoked_at IS NULL
+          AND (l.expires_at IS NULL OR l.expires_at > CURRENT_TIMESTAMP)
+          AND i.visibility = 'public'
+      `,
+      [token]
+    );
+
+    if (result.rows.length === 0) {
+      throw new LibraryShareLinkNotFoundError();
+    }
+
+    const { link_expires_at, ...row } = result.rows[0];
+    return { item: getLibraryService().toRecord(row), expiresAt: link_expires_at };
+  }
+
+  private async findOwnItem(userId: string, itemId: string): Promise<LibraryItemRecord> {
+    const item = await getLibraryService().findItem(itemId);
+    if (!item || item.userId !== userId) {
+      throw new LibraryItemNotFoundError(itemId);
+    }
+    return item;
+  }
+
+  private toShareLink(row: Record<string, unknown>): LibraryShareLink {
+    const link = keysToCamelCase(row);
+    return {
+      id: link.linkId,
+      itemId: link.itemId,
+      token: link.token,
+      expiresAt: link.expiresAt,
+      revokedAt: link.revokedAt,
+      active: !link.revokedAt && (!link.expiresAt || new Date(link.expiresAt).getTime() > Date.now()),
+      createdAt: link.createdAt,
+    };
+  }
+}
+
+/**
+ * Singleton instance
+ */
+let libraryShareServiceInstance: LibraryShareService | null = null;
+
+/**
+ * Get LibraryShareService instance
+ */
+export function getLibraryShareService(): LibraryShareService {
+  if (!libraryShareServiceInstance) {
+    libraryShareServiceInstance = new LibraryShareService();
+  }
+  return libraryShareServiceInstance;
+}
@@ -0,0 +1,422 @@
+/**
+ * Notification Service Module
+ *
+ * Sends notifications to users through three channels:
+ * - in-app: every notification is stored in the notifications table and
+ *   shown in the notification center
+ * - email: sent through the configured EmailTransport (see emailService)
+ * - push: Web Push to the browsers the user subscribed
+ *
+ * Users who turned notifications off, or turned off a notification type,
+ * get nothing for it. Email and push are delivered by the
+ * notifications.deliver background job so callers don't wait on them.
+ *
+ * Configuration:
+ * - NOTIFICATION_CHANNELS: delivery channels besides in-app, comma separated
+ *   (email, push; default: none)
+ * - WEB_PUSH_PUBLIC_KEY, WEB_PUSH_PRIVATE_KEY: VAPID keys (push is skipped
+ *   without them; generate with `npx web-push generate-vapid-keys`)
+ * - WEB_PUSH_SUBJECT: contact URL or mailto: address sent to push services
+ * - FRONTEND_URL: base URL of the links in emails
+ */
+
+import { randomUUID } from 'crypto';
+import webpush from 'web-push';
+import { getDatabaseService } from './database';
+import { keysToCamelCase } from './databaseUtils';
+import { getEmailTransport } from './emailService';
+import { getJobQueue } from './jobQueue';
+import { getSettingsService } from './settingsService';
+import type {
+  LanguagePreference,
+  NotificationList,
+  NotificationType,
+  PushSubscriptionData,
+  UserNotification,
+} from '../types/database';
+
+/**
+ * Job type that delivers a notification through email or push
+ */
+export const NOTIFICATION_DELIVER_JOB = 'notifications.deliver';
+
+/**
+ * Channels a notification can be delivered through besides in-app
+ */
+export type DeliveryChannel = 'email' | 'push';
+
+/**
+ * Number of notifications shown in the notification center
+ */
+const NOTIFICATION_LIST_LIMIT = 30;
+
+/**
+ * Details filled into each notification type's text
+ */
+export interface NotificationDataMap {
+  inquiry_answered: { subject: string };
+  report_resolved: Record<string, never>;
+  writing_reminder: Record<string, never>;
+  achievement_unlocked: { label: string };
+}
+
+type NotificationTemplate<T extends NotificationType> = {
+  link: string | null;
+  text: Record<LanguagePreference, (data: NotificationDataMap[T]) => { title: string; body: string }>;
+};
+
+/**
+ * Title, body and link of each notification type, per language
+ */
+const NOTIFICATION_TEMPLATES: { [T in NotificationType]: NotificationTemplate<T> } = {
+  inquiry_answered: {
+    link: '/mypage',
+    text: {
+      ko: ({ subject }) => ({ title: '문의에 답변이 등록되었습니다', body: `"${subject}" 문의에 답변이 도착했습니다.` }),
+      en: ({ subject }) => ({ title: 'Your inquiry was answered', body: `There is a reply to "${subject}".` }),
+      ja: ({ subject }) => ({ title: 'お問い合わせに回答がありました', body: `「${subject}」への回答が届きました。` }),
+    },
+  },
+  report_resolved: {
+    link: null,
+    text: {
+      ko: () => ({ title: '신고가 처리되었습니다', body: '접수하신 신고에 대한 조치가 완료되었습니다.' }),
+      en: () => ({ title: 'Your report was resolved', body: 'We have taken action on the report you submitted.' }),
+      ja: () => ({ title: '通報が処理されました', body: 'ご報告いただいた件への対応が完了しました。' }),
+    },
+  },
+  writing_reminder: {
+    link: '/journal',
+    text: {
+      ko: () => ({ title: '오늘의 기록을 남겨 보세요', body: '오늘 하루는 어땠나요? 잠시 시간을 내어 기록해 보세요.' }),
+      en: () => ({ title: 'Time to write today', body: 'How was your day? Take a moment to write it down.' }),
+      ja: () => ({ title: '今日の記録を残しましょう', body: '今日はどんな一日でしたか？少し時間をとって書き残しましょう。' }),
+    },
+  },
+  achievement_unlocked: {
+    link: '/achievements',
+    text: {
+      ko: ({ label }) => ({ title: '업적을 달성했습니다', body: `"${label}" 업적을 달성했습니다.` }),
+      en: ({ label }) => ({ title: 'Achievement unlocked', body: `You unlocked "${label}".` }),
+      ja: ({ label }) => ({ title: '実績を達成しました', body: `「${label}」を達成しました。` }),
+    },
+  },
+};
+
+/**
+ * Notification Service Error Types
+ */
+export class NotificationNotFoundError extends Error {
+  constructor(notificationId: string) {
+    super(`Notification not found: ${notificationId}`);
+    this.name = 'NotificationNotFoundError';
+  }
+}
+
+export class NotificationValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotificationValidationError';
+  }
+}
+
+/**
+ * Notification Service Class
+ */
+export class NotificationService {
+  private channels = this.readChannels();
+  private pushPublicKey = process.env.WEB_PUSH_PUBLIC_KEY || null;
+
+  constructor() {
+    if (this.pushPublicKey && process.env.WEB_PUSH_PRIVATE_KEY) {
+      webpush.setVapidDetails(
+        process.env.WEB_PUSH_SUBJECT || 'mailto:no-reply@localhost',
+        this.pushPublicKey,
+        process.env.WEB_PUSH_PRIVATE_KEY
+      );
+    } else {
+      this.pushPublicKey = null;
+    }
+  }
+
+  /**
+   * Send a notification to a user
+   *
+   * Stores the in-app notification and queues its email and push delivery.
+   * Written in the user's language.
+   *
+   * @param userId - User ID
+   * @param type - Notification type
+   * @param data - Details filled into the notification text
+   * @returns Stored notification, or null if the user doesn't want this type
+   */
+  async notify<T extends NotificationType>(
+    userId: string,
+    type: T,
+    data: NotificationDataMap[T]
+  ): Promise<UserNotification | null> {
+    const db = getDatabaseService();
+    const settings = await getSettingsService().getSettings(userId);
+
+    if (!settings.notificationsEnabled || settings.notificationOptOuts.includes(type)) {
+      return null;
+    }
+
+    const template: NotificationTemplate<T> = NOTIFICATION_TEMPLATES[type];
+    const { title, body } = template.text[settings.language](data);
+
+    return db.transaction(async client => {
+      const result = await client.query(
+        `
+          INSERT INTO notifications (notification_id, user_id, type, title, body, link)
+          VALUES ($1, $2, $3, $4, $5, $6)
+          RETURNING *
+        `,
+        [randomUUID(), userId, type, title, body, template.link]
+      );
+      const notification = keysToCamelCase<UserNotification>(result.rows[0]);
+
+      for (const channel of this.channels) {
+        await getJobQueue().enqueue(
+          NOTIFICATION_DELIVER_JOB,
+          { notificationId: notification.notificationId, channel },
+          { client }
+        );
+      }
+
+      return notification;
+    });
+  }
+
+  /**
+   * Get the latest notifications of a user
+   *
+   * @param userId - User ID
+   * @returns Latest notifications, newest first, with the unread count
+   */
+  async getNotifications(userId: string): Promise<NotificationList> {
+    const db = getDatabaseService();
+
+    const [listResult, unreadResult] = await Promise.all([
+      db.query(
+        'SELECT * FROM notifications WHERE user_id = $1 ORDER BY created_at DESC LIMIT $2',
+        [userId, NOTIFICATION_LIST_LIMIT]
+      ),
+      db.query(
+        'SELECT COUNT(*) AS count FROM notifications WHERE user_id = $1 AND read_at IS NULL',
+        [userId]
+      ),
+    ]);
+
+    return {
+      notifications: listResult.rows.map(row => keysToCamelCase<UserNotification>(row)),
+      unreadCount: parseInt(unreadResult.rows[0].count, 10),
+    };
+  }
+
+  /**
+   * Mark a notification read
+   *
+   * @param userId - User ID
+   * @param notificationId - Notification ID
+   * @throws NotificationNotFoundError if the user has no such notification
+   */
+  async markRead(userId: string, notificationId: string): Promise<void> {
+    const db = getDatabaseService();
+
+    const result = await db.query(
+      `
+        UPDATE notifications
+        SET read_at = COALESCE(read_at, CURRENT_TIMESTAMP)
+        WHERE notification_id::text = $1 AND user_id = $2
+      `,
+      [notificationId, userId]
+    );
+
+    if (result.rowCount === 0) {
+      throw new NotificationNotFoundError(notificationId);
+    }
+  }
+
+  /**
+   * Mark all notifications of a user read
+   *
+   * @param userId - User ID
+   */
+  async markAllRead(userId: string): Promise<void> {
+    const db = getDatabaseService();
+
+    await db.query(
+      'UPDATE notifications SET read_at = CURRENT_TIMESTAMP WHERE user_id = $1 AND read_at IS NULL',
+      [userId]
+    );
+  }
+
+  /**
+   * VAPID public key browsers subscribe with
+   *
+   * @returns Public key, or null if push isn't configured
+   */
+  getPushPublicKey(): string | null {
+    return this.channels.includes('push') ? this.pushPublicKey : null;
+  }
+
+  /**
+   * Save a browser's push subscription
+   *
+   * A subscription already saved for another user moves to this user.
+   *
+   * @param userId - User ID
+   * @param subscription - Subscription from PushSubscription.toJSON()
+   * @throws NotificationValidationError if the subscription is malformed
+   */
+  async savePushSubscription(userId: string, subscription: PushSubscriptionData): Promise<void> {
+    const db = getDatabaseService();
+
+    if (
+      typeof subscription?.endpoint !== 'string' ||
+      !/^https:\/\//.test(subscription.endpoint) ||
+      typeof subscription.keys?.p256dh !== 'string' ||
+      typeof subscription.keys?.auth !== 'string'
+    ) {
+      throw new NotificationValidationError('Invalid push subscription');
+    }
+
+    await db.query(
+      `
+        INSERT INTO push_subscriptions (user_id, endpoint, p256dh, auth)
+        VALUES ($1, $2, $3, $4)
+        ON CONFLICT (endpoint) DO UPDATE
+        SET user_id = EXCLUDED.user_id, p256dh = EXCLUDED.p256dh, auth = EXCLUDED.auth
+      `,
+      [userId, subscription.endpoint, subscription.keys.p256dh, subscription.keys.auth]
+    );
+  }
+
+  /**
+   * Delete a browser's push subscription
+   *
+   * @param userId - User ID
+   * @param endpoint - Subscription endpoint
+   */
+  async deletePushSubscription(userId: string, endpoint: string): Promise<void> {
+    const db = getDatabaseService();
+
+    await db.query('DELETE FROM push_subscriptions WHERE user_id = $1 AND endpoint = $2', [
+      userId,
+      endpoint,
+    ]);
+  }
+
+  /**
+   * Handle the notifications.deliver job
+   *
+   * Skips notifications deleted since (e.g. with their account).
+   */
+  async handleDeliverJob(payload: { notificationId: string; channel: DeliveryChannel }): Promise<void> {
+    const db = getDatabaseService();
+
+    const result = await db.query(
+      `
+        SELECT n.*, u.email
+        FROM notifications n
+        JOIN users u ON u.user_id = n.user_id
+        WHERE n.notification_id = $1
+      `,
+      [payload.notificationId]
+    );
+
+    if (result.rows.length === 0) {
+      return;
+    }
+
+    const { email, ...row } = result.rows[0];
+    const notification = keysToCamelCase<UserNotification>(row);
+
+    if (payload.channel === 'email') {
+      await this.sendEmail(email, notification);
+    } else if (payload.channel === 'push') {
+      await this.sendPush(notification);
+    }
+  }
+
+  private async sendEmail(to: string, notification: UserNotification): Promise<void> {
+    const link = notification.link
+      ? `\n\n${process.env.FRONTEND_URL || 'http://localhost:5173'}${notification.link}`
+      : '';
+
+    await getEmailTransport().send({
+      to,
+      subject: notification.title,
+      text: `${notification.body}${link}`,
+    });
+  }
+
+  /**
+   * Send a notification to every browser the user subscribed
+   *
+   * Subscriptions the push service reports gone are deleted. Other failures
+   * are rethrown after trying every subscription so that the job retries.
+   */
+  private async sendPush(notification: UserNotification): Promise<void> {
+    const db = getDatabaseService();
+
+    if (!this.pushPublicKey) {
+      return;
+    }
+
+    const result = await db.query(
+      'SELECT endpoint, p256dh, auth FROM push_subscriptions WHERE user_id = $1',
+      [notification.userId]
+    );
+    const message = JSON.stringify({
+      title: notification.title,
+      body: notification.body,
+      link: notification.link,
+    });
+
+    let failure: unknown = null;
+
+    for (const row of result.rows) {
+      try {
+        await webpush.sendNotification(
+          { endpoint: row.endpoint, keys: { p256dh: row.p256dh, auth: row.auth } },
+          message
+        );
+      } catch (error) {
+        const statusCode = (error as { statusCode?: number }).statusCode;
+        if (statusCode === 404 || statusCode === 410) {
+          await db.query('DELETE FROM push_subscriptions WHERE endpoint = $1', [row.endpoint]);
+        } else {
+          failure = error;
+        }
+      }
+    }
+
+    if (failure) {
+      throw failure;
+    }
+  }
+
+  private readChannels(): DeliveryChannel[] {
+    const channels = (process.env.NOTIFICATION_CHANNELS || '')
+      .split(',')
+      .map(channel => channel.trim());
+    return (['email', 'push'] as DeliveryChannel[]).filter(channel => channels.includes(channel));
+  }
+}
+
+/**
+ * Singleton instance
+ */
+let notificationServiceInstance: NotificationService | null = null;
+
+/**
+ * Get NotificationService instance
+ */
+export function getNotificationService(): NotificationService {
+  if (!notificationServiceInstance) {
+    notificationServiceInstance = new NotificationService();
+  }
+  return notificationServiceInstance;
+}
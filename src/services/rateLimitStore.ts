@@ -0,0 +1,167 @@
+/**
+ * Rate Limit Store Module
+ *
+ * Counts requests in fixed time windows for the API's rate limits, behind
+ * a RateLimitStore interface. The memory store keeps counters in the
+ * process and suits a single server; the postgres store keeps them in the
+ * rate_limit_buckets table so several server instances share one limit.
+ * Other stores (e.g. Redis) can be registered with registerRateLimitStore.
+ *
+ * Store selection: RATE_LIMIT_STORE environment variable (default: memory)
+ */
+
+import { getDatabaseService } from './database';
+
+/**
+ * Expired buckets are purged at most this often
+ */
+const PURGE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Requests counted in a bucket's current window
+ */
+export interface RateLimitHit {
+  count: number;  // including the request just counted
+  resetAt: Date;  // end of the window
+}
+
+/**
+ * Rate limit store interface
+ */
+export interface RateLimitStore {
+  readonly name: string;
+
+  /**
+   * Count a request in a bucket, starting a new window if the previous
+   * one has ended
+   */
+  hit(key: string, windowMs: number): Promise<RateLimitHit>;
+}
+
+/**
+ * Memory Rate Limit Store
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+
+  private buckets = new Map<string, { count: number; resetAt: number }>();
+  private lastPurgeAt = Date.now();
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    this.purgeExpired(now);
+
+    let bucket = this.buckets.get(key);
+    if (!bucket || bucket.resetAt <= now) {
+      bucket = { count: 0, resetAt: now + windowMs };
+      this.buckets.set(key, bucket);
+    }
+    bucket.count += 1;
+
+    return { count: bucket.count, resetAt: new Date(bucket.resetAt) };
+  }
+
+  private purgeExpired(now: number): void {
+    if (now - this.lastPurgeAt < PURGE_INTERVAL_MS) {
+      return;
+    }
+
+    this.lastPurgeAt = now;
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.resetAt <= now) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Postgres Rate Limit Store
+ *
+ * Counts with a single upsert per request, so concurrent requests on
+ * different instances can't both slip under the limit. Windows are timed
+ * by the database clock.
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  readonly name = 'postgres';
+
+  private lastPurgeAt = Date.now();
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const db = getDatabaseService();
+
+    const result = await db.query<{ hits: number; reset_in_ms: string }>(
+      `INSERT INTO rate_limit_buckets (bucket_key, hits, reset_at)
+       VALUES ($1, 1, NOW() + $2 * INTERVAL '1 millisecond')
+       ON CONFLICT (bucket_key) DO UPDATE SET
+         hits = CASE WHEN rate_limit_buckets.reset_at <= NOW() THEN 1 ELSE rate_limit_buckets.hits + 1 END,
+         reset_at = CASE WHEN rate_limit_buckets.reset_at <= NOW() THEN EXCLUDED.reset_at ELSE rate_limit_buckets.reset_at END
+       RETURNING hits, CEIL(EXTRACT(EPOCH FROM reset_at - NOW()) * 1000) AS reset_in_ms`,
+      [key, windowMs]
+    );
+
+    this.purgeExpired();
+
+    const row = result.rows[0];
+    return { count: row.hits, resetAt: new Date(Date.now() + Number(row.reset_in_ms)) };
+  }
+
+  private purgeExpired(): void {
+    if (Date.now() - this.lastPurgeAt < PURGE_INTERVAL_MS) {
+      return;
+    }
+
+    this.lastPurgeAt = Date.now();
+    getDatabaseService()
+      .query('DELETE FROM rate_limit_buckets WHERE reset_at <= NOW()')
+      .catch(error => console.error('Failed to purge rate limit buckets:', error));
+  }
+}
+
+/**
+ * Registered store factories, keyed by store name
+ */
+const storeFactories = new Map<string, () => RateLimitStore>([
+  ['memory', () => new MemoryRateLimitStore()],
+  ['postgres', () => new PostgresRateLimitStore()],
+]);
+
+/**
+ * Register a rate limit store
+ *
+ * Makes a store selectable through RATE_LIMIT_STORE.
+ *
+ * @param name - Store name
+ * @param factory - Function creating the store
+ */
+export function registerRateLimitStore(name: string, factory: () => RateLimitStore): void {
+  storeFactories.set(name, factory);
+  stores.delete(name);
+}
+
+/**
+ * Created stores, keyed by store name
+ */
+const stores = new Map<string, RateLimitStore>();
+
+/**
+ * Get a rate limit store by name
+ *
+ * @param name - Store name (default: RATE_LIMIT_STORE or memory)
+ * @returns Rate limit store
+ * @throws Error if no store with that name is registered
+ */
+export function getRateLimitStore(name: string = process.env.RATE_LIMIT_STORE || 'memory'): RateLimitStore {
+  let store = stores.get(name);
+
+  if (!store) {
+    const factory = storeFactories.get(name);
+    if (!factory) {
+      throw new Error(`Unknown rate limit store: ${name}`);
+    }
+    store = factory();
+    stores.set(name, store);
+  }
+
+  return store;
+}
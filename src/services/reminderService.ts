@@ -0,0 +1,254 @@
+/**
+ * Reminder Service Module
+ *
+ * Daily writing reminders. Each user can save a schedule (time of day,
+ * weekdays and timezone); a scheduler loop started with the API server
+ * sends a writing_reminder notification once the time has passed on a
+ * scheduled day, unless the user already wrote an entry that day.
+ *
+ * Each day is sent at most once, across restarts and server instances:
+ * - a sweep only runs while holding a Postgres advisory lock, so only one
+ *   instance sweeps at a time
+ * - a reminder is claimed by advancing reminder_schedules.last_sent_on in
+ *   the same transaction that enqueues its reminders.send job
+ *
+ * Reminders missed while no server was running are sent when the next
+ * sweep runs on the same local day.
+ *
+ * Configuration:
+ * - REMINDER_SCHEDULER_ENABLED: set to false to not run the scheduler (default: true)
+ * - REMINDER_POLL_INTERVAL_MS: delay between sweeps (default: 60000)
+ */
+
+import { getDatabaseService } from './database';
+import { getJobQueue } from './jobQueue';
+import { getNotificationService } from './notificationService';
+import { isValidTimeZone } from './timezoneUtils';
+import type { ReminderSchedule, SaveReminderScheduleData } from '../types/database';
+
+/**
+ * Job type that sends one user's writing reminder
+ */
+export const REMINDER_SEND_JOB = 'reminders.send';
+
+/**
+ * Advisory lock key held while sweeping due reminders
+ */
+const REMINDER_SWEEP_LOCK_KEY = 73_201;
+
+/**
+ * Reminder Service Error Types
+ */
+export class ReminderValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReminderValidationError';
+  }
+}
+
+/**
+ * Reminder Service Class
+ */
+export class ReminderService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private pollIntervalMs = Number(process.env.REMINDER_POLL_INTERVAL_MS) || 60 * 1000;
+
+  /**
+   * Get a user's reminder schedule
+   *
+   * @param userId - User ID
+   * @returns Schedule, or null if the user never saved one
+   */
+  async getSchedule(userId: string): Promise<ReminderSchedule | null> {
+    const db = getDatabaseService();
+
+    const result = await db.query('SELECT * FROM reminder_schedules WHERE user_id = $1', [userId]);
+
+    return result.rows.length > 0 ? this.toSchedule(result.rows[0]) : null;
+  }
+
+  /**
+   * Save a user's reminder schedule
+   *
+   * Moving the time later on a day whose reminder was already sent doesn't
+   * send it again.
+   *
+   * @param userId - User ID
+   * @param data - Schedule
+   * @returns Saved schedule
+   * @throws ReminderValidationError if the schedule is invalid
+   */
+  async saveSchedule(userId: string, data: SaveReminderScheduleData): Promise<ReminderSchedule> {
+    const db = getDatabaseService();
+
+    this.validate(data);
+
+    const result = await db.query(
+      `
+        INSERT INTO reminder_schedules (user_id, enabled, remind_at, weekdays, timezone)
+        VALUES ($1, $2, $3, $4, $5)
+        ON CONFLICT (user_id) DO UPDATE
+        SET enabled = EXCLUDED.enabled,
+            remind_at = EXCLUDED.remind_at,
+            weekdays = EXCLUDED.weekdays,
+            timezone = EXCLUDED.timezone
+        RETURNING *
+      `,
+      [userId, data.enabled, data.time, [...new Set(data.weekdays)].sort((a, b) => a - b), data.timezone]
+    );
+
+    return this.toSchedule(result.rows[0]);
+  }
+
+  /**
+   * Start the scheduler loop
+   */
+  start(): void {
+    if (this.running || process.env.REMINDER_SCHEDULER_ENABLED === 'false') {
+      return;
+    }
+    this.running = true;
+    this.schedule(0);
+    console.log('Reminder scheduler started');
+  }
+
+  /**
+   * Stop the scheduler loop after the current sweep
+   */
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Claim every reminder that is due now and queue it for sending
+   *
+   * Returns without doing anything while another instance is sweeping.
+   *
+   * @returns Number of reminders queued
+   */
+  async sweepDueReminders(): Promise<number> {
+    const db = getDatabaseService();
+
+    return db.transaction(async client => {
+      const lockResult = await client.query('SELECT pg_try_advisory_xact_lock($1) AS locked', [
+        REMINDER_SWEEP_LOCK_KEY,
+      ]);
+      if (!lockResult.rows[0].locked) {
+        return 0;
+      }
+
+      const result = await client.query(
+        `
+          WITH due AS (
+            SELECT r.user_id, (NOW() AT TIME ZONE r.timezone) AS local_now
+            FROM reminder_schedules r
+            JOIN users u ON u.user_id = r.user_id AND u.status = 'active'
+            WHERE r.enabled
+          )
+          UPDATE reminder_schedules r
+          SET last_sent_on = due.local_now::date
+          FROM due
+          WHERE r.user_id = due.user_id
+            AND EXTRACT(DOW FROM due.local_now)::smallint = ANY(r.weekdays)
+            AND due.local_now::time >= r.remind_at
+            AND (r.last_sent_on IS NULL OR r.last_sent_on < due.local_now::date)
+            AND NOT EXISTS (
+              SELECT 1 FROM journal_entries e
+              WHERE e.user_id = r.user_id AND e.entry_date = due.local_now::date
+            )
+          RETURNING r.user_id
+        `
+      );
+
+      for (const row of result.rows) {
+        await getJobQueue().enqueue(REMINDER_SEND_JOB, { userId: row.user_id }, { client });
+      }
+
+      return result.rows.length;
+    });
+  }
+
+  /**
+   * Handle the reminders.send job
+   *
+   * Notification settings are checked when the notification is sent, so a
+   * user who opted out of writing reminders gets nothing.
+   */
+  async handleSendJob(payload: { userId: string }): Promise<void> {
+    await getNotificationService().notify(payload.userId, 'writing_reminder', {});
+  }
+
+  private validate(data: SaveReminderScheduleData): void {
+    if (typeof data !== 'object' || data === null) {
+      throw new ReminderValidationError('Schedule must be an object');
+    }
+    if (typeof data.enabled !== 'boolean') {
+      throw new ReminderValidationError('enabled must be a boolean');
+    }
+    if (typeof data.time !== 'string' || !/^([01]\d|2[0-3]):[0-5]\d$/.test(data.time)) {
+      throw new ReminderValidationError('time must be HH:MM');
+    }
+    if (
+      !Array.isArray(data.weekdays) ||
+      data.weekdays.length === 0 ||
+      data.weekdays.some(day => !Number.isInteger(day) || day < 0 || day > 6)
+    ) {
+      throw new ReminderValidationError('weekdays must be a non-empty list of days from 0 (Sunday) to 6 (Saturday)');
+    }
+    if (typeof data.timezone !== 'string' || !isValidTimeZone(data.timezone)) {
+      throw new ReminderValidationError('Invalid timezone');
+    }
+  }
+
+  private toSchedule(row: Record<string, unknown>): ReminderSchedule {
+    return {
+      enabled: row.enabled as boolean,
+      time: (row.remind_at as string).slice(0, 5),
+      weekdays: row.weekdays as number[],
+      timezone: row.timezone as string,
+      lastSentOn: row.last_sent_on as string | null,
+    };
+  }
+
+  /**
+   * Sweep, then wait for the poll interval
+   */
+  private schedule(delayMs: number): void {
+    this.timer = setTimeout(async () => {
+      if (!this.running) {
+        return;
+      }
+
+      try {
+        await this.sweepDueReminders();
+      } catch (error) {
+        // Keep polling if the database is briefly unavailable
+        console.error('Reminder scheduler error:', error);
+      }
+
+      if (this.running) {
+        this.schedule(this.pollIntervalMs);
+      }
+    }, delayMs);
+  }
+}
+
+/**
+ * Singleton instance
+ */
+let reminderServiceInstance: ReminderService | null = null;
+
+/**
+ * Get ReminderService instance
+ */
+export function getReminderService(): ReminderService {
+  if (!reminderServiceInstance) {
+    reminderServiceInstance = new ReminderService();
+  }
+  return reminderServiceInstance;
+}
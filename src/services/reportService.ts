@@ -5,13 +5,28 @@
  * - Creating user reports
  * - Checking for duplicate reports
  * - Validating report data
+ * - Listing, viewing and resolving reports on the admin console
  * 
  * Requirements: 7.1, 7.2, 7.3, 7.4, 7.5, 7.6
  */
 
 import { getDatabaseService } from './database';
-import { keysToCamelCase } from './databaseUtils';
-import type { UserReport, CreateUserReportData } from '../types/database';
+import { getNotificationService } from './notificationService';
+import {
+  createPaginationParams,
+  createPaginationResponse,
+  keysToCamelCase,
+  PaginationResponse,
+} from './databaseUtils';
+import type {
+  AdminReport,
+  AdminReportDetail,
+  AdminReportFilters,
+  AdminUserSummary,
+  CreateUserReportData,
+  ReportStatus,
+  UserReport,
+} from '../types/database';
 
 /**
  * Report reason types
@@ -28,6 +43,41 @@ export const VALID_REPORT_REASONS: ReportReason[] = [
   'other',
 ];
 
+/**
+ * Valid report statuses
+ */
+export const VALID_REPORT_STATUSES: ReportStatus[] = ['pending', 'reviewed', 'resolved'];
+
+/**
+ * Maximum number of earlier reports shown in a report's history
+ */
+const REPORT_HISTORY_LIMIT = 50;
+
+/**
+ * Report joined with the users involved and the reported user's most
+ * serious active sanction, for the admin console
+ */
+const ADMIN_REPORT_SELECT = `
+  SELECT
+    r.*,
+    rp.email AS reporter_email, rp.nickname AS reporter_nickname, rp.status AS reporter_status,
+    ru.email AS reported_email, ru.nickname AS reported_nickname, ru.status AS reported_status,
+    rv.email AS reviewer_email, rv.nickname AS reviewer_nickname, rv.status AS reviewer_status,
+    (
+      SELECT s.action
+      FROM user_sanctions s
+      WHERE s.user_id = r.reported_user_id
+        AND s.lifted_at IS NULL
+        AND (s.ends_at IS NULL OR s.ends_at > NOW())
+      ORDER BY CASE s.action WHEN 'escalate' THEN 0 WHEN 'suspend' THEN 1 ELSE 2 END
+      LIMIT 1
+    ) AS reported_sanction
+  FROM user_reports r
+  JOIN users rp ON rp.user_id = r.reporter_id
+  JOIN users ru ON ru.user_id = r.reported_user_id
+  LEFT JOIN users rv ON rv.user_id = r.reviewed_by
+`;
+
 /**
  * Report Service Error Types
  */
@@ -59,6 +109,13 @@ export class ReportValidationError extends Error {
   }
 }
 
+export class ReportNotFoundError extends Error {
+  constructor(reportId: number) {
+    super(`Report not found: ${reportId}`);
+    this.name = 'ReportNotFoundError';
+  }
+}
+
 /**
  * Report Service Class
  */
@@ -237,32 +294,53 @@ export class ReportService {
   /**
    * Update report status
    * 
-   * Updates the status of a report (e.g., from 'pending' to 'reviewed').
+   * Updates the status of a report (e.g., from 'pending' to 'reviewed')
+   * and records the moderator who made the change. The reporter is
+   * notified when the report becomes resolved.
    * 
    * @param reportId - Report ID
    * @param status - New status
+   * @param reviewedBy - User ID of the moderator (optional)
    * @returns Updated report
+   * @throws ReportValidationError if status is invalid
+   * @throws ReportNotFoundError if the report doesn't exist
    */
   async updateReportStatus(
     reportId: number,
-    status: 'pending' | 'reviewed' | 'resolved'
+    status: ReportStatus,
+    reviewedBy?: string
   ): Promise<UserReport> {
     const db = getDatabaseService();
 
+    if (!VALID_REPORT_STATUSES.includes(status)) {
+      throw new ReportValidationError(
+        `Invalid report status: ${status}. Must be one of: ${VALID_REPORT_STATUSES.join(', ')}`
+      );
+    }
+
     const query = `
-      UPDATE user_reports
-      SET status = $1, reviewed_at = CURRENT_TIMESTAMP
-      WHERE report_id = $2
-      RETURNING *
+      UPDATE user_reports r
+      SET status = $1, reviewed_at = CURRENT_TIMESTAMP, reviewed_by = $3
+      FROM user_reports previous
+      WHERE r.report_id = $2 AND previous.report_id = r.report_id
+      RETURNING r.*, previous.status AS previous_status
     `;
 
-    const result = await db.query(query, [status, reportId]);
+    const result = await db.query(query, [status, reportId, reviewedBy ?? null]);
 
     if (result.rows.length === 0) {
-      throw new Error(`Report not found: ${reportId}`);
+      throw new ReportNotFoundError(reportId);
     }
 
-    return keysToCamelCase<UserReport>(result.rows[0]);
+    const { previous_status: previousStatus, ...report } = result.rows[0];
+
+    if (status === 'resolved' && previousStatus !== 'resolved') {
+      await getNotificationService()
+        .notify(report.reporter_id, 'report_resolved', {})
+        .catch(error => console.error('Failed to send report notification:', error));
+    }
+
+    return keysToCamelCase<UserReport>(report);
   }
 
   /**
@@ -294,24 +372,176 @@ export class ReportService {
   /**
    * Get report count for user
    * 
-   * Gets the total number of reports filed against a user.
+   * Gets the number of reports filed against a user, optionally only
+   * those filed within the last `windowHours` hours.
    * 
    * @param reportedUserId - Reported user ID
+   * @param windowHours - Count only reports from this many recent hours (optional)
    * @returns Report count
    */
-  async getReportCountForUser(reportedUserId: string): Promise<number> {
+  async getReportCountForUser(reportedUserId: string, windowHours?: number): Promise<number> {
     const db = getDatabaseService();
 
     const query = `
       SELECT COUNT(*) as count
       FROM user_reports
       WHERE reported_user_id = $1
+        AND ($2::integer IS NULL OR created_at > NOW() - make_interval(hours => $2::integer))
     `;
 
-    const result = await db.query(query, [reportedUserId]);
+    const result = await db.query(query, [reportedUserId, windowHours ?? null]);
 
     return parseInt(result.rows[0].count, 10);
   }
+
+  /**
+   * Get reports for the admin console
+   * 
+   * Lists reports with the reporter, reported user and reviewer attached,
+   * newest first.
+   * 
+   * @param filters - Status, reason and user search filters, and page
+   * @returns Page of reports
+   * @throws ReportValidationError if a filter value is invalid
+   */
+  async getAdminReports(filters: AdminReportFilters = {}): Promise<PaginationResponse<AdminReport>> {
+    const db = getDatabaseService();
+    const page = filters.page ?? 1;
+    const pageSize = filters.pageSize ?? 20;
+    const { limit, offset } = createPaginationParams(page, pageSize);
+
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+
+    if (filters.status !== undefined) {
+      if (!VALID_REPORT_STATUSES.includes(filters.status)) {
+        throw new ReportValidationError(`Invalid report status: ${filters.status}`);
+      }
+      values.push(filters.status);
+      conditions.push(`r.status = $${values.length}`);
+    }
+
+    if (filters.reason !== undefined) {
+      if (!VALID_REPORT_REASONS.includes(filters.reason)) {
+        throw new InvalidReportReasonError(filters.reason);
+      }
+      values.push(filters.reason);
+      conditions.push(`r.reason = $${values.length}`);
+    }
+
+    if (filters.search) {
+      values.push(`%${filters.search.replace(/[\\%_]/g, '\\$&')}%`);
+      const param = `$${values.length}`;
+      conditions.push(
+        `(rp.nickname ILIKE ${param} OR rp.email ILIKE ${param} OR ru.nickname ILIKE ${param} OR ru.email ILIKE ${param})`
+      );
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countResult = await db.query(
+      `
+        SELECT COUNT(*) as count
+        FROM user_reports r
+        JOIN users rp ON rp.user_id = r.reporter_id
+        JOIN users ru ON ru.user_id = r.reported_user_id
+        ${where}
+      `,
+      values
+    );
+    const totalItems = parseInt(countResult.rows[0].count, 10);
+
+    const result = await db.query(
+      `
+        ${ADMIN_REPORT_SELECT}
+        ${where}
+        ORDER BY r.created_at DESC, r.report_id DESC
+        LIMIT $${values.length + 1} OFFSET $${values.length + 2}
+      `,
+      [...values, limit, offset]
+    );
+
+    return createPaginationResponse(
+      result.rows.map(row => this.toAdminReport(row)),
+      totalItems,
+      page,
+      limit
+    );
+  }
+
+  /**
+   * Get a report for the admin console
+   * 
+   * Includes the reported user's earlier reports and how many reports
+   * each party is involved in. The sanction history is added by the caller.
+   * 
+   * @param reportId - Report ID
+   * @returns Report with history
+   * @throws ReportNotFoundError if the report doesn't exist
+   */
+  async getAdminReportDetail(reportId: number): Promise<Omit<AdminReportDetail, 'reportedUserSanctions'>> {
+    const db = getDatabaseService();
+
+    const result = await db.query(`${ADMIN_REPORT_SELECT} WHERE r.report_id = $1`, [reportId]);
+
+    if (result.rows.length === 0) {
+      throw new ReportNotFoundError(reportId);
+    }
+
+    const report = this.toAdminReport(result.rows[0]);
+
+    const [historyResult, reportedUserReportCount, reporterCountResult] = await Promise.all([
+      db.query(
+        `
+          ${ADMIN_REPORT_SELECT}
+          WHERE r.reported_user_id = $1 AND r.report_id != $2
+          ORDER BY r.created_at DESC, r.report_id DESC
+          LIMIT $3
+        `,
+        [report.reportedUser.userId, reportId, REPORT_HISTORY_LIMIT]
+      ),
+      this.getReportCountForUser(report.reportedUser.userId),
+      db.query('SELECT COUNT(*) as count FROM user_reports WHERE reporter_id = $1', [
+        report.reporter.userId,
+      ]),
+    ]);
+
+    return {
+      ...report,
+      reportedUserReportCount,
+      reportedUserHistory: historyResult.rows.map(row => this.toAdminReport(row)),
+      reporterReportCount: parseInt(reporterCountResult.rows[0].count, 10),
+    };
+  }
+
+  /**
+   * Convert a report row joined with ADMIN_REPORT_SELECT
+   */
+  private toAdminReport(row: Record<string, unknown>): AdminReport {
+    const report = keysToCamelCase(row);
+    const toUser = (userId: string | null, prefix: string): AdminUserSummary | null =>
+      userId
+        ? {
+            userId,
+            email: report[`${prefix}Email`],
+            nickname: report[`${prefix}Nickname`],
+            status: report[`${prefix}Status`],
+          }
+        : null;
+
+    return {
+      reportId: report.reportId,
+      reason: report.reason,
+      description: report.description,
+      status: report.status,
+      createdAt: report.createdAt,
+      reviewedAt: report.reviewedAt,
+      reporter: toUser(report.reporterId, 'reporter')!,
+      reportedUser: toUser(report.reportedUserId, 'reported')!,
+      reviewer: toUser(report.reviewedBy, 'reviewer'),
+      reportedUserSanction: report.reportedSanction,
+    };
+  }
 }
 
 /**
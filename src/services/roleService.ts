@@ -0,0 +1,83 @@
+/**
+ * Role Service Module
+ *
+ * Resolves a user's roles (user, moderator, admin) from two sources:
+ * - Cognito groups carried in the verified token (`cognito:groups`)
+ * - Grants stored in the user_roles table
+ *
+ * Roles are hierarchical: an admin is also a moderator, and every
+ * authenticated user has the user role.
+ */
+
+import { getDatabaseService } from './database';
+import type { UserRole } from '../types/database';
+
+/**
+ * Roles from lowest to highest privilege
+ */
+export const USER_ROLES: UserRole[] = ['user', 'moderator', 'admin'];
+
+/**
+ * Check whether a value is a known role
+ */
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && USER_ROLES.includes(value as UserRole);
+}
+
+/**
+ * Expand roles to include every lower role (admin implies moderator and user)
+ */
+export function expandRoles(roles: Iterable<UserRole>): UserRole[] {
+  const highest = Math.max(0, ...Array.from(roles, role => USER_ROLES.indexOf(role)));
+  return USER_ROLES.slice(0, highest + 1);
+}
+
+/**
+ * Role Service Class
+ */
+export class RoleService {
+  /**
+   * Get a user's effective roles
+   *
+   * @param userId - User ID
+   * @param groups - Cognito groups from the verified token
+   * @returns Roles from lowest to highest, always including 'user'
+   */
+  async getRoles(userId: string, groups: string[] = []): Promise<UserRole[]> {
+    const roles = new Set<UserRole>(groups.filter(isUserRole));
+
+    for (const role of await this.getGrantedRoles(userId)) {
+      roles.add(role);
+    }
+
+    return expandRoles(roles);
+  }
+
+  /**
+   * Get the roles granted to a user in the user_roles table
+   *
+   * @param userId - User ID
+   * @returns Granted roles
+   */
+  async getGrantedRoles(userId: string): Promise<UserRole[]> {
+    const db = getDatabaseService();
+
+    const result = await db.query('SELECT role FROM user_roles WHERE user_id = $1', [userId]);
+    return result.rows.map(row => row.role).filter(isUserRole);
+  }
+}
+
+/**
+ * Singleton instance
+ */
+let roleServiceInstance: RoleService | null = null;
+
+/**
+ * Get RoleService instance
+ */
+export function getRoleService(): RoleService {
+  if (!roleServiceInstance) {
+    roleServiceInstance = new RoleService();
+  }
+  return roleServiceInstance;
+}
@@ -0,0 +1,311 @@
+/**
+ * Sanction Service Module
+ *
+ * Applies automatic sanctions when reports against a user pass
+ * configurable thresholds within a time window:
+ * - flag: marks the user for attention on the admin console
+ * - suspend: sets users.status to 'inactive' until the suspension ends;
+ *   authMiddleware rejects the user meanwhile
+ * - escalate: asks moderators to review the user
+ *
+ * Each action is applied at most once per window. Suspensions end through
+ * the sanctions.lift background job, or when a moderator lifts them.
+ *
+ * Configuration (defaults in parentheses): SANCTION_WINDOW_HOURS (168),
+ * SANCTION_FLAG_THRESHOLD (3), SANCTION_SUSPEND_THRESHOLD (5),
+ * SANCTION_ESCALATE_THRESHOLD (10), SANCTION_SUSPENSION_HOURS (72).
+ * A threshold of 0 disables that action.
+ */
+
+import { getDatabaseService } from './database';
+import { keysToCamelCase } from './databaseUtils';
+import { getJobQueue } from './jobQueue';
+import { getReportService } from './reportService';
+import type { AccountStatus, SanctionAction, UserSanction } from '../types/database';
+
+/**
+ * Job type that lifts a suspension when it ends
+ */
+export const SANCTION_LIFT_JOB = 'sanctions.lift';
+
+/**
+ * Sanction Service Error Types
+ */
+export class SanctionNotFoundError extends Error {
+  constructor(sanctionId: number) {
+    super(`Sanction not found: ${sanctionId}`);
+    this.name = 'SanctionNotFoundError';
+  }
+}
+
+export class AccountSuspendedError extends Error {
+  constructor(public reason: string, public suspendedUntil: Date | null) {
+    super('This account is suspended');
+    this.name = 'AccountSuspendedError';
+  }
+}
+
+/**
+ * Read a non-negative integer from the environment
+ */
+function envInt(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isInteger(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Sanction Service Class
+ */
+export class SanctionService {
+  private windowHours = envInt('SANCTION_WINDOW_HOURS', 168);
+  private suspensionHours = envInt('SANCTION_SUSPENSION_HOURS', 72);
+  private thresholds: Array<{ action: SanctionAction; count: number }> = [
+    { action: 'flag', count: envInt('SANCTION_FLAG_THRESHOLD', 3) },
+    { action: 'suspend', count: envInt('SANCTION_SUSPEND_THRESHOLD', 5) },
+    { action: 'escalate', count: envInt('SANCTION_ESCALATE_THRESHOLD', 10) },
+  ];
+
+  /**
+   * Apply the sanctions a user's recent reports call for
+   *
+   * Called after a report is filed. Actions already applied within the
+   * current window aren't repeated, even if a moderator lifted them.
+   *
+   * @param userId - Reported user ID
+   * @returns Newly applied sanctions
+   */
+  async evaluateUser(userId: string): Promise<UserSanction[]> {
+    const db = getDatabaseService();
+    const reportCount = await getReportService().getReportCountForUser(userId, this.windowHours);
+
+    const reached = this.thresholds.filter(threshold => threshold.count > 0 && reportCount >= threshold.count);
+    if (reached.length === 0) {
+      return [];
+    }
+
+    return db.transaction(async client => {
+      // Serialize evaluations of the same user so concurrent reports don't double-apply
+      await client.query('SELECT user_id FROM users WHERE user_id = $1 FOR UPDATE', [userId]);
+
+      const existing = await client.query(
+        `
+          SELECT DISTINCT action
+          FROM user_sanctions
+          WHERE user_id = $1 AND created_at > NOW() - make_interval(hours => $2::integer)
+        `,
+        [userId, this.windowHours]
+      );
+      const applied = new Set(existing.rows.map(row => row.action));
+
+      const sanctions: UserSanction[] = [];
+      for (const { action, count } of reached) {
+        if (applied.has(action)) {
+          continue;
+        }
+
+        const reason = `${reportCount} reports within ${this.windowHours} hours (threshold ${count})`;
+        const result = await client.query(
+          `
+            INSERT INTO user_sanctions (user_id, action, reason, report_count, ends_at)
+            VALUES (
+              $1, $2, $3, $4,
+              CASE WHEN $2 = 'suspend' THEN NOW() + make_interval(hours => $5::integer) END
+            )
+            RETURNING *
+          `,
+          [userId, action, reason, reportCount, this.suspensionHours]
+        );
+        const sanction = this.toSanction(result.rows[0]);
+
+        if (action === 'suspend') {
+          await client.query(
+            "UPDATE users SET status = 'inactive' WHERE user_id = $1 AND status = 'active'",
+            [userId]
+          );
+          await getJobQueue().enqueue(
+            SANCTION_LIFT_JOB,
+            { sanctionId: sanction.sanctionId },
+            { runAt: sanction.endsAt ?? undefined, client }
+          );
+        }
+
+        sanctions.push(sanction);
+      }
+
+      return sanctions;
+    });
+  }
+
+  /**
+   * Get a user's active suspension
+   *
+   * @param userId - User ID
+   * @returns The suspension that ends last, or null if the user isn't suspended
+   */
+  async getActiveSuspension(userId: string): Promise<UserSanction | null> {
+    const db = getDatabaseService();
+
+    const result = await db.query(
+      `
+        SELECT *
+        FROM user_sanctions
+        WHERE user_id = $1
+          AND action = 'suspend'
+          AND lifted_at IS NULL
+          AND (ends_at IS NULL OR ends_at > NOW())
+        ORDER BY ends_at DESC NULLS FIRST
+        LIMIT 1
+      `,
+      [userId]
+    );
+
+    return result.rows.length > 0 ? this.toSanction(result.rows[0]) : null;
+  }
+
+  /**
+   * Throw if a user is suspended
+   *
+   * @param userId - User ID
+   * @throws AccountSuspendedError if the user has an active suspension
+   */
+  async assertNotSuspended(userId: string): Promise<void> {
+    const suspension = await this.getActiveSuspension(userId);
+    if (suspension) {
+      throw new AccountSuspendedError(suspension.reason, suspension.endsAt);
+    }
+  }
+
+  /**
+   * Get a user's suspension standing
+   *
+   * @param userId - User ID
+   * @returns Suspension state, reason and end time
+   */
+  async getAccountStatus(userId: string): Promise<Omit<AccountStatus, 'pendingDeletion'>> {
+    const suspension = await this.getActiveSuspension(userId);
+
+    return {
+      suspended: !!suspension,
+      reason: suspension?.reason ?? null,
+      suspendedUntil: suspension?.endsAt ?? null,
+    };
+  }
+
+  /**
+   * Get a user's sanction history, newest first
+   *
+   * @param userId - User ID
+   * @returns Sanctions, including lifted ones
+   */
+  async getSanctions(userId: string): Promise<UserSanction[]> {
+    const db = getDatabaseService();
+
+    const result = await db.query(
+      'SELECT * FROM user_sanctions WHERE user_id = $1 ORDER BY created_at DESC, sanction_id DESC',
+      [userId]
+    );
+
+    return result.rows.map(row => this.toSanction(row));
+  }
+
+  /**
+   * Lift a sanction
+   *
+   * Lifting a suspension reactivates the account unless another
+   * suspension is still active.
+   *
+   * @param sanctionId - Sanction ID
+   * @param liftedBy - User ID of the moderator, or null when the suspension ended
+   * @returns Lifted sanction
+   * @throws SanctionNotFoundError if the sanction doesn't exist
+   */
+  async liftSanction(sanctionId: number, liftedBy: string | null = null): Promise<UserSanction> {
+    const db = getDatabaseService();
+
+    return db.transaction(async client => {
+      const result = await client.query(
+        `
+          UPDATE user_sanctions
+          SET lifted_at = COALESCE(lifted_at, CURRENT_TIMESTAMP),
+              lifted_by = CASE WHEN lifted_at IS NULL THEN $2 ELSE lifted_by END
+          WHERE sanction_id = $1
+          RETURNING *
+        `,
+        [sanctionId, liftedBy]
+      );
+
+      if (result.rows.length === 0) {
+        throw new SanctionNotFoundError(sanctionId);
+      }
+
+      const sanction = this.toSanction(result.rows[0]);
+
+      if (sanction.action === 'suspend') {
+        await client.query(
+          `
+            UPDATE users
+            SET status = 'active'
+            WHERE user_id = $1
+              AND status = 'inactive'
+              AND NOT EXISTS (
+                SELECT 1 FROM user_sanctions
+                WHERE user_id = $1
+                  AND action = 'suspend'
+                  AND lifted_at IS NULL
+                  AND (ends_at IS NULL OR ends_at > NOW())
+              )
+          `,
+          [sanction.userId]
+        );
+      }
+
+      return sanction;
+    });
+  }
+
+  /**
+   * Handle the sanctions.lift job at the end of a suspension
+   */
+  async handleLiftJob(payload: { sanctionId: number }): Promise<void> {
+    try {
+      await this.liftSanction(payload.sanctionId);
+    } catch (error) {
+      // The sanction was deleted along with its user
+      if (!(error instanceof SanctionNotFoundError)) {
+        throw error;
+      }
+    }
+  }
+
+  private toSanction(row: Record<string, unknown>): UserSanction {
+    const sanction = keysToCamelCase(row);
+    return {
+      sanctionId: sanction.sanctionId,
+      userId: sanction.userId,
+      action: sanction.action,
+      reason: sanction.reason,
+      reportCount: sanction.reportCount,
+      endsAt: sanction.endsAt,
+      createdBy: sanction.createdBy,
+      createdAt: sanction.createdAt,
+      liftedAt: sanction.liftedAt,
+      liftedBy: sanction.liftedBy,
+      active: !sanction.liftedAt && (!sanction.endsAt || new Date(sanction.endsAt).getTime() > Date.now()),
+    };
+  }
+}
+
+/**
+ * Singleton instance
+ */
+let sanctionServiceInstance: SanctionService | null = null;
+
+/**
+ * Get SanctionService instance
+ */
+export function getSanctionService(): SanctionService {
+  if (!sanctionServiceInstance) {
+    sanctionServiceInstance = new SanctionService();
+  }
+  return sanctionServiceInstance;
+}
@@ -0,0 +1,158 @@
+/**
+ * Settings Service Module
+ *
+ * Stores user preferences (theme, language, notifications and the
+ * notification types the user turned off) in the
+ * user_settings table so they follow the user across devices. Users
+ * without a row get the defaults.
+ */
+
+import { getDatabaseService } from './database';
+import { keysToCamelCase } from './databaseUtils';
+import type {
+  LanguagePreference,
+  NotificationType,
+  ThemePreference,
+  UpdateUserSettingsData,
+  UserSettings,
+} from '../types/database';
+
+/**
+ * Allowed preference values
+ */
+export const THEME_PREFERENCES: ThemePreference[] = ['night', 'day'];
+export const LANGUAGE_PREFERENCES: LanguagePreference[] = ['ko', 'en', 'ja'];
+export const NOTIFICATION_TYPES: NotificationType[] = [
+  'inquiry_answered',
+  'report_resolved',
+  'writing_reminder',
+  'achievement_unlocked',
+];
+
+/**
+ * Settings of users who haven't saved any
+ */
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  theme: 'night',
+  language: 'ko',
+  notificationsEnabled: true,
+  notificationOptOuts: [],
+  updatedAt: null,
+};
+
+/**
+ * Settings Service Error Types
+ */
+export class SettingsValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SettingsValidationError';
+  }
+}
+
+/**
+ * Settings Service Class
+ */
+export class SettingsService {
+  /**
+   * Get a user's settings
+   *
+   * @param userId - User ID
+   * @returns Saved settings, or the defaults
+   */
+  async getSettings(userId: string): Promise<UserSettings> {
+    const db = getDatabaseService();
+
+    const result = await db.query('SELECT * FROM user_settings WHERE user_id = $1', [userId]);
+    return result.rows.length > 0 ? this.toSettings(result.rows[0]) : { ...DEFAULT_USER_SETTINGS };
+  }
+
+  /**
+   * Update a user's settings
+   *
+   * @param userId - User ID
+   * @param data - Fields to change
+   * @returns Updated settings
+   * @throws SettingsValidationError if a value is invalid
+   */
+  async updateSettings(userId: string, data: UpdateUserSettingsData): Promise<UserSettings> {
+    const db = getDatabaseService();
+
+    this.validate(data);
+
+    const result = await db.query(
+      `
+        INSERT INTO user_settings (user_id, theme, language, notifications_enabled, notification_opt_outs)
+        VALUES ($1, COALESCE($2, $6), COALESCE($3, $7), COALESCE($4::boolean, $8::boolean), COALESCE($5::varchar[], '{}'))
+        ON CONFLICT (user_id) DO UPDATE
+        SET theme = COALESCE($2, user_settings.theme),
+            language = COALESCE($3, user_settings.language),
+            notifications_enabled = COALESCE($4, user_settings.notifications_enabled),
+            notification_opt_outs = COALESCE($5, user_settings.notification_opt_outs)
+        RETURNING *
+      `,
+      [
+        userId,
+        data.theme ?? null,
+        data.language ?? null,
+        data.notificationsEnabled ?? null,
+        data.notificationOptOuts ? [...new Set(data.notificationOptOuts)] : null,
+        DEFAULT_USER_SETTINGS.theme,
+        DEFAULT_USER_SETTINGS.language,
+        DEFAULT_USER_SETTINGS.notificationsEnabled,
+      ]
+    );
+
+    return this.toSettings(result.rows[0]);
+  }
+
+  private validate(data: UpdateUserSettingsData): void {
+    if (typeof data !== 'object' || data === null) {
+      throw new SettingsValidationError('Settings must be an object');
+    }
+    if (data.theme !== undefined && !THEME_PREFERENCES.includes(data.theme)) {
+      throw new SettingsValidationError(`theme must be one of: ${THEME_PREFERENCES.join(', ')}`);
+    }
+    if (data.language !== undefined && !LANGUAGE_PREFERENCES.includes(data.language)) {
+      throw new SettingsValidationError(`language must be one of: ${LANGUAGE_PREFERENCES.join(', ')}`);
+    }
+    if (data.notificationsEnabled !== undefined && typeof data.notificationsEnabled !== 'boolean') {
+      throw new SettingsValidationError('notificationsEnabled must be a boolean');
+    }
+    if (
+      data.notificationOptOuts !== undefined &&
+      (!Array.isArray(data.notificationOptOuts) ||
+        data.notificationOptOuts.some(type => !NOTIFICATION_TYPES.includes(type)))
+    ) {
+      throw new SettingsValidationError(
+        `notificationOptOuts must be a list of: ${NOTIFICATION_TYPES.join(', ')}`
+      );
+    }
+  }
+
+  private toSettings(row: Record<string, unknown>): UserSettings {
+    const settings = keysToCamelCase<UserSettings & { userId: string; createdAt: Date }>(row);
+    return {
+      theme: settings.theme,
+      language: settings.language,
+      notificationsEnabled: settings.notificationsEnabled,
+      notificationOptOuts: settings.notificationOptOuts ?? [],
+      updatedAt: settings.updatedAt,
+    };
+  }
+}
+
+/**
+ * Singleton instance
+ */
+let settingsServiceInstance: SettingsService | null = null;
+
+/**
+ * Get SettingsService instance
+ */
+export function getSettingsService(): SettingsService {
+  if (!settingsServiceInstance) {
+    settingsServiceInstance = new SettingsService();
+  }
+  return settingsServiceInstance;
+}
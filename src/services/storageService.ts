@@ -0,0 +1,162 @@
+/**
+ * Storage Service Module
+ *
+ * Stores file content for the library behind a StorageDriver interface so
+ * that the backing store can change without touching callers. A local
+ * filesystem driver is provided; an S3-compatible driver can be registered
+ * with registerStorageDriver.
+ *
+ * Driver selection: STORAGE_DRIVER environment variable (default: local)
+ * Local driver root: STORAGE_LOCAL_ROOT (default: ./storage)
+ */
+
+import { createReadStream, createWriteStream } from 'fs';
+import { mkdir, rm, stat } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+
+/**
+ * Byte range of a file (inclusive, as in HTTP Range headers)
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Storage driver interface
+ */
+export interface StorageDriver {
+  readonly name: string;
+
+  /**
+   * Write content under a key, replacing any existing content
+   * @returns Number of bytes written
+   */
+  put(key: string, content: Readable): Promise<number>;
+
+  /**
+   * Open a stream over the content of a key, optionally limited to a byte range
+   * @throws StorageObjectNotFoundError if the key doesn't exist
+   */
+  getStream(key: string, range?: ByteRange): Promise<Readable>;
+
+  /**
+   * Size in bytes of the content of a key
+   * @throws StorageObjectNotFoundError if the key doesn't exist
+   */
+  getSize(key: string): Promise<number>;
+
+  /**
+   * Delete the content of a key; deleting a missing key is not an error
+   */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Storage Service Error Types
+ */
+export class StorageObjectNotFoundError extends Error {
+  constructor(key: string) {
+    super(`Storage object not found: ${key}`);
+    this.name = 'StorageObjectNotFoundError';
+  }
+}
+
+/**
+ * Local Filesystem Storage Driver
+ *
+ * Stores each key as a file below a root directory.
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local';
+
+  constructor(private root: string) {}
+
+  async put(key: string, content: Readable): Promise<number> {
+    const filePath = this.resolve(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await pipeline(content, createWriteStream(filePath));
+    return (await stat(filePath)).size;
+  }
+
+  async getStream(key: string, range?: ByteRange): Promise<Readable> {
+    await this.getSize(key);
+    return createReadStream(this.resolve(key), range ? { start: range.start, end: range.end } : undefined);
+  }
+
+  async getSize(key: string): Promise<number> {
+    try {
+      return (await stat(this.resolve(key))).size;
+    } catch {
+      throw new StorageObjectNotFoundError(key);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolve(key), { force: true });
+  }
+
+  /**
+   * Map a key to a path, refusing keys that would escape the root directory
+   */
+  private resolve(key: string): string {
+    const root = path.resolve(this.root);
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
+
+/**
+ * Registered driver factories, keyed by driver name
+ */
+const driverFactories = new Map<string, () => StorageDriver>([
+  ['local', () => new LocalStorageDriver(process.env.STORAGE_LOCAL_ROOT || './storage')],
+]);
+
+/**
+ * Register a storage driver
+ *
+ * Makes a driver selectable through STORAGE_DRIVER.
+ *
+ * @param name - Driver name
+ * @param factory - Function creating the driver
+ */
+export function registerStorageDriver(name: string, factory: () => StorageDriver): void {
+  driverFactories.set(name, factory);
+  drivers.delete(name);
+}
+
+/**
+ * Created drivers, keyed by driver name
+ */
+const drivers = new Map<string, StorageDriver>();
+
+/**
+ * Get a storage driver by name
+ *
+ * Items record the driver their content was written with, so content stays
+ * readable after STORAGE_DRIVER changes as long as the old driver is registered.
+ *
+ * @param name - Driver name (default: STORAGE_DRIVER or local)
+ * @returns Storage driver
+ * @throws Error if no driver with that name is registered
+ */
+export function getStorageDriver(name: string = process.env.STORAGE_DRIVER || 'local'): StorageDriver {
+  let driver = drivers.get(name);
+
+  if (!driver) {
+    const factory = driverFactories.get(name);
+    if (!factory) {
+      throw new Error(`Unknown storage driver: ${name}`);
+    }
+    driver = factory();
+    drivers.set(name, driver);
+  }
+
+  return driver;
+}
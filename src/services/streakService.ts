@@ -0,0 +1,145 @@
+/**
+ * Streak Service Module
+ *
+ * Calculates writing streaks from journal entry timestamps.
+ *
+ * A day counts as written when at least one entry was created on it, where
+ * the day is taken in the timezone the entry was written in (falling back to
+ * the profile timezone). This keeps an entry written at 00:30 on the day it
+ * was actually written, and keeps streaks intact for users who travel across
+ * timezones.
+ */
+
+import { getDatabaseService } from './database';
+import { JournalValidationError } from './journalService';
+import { addDays, DEFAULT_TIMEZONE, getDateInTimeZone } from './timezoneUtils';
+import type { DailyActivity, WritingStreak } from '../types/database';
+
+/**
+ * Default and maximum number of days returned in the activity list
+ */
+export const DEFAULT_ACTIVITY_DAYS = 30;
+export const MAX_ACTIVITY_DAYS = 366;
+
+/**
+ * Streak Service Class
+ */
+export class StreakService {
+  /**
+   * Get a user's writing streak
+   *
+   * The current streak stays alive until the end of today: if nothing has
+   * been written yet today, it counts back from yesterday.
+   *
+   * @param userId - User ID
+   * @param activityDays - Number of days (ending today) to include in the activity list
+   * @returns Writing streak
+   * @throws JournalValidationError if activityDays is out of range
+   */
+  async getStreak(userId: string, activityDays: number = DEFAULT_ACTIVITY_DAYS): Promise<WritingStreak> {
+    const db = getDatabaseService();
+
+    if (!Number.isInteger(activityDays) || activityDays < 0 || activityDays > MAX_ACTIVITY_DAYS) {
+      throw new JournalValidationError(`days must be between 0 and ${MAX_ACTIVITY_DAYS}`);
+    }
+
+    const profileResult = await db.query(
+      'SELECT timezone FROM user_profiles WHERE user_id = $1',
+      [userId]
+    );
+    const timezone: string = profileResult.rows[0]?.timezone || DEFAULT_TIMEZONE;
+
+    // created_at is stored in the database session's timezone; convert it to
+    // the writer's timezone before taking the calendar day
+    const daysResult = await db.query(
+      `
+        SELECT
+          (e.created_at::timestamptz AT TIME ZONE COALESCE(e.timezone, $2))::date AS day,
+          COUNT(*) as count
+        FROM journal_entries e
+        WHERE e.user_id = $1
+        GROUP BY day
+        ORDER BY day ASC
+      `,
+      [userId, timezone]
+    );
+
+    const counts = new Map<string, number>(
+      daysResult.rows.map(row => [row.day as string, parseInt(row.count, 10)])
+    );
+    const days = [...counts.keys()];
+    const today = getDateInTimeZone(new Date(), timezone);
+    const lastEntryDate = days.length > 0 ? days[days.length - 1] : null;
+
+    return {
+      timezone,
+      today,
+      currentStreak: this.getCurrentStreak(counts, today, lastEntryDate),
+      longestStreak: this.getLongestStreak(days),
+      lastEntryDate,
+      activity: this.getActivity(counts, today, activityDays),
+    };
+  }
+
+  /**
+   * Consecutive written days ending today (or yesterday)
+   */
+  private getCurrentStreak(counts: Map<string, number>, today: string, lastEntryDate: string | null): number {
+    // An entry written while abroad can fall on "tomorrow" in the profile timezone
+    let day = lastEntryDate && lastEntryDate > today ? lastEntryDate : today;
+    if (!counts.has(day)) {
+      day = addDays(day, -1);
+    }
+
+    let streak = 0;
+    while (counts.has(day)) {
+      streak++;
+      day = addDays(day, -1);
+    }
+    return streak;
+  }
+
+  /**
+   * Longest run of consecutive written days
+   */
+  private getLongestStreak(days: string[]): number {
+    let longest = 0;
+    let current = 0;
+    let previous: string | null = null;
+
+    for (const day of days) {
+      current = previous !== null && addDays(previous, 1) === day ? current + 1 : 1;
+      longest = Math.max(longest, current);
+      previous = day;
+    }
+
+    return longest;
+  }
+
+  /**
+   * Entry counts for the last activityDays days, oldest first
+   */
+  private getActivity(counts: Map<string, number>, today: string, activityDays: number): DailyActivity[] {
+    const activity: DailyActivity[] = [];
+    for (let offset = activityDays - 1; offset >= 0; offset--) {
+      const date = addDays(today, -offset);
+      activity.push({ date, count: counts.get(date) || 0 });
+    }
+    return activity;
+  }
+}
+
+/**
+ * Singleton instance
+ */
+let streakServiceInstance: StreakService | null = null;
+
+/**
+ * Get StreakService instance
+ */
+export function getStreakService(): StreakService {
+  if (!streakServiceInstance) {
+    streakServiceInstance = new StreakService();
+  }
+  return streakServiceInstance;
+}
@@ -0,0 +1,230 @@
+/**
+ * Summary Service Module
+ *
+ * Summarizes a day's journal entries for the "요약하기" flow.
+ * Summaries are produced by a pluggable SummaryProvider so that LLM-backed
+ * providers can be added later without touching callers. The default
+ * provider is a deterministic, local extractive summarizer.
+ *
+ * Provider selection: SUMMARY_PROVIDER environment variable (default: extractive)
+ */
+
+/**
+ * Input given to a summary provider
+ */
+export interface SummaryInput {
+  entries: string[];
+  maxSentences?: number;
+}
+
+/**
+ * Summary provider interface
+ */
+export interface SummaryProvider {
+  readonly name: string;
+  summarize(input: SummaryInput): Promise<string>;
+}
+
+/**
+ * Summary Service Error Types
+ */
+export class SummaryProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SummaryProviderError';
+  }
+}
+
+/**
+ * Default number of sentences kept by the extractive summarizer
+ */
+const DEFAULT_MAX_SENTENCES = 3;
+
+/**
+ * Words that carry no meaning on their own and are ignored when scoring
+ */
+const STOPWORDS = new Set([
+  // English
+  'a', 'an', 'the', 'and', 'or', 'but', 'if', 'so', 'to', 'of', 'in', 'on', 'at', 'for', 'with',
+  'is', 'am', 'are', 'was', 'were', 'be', 'been', 'it', 'this', 'that', 'i', 'me', 'my', 'we',
+  'you', 'he', 'she', 'they', 'them', 'his', 'her', 'our', 'your', 'do', 'did', 'not', 'just',
+  // Korean
+  '그리고', '그래서', '하지만', '그런데', '오늘', '정말', '너무', '그냥', '조금', '나는', '내가', '것',
+  // Japanese
+  'です', 'ます', 'した', 'して', 'これ', 'それ', 'あれ', 'こと', 'もの',
+]);
+
+/**
+ * Korean particles stripped from the end of words so that 사진을/사진이/사진 count as one term
+ */
+const KOREAN_PARTICLES = ['에서', '까지', '부터', '으로', '하고', '은', '는', '이', '가', '을', '를', '에', '의', '도', '와', '과', '로'];
+
+/**
+ * Split text into sentences
+ *
+ * Handles Western and CJK sentence punctuation as well as line breaks.
+ */
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?。！？])\s+|(?<=[。！？])|\n+/u)
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0);
+}
+
+/**
+ * Tokenize text into normalized terms
+ *
+ * - Latin/Hangul words are lowercased; Korean particles are stripped
+ * - Runs of kana/kanji (no word spacing) are split into character bigrams
+ */
+export function tokenize(text: string): string[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  const terms: string[] = [];
+
+  for (const word of words) {
+    if (/[\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Han}]/u.test(word)) {
+      if (word.length === 1) {
+        terms.push(word);
+      }
+      for (let i = 0; i < word.length - 1; i++) {
+        terms.push(word.slice(i, i + 2));
+      }
+      continue;
+    }
+
+    let term = word;
+    if (/[\p{Script=Hangul}]/u.test(term)) {
+      const particle = KOREAN_PARTICLES.find(p => term.length > p.length + 1 && term.endsWith(p));
+      if (particle) {
+        term = term.slice(0, -particle.length);
+      }
+    }
+
+    if (!STOPWORDS.has(term)) {
+      terms.push(term);
+    }
+  }
+
+  return terms;
+}
+
+/**
+ * Extractive Summary Provider
+ *
+ * Scores each sentence by the frequency of its terms across the whole day
+ * and keeps the highest scoring sentences in their original order.
+ * Deterministic: the same entries always produce the same summary.
+ */
+export class ExtractiveSummaryProvider implements SummaryProvider {
+  readonly name = 'extractive';
+
+  async summarize({ entries, maxSentences = DEFAULT_MAX_SENTENCES }: SummaryInput): Promise<string> {
+    const sentences = entries.flatMap(entry => splitSentences(entry));
+
+    if (sentences.length <= maxSentences) {
+      return sentences.join(' ');
+    }
+
+    const frequencies = new Map<string, number>();
+    const sentenceTerms = sentences.map(sentence => tokenize(sentence));
+    for (const terms of sentenceTerms) {
+      for (const term of terms) {
+        frequencies.set(term, (frequencies.get(term) || 0) + 1);
+      }
+    }
+
+    const scored = sentences.map((sentence, index) => {
+      const terms = sentenceTerms[index];
+      const total = terms.reduce((sum, term) => sum + (frequencies.get(term) || 0), 0);
+      // Normalize by length so long sentences don't always win
+      const score = terms.length > 0 ? total / Math.sqrt(terms.length) : 0;
+      return { index, score };
+    });
+
+    const selected = scored
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .slice(0, maxSentences)
+      .sort((a, b) => a.index - b.index);
+
+    return selected.map(({ index }) => sentences[index]).join(' ');
+  }
+}
+
+/**
+ * Registered provider factories, keyed by provider name
+ */
+const providerFactories = new Map<string, () => SummaryProvider>([
+  ['extractive', () => new ExtractiveSummaryProvider()],
+]);
+
+/**
+ * Register a summary provider
+ *
+ * Makes a provider selectable through SUMMARY_PROVIDER.
+ *
+ * @param name - Provider name
+ * @param factory - Function creating the provider
+ */
+export function registerSummaryProvider(name: string, factory: () => SummaryProvider): void {
+  providerFactories.set(name, factory);
+  summaryServiceInstance = null;
+}
+
+/**
+ * Summary Service Class
+ */
+export class SummaryService {
+  constructor(private provider: SummaryProvider) {}
+
+  /**
+   * Name of the active provider
+   */
+  get providerName(): string {
+    return this.provider.name;
+  }
+
+  /**
+   * Summarize a day's entries
+   *
+   * @param entries - Entry texts in writing order
+   * @returns Summary text
+   * @throws SummaryProviderError if the provider fails
+   */
+  async summarizeEntries(entries: string[]): Promise<string> {
+    const texts = entries.map(entry => entry.trim()).filter(entry => entry.length > 0);
+
+    if (texts.length === 0) {
+      return '';
+    }
+
+    try {
+      return (await this.provider.summarize({ entries: texts })).trim();
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new SummaryProviderError(`Summary provider "${this.provider.name}" failed: ${reason}`);
+    }
+  }
+}
+
+/**
+ * Singleton instance
+ */
+let summaryServiceInstance: SummaryService | null = null;
+
+/**
+ * Get SummaryService instance
+ */
+export function getSummaryService(): SummaryService {
+  if (!summaryServiceInstance) {
+    const providerName = process.env.SUMMARY_PROVIDER || 'extractive';
+    let factory = providerFactories.get(providerName);
+
+    if (!factory) {
+      console.warn(`Unknown SUMMARY_PROVIDER "${providerName}", falling back to extractive`);
+      factory = providerFactories.get('extractive')!;
+    }
+
+    summaryServiceInstance = new SummaryService(factory());
+  }
+  return summaryServiceInstance;
+}
@@ -0,0 +1,47 @@
+/**
+ * Timezone Utilities
+ *
+ * Helpers for working out calendar days in a user's timezone.
+ */
+
+/**
+ * Timezone used when a user hasn't configured one
+ */
+export const DEFAULT_TIMEZONE = 'Asia/Seoul';
+
+/**
+ * Check whether a string is an IANA timezone supported by the runtime
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone || timeZone.length > 64) {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Calendar day of an instant in a timezone, formatted as YYYY-MM-DD
+ */
+export function getDateInTimeZone(instant: Date, timeZone: string): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(instant);
+}
+
+/**
+ * Shift a YYYY-MM-DD day by a number of days
+ */
+export function addDays(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+}
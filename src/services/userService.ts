@@ -17,6 +17,7 @@ import {
   keysToCamelCase,
   keysToSnakeCase 
 } from './databaseUtils';
+import { isValidTimeZone } from './timezoneUtils';
 import type { 
   User, 
   UserProfile, 
@@ -78,7 +79,8 @@ export class UserService {
         u.updated_at,
         p.profile_image_url,
         p.bio,
-        p.phone_number
+        p.phone_number,
+        p.timezone
       FROM users u
       LEFT JOIN user_profiles p ON u.user_id = p.user_id
       WHERE u.user_id = $1 AND u.status != 'deleted'
@@ -100,7 +102,7 @@ export class UserService {
    * Update user profile
    * 
    * Updates user profile information with validation.
-   * Supports updating: nickname, profile_image_url, bio, phone_number
+   * Supports updating: nickname, profile_image_url, bio, phone_number, timezone
    * 
    * @param userId - Cognito user ID (sub)
    * @param updates - Profile fields to update
@@ -145,6 +147,10 @@ export class UserService {
       }
     }
 
+    if (updates.timezone !== undefined && !isValidTimeZone(updates.timezone)) {
+      throw new ValidationError('Invalid timezone');
+    }
+
     // Use transaction to ensure atomicity
     return await db.transaction(async (client) => {
       // Update users table if nickname is being changed
@@ -166,6 +172,9 @@ export class UserService {
       if (updates.phone_number !== undefined) {
         profileUpdates.phone_number = updates.phone_number;
       }
+      if (updates.timezone !== undefined) {
+        profileUpdates.timezone = updates.timezone;
+      }
 
       if (Object.keys(profileUpdates).length > 0) {
         const setClause = Object.keys(profileUpdates)
@@ -192,7 +201,8 @@ export class UserService {
           u.updated_at,
           p.profile_image_url,
           p.bio,
-          p.phone_number
+          p.phone_number,
+          p.timezone
         FROM users u
         LEFT JOIN user_profiles p ON u.user_id = p.user_id
         WHERE u.user_id = $1
@@ -364,7 +374,8 @@ export class UserService {
           u.updated_at,
           p.profile_image_url,
           p.bio,
-          p.phone_number
+          p.phone_number,
+          p.timezone
         FROM users u
         LEFT JOIN user_profiles p ON u.user_id = p.user_id
         WHERE u.user_id = $1
@@ -4,6 +4,8 @@
  * TypeScript interfaces for database models and queries.
  */
 
+import type { LibraryItemType, LibraryItemVisibility } from './library';
+
 /**
  * User table model
  */
@@ -17,6 +19,11 @@ export interface User {
   deleted_at: Date | null;
 }
 
+/**
+ * Access role; higher roles include the lower ones (user < moderator < admin)
+ */
+export type UserRole = 'user' | 'moderator' | 'admin';
+
 /**
  * User profile table model
  */
@@ -26,37 +33,137 @@ export interface UserProfile {
   profile_image_url: string | null;
   bio: string | null;
   phone_number: string | null;
+  timezone: string;  // IANA timezone, e.g. Asia/Seoul
   additional_info: Record<string, any> | null;
   created_at: Date;
   updated_at: Date;
 }
 
 /**
- * User report table model
+ * User report (user_reports row, camelCased by the service layer)
  */
 export interface UserReport {
-  report_id: number;
-  reporter_id: string;
-  reported_user_id: string;
+  reportId: number;
+  reporterId: string;
+  reportedUserId: string;
   reason: 'spam' | 'harassment' | 'inappropriate_content' | 'other';
   description: string | null;
   status: 'pending' | 'reviewed' | 'resolved';
-  created_at: Date;
-  reviewed_at: Date | null;
+  createdAt: Date;
+  reviewedAt: Date | null;
+  reviewedBy: string | null;  // moderator who last changed the status
 }
 
 /**
- * User inquiry table model
+ * User inquiry (user_inquiries row, camelCased by the service layer)
  */
 export interface UserInquiry {
-  inquiry_id: number;
-  user_id: string;
+  inquiryId: number;
+  userId: string;
   subject: string;
   message: string;
   status: 'pending' | 'answered' | 'closed';
-  response: string | null;
-  created_at: Date;
-  answered_at: Date | null;
+  response: string | null;  // latest staff response
+  createdAt: Date;
+  answeredAt: Date | null;
+  answeredBy: string | null;  // staff member who wrote the latest response
+}
+
+/**
+ * Journal entry (journal_entries row, camelCased by the service layer)
+ */
+export interface JournalEntry {
+  entryId: number;
+  userId: string;
+  content: string;
+  entryDate: string;  // YYYY-MM-DD
+  timezone: string | null;  // timezone the entry was written in
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Emotion polarity used by EmotionBadge
+ */
+export type EmotionType = 'positive' | 'neutral' | 'negative';
+
+/**
+ * Emotion detected in journal text
+ */
+export interface EmotionTag {
+  type: EmotionType;
+  label: string;
+  percentage: number;  // 0-100; the tags of one analysis add up to 100
+}
+
+/**
+ * Journal chapter (journal_chapters row, camelCased by the service layer)
+ */
+export interface JournalChapter {
+  chapterId: number;
+  userId: string;
+  chapterDate: string;  // YYYY-MM-DD
+  title: string;
+  preview: string | null;
+  summary: string | null;
+  summaryProvider: string | null;
+  summarySourceHash: string | null;
+  summarizedAt: Date | null;
+  emotions: EmotionTag[] | null;
+  entryCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+  entries?: JournalEntry[];
+}
+
+/**
+ * Journal import source format
+ */
+export type JournalImportFormat = 'markdown' | 'text' | 'dayone';
+
+/**
+ * Entry found in an import file, as shown in the dry-run preview
+ */
+export interface JournalImportPreviewEntry {
+  entryDate: string;  // YYYY-MM-DD
+  excerpt: string;
+  source: string;  // file name
+  duplicate: boolean;  // already in the journal or earlier in the import
+}
+
+/**
+ * Dry-run result of a journal import
+ */
+export interface JournalImportPreview {
+  files: Array<{ name: string; format: JournalImportFormat; entryCount: number }>;
+  totalEntries: number;
+  newEntries: number;
+  duplicateEntries: number;
+  dates: string[];  // days that would receive new entries
+  entries: JournalImportPreviewEntry[];
+  warnings: string[];
+}
+
+/**
+ * Result of a journal import
+ */
+export interface JournalImportResult {
+  importedEntries: number;
+  duplicateEntries: number;
+  dates: string[];  // days that received new entries (one chapter each)
+  warnings: string[];
+}
+
+/**
+ * Summary of a day's entries returned by the summaries endpoint
+ */
+export interface DailySummary {
+  date: string;  // YYYY-MM-DD
+  summary: string;
+  provider: string;
+  emotions: EmotionTag[];
+  entryCount: number;
+  cached: boolean;
 }
 
 /**
@@ -69,6 +176,7 @@ export interface FullUserProfile {
   profileImageUrl: string | null;
   bio: string | null;
   phoneNumber: string | null;
+  timezone: string;
   status: 'active' | 'inactive' | 'deleted';
   createdAt: Date;
   updatedAt: Date;
@@ -92,6 +200,7 @@ export interface UpdateUserProfileData {
   profile_image_url?: string;
   bio?: string;
   phone_number?: string;
+  timezone?: string;
 }
 
 /**
@@ -113,6 +222,16 @@ export interface CreateUserInquiryData {
   message: string;
 }
 
+/**
+ * Journal entry creation data
+ */
+export interface CreateJournalEntryData {
+  user_id: string;
+  content: string;
+  entry_date?: string;
+  timezone?: string;
+}
+
 /**
  * Database query options
  */
@@ -145,3 +264,412 @@ export interface DatabaseError extends Error {
   table?: string;
   constraint?: string;
 }
+
+/**
+ * Period covered by the insights dashboard
+ */
+export type InsightsRange = 'week' | 'month' | 'year';
+
+/**
+ * One point on the insights charts (a day for week/month, a month for year)
+ */
+export interface InsightsBucket {
+  period: string;  // YYYY-MM-DD, or YYYY-MM for the year range
+  entryCount: number;
+  activeDays: number;
+  positive: number;  // average share (0-100) of each emotion type across the period's chapters
+  neutral: number;
+  negative: number;
+}
+
+/**
+ * Emotion and writing statistics for a range
+ */
+export interface JournalInsights {
+  range: InsightsRange;
+  startDate: string;  // YYYY-MM-DD
+  endDate: string;  // YYYY-MM-DD
+  totalEntries: number;
+  activeDays: number;
+  averageEntriesPerDay: number;  // over days with at least one entry
+  buckets: InsightsBucket[];
+  topEmotions: EmotionTag[];  // label distribution across the range
+}
+
+
+/**
+ * What an achievement measures
+ */
+export type AchievementCategory = 'journal' | 'streak' | 'photo';
+
+/**
+ * Achievement with the user's progress toward it
+ */
+export interface UserAchievement {
+  key: string;
+  label: string;
+  category: AchievementCategory;
+  target: number;
+  progress: number;  // capped at target
+  earned: boolean;
+  unlockedAt: Date | null;
+}
+
+/**
+ * Number of entries written on a day
+ */
+export interface DailyActivity {
+  date: string;  // YYYY-MM-DD
+  count: number;
+}
+
+/**
+ * Writing streak of a user, with days counted in the user's timezone
+ */
+export interface WritingStreak {
+  timezone: string;
+  today: string;  // YYYY-MM-DD in the user's timezone
+  currentStreak: number;
+  longestStreak: number;
+  lastEntryDate: string | null;
+  activity: DailyActivity[];  // oldest first, including days without entries
+}
+
+
+/**
+ * Progress of thumbnail and preview generation for a library item
+ */
+export type LibraryProcessingStatus = 'pending' | 'ready' | 'failed';
+
+/**
+ * Library item as stored in the library_items table
+ */
+export interface LibraryItemRecord {
+  itemId: string;
+  userId: string;
+  name: string;
+  type: LibraryItemType;
+  visibility: LibraryItemVisibility;
+  mimeType: string;
+  size: number;
+  storageDriver: string;
+  storageKey: string;
+  width: number | null;
+  height: number | null;
+  thumbnailKey: string | null;
+  previewKey: string | null;
+  preview: string | null;
+  processingStatus: LibraryProcessingStatus;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Library item as returned by the API
+ */
+export interface LibraryItemData {
+  id: string;
+  name: string;
+  type: LibraryItemType;
+  visibility: LibraryItemVisibility;
+  mimeType: string;
+  size: number;
+  width: number | null;
+  height: number | null;
+  thumbnail: string | null;  // signed URL of the WebP thumbnail
+  previewUrl: string | null;  // signed URL of the JPEG preview (images)
+  preview: string | null;  // text snippet (documents)
+  processingStatus: LibraryProcessingStatus;
+  contentUrl: string;  // signed, so it also works in <img> and <video> tags
+  createdAt: Date;
+}
+
+/**
+ * Share link of a library item
+ */
+export interface LibraryShareLink {
+  id: number;
+  itemId: string;
+  token: string;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+  active: boolean;  // not revoked and not expired
+  createdAt: Date;
+}
+
+/**
+ * Library item as seen through a share link (read-only, without owner details)
+ */
+export interface SharedLibraryItem {
+  name: string;
+  type: LibraryItemType;
+  mimeType: string;
+  size: number;
+  width: number | null;
+  height: number | null;
+  thumbnail: string | null;
+  previewUrl: string | null;
+  preview: string | null;
+  contentUrl: string;  // served through the share link, so it stops working when the link does
+  createdAt: Date;
+  expiresAt: Date | null;
+}
+
+/**
+ * Moderation status of a user report
+ */
+export type ReportStatus = UserReport['status'];
+
+/**
+ * User details shown on the admin console
+ */
+export interface AdminUserSummary {
+  userId: string;
+  email: string;
+  nickname: string;
+  status: User['status'];
+}
+
+/**
+ * User report as returned by the admin endpoints
+ */
+export interface AdminReport {
+  reportId: number;
+  reason: UserReport['reason'];
+  description: string | null;
+  status: ReportStatus;
+  createdAt: Date;
+  reviewedAt: Date | null;
+  reporter: AdminUserSummary;
+  reportedUser: AdminUserSummary;
+  reviewer: AdminUserSummary | null;
+  reportedUserSanction: SanctionAction | null;  // most serious active sanction (escalate > suspend > flag)
+}
+
+/**
+ * Report with the history of the users involved
+ */
+export interface AdminReportDetail extends AdminReport {
+  reportedUserReportCount: number;  // reports against the reported user, including this one
+  reportedUserHistory: AdminReport[];  // other reports against the reported user, newest first
+  reporterReportCount: number;  // reports filed by the reporter, including this one
+  reportedUserSanctions: UserSanction[];  // newest first
+}
+
+/**
+ * Filters for the admin report list
+ */
+export interface AdminReportFilters {
+  status?: ReportStatus;
+  reason?: UserReport['reason'];
+  search?: string;  // matches the nickname or email of the reporter or reported user
+  page?: number;
+  pageSize?: number;
+}
+
+/**
+ * Status of a user inquiry
+ */
+export type InquiryStatus = UserInquiry['status'];
+
+/**
+ * Message in an inquiry thread (follow-up, staff response or internal note)
+ */
+export interface InquiryMessage {
+  messageId: number;
+  inquiryId: number;
+  authorRole: 'user' | 'staff';
+  authorNickname: string | null;
+  body: string;
+  isInternal: boolean;  // staff-only note; never returned to the user
+  createdAt: Date;
+}
+
+/**
+ * Inquiry with its thread; the original message comes first as `message`
+ */
+export interface InquiryThread {
+  inquiryId: number;
+  subject: string;
+  message: string;
+  status: InquiryStatus;
+  response: string | null;
+  createdAt: Date;
+  answeredAt: Date | null;
+  messages: InquiryMessage[];  // oldest first
+}
+
+/**
+ * Inquiry as listed in the admin queue
+ */
+export interface AdminInquiry {
+  inquiryId: number;
+  subject: string;
+  status: InquiryStatus;
+  createdAt: Date;
+  answeredAt: Date | null;
+  lastMessageAt: Date;  // latest user or staff message, including the original
+  messageCount: number;  // follow-ups and responses, excluding internal notes
+  user: AdminUserSummary;
+  answeredBy: AdminUserSummary | null;
+}
+
+/**
+ * Inquiry thread as seen by staff, including internal notes
+ */
+export interface AdminInquiryThread extends InquiryThread {
+  user: AdminUserSummary;
+  answeredBy: AdminUserSummary | null;
+}
+
+/**
+ * Filters for the admin inquiry queue
+ */
+export interface AdminInquiryFilters {
+  status?: InquiryStatus;
+  search?: string;  // matches the subject or the user's nickname or email
+  page?: number;
+  pageSize?: number;
+}
+
+/**
+ * Action taken against a reported user
+ */
+export type SanctionAction = 'flag' | 'suspend' | 'escalate';
+
+/**
+ * Sanction history entry (user_sanctions row)
+ */
+export interface UserSanction {
+  sanctionId: number;
+  userId: string;
+  action: SanctionAction;
+  reason: string;
+  reportCount: number | null;  // reports in the window when applied automatically
+  endsAt: Date | null;  // end of a suspension
+  createdBy: string | null;  // null when applied automatically
+  createdAt: Date;
+  liftedAt: Date | null;
+  liftedBy: string | null;
+  active: boolean;  // not lifted and, for suspensions, not yet ended
+}
+
+/**
+ * Account standing returned by /api/user/account-status
+ */
+export interface AccountStatus {
+  suspended: boolean;
+  reason: string | null;
+  suspendedUntil: Date | null;  // null when not suspended
+  pendingDeletion: PendingDeletion | null;  // set while the account can still be restored
+}
+
+/**
+ * Soft-deleted account awaiting its purge
+ */
+export interface PendingDeletion {
+  deletedAt: Date;
+  purgeAt: Date;  // end of the grace period
+}
+
+/**
+ * Personal data export status
+ */
+export type UserExportStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'expired';
+
+/**
+ * Personal data export (ZIP archive of a user's data)
+ */
+export interface UserExport {
+  exportId: string;
+  status: UserExportStatus;
+  size: number | null;  // archive size in bytes, once completed
+  error: string | null;  // set when failed
+  createdAt: Date;
+  completedAt: Date | null;
+  expiresAt: Date | null;  // archive is deleted after this time
+}
+
+/**
+ * Library theme preference (night-library or day-library)
+ */
+export type ThemePreference = 'night' | 'day';
+
+/**
+ * Display language preference
+ */
+export type LanguagePreference = 'ko' | 'en' | 'ja';
+
+/**
+ * Kinds of notifications sent to users
+ */
+export type NotificationType =
+  | 'inquiry_answered'
+  | 'report_resolved'
+  | 'writing_reminder'
+  | 'achievement_unlocked';
+
+/**
+ * User preferences returned by /api/user/settings
+ */
+export interface UserSettings {
+  theme: ThemePreference;
+  language: LanguagePreference;
+  notificationsEnabled: boolean;
+  notificationOptOuts: NotificationType[];  // types not sent even when notifications are enabled
+  updatedAt: Date | null;  // null until the user first saves settings
+}
+
+/**
+ * Settings update; omitted fields are left unchanged
+ */
+export type UpdateUserSettingsData = Partial<Omit<UserSettings, 'updatedAt'>>;
+
+/**
+ * In-app notification (notifications table)
+ */
+export interface UserNotification {
+  notificationId: string;
+  userId: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  link: string | null;
+  readAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * Notification center contents
+ */
+export interface NotificationList {
+  notifications: UserNotification[];
+  unreadCount: number;
+}
+
+/**
+ * Web Push subscription sent by the browser (PushSubscription.toJSON())
+ */
+export interface PushSubscriptionData {
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+}
+
+/**
+ * Daily writing reminder schedule (reminder_schedules table)
+ */
+export interface ReminderSchedule {
+  enabled: boolean;
+  time: string;        // local time of day, HH:MM
+  weekdays: number[];  // 0 (Sunday) to 6 (Saturday)
+  timezone: string;    // IANA timezone
+  lastSentOn: string | null;  // YYYY-MM-DD
+}
+
+/**
+ * Reminder schedule as saved by the user
+ */
+export type SaveReminderScheduleData = Omit<ReminderSchedule, 'lastSentOn'>;
@@ -11,6 +11,12 @@ export interface LibraryItem {
   preview?: string;
   createdAt: Date;
   size?: number;
+  mimeType?: string;
+  contentUrl?: string;
+  previewUrl?: string;
+  width?: number;
+  height?: number;
+  processingStatus?: "pending" | "ready" | "failed";
 }
 
 export interface LibraryTypeConfig {